@@ -0,0 +1,246 @@
+"use client";
+
+import * as React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioTower, RefreshCw, Send } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { addLog } from "@/lib/app-logger";
+import {
+  ADMS_SOURCE_TYPE,
+  getAdmsOverview,
+  queueAdmsCommand,
+  setAdmsDeviceApproval,
+  type AdmsCommandStatus,
+  type AdmsOverview,
+} from "@/lib/zkteco/adms/api";
+import { ZK_PUNCH_CODES } from "@/lib/zkteco/time/api";
+import { PunchCodeMappingCard } from "@/components/attendance/punch-code-mapping-card";
+
+const REFRESH_INTERVAL_MS = 30000;
+
+const COMMAND_PRESETS = [
+  { value: "INFO", label: "INFO: report device status" },
+  { value: "CHECK", label: "CHECK: re-handshake and resume uploads" },
+  { value: "REBOOT", label: "REBOOT: restart the terminal" },
+  { value: "DATA QUERY ATTLOG", label: "DATA QUERY ATTLOG: re-upload a date range" },
+];
+
+const COMMAND_STATUS_CLASSES: Record<AdmsCommandStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800 border border-yellow-300 dark:bg-yellow-700/30 dark:text-yellow-300 dark:border-yellow-600",
+  sent: "bg-blue-100 text-blue-800 border border-blue-300 dark:bg-blue-700/30 dark:text-blue-300 dark:border-blue-600",
+  done: "bg-green-100 text-green-800 border border-green-300 dark:bg-green-700/30 dark:text-green-300 dark:border-green-600",
+  failed: "bg-red-100 text-red-800 border border-red-300 dark:bg-red-700/30 dark:text-red-300 dark:border-red-600",
+};
+
+export default function AdmsPage() {
+  const { toast } = useToast();
+  const [overview, setOverview] = React.useState<AdmsOverview | null>(null);
+  const [commandDevice, setCommandDevice] = React.useState("");
+  const [commandText, setCommandText] = React.useState("");
+  const [isQueueing, setIsQueueing] = React.useState(false);
+  const [serverOrigin, setServerOrigin] = React.useState("");
+
+  const loadOverview = React.useCallback(async () => {
+    try {
+      setOverview(await getAdmsOverview());
+    } catch (error) {
+      addLog("AdmsPage", `Error loading ADMS devices: ${error instanceof Error ? error.message : String(error)}`, "Error");
+    }
+  }, []);
+
+  React.useEffect(() => {
+    setServerOrigin(window.location.origin);
+    loadOverview();
+    const interval = setInterval(loadOverview, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadOverview]);
+
+  const handleApprovalChange = async (serialNumber: string, approved: boolean) => {
+    try {
+      await setAdmsDeviceApproval(serialNumber, approved);
+      addLog("AdmsPage", `ADMS device ${serialNumber} ${approved ? "approved" : "blocked"} by user.`, "Info");
+      toast({ title: approved ? "Device Approved" : "Device Blocked", description: approved ? `${serialNumber} can now upload punches.` : `Uploads from ${serialNumber} will be refused.` });
+      await loadOverview();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      addLog("AdmsPage", `Error updating approval for ${serialNumber}: ${msg}`, "Error");
+      toast({ title: "Update Failed", description: msg, variant: "destructive" });
+    }
+  };
+
+  const handlePresetChange = (value: string) => {
+    if (value === "DATA QUERY ATTLOG") {
+      const today = format(new Date(), "yyyy-MM-dd");
+      setCommandText(`DATA QUERY ATTLOG StartTime=${today} 00:00:00\tEndTime=${today} 23:59:59`);
+    } else {
+      setCommandText(value);
+    }
+  };
+
+  const handleQueueCommand = async () => {
+    if (!commandDevice || !commandText.trim()) return;
+    setIsQueueing(true);
+    try {
+      const command = await queueAdmsCommand(commandDevice, commandText);
+      addLog("AdmsPage", `Queued command #${command.id} '${command.command}' for ${commandDevice}.`, "Info");
+      toast({ title: "Command Queued", description: `The device picks it up on its next poll.` });
+      setCommandText("");
+      await loadOverview();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      addLog("AdmsPage", `Error queueing command for ${commandDevice}: ${msg}`, "Error");
+      toast({ title: "Queue Failed", description: msg, variant: "destructive" });
+    }
+    setIsQueueing(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-lg">
+        <CardHeader className="border-b flex flex-row items-center justify-between">
+          <div>
+            <div className="flex items-center gap-3">
+              <RadioTower className="h-8 w-8 text-primary" />
+              <CardTitle className="font-headline text-2xl">ZKTeco ADMS (Push) Devices</CardTitle>
+            </div>
+            <CardDescription className="mt-1.5">
+              Terminals in ADMS mode upload punches to this server themselves. Set the device&apos;s Cloud Server address to{" "}
+              <span className="font-mono">{serverOrigin || "this server"}</span>. New devices must be approved before their uploads are accepted.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadOverview}>
+            <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="p-3">Serial Number</TableHead>
+                <TableHead className="p-3">Address</TableHead>
+                <TableHead className="p-3">Firmware</TableHead>
+                <TableHead className="p-3">Users / Records</TableHead>
+                <TableHead className="p-3">Last Upload Stamp</TableHead>
+                <TableHead className="p-3">Last Seen</TableHead>
+                <TableHead className="p-3 text-right">Approved</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overview?.devices.length ? overview.devices.map(device => (
+                <TableRow key={device.serial_number}>
+                  <TableCell className="p-3 font-mono">{device.serial_number}</TableCell>
+                  <TableCell className="p-3">{device.last_ip || device.device_info.deviceIp || "-"}</TableCell>
+                  <TableCell className="p-3">{device.device_info.firmwareVersion || "-"}</TableCell>
+                  <TableCell className="p-3">
+                    {device.device_info.userCount ?? device.user_count} / {device.device_info.attendanceCount ?? "-"}
+                  </TableCell>
+                  <TableCell className="p-3 font-mono text-xs">{device.attlog_stamp || "-"}</TableCell>
+                  <TableCell className="p-3" title={format(new Date(device.last_seen_at), "PPpp")}>
+                    {formatDistanceToNow(new Date(device.last_seen_at), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell className="p-3 text-right">
+                    <Switch checked={device.approved} onCheckedChange={(checked) => handleApprovalChange(device.serial_number, checked)} />
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                    No device has contacted the ADMS endpoints yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg rounded-lg">
+        <CardHeader className="border-b">
+          <div className="flex items-center gap-3">
+            <Send className="h-8 w-8 text-primary" />
+            <CardTitle className="font-headline text-2xl">Device Commands</CardTitle>
+          </div>
+          <CardDescription>Commands are queued here and delivered when the device next polls /iclock/getrequest.</CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="command-device">Device</Label>
+              <Select value={commandDevice} onValueChange={setCommandDevice}>
+                <SelectTrigger id="command-device">
+                  <SelectValue placeholder="Select device" />
+                </SelectTrigger>
+                <SelectContent>
+                  {overview?.devices.map(device => (
+                    <SelectItem key={device.serial_number} value={device.serial_number}>{device.serial_number}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="command-preset">Preset</Label>
+              <Select onValueChange={handlePresetChange}>
+                <SelectTrigger id="command-preset">
+                  <SelectValue placeholder="Choose a common command" />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMMAND_PRESETS.map(preset => (
+                    <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="command-text">Command</Label>
+              <div className="flex gap-2">
+                <Input id="command-text" value={commandText} onChange={(e) => setCommandText(e.target.value)} placeholder="e.g., INFO" className="font-mono" />
+                <Button onClick={handleQueueCommand} disabled={isQueueing || !commandDevice || !commandText.trim()}>Queue</Button>
+              </div>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="p-3 w-[60px]">#</TableHead>
+                <TableHead className="p-3">Device</TableHead>
+                <TableHead className="p-3">Command</TableHead>
+                <TableHead className="p-3">Queued</TableHead>
+                <TableHead className="p-3 text-right">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overview?.commands.length ? overview.commands.map(command => (
+                <TableRow key={command.id}>
+                  <TableCell className="p-3">{command.id}</TableCell>
+                  <TableCell className="p-3 font-mono">{command.serial_number}</TableCell>
+                  <TableCell className="p-3 font-mono text-xs break-all">{command.command}</TableCell>
+                  <TableCell className="p-3">{format(new Date(command.created_at), "Pp")}</TableCell>
+                  <TableCell className="p-3 text-right">
+                    <Badge variant="secondary" className={COMMAND_STATUS_CLASSES[command.status]}>
+                      {command.status}{command.return_code !== null && command.return_code !== 0 ? ` (${command.return_code})` : ""}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-16 text-center text-muted-foreground">No commands queued yet.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <PunchCodeMappingCard sourceType={ADMS_SOURCE_TYPE} standardCodes={ZK_PUNCH_CODES} codeLabel="punch state" logSource="AdmsPage" />
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { listAdmsDevices, queueCommand } from '@/lib/server/adms-store';
+
+/**
+ * Queues a command for a device's next poll. Body: `{ serial_number, command }`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const serialNumber = body?.serial_number;
+    const command = typeof body?.command === 'string' ? body.command.trim() : '';
+    if (typeof serialNumber !== 'string' || !command) {
+      return NextResponse.json({ error: 'Body must contain "serial_number" and a non-empty "command".' }, { status: 400 });
+    }
+    // The reply to getrequest is line-based, so a command must stay on one line.
+    if (/[\r\n]/.test(command)) {
+      return NextResponse.json({ error: 'Commands must be a single line.' }, { status: 400 });
+    }
+    if (!listAdmsDevices().some(device => device.serial_number === serialNumber)) {
+      return NextResponse.json({ error: `Unknown device '${serialNumber}'.` }, { status: 404 });
+    }
+    return NextResponse.json({ command: queueCommand(serialNumber, command) }, { status: 201 });
+  } catch (error) {
+    console.error('ADMS API: Error queueing command:', error);
+    return NextResponse.json({ error: 'Failed to queue command.' }, { status: 500 });
+  }
+}
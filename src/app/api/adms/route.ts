@@ -0,0 +1,34 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { listAdmsDevices, listRecentCommands, setDeviceApproval } from '@/lib/server/adms-store';
+
+/**
+ * Lists ADMS devices and recent commands.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ devices: listAdmsDevices(), commands: listRecentCommands() });
+  } catch (error) {
+    console.error('ADMS API: Error listing devices:', error);
+    return NextResponse.json({ error: 'Failed to list ADMS devices.' }, { status: 500 });
+  }
+}
+
+/**
+ * Approves or blocks a device. Body: `{ serial_number, approved }`.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (typeof body?.serial_number !== 'string' || typeof body?.approved !== 'boolean') {
+      return NextResponse.json({ error: 'Body must contain "serial_number" and a boolean "approved".' }, { status: 400 });
+    }
+    if (!setDeviceApproval(body.serial_number, body.approved)) {
+      return NextResponse.json({ error: `Unknown device '${body.serial_number}'.` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('ADMS API: Error updating device approval:', error);
+    return NextResponse.json({ error: 'Failed to update device approval.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import {
+  dismissAnomaly,
+  getAnomalySettings,
+  listAnomalies,
+  saveAnomalySettings,
+  scanRecentTransactions,
+} from '@/lib/server/anomaly-store';
+import { ANOMALY_RULES, type AnomalyRule, type AnomalySettings } from '@/lib/attendance-anomalies';
+
+const ANOMALY_RULE_VALUES = ANOMALY_RULES.map(rule => rule.value);
+
+const NUMERIC_LIMITS: Array<{ field: keyof AnomalySettings; min: number; max: number }> = [
+  { field: 'maxShiftHours', min: 1, max: 72 },
+  { field: 'doubleTapSeconds', min: 1, max: 3600 },
+  { field: 'usualHoursToleranceMinutes', min: 0, max: 720 },
+  { field: 'usualHoursMinPunches', min: 2, max: 1000 },
+  { field: 'historyDays', min: 1, max: 365 },
+];
+
+function validateSettings(value: unknown): AnomalySettings | string {
+  const body = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  if (!Array.isArray(body.enabledRules) || body.enabledRules.some((rule: unknown) => !ANOMALY_RULE_VALUES.includes(rule as AnomalyRule))) {
+    return `"enabledRules" must list rules out of: ${ANOMALY_RULE_VALUES.join(', ')}.`;
+  }
+  for (const { field, min, max } of NUMERIC_LIMITS) {
+    const fieldValue = body[field];
+    if (typeof fieldValue !== 'number' || !Number.isInteger(fieldValue) || fieldValue < min || fieldValue > max) return `"${field}" must be a whole number between ${min} and ${max}.`;
+  }
+  if (typeof body.timeZone !== 'string' || typeof body.holdFlagged !== 'boolean') {
+    return '"timeZone" must be a string and "holdFlagged" a boolean.';
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: body.timeZone });
+  } catch {
+    return `Unknown time zone '${body.timeZone}'.`;
+  }
+  const settings = body as unknown as AnomalySettings; // Every field is checked above
+  return {
+    enabledRules: Array.from(new Set<AnomalyRule>(settings.enabledRules)),
+    maxShiftHours: settings.maxShiftHours,
+    doubleTapSeconds: settings.doubleTapSeconds,
+    usualHoursToleranceMinutes: settings.usualHoursToleranceMinutes,
+    usualHoursMinPunches: settings.usualHoursMinPunches,
+    historyDays: settings.historyDays,
+    timeZone: settings.timeZone,
+    holdFlagged: settings.holdFlagged,
+  };
+}
+
+/**
+ * Returns the exceptions with their transactions and the rule settings.
+ * Query parameter: `resolved=1` also lists dismissed and cleared exceptions.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const includeResolved = request.nextUrl.searchParams.get('resolved') === '1';
+    return NextResponse.json({ anomalies: listAnomalies(includeResolved), settings: getAnomalySettings() });
+  } catch (error) {
+    console.error('Anomaly API: Error reading exceptions:', error);
+    return NextResponse.json({ error: 'Failed to read the attendance exceptions.' }, { status: 500 });
+  }
+}
+
+/**
+ * Saves the rule settings and re-checks recent transactions under them. Body: `AnomalySettings`.
+ */
+export async function PUT(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const settings = validateSettings(body);
+  if (typeof settings === 'string') return NextResponse.json({ error: settings }, { status: 400 });
+
+  try {
+    const { held, released } = saveAnomalySettings(settings);
+    const scan = scanRecentTransactions();
+    return NextResponse.json({ ...scan, held: held + scan.held, released: released + scan.released });
+  } catch (error) {
+    console.error('Anomaly API: Error saving rule settings:', error);
+    return NextResponse.json({ error: 'Failed to save the exception rule settings.' }, { status: 500 });
+  }
+}
+
+/**
+ * Body: `{ action: 'scan' | 'dismiss', ... }`.
+ * - 'scan': checks the transactions of the last `historyDays` days; responds with an AnomalyScanResult.
+ * - 'dismiss': `{ transaction_id, rule, actor, reason }`; accepts the flagged transaction as it is.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    if (body?.action === 'scan') {
+      return NextResponse.json(scanRecentTransactions());
+    }
+
+    if (body?.action === 'dismiss') {
+      const actor = typeof body.actor === 'string' ? body.actor.trim() : '';
+      const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+      if (typeof body.transaction_id !== 'string' || !ANOMALY_RULE_VALUES.includes(body.rule)) {
+        return NextResponse.json({ error: 'Body must contain "transaction_id" and a valid "rule".' }, { status: 400 });
+      }
+      if (!actor || !reason) return NextResponse.json({ error: '"actor" and "reason" are required to dismiss an exception.' }, { status: 400 });
+      const result = dismissAnomaly(body.transaction_id, body.rule, { actor, reason });
+      if (result.error) return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 });
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json({ error: `Invalid action '${body?.action}'.` }, { status: 400 });
+  } catch (error) {
+    console.error(`Anomaly API: Error handling '${body?.action}':`, error);
+    return NextResponse.json({ error: 'Failed to update the attendance exceptions.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,134 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import {
+  correctTransaction,
+  createManualTransaction,
+  getTransactionHistory,
+  voidTransaction,
+  type AttendanceChangeResult,
+} from '@/lib/server/attendance-store';
+import { rescanEmployee } from '@/lib/server/anomaly-store';
+import { MANUAL_TRANSACTION_TYPES } from '@/lib/attendance-manager';
+import type { AttendanceChangeAuthor, AttendanceCorrection, ManualAttendanceTransaction, TransactionType } from '@/lib/attendance-manager';
+
+const MAX_ACTOR_LENGTH = 200;
+const MAX_REASON_LENGTH = 1000;
+
+function asFields(value: unknown): Record<string, unknown> {
+  return (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+}
+
+function validateAuthor(body: unknown): AttendanceChangeAuthor | string {
+  const { actor: rawActor, reason: rawReason } = asFields(body);
+  const actor = typeof rawActor === 'string' ? rawActor.trim() : '';
+  const reason = typeof rawReason === 'string' ? rawReason.trim() : '';
+  if (!actor || actor.length > MAX_ACTOR_LENGTH) return `"actor" must name who makes the change (up to ${MAX_ACTOR_LENGTH} characters).`;
+  if (!reason || reason.length > MAX_REASON_LENGTH) return `"reason" must explain the change (up to ${MAX_REASON_LENGTH} characters).`;
+  return { actor, reason };
+}
+
+function isValidTime(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(new Date(value).getTime());
+}
+
+function isManualType(value: unknown): value is TransactionType {
+  return MANUAL_TRANSACTION_TYPES.includes(value as TransactionType);
+}
+
+function validateManualTransaction(value: unknown): ManualAttendanceTransaction | string {
+  const entry = asFields(value);
+  const { employee_id: employeeId, device_id: deviceId } = entry;
+  if (typeof employeeId !== 'string' || employeeId.trim() === '') return "Transaction is missing 'employee_id'.";
+  if (typeof deviceId !== 'string' || deviceId.trim() === '') return "Transaction is missing 'device_id'.";
+  if (!isManualType(entry.transaction_type)) return `Invalid transaction_type '${entry.transaction_type}'.`;
+  if (!isValidTime(entry.transaction_time)) return `Invalid transaction_time '${entry.transaction_time}'.`;
+  return {
+    employee_id: employeeId.trim(),
+    device_id: deviceId.trim(),
+    transaction_type: entry.transaction_type,
+    transaction_time: entry.transaction_time,
+  };
+}
+
+function validateCorrection(value: unknown): AttendanceCorrection | string {
+  if (!value || typeof value !== 'object') return 'Body must contain a "changes" object.';
+  const changes = value as Record<string, unknown>;
+  if (changes.transaction_type !== undefined && !isManualType(changes.transaction_type)) {
+    return `Invalid transaction_type '${changes.transaction_type}'.`;
+  }
+  if (changes.transaction_time !== undefined && !isValidTime(changes.transaction_time)) {
+    return `Invalid transaction_time '${changes.transaction_time}'.`;
+  }
+  if (changes.transaction_type === undefined && changes.transaction_time === undefined) {
+    return '"changes" must set transaction_type or transaction_time.';
+  }
+  return { transaction_type: changes.transaction_type as TransactionType | undefined, transaction_time: changes.transaction_time as string | undefined };
+}
+
+/**
+ * Responds with the changed transaction after re-checking its employee's exceptions, so a correction
+ * that fixes the punch sequence also releases the punches held for it.
+ */
+function changeResponse(result: AttendanceChangeResult, successStatus: number = 200) {
+  if (result.transaction) {
+    rescanEmployee(result.transaction.employee_id);
+    return NextResponse.json({ transaction: result.transaction }, { status: successStatus });
+  }
+  return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 });
+}
+
+/**
+ * Returns a transaction with its audit history. Query parameter: `id`.
+ */
+export async function GET(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id) return NextResponse.json({ error: 'Query parameter "id" is required.' }, { status: 400 });
+
+  try {
+    const history = getTransactionHistory(id);
+    if (!history) return NextResponse.json({ error: `Transaction ${id} does not exist.` }, { status: 404 });
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error('Attendance API: Error reading transaction history:', error);
+    return NextResponse.json({ error: 'Failed to read the transaction history.' }, { status: 500 });
+  }
+}
+
+/**
+ * Makes a manual change. Body: `{ action: 'create' | 'update' | 'void', actor, reason, ... }`.
+ * - 'create': `{ transaction: ManualAttendanceTransaction }`; adds a manual punch. 201.
+ * - 'update': `{ id, changes: { transaction_type?, transaction_time? } }`; corrects a transaction.
+ * - 'void': `{ id }`; voids a transaction.
+ * Responds with `{ transaction }` as stored afterwards; 404 for an unknown ID and 409 when the change is refused.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const author = validateAuthor(body);
+  if (typeof author === 'string') return NextResponse.json({ error: author }, { status: 400 });
+  if (body.action !== 'create' && typeof body.id !== 'string') {
+    return NextResponse.json({ error: 'Body must contain the transaction "id".' }, { status: 400 });
+  }
+
+  try {
+    if (body.action === 'create') {
+      const transaction = validateManualTransaction(body.transaction);
+      if (typeof transaction === 'string') return NextResponse.json({ error: transaction }, { status: 400 });
+      return changeResponse(createManualTransaction(transaction, author), 201);
+    }
+
+    if (body.action === 'update') {
+      const changes = validateCorrection(body.changes);
+      if (typeof changes === 'string') return NextResponse.json({ error: changes }, { status: 400 });
+      return changeResponse(correctTransaction(body.id, changes, author));
+    }
+
+    if (body.action === 'void') {
+      return changeResponse(voidTransaction(body.id, author));
+    }
+
+    return NextResponse.json({ error: `Invalid action '${body.action}'.` }, { status: 400 });
+  } catch (error) {
+    console.error(`Attendance API: Error handling '${body.action}' correction:`, error);
+    return NextResponse.json({ error: 'Failed to save the change.' }, { status: 500 });
+  }
+}
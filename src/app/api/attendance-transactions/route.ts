@@ -0,0 +1,143 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import {
+  addAttendanceTransactions,
+  clearAttendanceTransactions,
+  queryAttendanceTransactions,
+} from '@/lib/server/attendance-store';
+import { MAX_TRANSACTIONS_PAGE_SIZE, TRANSACTION_TYPES, UPLOAD_STATUSES } from '@/lib/attendance-manager';
+import type { NewAttendanceTransaction, TransactionType, UploadStatus } from '@/lib/attendance-manager';
+
+const MAX_SEARCH_LENGTH = 100;
+
+/**
+ * Validates a single transaction from a POST body.
+ * @param importAsPushed - Whether the body allows 'uploaded' transactions (see POST).
+ * @returns An error message, or null when the entry is valid.
+ */
+function validateTransaction(value: unknown, index: number, importAsPushed: boolean): string | null {
+  if (!value || typeof value !== 'object') return `Transaction ${index} is not an object.`;
+  const entry = value as Record<string, unknown>;
+  for (const field of ['employee_id', 'source_type', 'device_id'] as const) {
+    const fieldValue = entry[field];
+    if (typeof fieldValue !== 'string' || fieldValue.trim() === '') {
+      return `Transaction ${index} is missing '${field}'.`;
+    }
+  }
+  if (!TRANSACTION_TYPES.includes(entry.transaction_type as TransactionType)) {
+    return `Transaction ${index} has an invalid transaction_type '${entry.transaction_type}'.`;
+  }
+  if (entry.status === 'uploaded' && !importAsPushed) {
+    return `Transaction ${index} has status 'uploaded'; set "importAsPushed" to store transactions Odoo already holds.`;
+  }
+  if (entry.status !== 'not_uploaded' && entry.status !== 'uploaded') {
+    return `Transaction ${index} has status '${entry.status}'; new transactions are 'not_uploaded' (or 'uploaded' with "importAsPushed").`;
+  }
+  if (entry.transaction_time !== undefined && isNaN(new Date(entry.transaction_time as string).getTime())) {
+    return `Transaction ${index} has an invalid transaction_time '${entry.transaction_time}'.`;
+  }
+  if (entry.punch_code !== undefined && entry.punch_code !== null && typeof entry.punch_code !== 'string') {
+    return `Transaction ${index} has a punch_code that is not a string.`;
+  }
+  return null;
+}
+
+/**
+ * Lists one page of attendance transactions.
+ * Query parameters (all optional): `status`, `type` (transaction type), `employee` (part of the employee ID),
+ * `from` and `to` (ISO timestamps, inclusive), `limit` (1 to MAX_TRANSACTIONS_PAGE_SIZE, which is also the
+ * default), `offset` and `order` ('asc' | 'desc', default 'desc').
+ * Responds with `{ transactions, total }`.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const status = searchParams.get('status');
+  if (status && !UPLOAD_STATUSES.includes(status as UploadStatus)) {
+    return NextResponse.json({ error: `Invalid status filter '${status}'.` }, { status: 400 });
+  }
+  const type = searchParams.get('type');
+  if (type && !TRANSACTION_TYPES.includes(type as TransactionType)) {
+    return NextResponse.json({ error: `Invalid type filter '${type}'.` }, { status: 400 });
+  }
+  const employeeSearch = searchParams.get('employee') || undefined;
+  if (employeeSearch && employeeSearch.length > MAX_SEARCH_LENGTH) {
+    return NextResponse.json({ error: `Employee search is limited to ${MAX_SEARCH_LENGTH} characters.` }, { status: 400 });
+  }
+  const range: { from?: string; to?: string } = {};
+  for (const bound of ['from', 'to'] as const) {
+    const value = searchParams.get(bound);
+    if (!value) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return NextResponse.json({ error: `Invalid '${bound}' date '${value}'.` }, { status: 400 });
+    range[bound] = date.toISOString();
+  }
+  const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : MAX_TRANSACTIONS_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TRANSACTIONS_PAGE_SIZE) {
+    return NextResponse.json({ error: `'limit' must be a whole number from 1 to ${MAX_TRANSACTIONS_PAGE_SIZE}.` }, { status: 400 });
+  }
+  const offset = searchParams.has('offset') ? Number(searchParams.get('offset')) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ error: "'offset' must be a whole number of 0 or more." }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(queryAttendanceTransactions({
+      status: (status as UploadStatus) || undefined,
+      transactionType: (type as TransactionType) || undefined,
+      employeeSearch,
+      ...range,
+      limit,
+      offset,
+      order: searchParams.get('order') === 'asc' ? 'asc' : 'desc',
+    }));
+  } catch (error) {
+    console.error('Attendance API: Error listing transactions:', error);
+    return NextResponse.json({ error: 'Failed to read attendance transactions.' }, { status: 500 });
+  }
+}
+
+/**
+ * Adds attendance transactions. Body: `{ transactions: NewAttendanceTransaction[], importAsPushed?: boolean }`.
+ * New transactions are 'not_uploaded'; 'uploaded' is only accepted with `importAsPushed`, for punches
+ * Odoo already holds. The push sets every other status.
+ * Responds with `{ inserted, duplicates }`; transactions that are already stored are skipped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const transactions = body?.transactions;
+    if (!Array.isArray(transactions) || transactions.length === 0) {
+      return NextResponse.json({ error: 'Body must contain a non-empty "transactions" array.' }, { status: 400 });
+    }
+    const importAsPushed = body.importAsPushed ?? false;
+    if (typeof importAsPushed !== 'boolean') {
+      return NextResponse.json({ error: '"importAsPushed" must be true or false.' }, { status: 400 });
+    }
+
+    for (let i = 0; i < transactions.length; i++) {
+      const validationError = validateTransaction(transactions[i], i, importAsPushed);
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 });
+      }
+    }
+
+    const { inserted, duplicates } = addAttendanceTransactions(transactions as NewAttendanceTransaction[]);
+    return NextResponse.json({ inserted, duplicates }, { status: 201 });
+  } catch (error) {
+    console.error('Attendance API: Error adding transactions:', error);
+    return NextResponse.json({ error: 'Failed to store attendance transactions.' }, { status: 500 });
+  }
+}
+
+/**
+ * Deletes all attendance transactions.
+ */
+export async function DELETE() {
+  try {
+    const deleted = clearAttendanceTransactions();
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error('Attendance API: Error clearing transactions:', error);
+    return NextResponse.json({ error: 'Failed to clear attendance transactions.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { updateAttendanceTransactionStatus } from '@/lib/server/attendance-store';
+import { MANUAL_STATUS_CHANGES, UPLOAD_STATUSES } from '@/lib/attendance-manager';
+import type { UploadStatus } from '@/lib/attendance-manager';
+
+/**
+ * Updates the upload status of attendance transactions. Body: `{ ids: string[], status: UploadStatus }`.
+ * Only the changes in MANUAL_STATUS_CHANGES are allowed (requeueing and skipping); transactions in a status
+ * the change doesn't apply to are left alone and not counted in `updated`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const ids = body?.ids;
+    const status = body?.status;
+
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+      return NextResponse.json({ error: 'Body must contain an "ids" array of strings.' }, { status: 400 });
+    }
+    if (!UPLOAD_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `Invalid status '${status}'.` }, { status: 400 });
+    }
+    if (status === 'voided' || status === 'correction_pending') {
+      return NextResponse.json({ error: `Status '${status}' is set through /api/attendance-transactions/corrections.` }, { status: 400 });
+    }
+    if (status === 'held') {
+      return NextResponse.json({ error: "Status 'held' is set by the exception rules; see /api/attendance-anomalies." }, { status: 400 });
+    }
+    const fromStatuses = MANUAL_STATUS_CHANGES[status as UploadStatus];
+    if (!fromStatuses) {
+      return NextResponse.json({ error: `Status '${status}' is set by the Odoo push; only 'not_uploaded' and 'skipped' can be set by hand.` }, { status: 400 });
+    }
+
+    const updated = updateAttendanceTransactionStatus(ids, status, fromStatuses);
+    return NextResponse.json({ updated });
+  } catch (error) {
+    console.error('Attendance API: Error updating transaction statuses:', error);
+    return NextResponse.json({ error: 'Failed to update attendance transaction statuses.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { countPunchesPerHour, countTransactionsByStatus } from '@/lib/server/attendance-store';
+import { listSchedulerJobs } from '@/lib/server/scheduler-store';
+import { listDevices } from '@/lib/server/device-store';
+import { listAdmsDevices } from '@/lib/server/adms-store';
+import { queryLogs } from '@/lib/server/log-store';
+import { DEVICE_SOURCE_TYPES } from '@/lib/devices';
+import { ADMS_SOURCE_TYPE } from '@/lib/zkteco/adms/api';
+import { BIOTIME_SOURCE_TYPE } from '@/lib/zkteco/biotime/api';
+import { SECURELINK_SOURCE_TYPE } from '@/lib/securelink/api';
+import { ZK_SOURCE_TYPE } from '@/lib/zkteco/time/api';
+import type { SchedulerJobId } from '@/lib/scheduler/api';
+import type { SourceFetchSummary } from '@/lib/dashboard';
+
+const RECENT_ERRORS_LIMIT = 10;
+const MAX_RANGE_MS = 48 * 60 * 60 * 1000;
+
+// The single-device fetch job of each source, run from its own page.
+const FETCH_JOB_BY_SOURCE: Record<string, SchedulerJobId> = {
+  [ZK_SOURCE_TYPE]: 'zktime_fetch',
+  [BIOTIME_SOURCE_TYPE]: 'biotime_fetch',
+  [SECURELINK_SOURCE_TYPE]: 'securelink_fetch',
+};
+
+const latest = (times: Array<string | null>) => times.reduce<string | null>((max, time) => time && (!max || time > max) ? time : max, null);
+
+/**
+ * Sums up, per source, the newest successful fetch of its job and registered devices, and how many of them
+ * failed their latest run. ADMS devices upload by themselves; their newest contact counts as the fetch.
+ */
+function summarizeSources(): SourceFetchSummary[] {
+  const jobs = listSchedulerJobs();
+  const devices = listDevices();
+  return DEVICE_SOURCE_TYPES.map(sourceType => {
+    if (sourceType === ADMS_SOURCE_TYPE) {
+      const approved = listAdmsDevices().filter(device => device.approved);
+      return { sourceType, lastSuccessAt: latest(approved.map(device => device.last_seen_at)), fetchers: approved.length, failing: 0 };
+    }
+    const job = jobs.find(j => j.id === FETCH_JOB_BY_SOURCE[sourceType]);
+    const fetchers = [
+      ...(job?.enabled ? [{ lastSuccessAt: job.lastSuccessAt, lastStatus: job.lastStatus }] : []),
+      ...devices.filter(d => d.sourceType === sourceType && d.enabled).map(d => ({ lastSuccessAt: d.lastContactAt, lastStatus: d.lastStatus })),
+    ];
+    return {
+      sourceType,
+      lastSuccessAt: latest([job?.lastSuccessAt ?? null, ...devices.filter(d => d.sourceType === sourceType).map(d => d.lastContactAt)]),
+      fetchers: fetchers.length,
+      failing: fetchers.filter(fetcher => fetcher.lastStatus === 'error').length,
+    };
+  });
+}
+
+/**
+ * Returns the figures of the operations dashboard (a DashboardSummary).
+ * Query parameters: `from` and `to` (ISO timestamps, required), the range punches are counted per hour in,
+ * normally the browser's local day.
+ */
+export async function GET(request: NextRequest) {
+  const from = new Date(request.nextUrl.searchParams.get('from') ?? '');
+  const to = new Date(request.nextUrl.searchParams.get('to') ?? '');
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from || to.getTime() - from.getTime() > MAX_RANGE_MS) {
+    return NextResponse.json({ error: 'Query parameters "from" and "to" must be ISO timestamps at most 48 hours apart.' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({
+      statusCounts: countTransactionsByStatus(),
+      punchesPerHour: countPunchesPerHour(from.toISOString(), to.toISOString()),
+      sources: summarizeSources(),
+      push: listSchedulerJobs().find(job => job.id === 'odoo_push'),
+      recentErrors: queryLogs({ status: 'Error', limit: RECENT_ERRORS_LIMIT }).logs,
+    });
+  } catch (error) {
+    console.error('Dashboard API: Error reading dashboard figures:', error);
+    return NextResponse.json({ error: 'Failed to read the dashboard figures.' }, { status: 500 });
+  }
+}
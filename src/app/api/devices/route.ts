@@ -0,0 +1,115 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import {
+  clearDeviceWatermark,
+  deleteDevice,
+  getDevice,
+  getDeviceConfig,
+  listDevices,
+  listUnregisteredDevices,
+  saveDevice,
+} from '@/lib/server/device-store';
+import { DEVICE_FETCHERS } from '@/lib/server/scheduler-jobs';
+import { executeDeviceFetch } from '@/lib/server/scheduler';
+import { DEVICE_SOURCES } from '@/lib/devices';
+import { frequencyToMs } from '@/lib/scheduler/api';
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Lists the registered devices with their health, and the device IDs on stored punches that aren't registered.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ devices: listDevices(), unregistered: listUnregisteredDevices() });
+  } catch (error) {
+    console.error('Devices API: Error listing devices:', error);
+    return NextResponse.json({ error: 'Failed to list the registered devices.' }, { status: 500 });
+  }
+}
+
+/**
+ * Validates a 'save' body. Connection settings are merged over the saved ones, so secrets the browser
+ * never received are kept, and then checked by the source's parser.
+ */
+function validateDevice(value: unknown) {
+  const body = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const source = typeof body.sourceType === 'string' ? DEVICE_SOURCES[body.sourceType] : undefined;
+  if (!source) return `Unknown source type '${body.sourceType}'.`;
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) return `A name of up to ${MAX_NAME_LENGTH} characters is required.`;
+  if (body.location !== undefined && typeof body.location !== 'string') return '"location" must be a string.';
+  if (body.deviceId !== undefined && typeof body.deviceId !== 'string') return '"deviceId" must be a string.';
+  const deviceId = typeof body.deviceId === 'string' ? body.deviceId.trim() || null : null;
+  if (source.deviceIdRequired && !deviceId) return `${source.deviceIdLabel} is required for ${source.label} devices.`;
+  if (typeof body.enabled !== 'boolean') return '"enabled" must be a boolean.';
+  if (typeof body.frequency !== 'string' || frequencyToMs(body.frequency) === null) return `Invalid frequency '${body.frequency}'.`;
+
+  let config: object | null | undefined;
+  if (source.fetched && body.config) {
+    const saved = typeof body.id === 'string' ? getDeviceConfig(body.id) : null;
+    const parsed = DEVICE_FETCHERS[body.sourceType as string].parseConfig({ ...saved, ...(body.config as object) });
+    if (typeof parsed === 'string') return parsed;
+    config = parsed;
+  } else if (!source.fetched) {
+    config = null;
+  }
+  return {
+    id: typeof body.id === 'string' ? body.id : undefined,
+    name,
+    location: typeof body.location === 'string' ? body.location.trim() || null : null,
+    sourceType: body.sourceType as string,
+    deviceId,
+    enabled: body.enabled as boolean,
+    frequency: body.frequency as string,
+    config,
+  };
+}
+
+/**
+ * Controls the registry. Body: `{ action: 'save' | 'delete' | 'run' | 'reset_state', ... }`.
+ * - 'save': a `DeviceInput`; registers a device, or updates the one with `id`. 409 if the device ID is taken.
+ * - 'delete': `{ id }`; removes the device, keeping its punches. 409 while it is being fetched.
+ * - 'run': `{ id, params? }`; fetches the device now and waits for it. 409 if a fetch is already running.
+ * - 'reset_state': `{ id }`; clears the device's import watermark. 409 while it is being fetched.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+
+  try {
+    if (body?.action === 'save') {
+      const input = validateDevice(body);
+      if (typeof input === 'string') return NextResponse.json({ error: input }, { status: 400 });
+      const result = saveDevice(input);
+      if (result.error) return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 });
+      return NextResponse.json({ device: result.device });
+    }
+
+    if (typeof body?.id !== 'string' || !['delete', 'run', 'reset_state'].includes(body.action)) {
+      return NextResponse.json({ error: `Invalid action '${body?.action}' or missing "id".` }, { status: 400 });
+    }
+    const device = getDevice(body.id);
+    if (!device) return NextResponse.json({ error: 'Device not found.' }, { status: 404 });
+
+    if (body.action === 'delete') {
+      const result = deleteDevice(body.id);
+      if (result.error) return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 });
+      return NextResponse.json({ success: true });
+    }
+
+    if (body.action === 'run') {
+      const params = body.params && typeof body.params === 'object' ? body.params : {};
+      const fetched = await executeDeviceFetch(body.id, params, 'manual');
+      if (!fetched) return NextResponse.json({ error: `'${device.name}' is already being fetched.` }, { status: 409 });
+      return NextResponse.json({ device: fetched });
+    }
+
+    if (!clearDeviceWatermark(body.id)) {
+      return NextResponse.json({ error: `'${device.name}' is being fetched; try again when the fetch finishes.` }, { status: 409 });
+    }
+    return NextResponse.json({ device: getDevice(body.id) });
+  } catch (error) {
+    console.error(`Devices API: Error handling '${body?.action}':`, error);
+    return NextResponse.json({ error: 'Device registry request failed.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { replaceOdooEmployees, runAutoMatch } from '@/lib/server/employee-mapping-store';
+import type { OdooEmployee } from '@/lib/employee-mapping';
+
+/**
+ * Replaces the cached Odoo employees and re-runs automatic matching.
+ * Body: `{ employees: OdooEmployee[] }` as read from `hr.employee`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const employees = body?.employees;
+    if (!Array.isArray(employees)) {
+      return NextResponse.json({ error: 'Body must contain an "employees" array.' }, { status: 400 });
+    }
+    const invalidIndex = employees.findIndex((e: Partial<OdooEmployee> | null) => !Number.isInteger(e?.id) || typeof e?.name !== 'string');
+    if (invalidIndex !== -1) {
+      return NextResponse.json({ error: `Employee ${invalidIndex} is missing an integer "id" or a "name".` }, { status: 400 });
+    }
+
+    const synced = replaceOdooEmployees(employees as OdooEmployee[]);
+    return NextResponse.json({ synced, ...runAutoMatch() });
+  } catch (error) {
+    console.error('Employee Mapping API: Error caching Odoo employees:', error);
+    return NextResponse.json({ error: 'Failed to store Odoo employees.' }, { status: 500 });
+  }
+}
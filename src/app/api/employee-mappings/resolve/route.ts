@@ -0,0 +1,23 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { resolveTransactionEmployees } from '@/lib/server/employee-mapping-store';
+
+/**
+ * Resolves the Odoo employee for each transaction and marks unmapped ones as 'unmapped'.
+ * Body: `{ transactions: Array<{ id: string, source_type: string, employee_id: string }> }`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const transactions = body?.transactions;
+    if (!Array.isArray(transactions) || transactions.some((t: Record<string, unknown> | null) =>
+      typeof t?.id !== 'string' || typeof t?.source_type !== 'string' || typeof t?.employee_id !== 'string')) {
+      return NextResponse.json({ error: 'Body must contain a "transactions" array of { id, source_type, employee_id }.' }, { status: 400 });
+    }
+
+    return NextResponse.json(resolveTransactionEmployees(transactions));
+  } catch (error) {
+    console.error('Employee Mapping API: Error resolving employees:', error);
+    return NextResponse.json({ error: 'Failed to resolve employee mappings.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import {
+  getLastEmployeeSyncTime,
+  listEmployeeMappings,
+  listMappingRules,
+  listOdooEmployees,
+  setManualMapping,
+} from '@/lib/server/employee-mapping-store';
+
+/**
+ * Returns every device employee ID with its mapping, the matching rules and the cached Odoo employees.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({
+      mappings: listEmployeeMappings(),
+      rules: listMappingRules(),
+      employees: listOdooEmployees(),
+      lastSyncedAt: getLastEmployeeSyncTime(),
+    });
+  } catch (error) {
+    console.error('Employee Mapping API: Error reading mappings:', error);
+    return NextResponse.json({ error: 'Failed to read employee mappings.' }, { status: 500 });
+  }
+}
+
+/**
+ * Sets or clears a manual mapping override.
+ * Body: `{ source_type: string, device_employee_id: string, odoo_employee_id: number | null }`.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const sourceType = body?.source_type;
+    const deviceEmployeeId = body?.device_employee_id;
+    const odooEmployeeId = body?.odoo_employee_id;
+
+    if (typeof sourceType !== 'string' || typeof deviceEmployeeId !== 'string' || !sourceType || !deviceEmployeeId) {
+      return NextResponse.json({ error: 'Body must contain "source_type" and "device_employee_id".' }, { status: 400 });
+    }
+    if (odooEmployeeId !== null && !Number.isInteger(odooEmployeeId)) {
+      return NextResponse.json({ error: '"odoo_employee_id" must be an integer or null.' }, { status: 400 });
+    }
+
+    setManualMapping(sourceType, deviceEmployeeId, odooEmployeeId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Employee Mapping API: Error saving manual mapping:', error);
+    return NextResponse.json({ error: 'Failed to save the employee mapping.' }, { status: 500 });
+  }
+}
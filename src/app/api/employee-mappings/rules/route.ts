@@ -0,0 +1,29 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { runAutoMatch, saveMappingRule } from '@/lib/server/employee-mapping-store';
+import { EMPLOYEE_ID_NORMALIZATIONS, EMPLOYEE_MATCH_FIELDS } from '@/lib/employee-mapping';
+
+/**
+ * Saves the automatic matching rule for a source type and re-runs automatic matching.
+ * Body: `{ source_type: string, match_field: EmployeeMatchField, normalization: EmployeeIdNormalization }`.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (typeof body?.source_type !== 'string' || !body.source_type) {
+      return NextResponse.json({ error: 'Body must contain "source_type".' }, { status: 400 });
+    }
+    if (!EMPLOYEE_MATCH_FIELDS.includes(body.match_field)) {
+      return NextResponse.json({ error: `Invalid match_field '${body.match_field}'.` }, { status: 400 });
+    }
+    if (!EMPLOYEE_ID_NORMALIZATIONS.includes(body.normalization)) {
+      return NextResponse.json({ error: `Invalid normalization '${body.normalization}'.` }, { status: 400 });
+    }
+
+    saveMappingRule({ source_type: body.source_type, match_field: body.match_field, normalization: body.normalization });
+    return NextResponse.json(runAutoMatch());
+  } catch (error) {
+    console.error('Employee Mapping API: Error saving matching rule:', error);
+    return NextResponse.json({ error: 'Failed to save the matching rule.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { clearAppLogs, insertLogs, queryLogs } from '@/lib/server/log-store';
+import { LOG_ENTRY_STATUSES, validateLogEntry } from '@/lib/app-logger';
+import type { LogEntry, LogEntryStatus } from '@/lib/app-logger';
+
+const MAX_LOGS_PER_REQUEST = 2000; // Room for the first batch, which carries the logs migrated from localStorage
+const MAX_SEARCH_LENGTH = 500;
+const MAX_LOGS_PAGE_SIZE = 1000;
+
+/**
+ * Lists log entries, newest first.
+ * Query parameters (all optional): `source`, `status`, `correlationId`, `search` (see parseLogSearch),
+ * `from` and `to` (ISO timestamps, inclusive), `limit` (1 to MAX_LOGS_PAGE_SIZE) and `offset`.
+ * Without `limit` every matching entry is returned, as for the Logs page's "Show All" and export.
+ * Responds with `{ logs, total, sources }`.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const status = searchParams.get('status');
+  if (status && !LOG_ENTRY_STATUSES.includes(status as LogEntryStatus)) {
+    return NextResponse.json({ error: `Invalid status filter '${status}'.` }, { status: 400 });
+  }
+  const search = searchParams.get('search') || undefined;
+  if (search && search.length > MAX_SEARCH_LENGTH) {
+    return NextResponse.json({ error: `Search text is limited to ${MAX_SEARCH_LENGTH} characters.` }, { status: 400 });
+  }
+  const range: { from?: string; to?: string } = {};
+  for (const bound of ['from', 'to'] as const) {
+    const value = searchParams.get(bound);
+    if (!value) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return NextResponse.json({ error: `Invalid '${bound}' date '${value}'.` }, { status: 400 });
+    range[bound] = date.toISOString();
+  }
+  const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_LOGS_PAGE_SIZE)) {
+    return NextResponse.json({ error: `'limit' must be a whole number from 1 to ${MAX_LOGS_PAGE_SIZE}.` }, { status: 400 });
+  }
+  const offset = searchParams.has('offset') ? Number(searchParams.get('offset')) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ error: "'offset' must be a whole number of 0 or more." }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(queryLogs({
+      source: searchParams.get('source') || undefined,
+      status: (status as LogEntryStatus) || undefined,
+      correlationId: searchParams.get('correlationId') || undefined,
+      search,
+      ...range,
+      limit,
+      offset,
+    }));
+  } catch (error) {
+    console.error('Logs API: Error listing logs:', error);
+    return NextResponse.json({ error: 'Failed to read logs.' }, { status: 500 });
+  }
+}
+
+/**
+ * Stores log entries written in the browser. Body: `{ logs: LogEntry[] }`.
+ * Responds with `{ stored }`; entries that are already stored are skipped.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const logs = body?.logs;
+  if (!Array.isArray(logs) || logs.length === 0 || logs.length > MAX_LOGS_PER_REQUEST) {
+    return NextResponse.json({ error: `Body must contain a "logs" array of 1 to ${MAX_LOGS_PER_REQUEST} entries.` }, { status: 400 });
+  }
+  for (let i = 0; i < logs.length; i++) {
+    const validationError = validateLogEntry(logs[i], i);
+    if (validationError) return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ stored: insertLogs(logs as LogEntry[]) }, { status: 201 });
+  } catch (error) {
+    console.error('Logs API: Error storing logs:', error);
+    return NextResponse.json({ error: 'Failed to store logs.' }, { status: 500 });
+  }
+}
+
+/**
+ * Deletes all log entries.
+ */
+export async function DELETE() {
+  try {
+    return NextResponse.json({ deleted: clearAppLogs() });
+  } catch (error) {
+    console.error('Logs API: Error clearing logs:', error);
+    return NextResponse.json({ error: 'Failed to clear logs.' }, { status: 500 });
+  }
+}
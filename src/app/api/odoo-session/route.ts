@@ -0,0 +1,97 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { deleteOdooCredentials, getSavedOdooLogin, reloginOdoo, saveOdooCredentials } from '@/lib/server/odoo-credentials';
+import { adoptOdooSession, deleteOdooProfile, getOdooProfile, loginOdooProfile } from '@/lib/server/odoo-profiles';
+import { checkOdooServerUrl } from '@/lib/server/odoo-proxy-guard';
+
+function validateTarget(url: unknown, db: unknown, login: unknown): string | null {
+  if (typeof url !== 'string' || !/^https?:\/\//i.test(url) || !URL.canParse(url)) return 'An Odoo URL starting with http:// or https:// is required.';
+  if (typeof db !== 'string' || !db) return 'An Odoo database is required.';
+  if (typeof login !== 'string' || !login) return 'An Odoo login is required.';
+  return null;
+}
+
+/**
+ * Reports whether credentials for automatic re-login are saved for a profile. Query: `profileId`.
+ * Responds with `{ savedLogin: { login, updatedAt } | null }`; the password is never returned.
+ */
+export async function GET(request: NextRequest) {
+  const profileId = request.nextUrl.searchParams.get('profileId');
+  if (!profileId) return NextResponse.json({ error: 'A profileId is required.' }, { status: 400 });
+
+  try {
+    if (!getOdooProfile(profileId)) return NextResponse.json({ error: 'Unknown connection profile.' }, { status: 404 });
+    return NextResponse.json({ savedLogin: getSavedOdooLogin(profileId) });
+  } catch (error) {
+    console.error('Odoo Session API: Error reading saved credentials:', error);
+    return NextResponse.json({ error: 'Failed to read saved credentials.' }, { status: 500 });
+  }
+}
+
+/**
+ * Manages connection profiles, which keep the Odoo session cookies on the server. Body: `{ action, ... }`.
+ * 'login' and 'adopt_session' are refused (403) for Odoo servers the proxy guard doesn't allow.
+ * - 'login': `{ url, db, login, password, remember }`; logs in and returns `{ profile, user, savedLogin }`.
+ *   With `remember` the credentials are stored encrypted for automatic re-login; otherwise saved ones are removed.
+ * - 'adopt_session': `{ url, db, login, sessionId }`; moves a session ID held by the browser into a profile.
+ * - 'forget_credentials': `{ profileId }`; removes the saved credentials.
+ * - 'relogin': `{ profileId }`; logs in again with the saved credentials.
+ * - 'logout': `{ profileId }`; ends the Odoo session and deletes the profile.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+
+  try {
+    if (body.action === 'login') {
+      const validationError = validateTarget(body.url, body.db, body.login);
+      if (validationError) return NextResponse.json({ error: validationError }, { status: 400 });
+      if (typeof body.password !== 'string' || !body.password) return NextResponse.json({ error: 'A password is required.' }, { status: 400 });
+      const rejection = checkOdooServerUrl(body.url);
+      if (rejection) return NextResponse.json({ error: rejection.message }, { status: rejection.status });
+
+      const result = await loginOdooProfile(body.url, body.db, body.login, body.password);
+      if (!result.success || !result.data) return NextResponse.json({ error: result.error }, { status: 401 });
+      const { profile, user } = result.data;
+      let savedLogin = null;
+      if (body.remember === true) {
+        savedLogin = saveOdooCredentials(profile.id, body.password);
+      } else {
+        deleteOdooCredentials(profile.id);
+      }
+      return NextResponse.json({ profile, user, savedLogin });
+    }
+
+    if (body.action === 'adopt_session') {
+      const validationError = validateTarget(body.url, body.db, body.login);
+      if (validationError) return NextResponse.json({ error: validationError }, { status: 400 });
+      if (typeof body.sessionId !== 'string' || !body.sessionId) return NextResponse.json({ error: 'A sessionId is required.' }, { status: 400 });
+      const rejection = checkOdooServerUrl(body.url);
+      if (rejection) return NextResponse.json({ error: rejection.message }, { status: rejection.status });
+      return NextResponse.json({ profile: adoptOdooSession(body.url, body.db, body.login, body.sessionId) });
+    }
+
+    if (typeof body.profileId !== 'string' || !body.profileId) {
+      return NextResponse.json({ error: 'A profileId is required.' }, { status: 400 });
+    }
+
+    if (body.action === 'forget_credentials') {
+      return NextResponse.json({ deleted: deleteOdooCredentials(body.profileId) });
+    }
+
+    if (body.action === 'relogin') {
+      const result = await reloginOdoo(body.profileId, 'requested from the UHH Connectivity page');
+      if (!result.success) return NextResponse.json({ error: result.error }, { status: 502 });
+      return NextResponse.json({ profile: getOdooProfile(body.profileId) });
+    }
+
+    if (body.action === 'logout') {
+      return NextResponse.json({ deleted: await deleteOdooProfile(body.profileId) });
+    }
+
+    return NextResponse.json({ error: `Invalid action '${body.action}'.` }, { status: 400 });
+  } catch (error) {
+    console.error(`Odoo Session API: Error handling '${body.action}':`, error);
+    return NextResponse.json({ error: 'Odoo session request failed.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { listPunchCodeMappings, listUnknownPunchCodes, savePunchCodeMapping } from '@/lib/server/punch-code-store';
+import { PUNCH_CODE_TARGETS, normalizePunchCode, type PunchCodeTarget } from '@/lib/punch-codes';
+
+/**
+ * Returns a source's saved punch-code mappings and the codes of its stored 'unknown' punches.
+ * Query parameter: `source` (required), the source type.
+ */
+export async function GET(request: NextRequest) {
+  const sourceType = request.nextUrl.searchParams.get('source');
+  if (!sourceType) return NextResponse.json({ error: 'Query parameter "source" is required.' }, { status: 400 });
+
+  try {
+    return NextResponse.json({ mappings: listPunchCodeMappings(sourceType), unknownCodes: listUnknownPunchCodes(sourceType) });
+  } catch (error) {
+    console.error('Punch Code API: Error reading mappings:', error);
+    return NextResponse.json({ error: 'Failed to read the punch-code mappings.' }, { status: 500 });
+  }
+}
+
+/**
+ * Saves or removes a mapping.
+ * Body: `{ source_type: string, device_id: string, punch_code: string, transaction_type: PunchCodeTarget | null }`;
+ * `device_id` '*' applies to every device of the source.
+ */
+export async function PUT(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const sourceType = typeof body?.source_type === 'string' ? body.source_type.trim() : '';
+  const deviceId = typeof body?.device_id === 'string' ? body.device_id.trim() : '';
+  const punchCode = typeof body?.punch_code === 'string' ? normalizePunchCode(body.punch_code) : '';
+  const target = body?.transaction_type;
+
+  if (!sourceType || !deviceId || !punchCode) {
+    return NextResponse.json({ error: 'Body must contain "source_type", "device_id" and "punch_code".' }, { status: 400 });
+  }
+  if (target !== null && !PUNCH_CODE_TARGETS.includes(target as PunchCodeTarget)) {
+    return NextResponse.json({ error: `"transaction_type" must be null or one of: ${PUNCH_CODE_TARGETS.join(', ')}.` }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(savePunchCodeMapping(sourceType, deviceId, punchCode, target));
+  } catch (error) {
+    console.error('Punch Code API: Error saving mapping:', error);
+    return NextResponse.json({ error: 'Failed to save the punch-code mapping.' }, { status: 500 });
+  }
+}
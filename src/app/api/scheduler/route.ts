@@ -0,0 +1,72 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { clearSchedulerJobState, getSchedulerJob, listSchedulerJobs, updateSchedulerJob } from '@/lib/server/scheduler-store';
+import { SCHEDULER_JOBS } from '@/lib/server/scheduler-jobs';
+import { executeSchedulerJob } from '@/lib/server/scheduler';
+import { SCHEDULER_JOB_IDS, frequencyToMs, type SchedulerJobId } from '@/lib/scheduler/api';
+
+/**
+ * Lists every background job with its schedule, last run and next run.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ jobs: listSchedulerJobs() });
+  } catch (error) {
+    console.error('Scheduler API: Error listing jobs:', error);
+    return NextResponse.json({ error: 'Failed to list scheduler jobs.' }, { status: 500 });
+  }
+}
+
+/**
+ * Controls a job. Body: `{ action: 'configure' | 'run' | 'reset_state', jobId, ... }`.
+ * - 'configure': `{ enabled?, frequency?, config?, initialState? }`; `config: null` clears the saved settings.
+ * - 'run': `{ params? }`; runs the job now and waits for it. 409 if it is already running.
+ * - 'reset_state': clears the job's state, e.g. its import watermark. 409 while it is running.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const jobId = body?.jobId as SchedulerJobId;
+  if (!SCHEDULER_JOB_IDS.includes(jobId)) {
+    return NextResponse.json({ error: `Unknown job '${body?.jobId}'.` }, { status: 400 });
+  }
+
+  try {
+    if (body.action === 'configure') {
+      if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+        return NextResponse.json({ error: 'enabled must be a boolean.' }, { status: 400 });
+      }
+      if (body.frequency !== undefined && (typeof body.frequency !== 'string' || frequencyToMs(body.frequency) === null)) {
+        return NextResponse.json({ error: `Invalid frequency '${body.frequency}'.` }, { status: 400 });
+      }
+      if (body.config) {
+        const parsed = SCHEDULER_JOBS[jobId].parseConfig(body.config);
+        if (typeof parsed === 'string') return NextResponse.json({ error: parsed }, { status: 400 });
+        body.config = parsed;
+      }
+      const initialState = typeof body.initialState?.lastRecordTime === 'string' && !isNaN(new Date(body.initialState.lastRecordTime).getTime())
+        ? { lastRecordTime: body.initialState.lastRecordTime }
+        : undefined;
+      const job = updateSchedulerJob(jobId, { enabled: body.enabled, frequency: body.frequency, config: body.config, initialState });
+      return NextResponse.json({ job });
+    }
+
+    if (body.action === 'run') {
+      const params = body.params && typeof body.params === 'object' ? body.params : {};
+      const job = await executeSchedulerJob(jobId, params, 'manual');
+      if (!job) return NextResponse.json({ error: `${getSchedulerJob(jobId).label} is already running.` }, { status: 409 });
+      return NextResponse.json({ job });
+    }
+
+    if (body.action === 'reset_state') {
+      if (!clearSchedulerJobState(jobId)) {
+        return NextResponse.json({ error: `${getSchedulerJob(jobId).label} is running; try again when it finishes.` }, { status: 409 });
+      }
+      return NextResponse.json({ job: getSchedulerJob(jobId) });
+    }
+
+    return NextResponse.json({ error: `Invalid action '${body.action}'.` }, { status: 400 });
+  } catch (error) {
+    console.error(`Scheduler API: Error handling '${body.action}' for ${jobId}:`, error);
+    return NextResponse.json({ error: 'Scheduler request failed.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { parseSecureLinkConfig, summarizeSecureLinkDatabase } from '@/lib/server/securelink-reader';
+
+/**
+ * Opens the SecureLink AAS database and summarizes it. Body: `{ action: 'test', config: SecureLinkConfig }`.
+ * Importing records is the 'securelink_fetch' scheduler job's work.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const config = parseSecureLinkConfig(body?.config);
+  if (typeof config === 'string') {
+    return NextResponse.json({ error: config }, { status: 400 });
+  }
+
+  try {
+    if (body.action === 'test') {
+      return NextResponse.json(await summarizeSecureLinkDatabase(config));
+    }
+    return NextResponse.json({ error: `Invalid action '${body.action}'.` }, { status: 400 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`SecureLink API: Error reading ${config.filePath}:`, message);
+    return NextResponse.json({ error: message }, { status: 422 });
+  }
+}
@@ -1,56 +1,77 @@
 
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
+import { writeServerLog } from '@/lib/server/log-store';
+import { sendWithOdooProfile } from '@/lib/server/odoo-profiles';
+import { acquireProxySlot, checkProxyTarget, getProxyTimeoutMs, type ProxyRejection } from '@/lib/server/odoo-proxy-guard';
+
+// Odoo headers that are never passed to the browser: the session cookies stay in the profile's jar.
+const PRIVATE_RESPONSE_HEADERS = ['set-cookie'];
+
+/**
+ * Refuses a request the proxy guard blocked. The reason is written to the application log and
+ * returned to the caller as `proxy_rejection`.
+ */
+function rejectProxyRequest(targetUrl: string, rejection: ProxyRejection): NextResponse {
+  writeServerLog('UHH Proxy', `Blocked request to ${targetUrl} (${rejection.reason}): ${rejection.message}`, 'Error', {
+    context: { targetUrl, reason: rejection.reason, status: rejection.status, retryAfterSeconds: rejection.retryAfterSeconds },
+  });
+  const headers: Record<string, string> = {};
+  if (rejection.retryAfterSeconds) headers['Retry-After'] = String(rejection.retryAfterSeconds);
+  return NextResponse.json({ error: rejection.message, proxy_rejection: rejection.reason }, { status: rejection.status, headers });
+}
 
 /**
  * Next.js API route handler for proxying requests to an Odoo server.
  * This helps bypass CORS issues when the frontend calls Odoo directly from the browser.
- * It also allows capturing and forwarding Odoo's response headers, especially 'Set-Cookie'.
+ * Body: `{ targetUrl, payload, profileId? }`. The Odoo session cookies are kept server-side in the
+ * connection profile's cookie jar (see src/lib/server/odoo-profiles.ts); the browser's own cookies are
+ * not forwarded and Odoo's 'Set-Cookie' headers are never sent back.
+ * Only allowlisted Odoo servers and RPC paths are relayed, with a timeout (504) and per-server
+ * concurrency and rate limits (429); see src/lib/server/odoo-proxy-guard.ts.
  *
- * IMPORTANT: For production, ensure this proxy is secured. Consider:
- * - Restricting targetUrl patterns.
- * - Authentication/authorization for accessing this proxy endpoint itself if needed.
- * - Rate limiting.
+ * IMPORTANT: For production, consider authentication/authorization for accessing this proxy endpoint itself.
  */
 export async function POST(request: NextRequest) {
-  let odooResponseHeaders: Record<string, string> = {};
+  const odooResponseHeaders: Record<string, string> = {};
+  let targetUrl = '';
+  let releaseSlot: (() => void) | undefined;
 
   try {
-    const { targetUrl, payload } = await request.json();
+    const body = await request.json();
+    const { payload, profileId } = body;
+    targetUrl = typeof body.targetUrl === 'string' ? body.targetUrl : '';
 
     if (!targetUrl || !payload) {
       return NextResponse.json({ error: 'Missing targetUrl or payload for proxy' }, { status: 400 });
     }
 
-    // Basic validation for targetUrl to prevent open proxy vulnerabilities.
-    // TODO: [Electron Main Process] Enhance this validation for production if needed (e.g., allowlist specific Odoo domains).
-    if (!targetUrl.startsWith('http://') && !targetUrl.startsWith('https://')) {
+    // Basic validation for targetUrl before it is checked against the allowlist.
+    if ((!targetUrl.startsWith('http://') && !targetUrl.startsWith('https://')) || !URL.canParse(targetUrl)) {
         return NextResponse.json({ error: 'Invalid targetUrl format. Must start with http:// or https://' }, { status: 400 });
     }
-    
-    // Prepare headers for the Odoo request.
-    // Forward 'Cookie' header from the original client request if it exists.
-    // This is crucial if the client (e.g., browser after login) has a session_id cookie.
-    const forwardedHeaders: HeadersInit = {
-      'Content-Type': 'application/json',
-    };
-    const requestCookie = request.headers.get('cookie');
-    if (requestCookie) {
-      forwardedHeaders['Cookie'] = requestCookie;
+    if (profileId !== undefined && (typeof profileId !== 'string' || !profileId)) {
+        return NextResponse.json({ error: 'profileId must be a non-empty string.' }, { status: 400 });
     }
 
-    const odooResponse = await fetch(targetUrl, {
-      method: 'POST',
-      headers: forwardedHeaders,
-      body: JSON.stringify(payload),
-      // TODO: [Electron Main Process] Consider adding a configurable timeout (e.g., 15-30 seconds)
-      // signal: AbortSignal.timeout(15000) 
-    });
+    // Only configured Odoo servers and known RPC paths are relayed, within each server's limits.
+    const target = checkProxyTarget(targetUrl);
+    if (!target.baseUrl) return rejectProxyRequest(targetUrl, target.rejection!);
+    const slot = acquireProxySlot(target.baseUrl);
+    if (!slot.release) return rejectProxyRequest(targetUrl, slot.rejection!);
+    releaseSlot = slot.release;
+
+    // The profile's cookie jar supplies the session cookies and stores any Odoo sets in return.
+    // The timeout also covers reading the response body below.
+    const sent = await sendWithOdooProfile(profileId ?? null, targetUrl, payload, AbortSignal.timeout(getProxyTimeoutMs()));
+    if (!sent.response) {
+        return NextResponse.json({ error: sent.error }, { status: 401 });
+    }
+    const odooResponse = sent.response;
 
-    // Capture Odoo's response headers to forward them back to the client.
-    // This is important for `Set-Cookie` (session_id).
+    // Capture Odoo's response headers for debugging on the client, minus the session cookies.
     odooResponse.headers.forEach((value, key) => {
-      odooResponseHeaders[key] = value;
+      if (!PRIVATE_RESPONSE_HEADERS.includes(key.toLowerCase())) odooResponseHeaders[key] = value;
     });
 
     let responseData;
@@ -79,28 +100,22 @@ export async function POST(request: NextRequest) {
         );
     }
     
-    // Forward Odoo's JSON response, status code, and captured headers.
-    // NextResponse.json automatically stringifies the body.
-    // We need to manually set the headers from odooResponseHeaders.
-    const response = NextResponse.json(responseData, { status: odooResponse.status });
-    Object.entries(odooResponseHeaders).forEach(([key, value]) => {
-        // Do not attempt to set 'transfer-encoding' or 'content-encoding' as Next.js/Vercel handles this.
-        if (key.toLowerCase() !== 'transfer-encoding' && key.toLowerCase() !== 'content-encoding') {
-            response.headers.set(key, value);
-        }
-    });
-    return response;
+    // Forward Odoo's JSON response and status code. Odoo's headers are only echoed in debug_headers,
+    // so nothing Odoo sends (cookies included) is set on this app's origin.
+    return NextResponse.json(responseData, { status: odooResponse.status });
 
   } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+        const seconds = getProxyTimeoutMs() / 1000;
+        return rejectProxyRequest(targetUrl, { reason: 'timeout', message: `Odoo did not respond within ${seconds}s; the server may be overloaded or unreachable.`, status: 504 });
+    }
     console.error('UHH Proxy API error:', error);
     let errorMessage = 'Proxy error occurred during request to Odoo.';
     // let errorDetails = ""; // Keep details minimal for client unless debugging
 
     if (error instanceof Error) {
         errorMessage = error.message; // General error message
-        if (error.name === 'AbortError') { // Timeout
-            errorMessage = 'Request to Odoo server timed out.';
-        } else if (error.message.includes('ECONNREFUSED')) { // Connection refused
+        if (error.message.includes('ECONNREFUSED')) { // Connection refused
             // Potentially parse targetUrl from request if needed for detailed error, but avoid if sensitive
             errorMessage = `Connection refused by Odoo server. Ensure the server is running and the URL is correct.`;
         }
@@ -116,5 +131,7 @@ export async function POST(request: NextRequest) {
         }, 
         { status: 500 } // Internal Server Error or Bad Gateway if Odoo is down
     );
+  } finally {
+    releaseSlot?.();
   }
 }
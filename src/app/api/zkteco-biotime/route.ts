@@ -0,0 +1,26 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { parseBiotimeConfig, testBiotime } from '@/lib/server/biotime-client';
+
+/**
+ * Talks to a BioTime server. Body: `{ action: 'test', config: BiotimeConfig }`.
+ * Importing transactions is the 'biotime_fetch' scheduler job's work.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const config = parseBiotimeConfig(body?.config);
+  if (typeof config === 'string') {
+    return NextResponse.json({ error: config }, { status: 400 });
+  }
+
+  try {
+    if (body.action === 'test') {
+      return NextResponse.json(await testBiotime(config));
+    }
+    return NextResponse.json({ error: `Invalid action '${body.action}'.` }, { status: 400 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`BioTime API: Error talking to ${config.baseUrl}:`, message);
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+}
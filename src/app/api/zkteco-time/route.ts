@@ -0,0 +1,27 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { parseZkDeviceConfig, withZkDevice } from '@/lib/server/zk-protocol';
+
+/**
+ * Talks to a ZKTeco Time device. Body: `{ action: 'info', config: ZkDeviceConfig }`; returns the device info.
+ * Downloading the attendance log is the 'zktime_fetch' scheduler job's work.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const config = parseZkDeviceConfig(body?.config);
+  if (typeof config === 'string') {
+    return NextResponse.json({ error: config }, { status: 400 });
+  }
+  if (body.action !== 'info') {
+    return NextResponse.json({ error: `Invalid action '${body.action}'.` }, { status: 400 });
+  }
+
+  try {
+    const deviceInfo = await withZkDevice(config, client => client.getDeviceInfo());
+    return NextResponse.json(deviceInfo);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`ZKTeco Time API: Error talking to ${config.ip}:${config.port}:`, message);
+    return NextResponse.json({ error: `Device ${config.ip}:${config.port}: ${message}` }, { status: 502 });
+  }
+}
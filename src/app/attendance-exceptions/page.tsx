@@ -0,0 +1,361 @@
+"use client";
+
+import * as React from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { CheckCheck, History, RefreshCw, Save } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ANOMALY_RULES,
+  ANOMALY_RULE_LABELS,
+  DEFAULT_ANOMALY_SETTINGS,
+  dismissAttendanceAnomaly,
+  getAnomalyOverview,
+  saveAnomalySettings,
+  scanAttendanceAnomalies,
+  type AnomalyRule,
+  type AnomalyScanResult,
+  type AnomalySettings,
+  type AttendanceAnomaly,
+} from "@/lib/attendance-anomalies";
+import { TRANSACTION_TYPE_LABELS, UPLOAD_STATUS_LABELS } from "@/lib/attendance-manager";
+import { listTimeZones } from "@/lib/time-zones";
+import { addLog } from "@/lib/app-logger";
+import { ChangeAuthorFields, useChangeAuthor } from "@/components/attendance/change-author-fields";
+import { TransactionDetailsSheet } from "@/components/attendance/transaction-details-sheet";
+
+const NUMERIC_SETTINGS: { field: keyof AnomalySettings; label: string; min: number; max: number }[] = [
+  { field: "maxShiftHours", label: "Maximum shift (hours)", min: 1, max: 72 },
+  { field: "doubleTapSeconds", label: "Double tap window (seconds)", min: 1, max: 3600 },
+  { field: "usualHoursToleranceMinutes", label: "Usual hours margin (minutes)", min: 0, max: 720 },
+  { field: "usualHoursMinPunches", label: "Punches before usual hours apply", min: 2, max: 1000 },
+  { field: "historyDays", label: "History to check (days)", min: 1, max: 365 },
+];
+
+const RESOLUTION_LABELS = { dismissed: "Dismissed", cleared: "Cleared" };
+
+const anomalyKey = (anomaly: AttendanceAnomaly) => `${anomaly.transaction_id}:${anomaly.rule}`;
+
+const describeScan = (result: AnomalyScanResult) => {
+  const holds = [
+    result.held > 0 ? `${result.held} held back from the push` : "",
+    result.released > 0 ? `${result.released} released to the push` : "",
+  ].filter(Boolean).join(", ");
+  return `Checked ${result.scanned} transactions; ${result.flagged} have open exceptions.${holds ? ` ${holds}.` : ""}`;
+};
+
+export default function AttendanceExceptionsPage() {
+  const { toast } = useToast();
+  const { author, setAuthor, rememberActor, isComplete } = useChangeAuthor();
+  const [anomalies, setAnomalies] = React.useState<AttendanceAnomaly[]>([]);
+  const [settings, setSettings] = React.useState<AnomalySettings>(DEFAULT_ANOMALY_SETTINGS);
+  const [timeZones, setTimeZones] = React.useState<string[]>([DEFAULT_ANOMALY_SETTINGS.timeZone]);
+  const [showResolved, setShowResolved] = React.useState(false);
+  const [ruleFilter, setRuleFilter] = React.useState<AnomalyRule | "all">("all");
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [isScanning, setIsScanning] = React.useState(false);
+  const [dismissing, setDismissing] = React.useState<AttendanceAnomaly | null>(null);
+  const [detailsTransactionId, setDetailsTransactionId] = React.useState<string | null>(null);
+
+  const loadOverview = React.useCallback(async () => {
+    try {
+      const overview = await getAnomalyOverview(showResolved);
+      setAnomalies(overview.anomalies);
+      setSettings(overview.settings);
+      addLog("AttendanceExceptionsPage", `Loaded ${overview.anomalies.length} exceptions.`, "Debug");
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      addLog("AttendanceExceptionsPage", `Error loading exceptions: ${msg}`, "Error");
+      toast({ title: "Load Error", description: msg, variant: "destructive" });
+    }
+  }, [showResolved, toast]);
+
+  React.useEffect(() => {
+    setTimeZones(listTimeZones());
+  }, []);
+
+  React.useEffect(() => {
+    loadOverview();
+    window.addEventListener('attendanceTransactionsUpdated', loadOverview);
+    return () => window.removeEventListener('attendanceTransactionsUpdated', loadOverview);
+  }, [loadOverview]);
+
+  const filteredAnomalies = React.useMemo(
+    () => anomalies.filter(anomaly => ruleFilter === "all" || anomaly.rule === ruleFilter),
+    [anomalies, ruleFilter]
+  );
+  const openCount = anomalies.filter(anomaly => anomaly.resolved_at === null).length;
+
+  const toggleRule = (rule: AnomalyRule, enabled: boolean) => {
+    setSettings(current => ({
+      ...current,
+      enabledRules: enabled ? [...current.enabledRules, rule] : current.enabledRules.filter(r => r !== rule),
+    }));
+  };
+
+  const handleSaveSettings = async () => {
+    setIsSaving(true);
+    try {
+      const result = await saveAnomalySettings(settings);
+      const msg = describeScan(result);
+      addLog("AttendanceExceptionsPage", `Exception rules saved. ${msg}`, "Info", { context: { settings, result } });
+      toast({ title: "Rules Saved", description: msg });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      addLog("AttendanceExceptionsPage", `Error saving exception rules: ${msg}`, "Error", { error });
+      toast({ title: "Save Error", description: msg, variant: "destructive" });
+    }
+    setIsSaving(false);
+  };
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    try {
+      const result = await scanAttendanceAnomalies();
+      const msg = describeScan(result);
+      addLog("AttendanceExceptionsPage", `Exception scan finished. ${msg}`, "Info", { context: { result } });
+      toast({ title: "Scan Complete", description: msg });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      addLog("AttendanceExceptionsPage", `Exception scan failed: ${msg}`, "Error", { error });
+      toast({ title: "Scan Failed", description: msg, variant: "destructive" });
+    }
+    setIsScanning(false);
+  };
+
+  const handleDismiss = async () => {
+    if (!dismissing) return;
+    setIsSaving(true);
+    try {
+      await dismissAttendanceAnomaly(dismissing.transaction_id, dismissing.rule, author);
+      rememberActor();
+      addLog("AttendanceExceptionsPage", `'${dismissing.rule}' exception on transaction ${dismissing.transaction_id} dismissed by ${author.actor}: ${author.reason}`, "Info");
+      toast({ title: "Exception Dismissed", description: `${ANOMALY_RULE_LABELS[dismissing.rule]} for ${dismissing.employee_id} accepted as is.` });
+      setDismissing(null);
+      setAuthor(current => ({ ...current, reason: "" }));
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      addLog("AttendanceExceptionsPage", `Error dismissing exception: ${msg}`, "Error", { error });
+      toast({ title: "Dismiss Error", description: msg, variant: "destructive" });
+    }
+    setIsSaving(false);
+  };
+
+  const getResolutionBadge = (anomaly: AttendanceAnomaly) => {
+    if (anomaly.resolution === null) {
+      return <Badge variant="secondary" className="bg-rose-100 text-rose-800 border border-rose-300 dark:bg-rose-700/30 dark:text-rose-300 dark:border-rose-600">Open</Badge>;
+    }
+    return (
+      <Badge variant="outline" title={anomaly.resolved_by ? `${anomaly.resolved_by}: ${anomaly.resolution_note}` : undefined}>
+        {RESOLUTION_LABELS[anomaly.resolution]}
+      </Badge>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full space-y-6">
+      <Card className="shadow-lg rounded-lg">
+        <CardHeader className="border-b flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="font-headline text-xl">Exception Rules</CardTitle>
+            <CardDescription>
+              Rules are checked before every push and when you scan. Fix a flagged punch from its details, or dismiss the exception to accept it as is.
+            </CardDescription>
+          </div>
+          <Button onClick={handleSaveSettings} disabled={isSaving} size="sm">
+            <Save className="mr-2 h-4 w-4" /> Save Rules
+          </Button>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {ANOMALY_RULES.map(rule => (
+              <div key={rule.value} className="flex items-start space-x-2">
+                <Checkbox
+                  id={`rule-${rule.value}`}
+                  checked={settings.enabledRules.includes(rule.value)}
+                  onCheckedChange={(checked) => toggleRule(rule.value, checked === true)}
+                />
+                <div className="grid gap-1 leading-none">
+                  <Label htmlFor={`rule-${rule.value}`}>{rule.label}</Label>
+                  <p className="text-xs text-muted-foreground">{rule.description}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+            {NUMERIC_SETTINGS.map(({ field, label, min, max }) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`setting-${field}`} className="text-xs">{label}</Label>
+                <Input
+                  id={`setting-${field}`}
+                  type="number"
+                  min={min}
+                  max={max}
+                  value={settings[field] as number}
+                  onChange={(e) => setSettings(current => ({ ...current, [field]: parseInt(e.target.value, 10) || 0 }))}
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="setting-timeZone" className="text-xs">Time zone</Label>
+              <Select value={settings.timeZone} onValueChange={(value) => setSettings(current => ({ ...current, timeZone: value }))}>
+                <SelectTrigger id="setting-timeZone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from(new Set([settings.timeZone, ...timeZones])).map(zone => (
+                    <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="holdFlagged" checked={settings.holdFlagged} onCheckedChange={(checked) => setSettings(current => ({ ...current, holdFlagged: checked }))} />
+            <Label htmlFor="holdFlagged">Hold flagged transactions back from the push until their exceptions are resolved</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="flex-1 flex flex-col overflow-hidden shadow-lg rounded-lg">
+        <CardHeader className="border-b flex flex-row items-center justify-between gap-4">
+          <div>
+            <CardTitle className="font-headline text-2xl">Exceptions</CardTitle>
+            <CardDescription>
+              {openCount} open {openCount === 1 ? "exception" : "exceptions"}{showResolved ? `, ${anomalies.length - openCount} resolved` : ""}.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            <Select value={ruleFilter} onValueChange={(value) => setRuleFilter(value as AnomalyRule | "all")}>
+              <SelectTrigger className="w-[200px] h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Rules</SelectItem>
+                {ANOMALY_RULES.map(rule => (
+                  <SelectItem key={rule.value} value={rule.value}>{rule.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center space-x-2">
+              <Switch id="showResolved" checked={showResolved} onCheckedChange={setShowResolved} />
+              <Label htmlFor="showResolved" className="whitespace-nowrap">Show resolved</Label>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleScan} disabled={isScanning}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${isScanning ? "animate-spin" : ""}`} />
+              {isScanning ? "Scanning..." : "Scan Now"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-y-auto p-0">
+          <ScrollArea className="h-full">
+            <Table className="min-w-full">
+              <TableHeader className="sticky top-0 bg-card z-10 shadow-sm">
+                <TableRow>
+                  <TableHead className="p-3 w-[130px]">Employee ID</TableHead>
+                  <TableHead className="p-3 w-[180px]">Transaction Time</TableHead>
+                  <TableHead className="p-3 w-[100px]">Type</TableHead>
+                  <TableHead className="p-3 w-[170px]">Rule</TableHead>
+                  <TableHead className="p-3">Details</TableHead>
+                  <TableHead className="p-3 w-[140px]">Upload Status</TableHead>
+                  <TableHead className="p-3 w-[100px]">Exception</TableHead>
+                  <TableHead className="p-3 w-[100px] text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredAnomalies.length > 0 ? (
+                  filteredAnomalies.map(anomaly => (
+                    <TableRow key={anomalyKey(anomaly)} className={anomaly.resolved_at ? "text-muted-foreground" : undefined}>
+                      <TableCell className="p-3 font-mono">{anomaly.employee_id}</TableCell>
+                      <TableCell className="p-3">{format(new Date(anomaly.transaction.transaction_time), "PPpp")}</TableCell>
+                      <TableCell className="p-3">{TRANSACTION_TYPE_LABELS[anomaly.transaction.transaction_type]}</TableCell>
+                      <TableCell className="p-3">{ANOMALY_RULE_LABELS[anomaly.rule]}</TableCell>
+                      <TableCell className="p-3 text-sm">
+                        {anomaly.message}
+                        {anomaly.resolution === "dismissed" && (
+                          <p className="text-xs mt-1">Dismissed by {anomaly.resolved_by}: {anomaly.resolution_note}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="p-3">{UPLOAD_STATUS_LABELS[anomaly.transaction.status]}</TableCell>
+                      <TableCell className="p-3">{getResolutionBadge(anomaly)}</TableCell>
+                      <TableCell className="p-3 text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" title="Details, corrections and history" onClick={() => setDetailsTransactionId(anomaly.transaction_id)}>
+                          <History className="h-4 w-4" />
+                        </Button>
+                        {anomaly.resolved_at === null && (
+                          <Button variant="ghost" size="icon" className="h-8 w-8" title="Dismiss (accept as is)" onClick={() => setDismissing(anomaly)}>
+                            <CheckCheck className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                      {anomalies.length > 0 ? "No exceptions match the selected rule." : "No exceptions. Scan to check recent transactions."}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dismissing !== null} onOpenChange={(open) => !open && setDismissing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Dismiss Exception</DialogTitle>
+            <DialogDescription>
+              {dismissing && `${ANOMALY_RULE_LABELS[dismissing.rule]}: ${dismissing.message}`} The punch is kept as it is and, once no other exception holds it, goes to Odoo with the next push.
+            </DialogDescription>
+          </DialogHeader>
+          <ChangeAuthorFields idPrefix="dismiss" author={author} onChange={setAuthor} reasonPlaceholder="e.g. Confirmed overtime with the shift lead" />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDismissing(null)} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleDismiss} disabled={!isComplete || isSaving}>Dismiss</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <TransactionDetailsSheet transactionId={detailsTransactionId} onClose={() => setDetailsTransactionId(null)} />
+    </div>
+  );
+}
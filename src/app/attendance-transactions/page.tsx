@@ -47,21 +47,30 @@ import {
 } from "@/components/ui/popover";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { Calendar as CalendarIcon, Trash2, FilterX } from "lucide-react";
+import { Calendar as CalendarIcon, Trash2, FilterX, RotateCcw, Ban, Download, Upload, Plus, History } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import type { AttendanceTransaction, TransactionType, UploadStatus } from "@/lib/attendance-manager";
+import type { AttendanceTransaction, AttendanceTransactionFilter, AttendanceTransactionPage, TransactionType, UploadStatus } from "@/lib/attendance-manager";
 import {
+  MANUAL_SOURCE_TYPE,
+  MANUAL_STATUS_CHANGES,
+  TRANSACTION_TYPES,
+  TRANSACTION_TYPE_LABELS,
+  UPLOAD_STATUSES,
+  UPLOAD_STATUS_LABELS,
   getAttendanceTransactions,
   clearAttendanceTransactions,
+  updateAttendanceTransactionStatus,
   // seedSampleTransactions // Deliberately removed for production readiness
 } from "@/lib/attendance-manager";
 import { addLog } from "@/lib/app-logger";
-
-// For production with larger datasets, attendance transactions should be managed in a SQLite database
-// via Electron's main process to avoid localStorage performance limitations.
-// TODO: [Electron Main Process] Implement SQLite storage for attendance transactions.
+import { AttendanceExportDialog } from "@/components/attendance/attendance-export-dialog";
+import { AttendanceImportWizard } from "@/components/attendance/attendance-import-wizard";
+import { ManualPunchDialog } from "@/components/attendance/manual-punch-dialog";
+import { TransactionDetailsSheet } from "@/components/attendance/transaction-details-sheet";
+import { CSV_IMPORT_SOURCE_TYPE } from "@/lib/attendance-import";
+import { buildDeviceLookup, deviceKey, getDeviceOverview, type Device } from "@/lib/devices";
 
 const RECORDS_PER_PAGE_OPTIONS = [
   { value: "10", label: "10 per page" },
@@ -72,22 +81,33 @@ const RECORDS_PER_PAGE_OPTIONS = [
 
 const TRANSACTION_TYPE_OPTIONS: { value: TransactionType | "all"; label: string }[] = [
   { value: "all", label: "All Types" },
-  { value: "check-in", label: "Check-in" },
-  { value: "check-out", label: "Check-out" },
+  ...TRANSACTION_TYPES.map(type => ({ value: type, label: TRANSACTION_TYPE_LABELS[type] })),
 ];
 
 const UPLOAD_STATUS_OPTIONS: { value: UploadStatus | "all"; label: string }[] = [
   { value: "all", label: "All Statuses" },
-  { value: "not_uploaded", label: "Not Uploaded" },
-  { value: "uploaded", label: "Uploaded" },
+  ...UPLOAD_STATUSES.map(status => ({ value: status, label: UPLOAD_STATUS_LABELS[status] })),
 ];
 
+// Punches from the devices keep their device's source type; other sources are named here.
+const SOURCE_TYPE_LABELS: Record<string, string> = {
+  [MANUAL_SOURCE_TYPE]: "Manual",
+  [CSV_IMPORT_SOURCE_TYPE]: "CSV Import",
+};
+
+// Statuses a user can requeue for the push, or take out of the push queue.
+const REQUEUEABLE_STATUSES = MANUAL_STATUS_CHANGES.not_uploaded ?? [];
+const SKIPPABLE_STATUSES = MANUAL_STATUS_CHANGES.skipped ?? [];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
 export default function AttendanceTransactionsPage() {
   const { toast } = useToast();
-  const [allTransactions, setAllTransactions] = React.useState<AttendanceTransaction[]>([]);
+  const [transactionPage, setTransactionPage] = React.useState<AttendanceTransactionPage>({ transactions: [], total: 0 });
   
   // Filters
-  const [employeeIdFilter, setEmployeeIdFilter] = React.useState("");
+  const [employeeIdInput, setEmployeeIdInput] = React.useState("");
+  const [employeeIdFilter, setEmployeeIdFilter] = React.useState(""); // Follows the input once typing pauses
   const [transactionTypeFilter, setTransactionTypeFilter] = React.useState<TransactionType | "all">("all");
   const [statusFilter, setStatusFilter] = React.useState<UploadStatus | "all">("all");
   const [dateFromFilter, setDateFromFilter] = React.useState<Date | undefined>();
@@ -100,14 +120,34 @@ export default function AttendanceTransactionsPage() {
   );
 
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = React.useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = React.useState(false);
+  const [isImportWizardOpen, setIsImportWizardOpen] = React.useState(false);
+  const [isManualPunchDialogOpen, setIsManualPunchDialogOpen] = React.useState(false);
+  const [detailsTransactionId, setDetailsTransactionId] = React.useState<string | null>(null);
+  const [deviceLookup, setDeviceLookup] = React.useState<Map<string, Device>>(new Map());
 
-  const loadAndSetTransactions = React.useCallback(() => {
-    let transactions = getAttendanceTransactions();
-    // Default sort by transaction_time descending (newest first)
-    transactions.sort((a, b) => new Date(b.transaction_time).getTime() - new Date(a.transaction_time).getTime());
-    setAllTransactions(transactions);
-    addLog("AttendanceTransactionsPage", `Loaded ${transactions.length} transactions.`, "Debug");
-  }, []);
+  const numRecordsPerPage = parseInt(recordsPerPage, 10);
+
+  const transactionFilter = React.useMemo<AttendanceTransactionFilter>(() => ({
+    employeeSearch: employeeIdFilter.trim() || undefined,
+    transactionType: transactionTypeFilter === "all" ? undefined : transactionTypeFilter,
+    status: statusFilter === "all" ? undefined : statusFilter,
+    from: dateFromFilter ? new Date(new Date(dateFromFilter).setHours(0, 0, 0, 0)).toISOString() : undefined,
+    to: dateToFilter ? new Date(new Date(dateToFilter).setHours(23, 59, 59, 999)).toISOString() : undefined,
+  }), [employeeIdFilter, transactionTypeFilter, statusFilter, dateFromFilter, dateToFilter]);
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setEmployeeIdFilter(employeeIdInput), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [employeeIdInput]);
+
+  // Filtering and paging happen on the server; only the current page is loaded.
+  const loadAndSetTransactions = React.useCallback(async () => {
+    // The server returns transactions sorted by transaction_time descending (newest first)
+    const page = await getAttendanceTransactions({ ...transactionFilter, limit: numRecordsPerPage, offset: (currentPage - 1) * numRecordsPerPage });
+    setTransactionPage(page);
+    addLog("AttendanceTransactionsPage", `Loaded ${page.transactions.length} of ${page.total} transactions.`, "Debug");
+  }, [transactionFilter, numRecordsPerPage, currentPage]);
 
   React.useEffect(() => {
     // Removed: seedSampleTransactions(); // Deliberately removed for production readiness
@@ -120,6 +160,19 @@ export default function AttendanceTransactionsPage() {
     return () => window.removeEventListener('attendanceTransactionsUpdated', handleTransactionsUpdated);
   }, [loadAndSetTransactions]);
 
+  React.useEffect(() => {
+    const loadDevices = async () => {
+      try {
+        setDeviceLookup(buildDeviceLookup((await getDeviceOverview()).devices));
+      } catch (error) {
+        addLog("AttendanceTransactionsPage", `Could not load the device registry: ${error instanceof Error ? error.message : String(error)}`, "Error", { error });
+      }
+    };
+    loadDevices();
+    window.addEventListener("devicesUpdated", loadDevices);
+    return () => window.removeEventListener("devicesUpdated", loadDevices);
+  }, []);
+
   React.useEffect(() => {
     localStorage.setItem("attendanceRecordsPerPage", recordsPerPage);
     addLog("AttendanceTransactionsPage", `Records per page set to: ${recordsPerPage}.`, "Info");
@@ -138,45 +191,21 @@ export default function AttendanceTransactionsPage() {
   }, []);
 
 
-  const filteredTransactions = React.useMemo(() => {
-    setCurrentPage(1); // Reset to first page on filter change
-    return allTransactions.filter((transaction) => {
-      const matchesEmployeeId = employeeIdFilter
-        ? transaction.employee_id.toLowerCase().includes(employeeIdFilter.toLowerCase())
-        : true;
-      const matchesTransactionType =
-        transactionTypeFilter === "all"
-          ? true
-          : transaction.transaction_type === transactionTypeFilter;
-      const matchesStatus =
-        statusFilter === "all" ? true : transaction.status === statusFilter;
-      
-      let matchesDate = true;
-      if (dateFromFilter || dateToFilter) {
-        const transactionDate = new Date(transaction.transaction_time);
-        if (dateFromFilter && transactionDate < new Date(new Date(dateFromFilter).setHours(0,0,0,0))) {
-          matchesDate = false;
-        }
-        if (dateToFilter && transactionDate > new Date(new Date(dateToFilter).setHours(23,59,59,999))) {
-          matchesDate = false;
-        }
-      }
-      return matchesEmployeeId && matchesTransactionType && matchesStatus && matchesDate;
-    });
-  }, [allTransactions, employeeIdFilter, transactionTypeFilter, statusFilter, dateFromFilter, dateToFilter]);
+  React.useEffect(() => {
+    setCurrentPage(1); // Reset to first page when filters or the page size change
+  }, [transactionFilter, recordsPerPage]);
 
-  const numRecordsPerPage = parseInt(recordsPerPage, 10);
-  const totalPages = Math.max(1, Math.ceil(filteredTransactions.length / numRecordsPerPage));
-  
-  const paginatedTransactions = React.useMemo(() => {
-    const startIndex = (currentPage - 1) * numRecordsPerPage;
-    const endIndex = startIndex + numRecordsPerPage;
-    return filteredTransactions.slice(startIndex, endIndex);
-  }, [filteredTransactions, currentPage, numRecordsPerPage]);
+  const paginatedTransactions = transactionPage.transactions;
+  const isFiltered = Object.values(transactionFilter).some(value => value !== undefined);
+  const totalPages = Math.max(1, Math.ceil(transactionPage.total / numRecordsPerPage));
 
-  const handleClearAllTransactions = () => {
+  React.useEffect(() => {
+    if (currentPage > totalPages) setCurrentPage(totalPages); // The list shrank, e.g. after clearing it
+  }, [currentPage, totalPages]);
+
+  const handleClearAllTransactions = async () => {
     try {
-      clearAttendanceTransactions(); // This will trigger the 'attendanceTransactionsUpdated' event
+      await clearAttendanceTransactions(); // This will trigger the 'attendanceTransactionsUpdated' event
       toast({
         title: "Attendance Transactions Cleared",
         description: "All attendance transaction records have been deleted.",
@@ -195,6 +224,7 @@ export default function AttendanceTransactionsPage() {
   };
   
   const handleResetFilters = () => {
+    setEmployeeIdInput("");
     setEmployeeIdFilter("");
     setTransactionTypeFilter("all");
     setStatusFilter("all");
@@ -204,23 +234,51 @@ export default function AttendanceTransactionsPage() {
     addLog("AttendanceTransactionsPage", "Transaction filters reset.", "Info");
   };
 
+  const handleChangeStatus = async (transaction: AttendanceTransaction, newStatus: UploadStatus) => {
+    await updateAttendanceTransactionStatus([transaction.id], newStatus); // Triggers 'attendanceTransactionsUpdated'
+    const action = newStatus === "skipped" ? "taken out of the push queue" : "requeued for the push";
+    toast({ title: newStatus === "skipped" ? "Transaction Skipped" : "Transaction Requeued", description: `Transaction for ${transaction.employee_id} ${action}.` });
+    addLog("AttendanceTransactionsPage", `Transaction ${transaction.id} (${transaction.employee_id}, ${transaction.transaction_time}) ${action} by user.`, "Info");
+  };
+
   const getBadgeVariantForStatus = (status: UploadStatus): { variant: "default" | "secondary" | "outline", className?: string } => {
     switch (status) {
       case 'uploaded':
         return { variant: 'default', className: 'bg-green-100 hover:bg-green-200 text-green-800 border border-green-300 dark:bg-green-700/30 dark:text-green-300 dark:border-green-600 dark:hover:bg-green-700/50' };
       case 'not_uploaded':
         return { variant: 'secondary', className: 'bg-yellow-100 hover:bg-yellow-200 text-yellow-800 border border-yellow-300 dark:bg-yellow-700/30 dark:text-yellow-300 dark:border-yellow-600 dark:hover:bg-yellow-700/50' };
+      case 'unmapped':
+        return { variant: 'secondary', className: 'bg-orange-100 hover:bg-orange-200 text-orange-800 border border-orange-300 dark:bg-orange-700/30 dark:text-orange-300 dark:border-orange-600 dark:hover:bg-orange-700/50' };
+      case 'uploading':
+        return { variant: 'secondary', className: 'bg-blue-100 hover:bg-blue-200 text-blue-800 border border-blue-300 dark:bg-blue-700/30 dark:text-blue-300 dark:border-blue-600 dark:hover:bg-blue-700/50' };
+      case 'pending_retry':
+        return { variant: 'secondary', className: 'bg-amber-100 hover:bg-amber-200 text-amber-800 border border-amber-300 dark:bg-amber-700/30 dark:text-amber-300 dark:border-amber-600 dark:hover:bg-amber-700/50' };
+      case 'failed':
+        return { variant: 'secondary', className: 'bg-red-100 hover:bg-red-200 text-red-800 border border-red-300 dark:bg-red-700/30 dark:text-red-300 dark:border-red-600 dark:hover:bg-red-700/50' };
+      case 'held':
+        return { variant: 'secondary', className: 'bg-rose-100 hover:bg-rose-200 text-rose-800 border border-rose-300 dark:bg-rose-700/30 dark:text-rose-300 dark:border-rose-600 dark:hover:bg-rose-700/50' };
+      case 'correction_pending':
+        return { variant: 'secondary', className: 'bg-purple-100 hover:bg-purple-200 text-purple-800 border border-purple-300 dark:bg-purple-700/30 dark:text-purple-300 dark:border-purple-600 dark:hover:bg-purple-700/50' };
+      case 'skipped':
+        return { variant: 'outline', className: 'text-muted-foreground' };
+      case 'voided':
+        return { variant: 'outline', className: 'text-muted-foreground line-through' };
       default:
         return { variant: 'outline', className: 'dark:text-gray-400 dark:border-gray-600' };
     }
   };
 
-  const formatTransactionType = (type: TransactionType) => {
-    return type === 'check-in' ? 'Check-in' : 'Check-out';
+  const formatTransactionType = (transaction: AttendanceTransaction) => {
+    const label = TRANSACTION_TYPE_LABELS[transaction.transaction_type];
+    return transaction.transaction_type === "unknown" && transaction.punch_code !== null ? `${label} (code ${transaction.punch_code})` : label;
   };
 
   const formatStatus = (status: UploadStatus) => {
-    return status === 'not_uploaded' ? 'Not Uploaded' : 'Uploaded';
+    return UPLOAD_STATUS_LABELS[status] ?? status;
+  };
+
+  const formatSourceType = (sourceType: string) => {
+    return SOURCE_TYPE_LABELS[sourceType] ?? "Biometric";
   };
 
 
@@ -240,8 +298,8 @@ export default function AttendanceTransactionsPage() {
               <Input
                 id="employeeIdFilter"
                 placeholder="Search by Employee ID"
-                value={employeeIdFilter}
-                onChange={(e) => setEmployeeIdFilter(e.target.value)}
+                value={employeeIdInput}
+                onChange={(e) => setEmployeeIdInput(e.target.value)}
               />
             </div>
             <div>
@@ -359,10 +417,20 @@ export default function AttendanceTransactionsPage() {
           <div>
             <CardTitle className="font-headline text-2xl">Attendance Records</CardTitle>
             <CardDescription>
-              Showing {paginatedTransactions.length} of {filteredTransactions.length} transactions.
+              Showing {paginatedTransactions.length} of {transactionPage.total} transactions.
               (Page {currentPage} of {totalPages})
             </CardDescription>
           </div>
+          <div className="flex items-center gap-2">
+           <Button variant="outline" size="sm" onClick={() => setIsManualPunchDialogOpen(true)}>
+             <Plus className="mr-2 h-4 w-4" /> Add Manual Punch
+           </Button>
+           <Button variant="outline" size="sm" onClick={() => setIsImportWizardOpen(true)}>
+             <Upload className="mr-2 h-4 w-4" /> Import CSV
+           </Button>
+           <Button variant="outline" size="sm" onClick={() => setIsExportDialogOpen(true)} disabled={transactionPage.total === 0}>
+             <Download className="mr-2 h-4 w-4" /> Export
+           </Button>
            <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
             <AlertDialogTrigger asChild>
               <Button variant="destructive" size="sm">
@@ -374,8 +442,7 @@ export default function AttendanceTransactionsPage() {
                 <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                 <AlertDialogDescription>
                   This action cannot be undone. This will permanently delete all
-                  attendance transaction records from local storage.
-                  {/* This warning is crucial as localStorage is client-side. */}
+                  attendance transaction records from the application database.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -386,6 +453,7 @@ export default function AttendanceTransactionsPage() {
               </AlertDialogFooter>
             </AlertDialogContent>
           </AlertDialog>
+          </div>
         </CardHeader>
         <CardContent className="flex-1 overflow-y-auto p-0">
           <ScrollArea className="h-full">
@@ -397,8 +465,9 @@ export default function AttendanceTransactionsPage() {
                   <TableHead className="p-3 w-[180px]">Transaction Time</TableHead>
                   <TableHead className="p-3 w-[120px]">Type</TableHead>
                   <TableHead className="p-3 w-[150px]">Source</TableHead>
-                  <TableHead className="p-3 w-[150px]">Device ID</TableHead>
+                  <TableHead className="p-3 w-[150px]">Device</TableHead>
                   <TableHead className="p-3 w-[120px] text-right">Status</TableHead>
+                  <TableHead className="p-3 w-[100px] text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -406,26 +475,51 @@ export default function AttendanceTransactionsPage() {
                   paginatedTransactions.map((transaction) => {
                     const badgeStyle = getBadgeVariantForStatus(transaction.status);
                     return (
-                    // Using employee_id + transaction_time for key as ID might not be unique if sample data is re-added without clearing
-                    <TableRow key={transaction.employee_id + transaction.transaction_time}>
+                    <TableRow key={transaction.id} className={cn(transaction.status === "voided" && "text-muted-foreground")}>
                       <TableCell className="p-3">{transaction.employee_id}</TableCell>
                       <TableCell className="p-3">
                         {format(new Date(transaction.transaction_time), "PPpp")}
                       </TableCell>
-                      <TableCell className="p-3">{formatTransactionType(transaction.transaction_type)}</TableCell>
-                      <TableCell className="p-3">Biometric</TableCell> 
-                      <TableCell className="p-3 truncate" title={transaction.device_id}>{transaction.device_id}</TableCell>
+                      <TableCell className="p-3">{formatTransactionType(transaction)}</TableCell>
+                      <TableCell className="p-3">{formatSourceType(transaction.source_type)}</TableCell>
+                      <TableCell className="p-3 truncate" title={transaction.device_id}>
+                        {deviceLookup.get(deviceKey(transaction.source_type, transaction.device_id))?.name ?? transaction.device_id}
+                      </TableCell>
                       <TableCell className="p-3 text-right">
-                         <Badge variant={badgeStyle.variant} className={badgeStyle.className}>
+                         <Badge variant={badgeStyle.variant} className={badgeStyle.className} title={transaction.last_error ?? undefined}>
                           {formatStatus(transaction.status)}
                         </Badge>
+                        {transaction.push_attempts > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {transaction.push_attempts} failed {transaction.push_attempts === 1 ? "attempt" : "attempts"}
+                            {transaction.status === "pending_retry" && transaction.next_attempt_at && `, next ${format(new Date(transaction.next_attempt_at), "p")}`}
+                          </p>
+                        )}
+                        {transaction.last_error && transaction.status !== "uploaded" && (
+                          <p className="text-xs text-destructive mt-1 max-w-[220px] ml-auto truncate" title={transaction.last_error}>{transaction.last_error}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="p-3 text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" title="Details, corrections and history" onClick={() => setDetailsTransactionId(transaction.id)}>
+                          <History className="h-4 w-4" />
+                        </Button>
+                        {REQUEUEABLE_STATUSES.includes(transaction.status) && (
+                          <Button variant="ghost" size="icon" className="h-8 w-8" title="Requeue for push" onClick={() => handleChangeStatus(transaction, "not_uploaded")}>
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {SKIPPABLE_STATUSES.includes(transaction.status) && (
+                          <Button variant="ghost" size="icon" className="h-8 w-8" title="Skip (do not push)" onClick={() => handleChangeStatus(transaction, "skipped")}>
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   )})
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center p-8 text-muted-foreground h-48">
-                      {allTransactions.length > 0 ? "No attendance transactions found matching your criteria." : "No attendance data available." }
+                    <TableCell colSpan={7} className="text-center p-8 text-muted-foreground h-48">
+                      {isFiltered ? "No attendance transactions found matching your criteria." : "No attendance data available." }
                     </TableCell>
                   </TableRow>
                 )}
@@ -479,6 +573,16 @@ export default function AttendanceTransactionsPage() {
           </div>
         </CardFooter>
       </Card>
+
+      <AttendanceExportDialog
+        filter={transactionFilter}
+        total={transactionPage.total}
+        isOpen={isExportDialogOpen}
+        onClose={() => setIsExportDialogOpen(false)}
+      />
+      <AttendanceImportWizard isOpen={isImportWizardOpen} onClose={() => setIsImportWizardOpen(false)} />
+      <ManualPunchDialog isOpen={isManualPunchDialogOpen} onClose={() => setIsManualPunchDialogOpen(false)} />
+      <TransactionDetailsSheet transactionId={detailsTransactionId} deviceLookup={deviceLookup} onClose={() => setDetailsTransactionId(null)} />
     </div>
   );
 }
@@ -0,0 +1,311 @@
+"use client";
+
+import * as React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { HardDrive, Loader2, Pencil, Plus, RefreshCw, RotateCcw, SearchX, Trash2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { addLog, newCorrelationId } from "@/lib/app-logger";
+import {
+  DEVICE_HEALTH_LABELS,
+  DEVICE_SOURCES,
+  deleteDevice,
+  getDeviceHealth,
+  getDeviceOverview,
+  resetDeviceWatermark,
+  runDeviceFetch,
+  type Device,
+  type DeviceHealth,
+  type DeviceOverview,
+} from "@/lib/devices";
+import { DeviceDialog } from "@/components/devices/device-dialog";
+
+const REFRESH_INTERVAL_MS = 15000;
+
+const HEALTH_CLASSES: Record<DeviceHealth, string> = {
+  ok: "bg-green-100 text-green-800 border border-green-300 dark:bg-green-700/30 dark:text-green-300 dark:border-green-600",
+  error: "bg-red-100 text-red-800 border border-red-300 dark:bg-red-700/30 dark:text-red-300 dark:border-red-600",
+  stale: "bg-yellow-100 text-yellow-800 border border-yellow-300 dark:bg-yellow-700/30 dark:text-yellow-300 dark:border-yellow-600",
+  no_contact: "bg-muted text-muted-foreground border",
+  disabled: "bg-muted text-muted-foreground border",
+};
+
+const sourceLabel = (sourceType: string) => DEVICE_SOURCES[sourceType]?.label ?? sourceType;
+
+const formatRelative = (time: string | null) => time
+  ? <span title={format(new Date(time), "PPpp")}>{formatDistanceToNow(new Date(time), { addSuffix: true })}</span>
+  : "never";
+
+export default function DevicesPage() {
+  const { toast } = useToast();
+  const [overview, setOverview] = React.useState<DeviceOverview | null>(null);
+  const [dialogState, setDialogState] = React.useState<{ device: Device | null; prefill?: { sourceType: string; deviceId: string } } | null>(null);
+  const [deviceToDelete, setDeviceToDelete] = React.useState<Device | null>(null);
+  const [fetchingIds, setFetchingIds] = React.useState<Set<string>>(new Set());
+
+  const loadOverview = React.useCallback(async () => {
+    try {
+      setOverview(await getDeviceOverview());
+    } catch (error) {
+      addLog("DevicesPage", `Error loading the device registry: ${error instanceof Error ? error.message : String(error)}`, "Error", { error });
+    }
+  }, []);
+
+  React.useEffect(() => {
+    addLog("DevicesPage", "Page loaded.", "Debug");
+    loadOverview();
+    const interval = setInterval(loadOverview, REFRESH_INTERVAL_MS);
+    window.addEventListener("devicesUpdated", loadOverview);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("devicesUpdated", loadOverview);
+    };
+  }, [loadOverview]);
+
+  const handleFetch = async (device: Device) => {
+    setFetchingIds(current => new Set(current).add(device.id));
+    const correlationId = newCorrelationId();
+    addLog("DevicesPage", `Fetching device '${device.name}'${device.lastRecordTime ? ` (importing punches after ${device.lastRecordTime})` : ""}.`, "Info", { correlationId });
+    try {
+      const result = await runDeviceFetch(device.id, correlationId);
+      if (result.lastStatus === "success") {
+        toast({ title: `${device.name} Fetched`, description: result.lastMessage });
+        addLog("DevicesPage", result.lastMessage || `Fetched '${device.name}'.`, "Success", { correlationId });
+      } else {
+        toast({ title: "Fetch Failed", description: result.lastMessage, variant: "destructive" });
+        addLog("DevicesPage", `Fetch of '${device.name}' failed: ${result.lastMessage}`, "Error", { correlationId });
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Fetch Failed", description: msg, variant: "destructive" });
+      addLog("DevicesPage", `Fetch of '${device.name}' failed: ${msg}`, "Error", { correlationId, error });
+    } finally {
+      setFetchingIds(current => {
+        const next = new Set(current);
+        next.delete(device.id);
+        return next;
+      });
+    }
+  };
+
+  const handleResetWatermark = async (device: Device) => {
+    try {
+      await resetDeviceWatermark(device.id);
+      toast({ title: "Import Position Reset", description: `The next fetch of ${device.name} imports everything the source still holds.` });
+      addLog("DevicesPage", `Import watermark of '${device.name}' reset by user.`, "Info");
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Reset Failed", description: msg, variant: "destructive" });
+      addLog("DevicesPage", `Import watermark reset of '${device.name}' failed: ${msg}`, "Error");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deviceToDelete) return;
+    try {
+      await deleteDevice(deviceToDelete.id);
+      toast({ title: "Device Removed", description: `${deviceToDelete.name} is no longer fetched; its punches are kept.` });
+      addLog("DevicesPage", `Device '${deviceToDelete.name}' removed from the registry.`, "Info", { context: { deviceId: deviceToDelete.id } });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Remove Failed", description: msg, variant: "destructive" });
+      addLog("DevicesPage", `Removing device '${deviceToDelete.name}' failed: ${msg}`, "Error");
+    }
+    setDeviceToDelete(null);
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-lg">
+        <CardHeader className="border-b flex flex-row items-center justify-between">
+          <div>
+            <div className="flex items-center gap-3">
+              <HardDrive className="h-8 w-8 text-primary" />
+              <CardTitle className="font-headline text-2xl">Devices</CardTitle>
+            </div>
+            <CardDescription className="mt-1.5">
+              Every terminal with its own connection settings, fetch schedule and import position. Enabled devices are fetched
+              by the server on their schedule; punches show the name of the device they came from.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={loadOverview}>
+              <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+            </Button>
+            <Button size="sm" onClick={() => setDialogState({ device: null })}>
+              <Plus className="mr-2 h-4 w-4" /> Register Device
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="p-3">Device</TableHead>
+                <TableHead className="p-3">Source / ID</TableHead>
+                <TableHead className="p-3">Health</TableHead>
+                <TableHead className="p-3">Last Contact</TableHead>
+                <TableHead className="p-3">Schedule</TableHead>
+                <TableHead className="p-3">Imported Up To</TableHead>
+                <TableHead className="p-3 text-right">Records</TableHead>
+                <TableHead className="p-3 w-[150px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overview?.devices.length ? overview.devices.map(device => {
+                const health = getDeviceHealth(device, now);
+                const fetched = DEVICE_SOURCES[device.sourceType]?.fetched ?? false;
+                const isFetching = device.running || fetchingIds.has(device.id);
+                return (
+                  <TableRow key={device.id}>
+                    <TableCell className="p-3">
+                      <div className="font-medium">{device.name}</div>
+                      {device.location && <div className="text-xs text-muted-foreground">{device.location}</div>}
+                    </TableCell>
+                    <TableCell className="p-3">
+                      <div>{sourceLabel(device.sourceType)}</div>
+                      <div className="font-mono text-xs text-muted-foreground">{device.deviceId ?? "not learned yet"}</div>
+                    </TableCell>
+                    <TableCell className="p-3">
+                      <Badge variant="secondary" className={HEALTH_CLASSES[health]}>{DEVICE_HEALTH_LABELS[health]}</Badge>
+                      {health === "error" && device.lastError && (
+                        <p className="text-xs text-destructive mt-1 max-w-[260px] break-words" title={device.lastErrorAt ? format(new Date(device.lastErrorAt), "PPpp") : undefined}>
+                          {device.lastError}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="p-3">{formatRelative(device.lastContactAt)}</TableCell>
+                    <TableCell className="p-3 text-sm">
+                      {!fetched ? (
+                        <span className="text-muted-foreground">Uploads by itself</span>
+                      ) : isFetching ? (
+                        <span className="inline-flex items-center gap-1"><Loader2 className="h-3 w-3 animate-spin" /> Fetching now</span>
+                      ) : !device.settings ? (
+                        <span className="text-muted-foreground">No connection settings</span>
+                      ) : device.enabled && device.nextRunAt ? (
+                        <>Every {device.frequency}, next {format(new Date(device.nextRunAt), "p")}</>
+                      ) : (
+                        <span className="text-muted-foreground">Manual only</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="p-3 text-sm">
+                      {fetched ? (device.lastRecordTime ? format(new Date(device.lastRecordTime), "Pp") : "nothing yet") : "-"}
+                    </TableCell>
+                    <TableCell className="p-3 text-right">{device.recordCount}</TableCell>
+                    <TableCell className="p-3 text-right whitespace-nowrap">
+                      {fetched && (
+                        <>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" title="Fetch now" disabled={isFetching || !device.settings} onClick={() => handleFetch(device)}>
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" title="Reset import position" disabled={isFetching || !device.lastRecordTime} onClick={() => handleResetWatermark(device)}>
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit" onClick={() => setDialogState({ device })}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Remove" disabled={isFetching} onClick={() => setDeviceToDelete(device)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              }) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                    {overview ? "No devices registered yet." : "Loading devices..."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {overview && overview.unregistered.length > 0 && (
+        <Card className="shadow-lg rounded-lg">
+          <CardHeader className="border-b">
+            <div className="flex items-center gap-3">
+              <SearchX className="h-8 w-8 text-primary" />
+              <CardTitle className="font-headline text-2xl">Unregistered Devices</CardTitle>
+            </div>
+            <CardDescription>Device IDs on stored punches that no registered device covers, e.g. from the single-device source pages.</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="p-3">Source</TableHead>
+                  <TableHead className="p-3">Device ID</TableHead>
+                  <TableHead className="p-3">Latest Punch</TableHead>
+                  <TableHead className="p-3 text-right">Punches</TableHead>
+                  <TableHead className="p-3 w-[110px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overview.unregistered.map(unregistered => (
+                  <TableRow key={`${unregistered.source_type}|${unregistered.device_id}`}>
+                    <TableCell className="p-3">{sourceLabel(unregistered.source_type)}</TableCell>
+                    <TableCell className="p-3 font-mono">{unregistered.device_id}</TableCell>
+                    <TableCell className="p-3">{format(new Date(unregistered.last_time), "Pp")}</TableCell>
+                    <TableCell className="p-3 text-right">{unregistered.count}</TableCell>
+                    <TableCell className="p-3 text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!DEVICE_SOURCES[unregistered.source_type]}
+                        onClick={() => setDialogState({ device: null, prefill: { sourceType: unregistered.source_type, deviceId: unregistered.device_id } })}
+                      >
+                        Register
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <DeviceDialog
+        isOpen={dialogState !== null}
+        onClose={() => setDialogState(null)}
+        device={dialogState?.device ?? null}
+        prefill={dialogState?.prefill}
+      />
+
+      <AlertDialog open={deviceToDelete !== null} onOpenChange={(open) => !open && setDeviceToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {deviceToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The device is no longer fetched and its connection settings and import position are deleted.
+              Its stored punches are kept and show up under Unregistered Devices.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
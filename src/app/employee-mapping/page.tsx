@@ -0,0 +1,341 @@
+"use client";
+
+import * as React from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { RefreshCw, Save, Undo2 } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_RULE_SOURCE,
+  EMPLOYEE_ID_NORMALIZATIONS,
+  EMPLOYEE_MATCH_FIELDS,
+  getEmployeeMappingOverview,
+  saveEmployeeMappingRule,
+  setManualEmployeeMapping,
+  syncOdooEmployees,
+  type EmployeeIdNormalization,
+  type EmployeeMapping,
+  type EmployeeMappingOverview,
+  type EmployeeMappingRule,
+  type EmployeeMatchField,
+} from "@/lib/employee-mapping";
+import { addLog } from "@/lib/app-logger";
+
+const MATCH_FIELD_LABELS: Record<EmployeeMatchField, string> = {
+  barcode: "Badge ID (barcode)",
+  pin: "PIN",
+  identification_id: "Identification No",
+};
+
+const NORMALIZATION_LABELS: Record<EmployeeIdNormalization, string> = {
+  exact: "Exact match",
+  ignore_leading_zeros: "Ignore leading zeros",
+  digits_only: "Digits only",
+};
+
+const UNMAPPED_VALUE = "__unmapped__";
+
+const mappingKey = (m: EmployeeMapping) => `${m.source_type}:${m.device_employee_id}`;
+
+export default function EmployeeMappingPage() {
+  const { toast } = useToast();
+  const [overview, setOverview] = React.useState<EmployeeMappingOverview | null>(null);
+  const [ruleDrafts, setRuleDrafts] = React.useState<Record<string, EmployeeMappingRule>>({});
+  const [isSyncing, setIsSyncing] = React.useState(false);
+  const [savingKey, setSavingKey] = React.useState<string | null>(null);
+  const [searchFilter, setSearchFilter] = React.useState("");
+  const [showUnmappedOnly, setShowUnmappedOnly] = React.useState(false);
+
+  const loadOverview = React.useCallback(async () => {
+    try {
+      const data = await getEmployeeMappingOverview();
+      setOverview(data);
+      setRuleDrafts(Object.fromEntries(data.rules.map(rule => [rule.source_type, rule])));
+      addLog("EmployeeMappingPage", `Loaded ${data.mappings.length} device IDs, ${data.employees.length} Odoo employees.`, "Debug");
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      addLog("EmployeeMappingPage", `Error loading employee mappings: ${msg}`, "Error");
+      toast({ title: "Load Error", description: msg, variant: "destructive" });
+    }
+  }, [toast]);
+
+  React.useEffect(() => {
+    loadOverview();
+    window.addEventListener('attendanceTransactionsUpdated', loadOverview);
+    return () => window.removeEventListener('attendanceTransactionsUpdated', loadOverview);
+  }, [loadOverview]);
+
+  // Sources seen in the attendance store get a rule row even before a rule is saved for them.
+  const ruleSources = React.useMemo(() => {
+    const sources = new Set<string>([DEFAULT_RULE_SOURCE]);
+    overview?.rules.forEach(rule => sources.add(rule.source_type));
+    overview?.mappings.forEach(mapping => sources.add(mapping.source_type));
+    return Array.from(sources);
+  }, [overview]);
+
+  const defaultRule = ruleDrafts[DEFAULT_RULE_SOURCE];
+
+  const filteredMappings = React.useMemo(() => {
+    const search = searchFilter.trim().toLowerCase();
+    return (overview?.mappings ?? []).filter(mapping => {
+      if (showUnmappedOnly && mapping.odoo_employee_id !== null) return false;
+      if (!search) return true;
+      return mapping.device_employee_id.toLowerCase().includes(search)
+        || (mapping.odoo_employee_name ?? "").toLowerCase().includes(search);
+    });
+  }, [overview, searchFilter, showUnmappedOnly]);
+
+  const unmappedCount = overview?.mappings.filter(m => m.odoo_employee_id === null).length ?? 0;
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    addLog("EmployeeMappingPage", "Syncing employees from Odoo.", "Info");
+    try {
+      const result = await syncOdooEmployees();
+      const msg = `Synced ${result.synced} employees. ${result.matched} device IDs matched, ${result.unmatched} unmatched.`;
+      addLog("EmployeeMappingPage", msg, "Success");
+      toast({ title: "Employees Synced", description: msg });
+      await loadOverview();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      addLog("EmployeeMappingPage", `Employee sync failed: ${msg}`, "Error");
+      toast({ title: "Sync Failed", description: `${msg} Check the UHH connection.`, variant: "destructive" });
+    }
+    setIsSyncing(false);
+  };
+
+  const updateRuleDraft = (sourceType: string, changes: Partial<EmployeeMappingRule>) => {
+    setRuleDrafts(prev => {
+      const base = prev[sourceType] ?? { ...defaultRule, source_type: sourceType };
+      return { ...prev, [sourceType]: { ...base, ...changes } };
+    });
+  };
+
+  const handleSaveRule = async (sourceType: string) => {
+    const rule = ruleDrafts[sourceType] ?? { ...defaultRule, source_type: sourceType };
+    setSavingKey(`rule:${sourceType}`);
+    try {
+      const result = await saveEmployeeMappingRule(rule);
+      const msg = `Rule for '${sourceType}' saved (${rule.match_field}, ${rule.normalization}). ${result.matched} matched, ${result.unmatched} unmatched.`;
+      addLog("EmployeeMappingPage", msg, "Info");
+      toast({ title: "Rule Saved", description: msg });
+      await loadOverview();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      addLog("EmployeeMappingPage", `Error saving rule for '${sourceType}': ${msg}`, "Error");
+      toast({ title: "Save Error", description: msg, variant: "destructive" });
+    }
+    setSavingKey(null);
+  };
+
+  const handleSetMapping = async (mapping: EmployeeMapping, odooEmployeeId: number | null) => {
+    setSavingKey(mappingKey(mapping));
+    try {
+      await setManualEmployeeMapping(mapping.source_type, mapping.device_employee_id, odooEmployeeId);
+      addLog(
+        "EmployeeMappingPage",
+        odooEmployeeId === null
+          ? `Manual mapping for ${mapping.source_type} ID '${mapping.device_employee_id}' removed; automatic rule applies.`
+          : `${mapping.source_type} ID '${mapping.device_employee_id}' manually mapped to Odoo employee ${odooEmployeeId}.`,
+        "Info"
+      );
+      await loadOverview();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      addLog("EmployeeMappingPage", `Error updating mapping for '${mapping.device_employee_id}': ${msg}`, "Error");
+      toast({ title: "Mapping Error", description: msg, variant: "destructive" });
+    }
+    setSavingKey(null);
+  };
+
+  const getMethodBadge = (mapping: EmployeeMapping) => {
+    if (mapping.odoo_employee_id === null) {
+      return <Badge variant="secondary" className="bg-orange-100 text-orange-800 border border-orange-300 dark:bg-orange-700/30 dark:text-orange-300 dark:border-orange-600">Unmapped</Badge>;
+    }
+    return mapping.method === 'manual'
+      ? <Badge variant="default">Manual</Badge>
+      : <Badge variant="outline">Auto</Badge>;
+  };
+
+  return (
+    <div className="flex flex-col h-full space-y-6">
+      <Card className="shadow-lg rounded-lg">
+        <CardHeader className="border-b flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="font-headline text-xl">Odoo Employees</CardTitle>
+            <CardDescription>
+              {overview?.lastSyncedAt
+                ? `${overview.employees.length} employees cached, last synced ${format(new Date(overview.lastSyncedAt), "PPpp")}.`
+                : "No employees synced yet. Connect on the UHH Connectivity page, then sync."}
+            </CardDescription>
+          </div>
+          <Button onClick={handleSync} disabled={isSyncing} size="sm">
+            <RefreshCw className={`mr-2 h-4 w-4 ${isSyncing ? "animate-spin" : ""}`} />
+            {isSyncing ? "Syncing..." : "Sync from Odoo"}
+          </Button>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Device IDs are matched automatically against the selected Odoo employee field. The default rule (*) applies to every source without a rule of its own.
+          </p>
+          {defaultRule && ruleSources.map(sourceType => {
+            const rule = ruleDrafts[sourceType] ?? { ...defaultRule, source_type: sourceType };
+            return (
+              <div key={sourceType} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div>
+                  <Label>Source</Label>
+                  <p className="h-10 flex items-center font-medium">{sourceType === DEFAULT_RULE_SOURCE ? "Default (*)" : sourceType}</p>
+                </div>
+                <div>
+                  <Label htmlFor={`matchField-${sourceType}`}>Odoo Field</Label>
+                  <Select value={rule.match_field} onValueChange={(value) => updateRuleDraft(sourceType, { match_field: value as EmployeeMatchField })}>
+                    <SelectTrigger id={`matchField-${sourceType}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EMPLOYEE_MATCH_FIELDS.map(field => (
+                        <SelectItem key={field} value={field}>{MATCH_FIELD_LABELS[field]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor={`normalization-${sourceType}`}>Normalization</Label>
+                  <Select value={rule.normalization} onValueChange={(value) => updateRuleDraft(sourceType, { normalization: value as EmployeeIdNormalization })}>
+                    <SelectTrigger id={`normalization-${sourceType}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EMPLOYEE_ID_NORMALIZATIONS.map(normalization => (
+                        <SelectItem key={normalization} value={normalization}>{NORMALIZATION_LABELS[normalization]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button variant="outline" onClick={() => handleSaveRule(sourceType)} disabled={savingKey === `rule:${sourceType}`}>
+                  <Save className="mr-2 h-4 w-4" /> Save Rule
+                </Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card className="flex-1 flex flex-col overflow-hidden shadow-lg rounded-lg">
+        <CardHeader className="border-b flex flex-row items-center justify-between gap-4">
+          <div>
+            <CardTitle className="font-headline text-2xl">Device ID Mappings</CardTitle>
+            <CardDescription>
+              {overview ? `${overview.mappings.length} device IDs, ${unmappedCount} unmapped. Unmapped records are held back from the push.` : "Loading..."}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            <Input
+              placeholder="Search ID or name"
+              value={searchFilter}
+              onChange={(e) => setSearchFilter(e.target.value)}
+              className="w-48"
+            />
+            <div className="flex items-center space-x-2">
+              <Switch id="unmappedOnly" checked={showUnmappedOnly} onCheckedChange={setShowUnmappedOnly} />
+              <Label htmlFor="unmappedOnly" className="whitespace-nowrap">Unmapped only</Label>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-y-auto p-0">
+          <ScrollArea className="h-full">
+            <Table className="min-w-full">
+              <TableHeader className="sticky top-0 bg-card z-10 shadow-sm">
+                <TableRow>
+                  <TableHead className="p-3 w-[150px]">Source</TableHead>
+                  <TableHead className="p-3 w-[150px]">Device Employee ID</TableHead>
+                  <TableHead className="p-3 w-[100px]">Records</TableHead>
+                  <TableHead className="p-3">Odoo Employee</TableHead>
+                  <TableHead className="p-3 w-[120px]">Method</TableHead>
+                  <TableHead className="p-3 w-[80px] text-right"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredMappings.length > 0 ? (
+                  filteredMappings.map(mapping => (
+                    <TableRow key={mappingKey(mapping)}>
+                      <TableCell className="p-3">{mapping.source_type}</TableCell>
+                      <TableCell className="p-3 font-mono">{mapping.device_employee_id}</TableCell>
+                      <TableCell className="p-3">{mapping.transaction_count}</TableCell>
+                      <TableCell className="p-3">
+                        <Select
+                          value={mapping.odoo_employee_id === null ? UNMAPPED_VALUE : String(mapping.odoo_employee_id)}
+                          onValueChange={(value) => handleSetMapping(mapping, value === UNMAPPED_VALUE ? null : Number(value))}
+                          disabled={savingKey === mappingKey(mapping) || !overview?.employees.length}
+                        >
+                          <SelectTrigger className="h-9">
+                            <SelectValue placeholder="Select employee" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNMAPPED_VALUE} disabled>Not mapped</SelectItem>
+                            {overview?.employees.map(employee => (
+                              <SelectItem key={employee.id} value={String(employee.id)}>
+                                {employee.name}{employee.barcode ? ` (${employee.barcode})` : ""}{employee.active ? "" : " [archived]"}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="p-3">{getMethodBadge(mapping)}</TableCell>
+                      <TableCell className="p-3 text-right">
+                        {mapping.method === 'manual' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Remove manual override"
+                            onClick={() => handleSetMapping(mapping, null)}
+                            disabled={savingKey === mappingKey(mapping)}
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                      {overview?.mappings.length ? "No device IDs match the current filters." : "No attendance records yet."}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import type { NextRequest } from 'next/server';
+import { buildHandshake, deviceIp, parseAttlog, parseOperlog, textReply } from '@/lib/server/adms-protocol';
+import { ingestPunches, saveDeviceUsers, touchDevice } from '@/lib/server/adms-store';
+
+/**
+ * Handshake. The device sends `?SN=...&options=all&pushver=...` on start-up and after reconnecting;
+ * the reply tells it where to resume uploads and how often to poll.
+ */
+export async function GET(request: NextRequest) {
+  const serialNumber = request.nextUrl.searchParams.get('SN');
+  if (!serialNumber) return textReply('Missing SN', 400);
+
+  try {
+    const device = touchDevice({ serialNumber, ip: deviceIp(request.headers), pushVersion: request.nextUrl.searchParams.get('pushver') });
+    if (!device.approved) {
+      console.warn(`ADMS: Handshake from unapproved device ${serialNumber}. Approve it on the ADMS page to accept uploads.`);
+    }
+    return textReply(buildHandshake(serialNumber, device.attlog_stamp, device.operlog_stamp));
+  } catch (error) {
+    console.error(`ADMS: Error handling handshake from ${serialNumber}:`, error);
+    return textReply('ERROR', 500);
+  }
+}
+
+/**
+ * Data upload. `?SN=...&table=ATTLOG|OPERLOG&Stamp=...` with one record per line in the body.
+ * Uploads from unapproved devices are refused so the device keeps the data and retries later.
+ */
+export async function POST(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const serialNumber = params.get('SN');
+  const table = params.get('table');
+  if (!serialNumber) return textReply('Missing SN', 400);
+
+  try {
+    const device = touchDevice({ serialNumber, ip: deviceIp(request.headers) });
+    if (!device.approved) {
+      return textReply('Device not approved', 403);
+    }
+
+    const body = await request.text();
+    const stamp = params.get('Stamp');
+
+    if (table === 'ATTLOG') {
+      const { punches, invalid } = parseAttlog(body);
+      const { inserted, duplicates, skipped } = ingestPunches(serialNumber, punches, stamp);
+      console.log(`ADMS: ${serialNumber} uploaded ${punches.length} punches (${inserted} stored, ${duplicates} duplicates, ${skipped} non-attendance states, ${invalid} malformed lines).`);
+      return textReply(`OK: ${punches.length + invalid}`);
+    }
+
+    if (table === 'OPERLOG') {
+      const { users, lineCount } = parseOperlog(body);
+      saveDeviceUsers(serialNumber, users, stamp);
+      return textReply(`OK: ${lineCount}`);
+    }
+
+    // Photos and other tables aren't used; acknowledge them so the device doesn't resend.
+    const lineCount = body.split(/\r?\n/).filter(Boolean).length;
+    return textReply(`OK: ${lineCount}`);
+  } catch (error) {
+    console.error(`ADMS: Error handling ${table} upload from ${serialNumber}:`, error);
+    return textReply('ERROR', 500);
+  }
+}
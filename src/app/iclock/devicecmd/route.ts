@@ -0,0 +1,24 @@
+import type { NextRequest } from 'next/server';
+import { parseCommandResults, textReply } from '@/lib/server/adms-protocol';
+import { completeCommands } from '@/lib/server/adms-store';
+
+/**
+ * Command results. Body lines look like `ID=12&Return=0&CMD=REBOOT`; a non-zero Return is a failure.
+ */
+export async function POST(request: NextRequest) {
+  const serialNumber = request.nextUrl.searchParams.get('SN');
+  if (!serialNumber) return textReply('Missing SN', 400);
+
+  try {
+    const results = parseCommandResults(await request.text());
+    completeCommands(serialNumber, results);
+    const failed = results.filter(result => result.returnCode !== 0);
+    if (failed.length > 0) {
+      console.warn(`ADMS: ${serialNumber} reported failed commands: ${failed.map(r => `#${r.id} (Return=${r.returnCode})`).join(', ')}.`);
+    }
+    return textReply('OK');
+  } catch (error) {
+    console.error(`ADMS: Error handling command results from ${serialNumber}:`, error);
+    return textReply('ERROR', 500);
+  }
+}
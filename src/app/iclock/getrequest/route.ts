@@ -0,0 +1,29 @@
+import type { NextRequest } from 'next/server';
+import { deviceIp, parseDeviceInfo, textReply } from '@/lib/server/adms-protocol';
+import { takePendingCommands, touchDevice } from '@/lib/server/adms-store';
+
+/**
+ * Command poll. The device calls `?SN=...` every few seconds (optionally with `INFO=` status) and runs
+ * each returned `C:<id>:<command>` line, reporting back through /iclock/devicecmd.
+ */
+export async function GET(request: NextRequest) {
+  const serialNumber = request.nextUrl.searchParams.get('SN');
+  if (!serialNumber) return textReply('Missing SN', 400);
+
+  try {
+    const info = request.nextUrl.searchParams.get('INFO');
+    const device = touchDevice({
+      serialNumber,
+      ip: deviceIp(request.headers),
+      info: info ? parseDeviceInfo(info) : undefined,
+    });
+    if (!device.approved) return textReply('OK');
+
+    const commands = takePendingCommands(serialNumber);
+    if (commands.length === 0) return textReply('OK');
+    return textReply(commands.map(command => `C:${command.id}:${command.command}`).join('\n'));
+  } catch (error) {
+    console.error(`ADMS: Error handling command poll from ${serialNumber}:`, error);
+    return textReply('OK');
+  }
+}
@@ -42,22 +42,61 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { LogDetailsModal } from "@/components/logs/log-details-modal";
-import type { LogEntry, LogEntryStatus } from "@/lib/app-logger";
-import { getLogs, clearLogs, addLog, applyRetentionPolicy } from "@/lib/app-logger";
+import type { LogEntry, LogEntryStatus, LogPage, LogQuery, LogRetentionDays } from "@/lib/app-logger";
+import type { LogRetentionJobConfig } from "@/lib/scheduler/api";
+import { getLogs, clearLogs, addLog, parseLogSearch, DEFAULT_LOG_RETENTION_DAYS, LOG_ENTRY_STATUSES } from "@/lib/app-logger";
+import { downloadLogFile, filterLogEntries, parseLogFile, type LogFileFormat } from "@/lib/log-files";
+import { configureSchedulerJob } from "@/lib/scheduler/api";
+import { useSchedulerJob } from "@/hooks/use-scheduler-job";
 import { useToast } from "@/hooks/use-toast";
-import { Trash2, FilterX } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { Trash2, FilterX, Download, Upload, FileText, X, Search } from "lucide-react";
 
 
 const RETENTION_OPTIONS = [
-  { value: "1d", label: "1 Day" },
-  { value: "7d", label: "7 Days" },
-  { value: "14d", label: "14 Days" },
-  { value: "30d", label: "30 Days" },
-  { value: "90d", label: "90 Days" },
+  { value: "1", label: "1 Day" },
+  { value: "7", label: "7 Days" },
+  { value: "14", label: "14 Days" },
+  { value: "30", label: "30 Days" },
+  { value: "90", label: "90 Days" },
+  { value: "180", label: "180 Days" },
+  { value: "365", label: "1 Year" },
   { value: "never", label: "Never Delete" },
 ];
 
+// Where this browser kept the retention settings before the 'log_retention' job held them.
+const RETENTION_STORAGE_KEY = "logRetentionDays";
+const LEGACY_RETENTION_STORAGE_KEY = "logRetentionPeriod"; // Single period for all statuses, e.g. "7d"
+
+const retentionToOption = (days: number | null) => days === null ? "never" : String(days);
+const optionToRetention = (value: string) => value === "never" ? null : parseInt(value, 10);
+
+/**
+ * Reads the retention settings this browser saved before they moved to the server, converting the former
+ * single period if needed.
+ * @returns The settings, or null if this browser has none.
+ */
+function loadStoredRetentionDays(): LogRetentionDays | null {
+  try {
+    const stored = localStorage.getItem(RETENTION_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_LOG_RETENTION_DAYS, ...JSON.parse(stored) };
+  } catch {
+    // Fall through to the former format.
+  }
+  const legacy = localStorage.getItem(LEGACY_RETENTION_STORAGE_KEY);
+  if (!legacy) return null;
+  const days = legacy === "never" ? null : parseInt(legacy, 10);
+  if (days !== null && isNaN(days)) return null;
+  return { Error: days, Success: days, Info: days, Debug: days };
+}
+
+function clearStoredRetentionDays(): void {
+  localStorage.removeItem(RETENTION_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_RETENTION_STORAGE_KEY);
+}
+
 const LOGS_PER_PAGE_OPTIONS = [
   { value: "20", label: "20 per page" },
   { value: "50", label: "50 per page" },
@@ -66,6 +105,19 @@ const LOGS_PER_PAGE_OPTIONS = [
   { value: "all", label: "Show All" },
 ];
 
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Wraps every occurrence of the search terms in a <mark>, case-insensitively.
+ */
+function highlightTerms(text: string, terms: string[]): React.ReactNode {
+  if (terms.length === 0) return text;
+  const pattern = new RegExp(`(${terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`, "gi");
+  return text.split(pattern).map((part, index) =>
+    index % 2 === 1 ? <mark key={index} className="bg-yellow-200 text-inherit rounded-sm dark:bg-yellow-600/50">{part}</mark> : part
+  );
+}
+
 const STATUS_FILTER_OPTIONS: { value: LogEntryStatus | "all"; label: string }[] = [
     { value: "all", label: "All Statuses" },
     { value: "Success", label: "Success" },
@@ -77,16 +129,25 @@ const STATUS_FILTER_OPTIONS: { value: LogEntryStatus | "all"; label: string }[]
 
 export default function LogsPage() {
   const { toast } = useToast();
-  const [allLogs, setAllLogs] = React.useState<LogEntry[]>([]);
+  const [logPage, setLogPage] = React.useState<LogPage>({ logs: [], total: 0, sources: [] });
   
   // Settings
-  const [logRetentionPeriod, setLogRetentionPeriod] = React.useState<string>(
-    RETENTION_OPTIONS[1].value // Default to 7 days
-  );
+  const [retentionDays, setRetentionDays] = React.useState<LogRetentionDays>(DEFAULT_LOG_RETENTION_DAYS);
+  const [retentionLoaded, setRetentionLoaded] = React.useState(false);
+  const { job: retentionJob } = useSchedulerJob("log_retention");
   
   // Filters
   const [sourceFilter, setSourceFilter] = React.useState<string>("all");
   const [statusFilter, setStatusFilter] = React.useState<LogEntryStatus | "all">("all");
+  const [correlationFilter, setCorrelationFilter] = React.useState<string>("");
+  const [searchInput, setSearchInput] = React.useState<string>("");
+  const [searchFilter, setSearchFilter] = React.useState<string>(""); // searchInput once typing pauses
+  const [dateFromFilter, setDateFromFilter] = React.useState<string>(""); // yyyy-MM-ddTHH:mm, local time
+  const [dateToFilter, setDateToFilter] = React.useState<string>("");
+
+  // A log file loaded for inspection; while set, the table shows it instead of this install's logs.
+  const [importedView, setImportedView] = React.useState<{ fileName: string; logs: LogEntry[] } | null>(null);
+  const importInputRef = React.useRef<HTMLInputElement>(null);
   
   // Pagination & Display
   const [logsPerPage, setLogsPerPage] = React.useState<string>(
@@ -100,20 +161,83 @@ export default function LogsPage() {
   const [settingsInitialized, setSettingsInitialized] = React.useState(false);
 
 
-  const loadAndSetLogs = React.useCallback(() => {
-    const logsData = getLogs().sort((a,b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-    setAllLogs(logsData);
-  }, []);
+  // The settings live with the background 'log_retention' job, which deletes expired entries.
+  const saveRetentionDays = React.useCallback(async (updated: LogRetentionDays): Promise<boolean> => {
+    try {
+      await configureSchedulerJob("log_retention", { config: { retentionDays: updated } });
+      return true;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Retention Not Saved", description: msg, variant: "destructive" });
+      addLog("LogsPage", `Could not save log retention settings: ${msg}`, "Error", { error });
+      return false;
+    }
+  }, [toast]);
 
+  // Shows the job's settings once it has loaded. Settings this browser kept from before are sent to the
+  // server if it has none yet, and dropped either way.
   React.useEffect(() => {
-    const storedRetention = localStorage.getItem("logRetentionPeriod");
-    if (storedRetention && RETENTION_OPTIONS.find(opt => opt.value === storedRetention)) {
-      setLogRetentionPeriod(storedRetention);
-    } else {
-      localStorage.setItem("logRetentionPeriod", RETENTION_OPTIONS[1].value);
-      setLogRetentionPeriod(RETENTION_OPTIONS[1].value);
+    if (!retentionJob || retentionLoaded) return;
+    setRetentionLoaded(true);
+    const saved = (retentionJob.settings as LogRetentionJobConfig | null | undefined)?.retentionDays;
+    const stored = loadStoredRetentionDays();
+    if (!saved && stored) {
+      setRetentionDays(stored);
+      saveRetentionDays(stored).then(migrated => { if (migrated) clearStoredRetentionDays(); });
+      return;
+    }
+    if (stored) clearStoredRetentionDays();
+    setRetentionDays({ ...DEFAULT_LOG_RETENTION_DAYS, ...saved });
+  }, [retentionJob, retentionLoaded, saveRetentionDays]);
+
+  const handleRetentionChange = (status: LogEntryStatus, value: string) => {
+    const updated = { ...retentionDays, [status]: optionToRetention(value) };
+    setRetentionDays(updated);
+    saveRetentionDays(updated);
+    addLog("LogsPage", `${status} log retention set to: ${RETENTION_OPTIONS.find(o => o.value === value)?.label || value}.`, "Info");
+  };
+
+  const numLogsPerPage = parseInt(logsPerPage, 10);
+  const showAllLogs = logsPerPage === "all";
+
+  const logQuery = React.useMemo<LogQuery>(() => ({
+    source: sourceFilter === "all" ? undefined : sourceFilter,
+    status: statusFilter === "all" ? undefined : statusFilter,
+    correlationId: correlationFilter.trim() || undefined,
+    search: searchFilter.trim() || undefined,
+    from: dateFromFilter ? new Date(dateFromFilter).toISOString() : undefined,
+    // The picker has minute precision; include the whole 'to' minute.
+    to: dateToFilter ? new Date(new Date(dateToFilter).getTime() + 59999).toISOString() : undefined,
+  }), [sourceFilter, statusFilter, correlationFilter, searchFilter, dateFromFilter, dateToFilter]);
+
+  const highlightedTerms = React.useMemo(
+    () => parseLogSearch(searchFilter).filter(term => !term.exclude).map(term => term.text),
+    [searchFilter]
+  );
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setSearchFilter(searchInput), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Filtering and paging happen on the server; only the current page is loaded.
+  // An imported file is filtered and paged here instead.
+  const loadAndSetLogs = React.useCallback(async () => {
+    const offset = showAllLogs ? undefined : (currentPage - 1) * numLogsPerPage;
+    if (importedView) {
+      const matching = filterLogEntries(importedView.logs, logQuery);
+      setLogPage({
+        logs: offset === undefined ? matching : matching.slice(offset, offset + numLogsPerPage),
+        total: matching.length,
+        sources: Array.from(new Set(importedView.logs.map(log => log.source))).sort(),
+      });
+      return;
     }
+    const page = await getLogs({ ...logQuery, limit: showAllLogs ? undefined : numLogsPerPage, offset });
+    setLogPage(page);
+  }, [logQuery, importedView, showAllLogs, numLogsPerPage, currentPage]);
 
+  React.useEffect(() => {
     const storedLogsPerPage = localStorage.getItem("logsPerPage");
     if (storedLogsPerPage && LOGS_PER_PAGE_OPTIONS.find(opt => opt.value === storedLogsPerPage)) {
       setLogsPerPage(storedLogsPerPage);
@@ -122,6 +246,10 @@ export default function LogsPage() {
       setLogsPerPage(LOGS_PER_PAGE_OPTIONS[1].value);
     }
     setSettingsInitialized(true);
+  }, []);
+
+  React.useEffect(() => {
+    if (!settingsInitialized) return;
     loadAndSetLogs();
 
     const handleLogsUpdated = () => loadAndSetLogs();
@@ -130,15 +258,7 @@ export default function LogsPage() {
     return () => {
       window.removeEventListener('logsUpdated', handleLogsUpdated);
     };
-  }, [loadAndSetLogs]);
-
-  React.useEffect(() => {
-    if (!settingsInitialized) return;
-    localStorage.setItem("logRetentionPeriod", logRetentionPeriod);
-    applyRetentionPolicy(logRetentionPeriod);
-    // This also indirectly triggers a log reload if applyRetentionPolicy modifies logs,
-    // which it currently doesn't directly but would in a full implementation.
-  }, [logRetentionPeriod, settingsInitialized]);
+  }, [loadAndSetLogs, settingsInitialized]);
 
   React.useEffect(() => {
     if (!settingsInitialized) return;
@@ -148,39 +268,27 @@ export default function LogsPage() {
   
   React.useEffect(() => {
     setCurrentPage(1); // Reset to first page when filters change
-  }, [sourceFilter, statusFilter]);
+  }, [sourceFilter, statusFilter, correlationFilter, searchFilter, dateFromFilter, dateToFilter, importedView]);
 
 
   const uniqueLogSources = React.useMemo(() => {
-    const sources = new Set(allLogs.map(log => log.source));
-    return ["all", ...Array.from(sources)].map(source => ({
+    return ["all", ...logPage.sources].map(source => ({
       value: source,
       label: source === "all" ? "All Sources" : source,
     }));
-  }, [allLogs]);
+  }, [logPage.sources]);
 
-  const filteredLogs = React.useMemo(() => {
-    return allLogs.filter(log => {
-      const matchesSource = sourceFilter === "all" || log.source === sourceFilter;
-      const matchesStatus = statusFilter === "all" || log.status === statusFilter;
-      return matchesSource && matchesStatus;
-    });
-  }, [allLogs, sourceFilter, statusFilter]);
-
-  const numLogsPerPage = parseInt(logsPerPage, 10);
-  const showAllLogs = logsPerPage === "all";
+  const paginatedLogs = logPage.logs;
+  const isFiltered = Object.values(logQuery).some(value => value !== undefined);
 
   const totalPages = React.useMemo(() => {
-    if (showAllLogs || filteredLogs.length === 0) return 1;
-    return Math.max(1, Math.ceil(filteredLogs.length / numLogsPerPage));
-  }, [filteredLogs.length, numLogsPerPage, showAllLogs]);
+    if (showAllLogs || logPage.total === 0) return 1;
+    return Math.max(1, Math.ceil(logPage.total / numLogsPerPage));
+  }, [logPage.total, numLogsPerPage, showAllLogs]);
 
-  const paginatedLogs = React.useMemo(() => {
-    if (showAllLogs) return filteredLogs;
-    const startIndex = (currentPage - 1) * numLogsPerPage;
-    const endIndex = startIndex + numLogsPerPage;
-    return filteredLogs.slice(startIndex, endIndex);
-  }, [filteredLogs, currentPage, numLogsPerPage, showAllLogs]);
+  React.useEffect(() => {
+    if (currentPage > totalPages) setCurrentPage(totalPages); // The log shrank, e.g. after clearing it
+  }, [currentPage, totalPages]);
 
 
   const handleRowClick = (log: LogEntry) => {
@@ -188,21 +296,80 @@ export default function LogsPage() {
     setIsModalOpen(true);
   };
 
-  const handleClearAllLogs = () => {
-    clearLogs(); // This will trigger the 'logsUpdated' event
+  const handleClearAllLogs = async () => {
+    setIsClearLogsDialogOpen(false);
+    try {
+      await clearLogs(); // This will trigger the 'logsUpdated' event
+    } catch (error) {
+      toast({
+        title: "Clearing Logs Failed",
+        description: error instanceof Error ? error.message : "The logs could not be deleted.",
+        variant: "destructive",
+      });
+      return;
+    }
     toast({
       title: "Logs Cleared",
       description: "All activity logs have been deleted.",
     });
-    setIsClearLogsDialogOpen(false);
     addLog("LogsPage", "All activity logs were manually cleared by the user.", "Info");
   };
   
   const handleResetFilters = () => {
     setSourceFilter("all");
     setStatusFilter("all");
-    toast({ title: "Filters Reset", description: "Source and Status filters have been cleared." });
-    addLog("LogsPage", "Log filters (source, status) reset.", "Info");
+    setCorrelationFilter("");
+    setSearchInput("");
+    setSearchFilter("");
+    setDateFromFilter("");
+    setDateToFilter("");
+    toast({ title: "Filters Reset", description: "Search, Source, Status, Correlation ID and date filters have been cleared." });
+    addLog("LogsPage", "Log filters (search, source, status, correlation ID, date range) reset.", "Info");
+  };
+
+  const handleExport = async (format: LogFileFormat) => {
+    const logs = importedView ? filterLogEntries(importedView.logs, logQuery) : (await getLogs(logQuery)).logs;
+    if (logs.length === 0) {
+      toast({ title: "Nothing to Export", description: "No logs match the current filters.", variant: "destructive" });
+      return;
+    }
+    const fileName = `logs-${new Date().toISOString().replace(/[:.]/g, "-")}.${format}`;
+    downloadLogFile(logs, format, fileName);
+    toast({ title: "Logs Exported", description: `${logs.length} log entries saved to ${fileName}.` });
+    if (!importedView) addLog("LogsPage", `Exported ${logs.length} log entries as ${format.toUpperCase()}.`, "Info", { context: { ...logQuery, fileName } });
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+    const { logs, error } = parseLogFile(await file.text(), file.name);
+    if (!logs) {
+      toast({ title: "Import Failed", description: `${file.name}: ${error}`, variant: "destructive" });
+      addLog("LogsPage", `Could not import log file ${file.name}: ${error}`, "Error");
+      return;
+    }
+    setImportedView({ fileName: file.name, logs });
+    setSourceFilter("all");
+    setStatusFilter("all");
+    setCorrelationFilter("");
+    toast({ title: "Log File Imported", description: `Showing ${logs.length} entries from ${file.name}. They are not added to this install's logs.` });
+    addLog("LogsPage", `Opened log file ${file.name} (${logs.length} entries) in the imported view.`, "Info");
+  };
+
+  const handleCloseImportedView = () => {
+    setImportedView(null);
+    setSourceFilter("all");
+    setCorrelationFilter("");
+  };
+
+  const handleShowCorrelated = (correlationId: string) => {
+    setSourceFilter("all");
+    setStatusFilter("all");
+    setCorrelationFilter(correlationId);
+    setIsModalOpen(false);
+    setSelectedLog(null);
+    addLog("LogsPage", `Filter by correlation ID: ${correlationId}`, "Debug");
   };
 
   const getBadgeVariant = (status: LogEntryStatus): { variant: "default" | "destructive" | "secondary" | "outline", className?: string } => {
@@ -231,31 +398,50 @@ export default function LogsPage() {
           </CardDescription>
         </CardHeader>
         <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 items-end">
-          <div className="space-y-2">
-            <Label htmlFor="log-retention">Log Retention Period</Label>
-            <Select
-              value={logRetentionPeriod}
-              onValueChange={(value) => {
-                setLogRetentionPeriod(value);
-                addLog("LogsPage", `Log retention period set to: ${RETENTION_OPTIONS.find(o => o.value === value)?.label || value}.`, "Info");
-              }}
-            >
-              <SelectTrigger id="log-retention">
-                <SelectValue placeholder="Select retention period" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectGroup>
-                  <SelectLabel>Retention Period</SelectLabel>
-                  {RETENTION_OPTIONS.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      {option.label}
-                    </SelectItem>
-                  ))}
-                </SelectGroup>
-              </SelectContent>
-            </Select>
-             <p className="text-xs text-muted-foreground">
-              Logs older than this will be periodically evaluated for deletion. (Requires robust main process implementation for actual deletion).
+          <div className="space-y-2 md:col-span-2 lg:col-span-3">
+            <Label>Log Retention Period</Label>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {LOG_ENTRY_STATUSES.map((status) => (
+                <div key={status} className="space-y-1">
+                  <Label htmlFor={`log-retention-${status}`} className="text-xs text-muted-foreground">{status}</Label>
+                  <Select value={retentionToOption(retentionDays[status])} onValueChange={(value) => handleRetentionChange(status, value)} disabled={!retentionLoaded}>
+                    <SelectTrigger id={`log-retention-${status}`}>
+                      <SelectValue placeholder="Select retention period" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectGroup>
+                        <SelectLabel>Keep {status} Logs For</SelectLabel>
+                        {RETENTION_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Older logs are deleted by a background job every {retentionJob?.frequency ?? "hour"}, even when this page is closed.
+              {retentionJob?.lastRunAt && ` Last purge: ${format(parseISO(retentionJob.lastRunAt), "Pp")}. ${retentionJob.lastMessage ?? ""}`}
+            </p>
+          </div>
+
+          <div className="space-y-2 md:col-span-2 lg:col-span-3">
+            <Label htmlFor="log-search">Search Messages and Context</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id="log-search"
+                placeholder='e.g. timeout "session expired" -debug'
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              All words must appear; use &quot;quotes&quot; for an exact phrase and a leading - to exclude a word or phrase.
             </p>
           </div>
 
@@ -308,7 +494,27 @@ export default function LogsPage() {
               </SelectContent>
             </Select>
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="log-correlation-filter">Filter by Correlation ID</Label>
+            <Input
+              id="log-correlation-filter"
+              placeholder="e.g. run-1718000000000abcde"
+              value={correlationFilter}
+              onChange={(e) => setCorrelationFilter(e.target.value)}
+              className="font-mono"
+            />
+          </div>
           
+          <div className="space-y-2 md:col-span-2">
+            <Label>Filter by Date and Time</Label>
+            <div className="flex items-center gap-2">
+              <Input type="datetime-local" aria-label="From" value={dateFromFilter} max={dateToFilter || undefined} onChange={(e) => setDateFromFilter(e.target.value)} />
+              <span className="text-muted-foreground text-sm">to</span>
+              <Input type="datetime-local" aria-label="To" value={dateToFilter} min={dateFromFilter || undefined} onChange={(e) => setDateToFilter(e.target.value)} />
+            </div>
+          </div>
+
           <div className="flex items-end md:col-start-1 lg:col-start-auto"> {/* Adjust column start for medium and large screens if needed or let it flow */}
               <Button onClick={handleResetFilters} variant="outline" className="w-full">
                   <FilterX className="mr-2 h-4 w-4" /> Reset Filters
@@ -316,7 +522,7 @@ export default function LogsPage() {
           </div>
 
         </CardContent>
-         <CardFooter className="border-t pt-6 flex justify-start items-center"> {/* Changed justify-between to justify-start */}
+         <CardFooter className="border-t pt-6 flex flex-wrap justify-start items-center gap-2"> {/* Changed justify-between to justify-start */}
           <AlertDialog open={isClearLogsDialogOpen} onOpenChange={setIsClearLogsDialogOpen}>
             <AlertDialogTrigger asChild>
               <Button variant="destructive">
@@ -328,7 +534,7 @@ export default function LogsPage() {
                 <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                 <AlertDialogDescription>
                   This action cannot be undone. This will permanently delete all
-                  activity logs stored in your browser's local storage.
+                  activity logs stored by the application, including those written by background jobs.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -339,15 +545,38 @@ export default function LogsPage() {
               </AlertDialogFooter>
             </AlertDialogContent>
           </AlertDialog>
+          <Button variant="outline" onClick={() => handleExport("jsonl")}>
+            <Download className="mr-2 h-4 w-4" /> Export JSONL
+          </Button>
+          <Button variant="outline" onClick={() => handleExport("csv")}>
+            <Download className="mr-2 h-4 w-4" /> Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" /> Import Log File
+          </Button>
+          <input ref={importInputRef} type="file" accept=".jsonl,.ndjson,.json,.csv" className="hidden" onChange={handleImportFile} />
+          <p className="text-xs text-muted-foreground w-full">
+            Exports contain the logs matching the current filters. Imported files are shown read-only and are not added to this install&apos;s logs.
+          </p>
         </CardFooter>
       </Card>
 
       <Card className="flex-1 flex flex-col overflow-hidden shadow-lg rounded-lg">
         <CardHeader className="border-b">
           <CardTitle className="font-headline text-2xl">Activity Logs</CardTitle>
+          {importedView && (
+            <div className="flex items-center justify-between gap-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-800 dark:border-amber-600 dark:bg-amber-900/20 dark:text-amber-300">
+              <span className="flex items-center gap-2">
+                <FileText className="h-4 w-4" /> Imported view (read-only): {importedView.fileName}, {importedView.logs.length} entries.
+              </span>
+              <Button variant="ghost" size="sm" onClick={handleCloseImportedView}>
+                <X className="mr-1 h-4 w-4" /> Back to Live Logs
+              </Button>
+            </div>
+          )}
           <CardDescription>
             System activity, data synchronization, and request logs. Click a row to view details.
-            Showing {paginatedLogs.length} of {filteredLogs.length} filtered logs.
+            Showing {paginatedLogs.length} of {logPage.total} {isFiltered ? "filtered " : ""}logs.
             {!showAllLogs && ` (Page ${currentPage} of ${totalPages})`}
           </CardDescription>
         </CardHeader>
@@ -378,7 +607,7 @@ export default function LogsPage() {
                         {log.source}
                       </TableCell>
                       <TableCell className="p-4 truncate max-w-xs md:max-w-md lg:max-w-lg xl:max-w-xl" title={log.message}>
-                        {log.message}
+                        {highlightTerms(log.message, highlightedTerms)}
                       </TableCell>
                       <TableCell className="p-4 whitespace-nowrap text-right">
                         <Badge variant={badgeStyle.variant} className={badgeStyle.className}>
@@ -393,7 +622,7 @@ export default function LogsPage() {
                       colSpan={4}
                       className="text-center p-8 text-muted-foreground h-48"
                     >
-                      {allLogs.length > 0 ? "No logs found matching your criteria." : "No logs available yet."}
+                      {isFiltered ? "No logs found matching your criteria." : "No logs available yet."}
                     </TableCell>
                   </TableRow>
                 )}
@@ -426,7 +655,7 @@ export default function LogsPage() {
                 </SelectContent>
                 </Select>
             </div>
-            {!showAllLogs && filteredLogs.length > 0 && (
+            {!showAllLogs && logPage.total > 0 && (
                 <div className="flex items-center space-x-2">
                     <Button
                     variant="outline"
@@ -460,6 +689,7 @@ export default function LogsPage() {
             setIsModalOpen(false);
             setSelectedLog(null);
           }}
+          onShowCorrelated={handleShowCorrelated}
         />
       )}
     </div>
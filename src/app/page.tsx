@@ -1,8 +1,283 @@
-import { redirect } from 'next/navigation';
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { AlertCircle, BarChart3, CloudUpload, LayoutDashboard, Network, RefreshCw } from "lucide-react";
+import { addDays, addHours, differenceInHours, format, formatDistanceToNow, startOfDay } from "date-fns";
+import { addLog } from "@/lib/app-logger";
+import { TRANSACTION_TYPE_DIRECTIONS, type UploadStatus } from "@/lib/attendance-manager";
+import { getDashboardSummary, type DashboardSummary } from "@/lib/dashboard";
+import { DEVICE_SOURCES } from "@/lib/devices";
+import { checkOdooSession, getStoredOdooSession, getStoredOdooUserName, type OdooSessionHealth } from "@/lib/odoo/api";
+
+const REFRESH_INTERVAL_MS = 60000;
+
+// The push queue as the operator thinks of it; statuses not listed (skipped, voided) are left out.
+const STATUS_TILES: { label: string; statuses: UploadStatus[]; description: string; className: string }[] = [
+  { label: "Pending", statuses: ["not_uploaded", "pending_retry", "uploading", "correction_pending"], description: "Waiting for the next push", className: "text-yellow-700 dark:text-yellow-300" },
+  { label: "Uploaded", statuses: ["uploaded"], description: "In Odoo", className: "text-green-700 dark:text-green-300" },
+  { label: "Failed", statuses: ["failed"], description: "Gave up after every retry", className: "text-red-700 dark:text-red-300" },
+  { label: "Held Back", statuses: ["unmapped", "held"], description: "Unmapped employees or open exceptions", className: "text-orange-700 dark:text-orange-300" },
+];
+
+const PUNCH_CHART_CONFIG = {
+  in: { label: "In", color: "hsl(var(--chart-2))" },
+  out: { label: "Out", color: "hsl(var(--chart-1))" },
+  unknown: { label: "Unknown", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig;
+
+const SESSION_LABELS: Record<OdooSessionHealth | "none", { label: string; className: string }> = {
+  valid: { label: "Active", className: "bg-green-100 text-green-800 border border-green-300 dark:bg-green-700/30 dark:text-green-300 dark:border-green-600" },
+  expired: { label: "Expired", className: "bg-red-100 text-red-800 border border-red-300 dark:bg-red-700/30 dark:text-red-300 dark:border-red-600" },
+  unreachable: { label: "Odoo unreachable", className: "bg-yellow-100 text-yellow-800 border border-yellow-300 dark:bg-yellow-700/30 dark:text-yellow-300 dark:border-yellow-600" },
+  none: { label: "Not logged in", className: "bg-muted text-muted-foreground border" },
+};
+
+const formatRelative = (time: string | null) => time
+  ? <span title={format(new Date(time), "PPpp")}>{formatDistanceToNow(new Date(time), { addSuffix: true })}</span>
+  : "never";
 
 export default function HomePage() {
-  redirect('/logs');
-  // This component will not render anything as it redirects immediately.
-  // The content previously here has been removed.
-  return null;
+  const [summary, setSummary] = React.useState<DashboardSummary | null>(null);
+  const [dayStart, setDayStart] = React.useState(() => startOfDay(new Date()));
+  const [session, setSession] = React.useState<{ health: OdooSessionHealth | "none"; user: string | null; error?: string } | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  const loadSummary = React.useCallback(async () => {
+    const start = startOfDay(new Date());
+    setIsLoading(true);
+    try {
+      setSummary(await getDashboardSummary(start, addDays(start, 1)));
+      setDayStart(start);
+    } catch (error) {
+      addLog("Dashboard", `Error loading the dashboard: ${error instanceof Error ? error.message : String(error)}`, "Error", { error });
+    }
+    setIsLoading(false);
+  }, []);
+
+  // Only checks the session; renewing an expired one is left to the UHH Connectivity page.
+  const checkSession = React.useCallback(async () => {
+    const stored = getStoredOdooSession();
+    if (!stored) {
+      setSession({ health: "none", user: null });
+      return;
+    }
+    const check = await checkOdooSession(stored);
+    setSession({ health: check.health, user: getStoredOdooUserName(), error: check.error });
+  }, []);
+
+  React.useEffect(() => {
+    loadSummary();
+    checkSession();
+    const interval = setInterval(loadSummary, REFRESH_INTERVAL_MS);
+    window.addEventListener("attendanceTransactionsUpdated", loadSummary);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("attendanceTransactionsUpdated", loadSummary);
+    };
+  }, [loadSummary, checkSession]);
+
+  const chartData = React.useMemo(() => {
+    const hours = differenceInHours(addDays(dayStart, 1), dayStart);
+    const buckets = Array.from({ length: hours }, (_, hour) => ({ hour: format(addHours(dayStart, hour), "HH:mm"), in: 0, out: 0, unknown: 0 }));
+    for (const row of summary?.punchesPerHour ?? []) {
+      const bucket = buckets[row.hour];
+      if (bucket) bucket[TRANSACTION_TYPE_DIRECTIONS[row.transaction_type] ?? "unknown"] += row.count;
+    }
+    return buckets;
+  }, [summary, dayStart]);
+
+  const punchesToday = chartData.reduce((sum, bucket) => sum + bucket.in + bucket.out + bucket.unknown, 0);
+  const sessionLabel = session ? SESSION_LABELS[session.health] : null;
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-lg">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <div className="flex items-center gap-3">
+              <LayoutDashboard className="h-8 w-8 text-primary" />
+              <CardTitle className="font-headline text-2xl">Operations Dashboard</CardTitle>
+            </div>
+            <CardDescription className="mt-1.5">
+              The push queue, today&apos;s punches, source fetches, the Odoo connection and recent errors at a glance.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => { loadSummary(); checkSession(); }} disabled={isLoading}>
+            <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+          </Button>
+        </CardHeader>
+      </Card>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {STATUS_TILES.map(tile => (
+          <Link key={tile.label} href="/attendance-transactions">
+            <Card className="shadow-lg rounded-lg hover:bg-muted/40 transition-colors">
+              <CardHeader className="pb-2">
+                <CardDescription>{tile.label}</CardDescription>
+                <CardTitle className={`text-3xl ${tile.className}`}>
+                  {summary ? tile.statuses.reduce((sum, status) => sum + summary.statusCounts[status], 0) : "-"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">{tile.description}</CardContent>
+            </Card>
+          </Link>
+        ))}
+      </div>
+
+      <Card className="shadow-lg rounded-lg">
+        <CardHeader className="border-b">
+          <div className="flex items-center gap-3">
+            <BarChart3 className="h-8 w-8 text-primary" />
+            <CardTitle className="font-headline text-2xl">Punches Today</CardTitle>
+          </div>
+          <CardDescription>{punchesToday} punches on {format(dayStart, "PPPP")}, per hour of this computer&apos;s clock.</CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <ChartContainer config={PUNCH_CHART_CONFIG} className="h-[260px] w-full">
+            <BarChart data={chartData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="hour" tickLine={false} axisLine={false} interval={2} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="in" stackId="punches" fill="var(--color-in)" />
+              <Bar dataKey="out" stackId="punches" fill="var(--color-out)" />
+              <Bar dataKey="unknown" stackId="punches" fill="var(--color-unknown)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card className="shadow-lg rounded-lg">
+          <CardHeader className="border-b">
+            <div className="flex items-center gap-3">
+              <CloudUpload className="h-8 w-8 text-primary" />
+              <CardTitle className="font-headline text-2xl">Fetches and Push</CardTitle>
+            </div>
+            <CardDescription>Last successful fetch of each source, by its page&apos;s job or any registered device, and the last successful Odoo push.</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="p-3">Source</TableHead>
+                  <TableHead className="p-3">Last Success</TableHead>
+                  <TableHead className="p-3 text-right">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary?.sources.map(source => (
+                  <TableRow key={source.sourceType}>
+                    <TableCell className="p-3">{DEVICE_SOURCES[source.sourceType]?.label ?? source.sourceType}</TableCell>
+                    <TableCell className="p-3">{formatRelative(source.lastSuccessAt)}</TableCell>
+                    <TableCell className="p-3 text-right text-sm">
+                      {source.fetchers === 0 ? (
+                        <span className="text-muted-foreground">Not set up</span>
+                      ) : source.failing > 0 ? (
+                        <span className="text-destructive">{source.failing} of {source.fetchers} failing</span>
+                      ) : (
+                        <span>{source.fetchers} active</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {summary && (
+                  <TableRow>
+                    <TableCell className="p-3 font-medium">Odoo push</TableCell>
+                    <TableCell className="p-3">{formatRelative(summary.push.lastSuccessAt)}</TableCell>
+                    <TableCell className="p-3 text-right text-sm">
+                      {!summary.push.enabled ? (
+                        <span className="text-muted-foreground">Not scheduled</span>
+                      ) : summary.push.lastStatus === "error" ? (
+                        <span className="text-destructive" title={summary.push.lastMessage ?? undefined}>Last run failed</span>
+                      ) : (
+                        <span>Every {summary.push.frequency}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg rounded-lg">
+          <CardHeader className="border-b">
+            <div className="flex items-center gap-3">
+              <Network className="h-8 w-8 text-primary" />
+              <CardTitle className="font-headline text-2xl">Odoo Session</CardTitle>
+            </div>
+            <CardDescription>The connection the push uses, as saved on the UHH Connectivity page.</CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-3">
+            {session && sessionLabel ? (
+              <>
+                <div className="flex items-center gap-3">
+                  <Badge variant="secondary" className={sessionLabel.className}>{sessionLabel.label}</Badge>
+                  {session.user && <span className="text-sm">{session.user}</span>}
+                </div>
+                {session.error && <p className="text-xs text-muted-foreground break-words">{session.error}</p>}
+                {session.health !== "valid" && (
+                  <Button asChild variant="outline" size="sm">
+                    <Link href="/uhh-connectivity">Open UHH Connectivity</Link>
+                  </Button>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Checking the session...</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="shadow-lg rounded-lg">
+        <CardHeader className="border-b flex flex-row items-center justify-between">
+          <div>
+            <div className="flex items-center gap-3">
+              <AlertCircle className="h-8 w-8 text-primary" />
+              <CardTitle className="font-headline text-2xl">Recent Errors</CardTitle>
+            </div>
+            <CardDescription className="mt-1.5">The latest error entries from the pages and the background jobs.</CardDescription>
+          </div>
+          <Button asChild variant="outline" size="sm">
+            <Link href="/logs">All Logs</Link>
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableBody>
+              {summary?.recentErrors.length ? summary.recentErrors.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell className="p-3 whitespace-nowrap w-[160px]">{formatRelative(entry.timestamp)}</TableCell>
+                  <TableCell className="p-3 w-[180px]">{entry.source}</TableCell>
+                  <TableCell className="p-3 text-sm break-words">{entry.message}</TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={3} className="h-16 text-center text-muted-foreground">
+                    {summary ? "No errors logged." : "Loading..."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
 }
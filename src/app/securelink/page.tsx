@@ -10,18 +10,20 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { Link2, FileUp, KeyRound, Loader2, CheckCircle, RefreshCw, Settings2, Calendar as CalendarIcon, XCircle } from "lucide-react";
+import { Link2, FileUp, KeyRound, Loader2, CheckCircle, RefreshCw, Settings2, Calendar as CalendarIcon, XCircle, RotateCcw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { addLog } from "@/lib/app-logger";
+import { addLog, newCorrelationId } from "@/lib/app-logger";
 import { cn } from "@/lib/utils";
 import { format, parseISO, setHours, setMinutes, setSeconds, setMilliseconds, isValid } from 'date-fns';
+import { SECURELINK_RECORD_TYPES, SECURELINK_SOURCE_TYPE, testSecureLinkConnection, type SecureLinkConfig } from "@/lib/securelink/api";
+import { configureSchedulerJob, resetSchedulerJobState, runSchedulerJob } from "@/lib/scheduler/api";
+import { useSchedulerJob } from "@/hooks/use-scheduler-job";
+import { ScheduledJobStatus } from "@/components/scheduler/scheduled-job-status";
+import { PunchCodeMappingCard } from "@/components/attendance/punch-code-mapping-card";
 
-// This page simulates interaction with a local MDB file.
-// For a production Electron app:
-// - MDB file access (reading, querying) MUST be done in Electron's main process using a library like 'node-adodb'.
-// - The frontend (this Next.js page) would use Electron IPC to send requests to the main process and receive data.
-// - Storing the MDB password directly in localStorage is NOT secure for production. Use Electron's 'safeStorage' in the main process.
-// TODO: [Electron Main Process] Replace all `localStorage` access for sensitive MDB details with IPC calls to Electron's main process for secure storage and file operations.
+// The AAS database is read server-side (see src/lib/server/securelink-reader.ts), so the file path
+// refers to the machine running this app, not the browser's machine.
+// WARNING: The MDB password is stored in localStorage, which is not secure.
 
 const FETCH_FREQUENCY_OPTIONS = [
   { value: "30m", label: "Every 30 minutes" },
@@ -32,16 +34,16 @@ const FETCH_FREQUENCY_OPTIONS = [
 
 export default function SecureLinkPage() {
   const { toast } = useToast();
-  const [mdbFile, setMdbFile] = React.useState<File | null>(null); // Only used to get name, not for direct access
-  const [mdbFileName, setMdbFileName] = React.useState<string>(""); // Persisted file name
+  const [mdbFilePath, setMdbFilePath] = React.useState<string>(""); // Persisted server-side file path
   const [password, setPassword] = React.useState<string>(""); // Persisted password (unsafe for production)
   const [isLoading, setIsLoading] = React.useState(false);
   const [isFetchingNow, setIsFetchingNow] = React.useState(false);
   const [debugOutput, setDebugOutput] = React.useState<string>("");
-  const [isConnected, setIsConnected] = React.useState(false); // Simulated connection status
+  const [isConnected, setIsConnected] = React.useState(false);
+  const { job } = useSchedulerJob("securelink_fetch");
+  const lastFetchedTimestamp = job?.state.lastRecordTime ?? null; // Newest record imported so far
 
   // Synchronization settings
-  const [fetchFrequency, setFetchFrequency] = React.useState<string>(FETCH_FREQUENCY_OPTIONS[0].value);
   const [fetchUpToDate, setFetchUpToDate] = React.useState<Date | undefined>(new Date());
   const [fetchUpToHour, setFetchUpToHour] = React.useState<string>(format(new Date(), "HH"));
   const [fetchUpToMinute, setFetchUpToMinute] = React.useState<string>(format(new Date(), "mm"));
@@ -49,18 +51,13 @@ export default function SecureLinkPage() {
 
   React.useEffect(() => {
     addLog("SecureLinkPage", "Page loaded. Initializing settings from localStorage.", "Debug");
-    const savedFileName = localStorage.getItem("securelink_mdbFileName");
+    const savedFilePath = localStorage.getItem("securelink_mdbFilePath");
     // WARNING: Loading passwords from localStorage is insecure for production.
-    // TODO: [Electron Main Process] Replace with secure loading mechanism if password needs to be persisted.
     const savedPassword = localStorage.getItem("securelink_password"); 
-    const savedFetchFrequency = localStorage.getItem("securelink_fetchFrequency");
     const savedFetchUpToDateTime = localStorage.getItem("securelink_fetchUpToDateTime");
 
-    if (savedFileName) setMdbFileName(savedFileName);
+    if (savedFilePath) setMdbFilePath(savedFilePath);
     if (savedPassword) setPassword(savedPassword); 
-    if (savedFetchFrequency && FETCH_FREQUENCY_OPTIONS.find(opt => opt.value === savedFetchFrequency)) {
-      setFetchFrequency(savedFetchFrequency);
-    }
     if (savedFetchUpToDateTime) {
         try {
             const parsedDate = parseISO(savedFetchUpToDateTime);
@@ -80,41 +77,37 @@ export default function SecureLinkPage() {
     addLog("SecureLinkPage", "Settings initialized.", "Info");
   }, []);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.name.toLowerCase().endsWith(".mdb")) {
-      // TODO: [Electron Main Process] Send file path (file.path) to main process via IPC instead of just name for actual file access.
-      setMdbFile(file); 
-      setMdbFileName(file.name);
-      localStorage.setItem("securelink_mdbFileName", file.name);
-      setDebugOutput("");
-      setIsConnected(false);
-      addLog("SecureLinkPage", `MDB file selected: ${file.name}. Full path (available in Electron context): ${file.path || "N/A in browser"}`, "Info");
-    } else {
-      setMdbFile(null);
-      if (file) { 
-        toast({
-          title: "Invalid File Type",
-          description: "Please select a valid .mdb file.",
-          variant: "destructive",
-        });
-        addLog("SecureLinkPage", `Invalid file type selected: ${file.name}`, "Error");
-      }
-    }
+  const handleFilePathChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const newPath = event.target.value;
+    setMdbFilePath(newPath);
+    localStorage.setItem("securelink_mdbFilePath", newPath);
+    setIsConnected(false);
   };
 
   const handlePasswordChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const newPassword = event.target.value;
     setPassword(newPassword);
     // WARNING: Storing passwords in localStorage is insecure.
-    // TODO: [Electron Main Process] For Electron, send password to main process via IPC to be stored using 'safeStorage'.
     localStorage.setItem("securelink_password", newPassword);
   };
   
-  const handleFetchFrequencyChange = (value: string) => {
-    setFetchFrequency(value);
-    localStorage.setItem("securelink_fetchFrequency", value);
-    addLog("SecureLinkPage", `Fetch frequency set to: ${FETCH_FREQUENCY_OPTIONS.find(opt => opt.value === value)?.label}`, "Info");
+  const handleFetchFrequencyChange = async (value: string) => {
+    try {
+      await configureSchedulerJob("securelink_fetch", { frequency: value });
+      addLog("SecureLinkPage", `Fetch frequency set to: ${FETCH_FREQUENCY_OPTIONS.find(opt => opt.value === value)?.label}`, "Info");
+    } catch (error) {
+      addLog("SecureLinkPage", `Error saving fetch frequency: ${error instanceof Error ? error.message : String(error)}`, "Error");
+    }
+  };
+
+  /**
+   * Saves the database settings for the background fetch job.
+   */
+  const saveJobConfig = async (config: SecureLinkConfig) => {
+    // Carry over the watermark kept in localStorage before imports moved server-side.
+    const legacyWatermark = localStorage.getItem("securelink_lastFetchedTimestamp");
+    await configureSchedulerJob("securelink_fetch", { config, initialState: legacyWatermark ? { lastRecordTime: legacyWatermark } : undefined });
+    localStorage.removeItem("securelink_lastFetchedTimestamp");
   };
 
   const updateFetchUpToDateTime = React.useCallback((date?: Date, hour?: string, minute?: string) => {
@@ -146,137 +139,101 @@ export default function SecureLinkPage() {
 
 
   const handleTestConnection = async () => {
-    if (!mdbFileName || !password) {
+    if (!mdbFilePath || !password) {
         toast({
             title: "Missing Information",
-            description: "Please select an MDB file and enter the password.",
+            description: "Please enter the MDB file path and the password.",
             variant: "destructive",
         });
-        addLog("SecureLinkPage", "Test connection attempted with missing MDB file or password.", "Error");
+        addLog("SecureLinkPage", "Test connection attempted with missing MDB file path or password.", "Error");
         return;
     }
     
     setIsLoading(true);
-    setDebugOutput("Attempting to connect (simulated via Electron IPC)...");
+    setDebugOutput("Opening database...");
     setIsConnected(false);
-    addLog("SecureLinkPage", `Attempting connection to ${mdbFileName} (simulated).`, "Info");
-
-    // TODO: [Electron Main Process] Implement actual MDB connection via IPC.
-    // const result = await window.electronAPI.testSecureLinkConnection({ filePath: mdbFile?.path, password });
-    // For now, simulate:
-    await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 500));
-
-    // Example of how data might be returned from Electron main process.
-    // This would involve querying 'tmpTRecords' and 'Employee' tables.
-    const simulatedSuccess = password === "Timmy"; // Simple simulation
-    if (simulatedSuccess) {
-      const simulatedData = [ 
-        { UserID: 101, RecordDate: "2024-07-01T08:00:00Z", RecordType: "I", DeviceID: "SimDevice1" },
-        { UserID: 102, RecordDate: "2024-07-01T08:05:00Z", RecordType: "I", DeviceID: "SimDevice2" }
-      ];
-      setDebugOutput(`Connection successful (simulated).\n\n--- Mock 'tmpTRecords' Data (from Electron main process) ---\n${JSON.stringify(simulatedData, null, 2)}`);
+    addLog("SecureLinkPage", `Attempting connection to ${mdbFilePath}.`, "Info");
+
+    const result = await testSecureLinkConnection({ filePath: mdbFilePath, password });
+    if (result.success && result.data) {
+      const { recordCount, employeeCount, latestRecordDate } = result.data;
+      setDebugOutput(`Connection successful.\n\n'tmpTRecords': ${recordCount} records, latest ${latestRecordDate ? format(parseISO(latestRecordDate), "Pp") : "n/a"}.\n'Employee': ${employeeCount} employees.`);
       setIsConnected(true);
       toast({
-        title: "Connection Successful (Simulated)",
-        description: `Successfully connected to ${mdbFileName}. Mock data displayed.`,
+        title: "Connection Successful",
+        description: `Opened ${mdbFilePath}: ${recordCount} attendance records.`,
       });
-      addLog("SecureLinkPage", `Simulated connection to ${mdbFileName} successful.`, "Success");
+      addLog("SecureLinkPage", `Connection to ${mdbFilePath} successful. ${recordCount} records, ${employeeCount} employees.`, "Success");
+      await saveJobConfig({ filePath: mdbFilePath, password }).catch(error => addLog("SecureLinkPage", `Could not save settings for the background fetch: ${error instanceof Error ? error.message : String(error)}`, "Error"));
     } else {
-      const errorMessage = "Error: Invalid password or unable to open database (Simulated via Electron IPC).";
-      setDebugOutput(errorMessage);
+      setDebugOutput(`Error: ${result.error}`);
       setIsConnected(false);
       toast({
-        title: "Connection Failed (Simulated)",
-        description: "Invalid password or MDB file issue. Check credentials/file.",
+        title: "Connection Failed",
+        description: result.error,
         variant: "destructive",
       });
-      addLog("SecureLinkPage", `Simulated connection to ${mdbFileName} failed.`, "Error");
+      addLog("SecureLinkPage", `Connection to ${mdbFilePath} failed: ${result.error}`, "Error");
     }
     setIsLoading(false);
   };
   
   /**
-   * Placeholder for manual/scheduled data fetch.
-   * In Electron, this would trigger an IPC call to the main process.
-   * @param {boolean} isScheduled - Indicates if the fetch was triggered by a scheduler.
+   * Imports records newer than the last imported record, up to the 'Fetch Records Up To' time.
+   * Runs the same server job as the scheduler, which always reads up to the current time.
    */
-  const handleManualFetch = async (isScheduled: boolean = false) => {
-    if (!isConnected && !mdbFileName) { 
-        toast({ title: "Not Connected/No File", description: "Please test connection or select MDB file.", variant: "destructive"});
-        addLog("SecureLinkPage", "Manual fetch attempted without active connection or MDB file.", "Error");
+  const handleManualFetch = async () => {
+    if (!mdbFilePath || !password) { 
+        toast({ title: "Not Configured", description: "Please enter the MDB file path and password.", variant: "destructive"});
+        addLog("SecureLinkPage", "Manual fetch attempted without MDB file path or password.", "Error");
         return;
     }
-    if (isFetchingNow) {
+    if (isFetchingNow || job?.running) {
         toast({ title: "Fetch In Progress", description: "Data fetch is already running.", variant: "default"});
         return;
     }
 
     setIsFetchingNow(true);
-    const fetchType = isScheduled ? "scheduled" : "manual";
+    const correlationId = newCorrelationId();
     const fetchUpToISO = localStorage.getItem("securelink_fetchUpToDateTime") || new Date().toISOString();
-    const fetchUpToFormatted = format(parseISO(fetchUpToISO), "Pp");
-
-    const logMessage = `Initiating ${fetchType} data fetch from AAS (simulated via Electron IPC). Fetch up to: ${fetchUpToFormatted}`;
-    addLog("SecureLinkPage", logMessage, "Info");
-    setDebugOutput(prev => `${prev}\n\n${logMessage}
-    This involves:
-    1. Connecting to ${mdbFileName} (via Electron main process).
-    2. Querying 'tmpTRecords' and 'Employee' tables for records where RecordDate <= ${fetchUpToFormatted}.
-    3. Transforming data (e.g., UserID to Employee String ID, RecordType to 'check-in'/'check-out').
-    4. Calling addAttendanceTransaction() for each valid new record.
-    5. Updating 'securelink_lastFetchedTimestamp' and 'securelink_fetchUpToDateTime'.
-    (Actual implementation requires Electron IPC for all file/DB operations)`);
-    
-    // TODO: [Electron Main Process] Implement actual data fetching logic via IPC.
-    // const result = await window.electronAPI.fetchSecureLinkData({ filePath: mdbFile?.path, password, fetchUpTo: fetchUpToISO });
-    // The main process would then:
-    // - Connect to MDB using 'node-adodb' or similar.
-    // - Query 'tmpTRecords' (and potentially 'Employee' table for string IDs).
-    // - Filter records based on `fetchUpToISO`.
-    // - Transform data: map UserID to Employee String ID, RecordType to 'check-in'/'check-out'.
-    // - For each valid new record, call `addAttendanceTransaction()` (this might mean sending data back to renderer or main process handles it if SQLite is in main).
-    // - Update 'securelink_lastFetchedTimestamp' (in main process storage or send back to renderer).
-    // - Update 'securelink_fetchUpToDateTime' to the timestamp of the latest record processed.
-    await new Promise(resolve => setTimeout(resolve, 2000 + Math.random() * 1000)); 
-
-    const success = Math.random() > 0.2; 
-    if (success) {
-      const fetchedCount = Math.floor(Math.random() * 20) + 1;
-      toast({ title: "Fetch Successful (Simulated)", description: `Fetched ${fetchedCount} new records from AAS.` });
-      setDebugOutput(prev => `${prev}\nSimulated ${fetchType} fetch successful: ${fetchedCount} new records processed.`);
-      addLog("SecureLinkPage", `Simulated ${fetchType} fetch successful. ${fetchedCount} records.`, "Success");
-      
-      const newLastFetchedTimestamp = new Date().toISOString();
-      localStorage.setItem("securelink_lastFetchedTimestamp", newLastFetchedTimestamp);
-      const newFetchUpToDate = new Date(parseISO(fetchUpToISO).getTime() + fetchedCount * 60000 * 5); 
-      setFetchUpToDate(newFetchUpToDate); 
-      setFetchUpToHour(format(newFetchUpToDate, "HH"));
-      setFetchUpToMinute(format(newFetchUpToDate, "mm"));
-      localStorage.setItem("securelink_fetchUpToDateTime", newFetchUpToDate.toISOString()); 
-      addLog("SecureLinkPage", `Simulated: Updated 'fetchUpToDateTime' to ${newFetchUpToDate.toISOString()} and 'lastFetchedTimestamp' to ${newLastFetchedTimestamp}`, "Debug");
+    const range = `${lastFetchedTimestamp ? `after ${format(parseISO(lastFetchedTimestamp), "Pp")}` : "from the beginning"} up to ${format(parseISO(fetchUpToISO), "Pp")}`;
 
-    } else {
-      toast({ title: "Fetch Failed (Simulated)", description: "Could not retrieve new records from AAS. Check logs.", variant: "destructive" });
-      setDebugOutput(prev => `${prev}\nSimulated ${fetchType} fetch failed.`);
-      addLog("SecureLinkPage", `Simulated ${fetchType} fetch failed.`, "Error");
+    addLog("SecureLinkPage", `Initiating manual data fetch from AAS, ${range}.`, "Info", { correlationId });
+    setDebugOutput(prev => `${prev}\n\nFetching records ${range}...`);
+
+    try {
+      await saveJobConfig({ filePath: mdbFilePath, password });
+      const result = await runSchedulerJob("securelink_fetch", { upTo: fetchUpToISO, correlationId });
+      setDebugOutput(prev => `${prev}\n${result.lastStatus === "success" ? "" : "Fetch failed: "}${result.lastMessage}`);
+      if (result.lastStatus === "success") {
+        toast({ title: "Fetch Successful", description: result.lastMessage });
+        addLog("SecureLinkPage", `Manual fetch successful. ${result.lastMessage}`, "Success", { correlationId });
+      } else {
+        toast({ title: "Fetch Failed", description: result.lastMessage, variant: "destructive" });
+        addLog("SecureLinkPage", `Manual fetch failed: ${result.lastMessage}`, "Error", { correlationId });
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Fetch Failed", description: msg, variant: "destructive" });
+      setDebugOutput(prev => `${prev}\nFetch failed: ${msg}`);
+      addLog("SecureLinkPage", `Manual fetch failed: ${msg}`, "Error", { correlationId, error });
     }
     setIsFetchingNow(false);
   };
 
-  /**
-   * Placeholder for initiating scheduled fetch.
-   * TODO: [Electron Main Process] Implement a scheduler (e.g., using node-cron or setInterval in main.js)
-   * that calls this function's logic periodically based on `fetchFrequency` and `lastFetchedTimestamp`.
-   * The main process would manage these checks and trigger `handleManualFetch(true)` or its equivalent.
-   */
-  const initiateScheduledFetch = React.useCallback(async () => {
-    addLog("SecureLinkPage", "Placeholder: initiateScheduledFetch called. This logic should be managed by Electron main process.", "Debug");
-    // const lastFetched = localStorage.getItem("securelink_lastFetchedTimestamp");
-    // const frequency = localStorage.getItem("securelink_fetchFrequency");
-    // If (currentTime > lastFetched + frequency) then call handleManualFetch(true) or main process equivalent.
-  }, []);
+  const handleResetWatermark = async () => {
+    try {
+      await resetSchedulerJobState("securelink_fetch");
+      toast({ title: "Import Position Reset", description: "The next fetch will read all records up to the chosen time." });
+      addLog("SecureLinkPage", "Import watermark reset by user.", "Info");
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Reset Failed", description: msg, variant: "destructive" });
+      addLog("SecureLinkPage", `Import watermark reset failed: ${msg}`, "Error");
+    }
+  };
 
-  const canTestConnection = Boolean(mdbFileName && password && !isLoading);
+  const canTestConnection = Boolean(mdbFilePath && password && !isLoading);
 
   return (
     <div className="space-y-6">
@@ -286,27 +243,27 @@ export default function SecureLinkPage() {
             <Link2 className="h-8 w-8 text-primary" />
             <CardTitle className="font-headline text-2xl">SecureLink AAS Configuration</CardTitle>
           </div>
-          <CardDescription>Configure and test connection to the SecureLink (AAS) biometric MDB database. File path and password (excluding actual value) are stored locally (Warning: Insecure without Electron safeStorage).</CardDescription>
+          <CardDescription>Configure and test connection to the SecureLink (AAS) biometric MDB database. The file is read by this app&apos;s server. File path and password are stored locally in the browser (Warning: Insecure).</CardDescription>
         </CardHeader>
         <CardContent className="pt-6 space-y-6">
           {isConnected && (
             <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg shadow-sm flex items-center gap-3">
               <CheckCircle className="h-6 w-6 text-green-600 dark:text-green-400" />
               <div>
-                <h4 className="text-lg font-semibold text-green-800 dark:text-green-300">Database Connected (Simulated)</h4>
+                <h4 className="text-lg font-semibold text-green-800 dark:text-green-300">Database Connected</h4>
                 <p className="text-sm text-green-700 dark:text-green-400">
-                  Successfully established a simulated connection to <span className="font-medium">{mdbFileName}</span>.
+                  Successfully opened <span className="font-medium">{mdbFilePath}</span>.
                 </p>
               </div>
             </div>
           )}
-          {!isConnected && mdbFileName && !isLoading && (
+          {!isConnected && mdbFilePath && !isLoading && (
               <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700 rounded-lg shadow-sm flex items-center gap-3">
                  <XCircle className="h-6 w-6 text-blue-600 dark:text-blue-400" />
                   <div>
                     <h4 className="text-lg font-semibold text-blue-800 dark:text-blue-300">Ready to Test</h4>
                     <p className="text-sm text-blue-700 dark:text-blue-400">
-                    Selected database: <span className="font-medium">{mdbFileName}</span>. Enter password and test connection.
+                    Database: <span className="font-medium">{mdbFilePath}</span>. Enter password and test connection.
                     </p>
                   </div>
               </div>
@@ -319,20 +276,16 @@ export default function SecureLinkPage() {
             </Label>
             <Input
               id="mdb-file"
-              type="file"
-              accept=".mdb"
-              onChange={handleFileChange}
-              className="file:mr-3 file:py-1 file:px-2 file:text-xs file:rounded-md file:border-0 file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20 cursor-pointer dark:file:bg-primary/20 dark:file:text-primary-foreground dark:hover:file:bg-primary/30"
+              type="text"
+              value={mdbFilePath}
+              onChange={handleFilePathChange}
+              placeholder="e.g., C:\AAS\TMKQ.mdb"
+              className="font-mono"
               disabled={isLoading || isFetchingNow}
             />
             <p className="text-xs text-muted-foreground">
-              Select the AAS database (e.g., TMKQ.mdb). File path is used by Electron's main process.
+              Full path to the AAS database (e.g., TMKQ.mdb) on the machine running this app. The file is re-read on every fetch, so AAS can keep using it.
             </p>
-            {mdbFileName && !mdbFile && (
-              <p className="text-xs text-yellow-600 dark:text-yellow-400 mt-1">
-                Previously selected: {mdbFileName}. Re-select if path changed.
-              </p>
-            )}
           </div>
 
           <div className="space-y-2">
@@ -350,7 +303,7 @@ export default function SecureLinkPage() {
               autoComplete="current-password"
             />
             <p className="text-xs text-muted-foreground">
-              Used to access AAS database. Password will be handled by Electron's main process using `safeStorage`.
+              The password set on the AAS database. A wrong password is rejected before any data is read.
             </p>
           </div>
 
@@ -369,11 +322,11 @@ export default function SecureLinkPage() {
               <Label htmlFor="debug-output" className="font-medium">Debug Output / Connection Status</Label>
               <Textarea
                 id="debug-output"
-                value={isLoading ? "Connecting (simulated via Electron IPC)..." : (isFetchingNow ? `${debugOutput}\nFetching now (simulated via Electron IPC)...` : debugOutput)}
+                value={debugOutput}
                 readOnly
                 rows={10}
                 className="font-mono text-xs bg-muted/30 dark:bg-muted/50 border rounded-md p-2 h-48"
-                placeholder="Connection status and simulated data will appear here..."
+                placeholder="Connection status and fetch results will appear here..."
               />
             </div>
           )}
@@ -391,7 +344,7 @@ export default function SecureLinkPage() {
         <CardContent className="pt-6 space-y-6">
           <div className="space-y-2">
             <Label htmlFor="fetch-frequency">Automatic Fetch Frequency</Label>
-            <Select value={fetchFrequency} onValueChange={handleFetchFrequencyChange} disabled={isFetchingNow || isLoading}>
+            <Select value={job?.frequency} onValueChange={handleFetchFrequencyChange} disabled={!job || isFetchingNow || isLoading}>
               <SelectTrigger id="fetch-frequency">
                 <SelectValue placeholder="Select frequency" />
               </SelectTrigger>
@@ -402,7 +355,7 @@ export default function SecureLinkPage() {
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
-              How often the application should automatically try to fetch new attendance records. (Background scheduler to be implemented in Electron main process).
+              How often the server fetches new attendance records while automatic runs are enabled.
             </p>
           </div>
 
@@ -467,17 +420,31 @@ export default function SecureLinkPage() {
                 </div>
             </div>
             <p className="text-xs text-muted-foreground">
-              Specify the latest date and time for which attendance transactions should be fetched. This is typically updated automatically after each successful fetch by the main process.
+              Specify the latest date and time for which attendance transactions should be fetched by Fetch Now. Records after this time are left for a later fetch; automatic fetches read up to the current time.
             </p>
           </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border p-3">
+            <div className="text-sm">
+              <span className="font-medium">Last imported record: </span>
+              {lastFetchedTimestamp ? format(parseISO(lastFetchedTimestamp), "PPpp") : <span className="text-muted-foreground">none (next fetch reads all records)</span>}
+            </div>
+            <Button variant="outline" size="sm" onClick={handleResetWatermark} disabled={!lastFetchedTimestamp || isFetchingNow}>
+              <RotateCcw className="mr-2 h-4 w-4" /> Reset
+            </Button>
+          </div>
+
+          <ScheduledJobStatus job={job} logSource="SecureLinkPage" />
         </CardContent>
         <CardFooter className="border-t pt-6">
-            <Button onClick={() => handleManualFetch(false)} disabled={isFetchingNow || isLoading || (!isConnected && !mdbFileName) }>
+            <Button onClick={handleManualFetch} disabled={isFetchingNow || isLoading || !mdbFilePath || !password || Boolean(job?.running)}>
                 {isFetchingNow && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                <RefreshCw className="mr-2 h-4 w-4" /> Fetch Now (Simulated)
+                <RefreshCw className="mr-2 h-4 w-4" /> Fetch Now
             </Button>
         </CardFooter>
       </Card>
+
+      <PunchCodeMappingCard sourceType={SECURELINK_SOURCE_TYPE} standardCodes={SECURELINK_RECORD_TYPES} codeLabel="RecordType" logSource="SecureLinkPage" />
     </div>
   );
 }
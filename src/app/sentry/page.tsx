@@ -37,5 +37,3 @@ export default function SentryPage() {
     </Card>
   );
 }
-    
-```
\ No newline at end of file
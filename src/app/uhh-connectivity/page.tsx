@@ -7,67 +7,38 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue, SelectGroup, SelectLabel } from "@/components/ui/select";
-import { Network, Loader2, CheckCircle, XCircle, UploadCloud } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Network, Loader2, CheckCircle, XCircle, UploadCloud, ShieldCheck } from "lucide-react";
+import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
-import { addLog } from "@/lib/app-logger"; 
-import { getAttendanceTransactions, updateAttendanceTransactionStatus, type AttendanceTransaction } from "@/lib/attendance-manager";
-
-// This page simulates interaction with an Odoo server via a proxy.
-// For a production Electron app:
-// - Direct Odoo calls can be made from Electron's main process if CORS allows or if using Odoo's RPC libraries.
-// - Storing user credentials (even derived session IDs) requires care. Electron's 'safeStorage' can be used.
-// - Background data push scheduling MUST be done in Electron's main process.
-
-interface UhhAuthResponseResult {
-  uid: number;
-  is_admin?: boolean;
-  name?: string;
-  username?: string;
-  partner_id?: number;
-  company_id?: number;
-  db?: string;
-  session_id?: string; // Can be in response body OR in Set-Cookie header
-  user_context?: Record<string, any>;
-  user_companies?: {
-    current_company?: [number, string];
-    allowed_companies?: Array<[number, string]>;
-  };
-}
-
-interface UhhAuthResponseErrorData {
-  name?: string;
-  debug?: string;
-  message?: string;
-  arguments?: string[];
-  exception_type?: string; 
-}
-interface UhhAuthResponseError {
-    code: number;
-    message: string;
-    data?: UhhAuthResponseErrorData;
-    http_status?: number;
-}
-
-interface UhhAuthResponse {
-  jsonrpc: string;
-  id?: number | null;
-  result?: UhhAuthResponseResult;
-  error?: UhhAuthResponseError;
-  debug_headers?: Record<string, string>; // Added by our proxy
-}
-
-interface ProxyErrorResponse {
-    error: string;
-    details?: string;
-    debug_headers?: Record<string, string>; // Added by our proxy
-}
-
-interface TestConnectionResult {
-  success: boolean;
-  message: string;
-  data?: UhhAuthResponseResult; 
-  debugHeaders?: Record<string, string> | null;
-  sessionIdFromHeader?: string | null; // Explicitly track session ID source
+import { addLog, newCorrelationId } from "@/lib/app-logger";
+import { LEGACY_SESSION_ID_STORAGE_KEY, checkOdooSession, storeOdooProfileId, testUhhConnection, type OdooSessionHealth } from "@/lib/odoo/api";
+import { adoptOdooSession, getSavedOdooLogin, logoutOdooProfile, reloginWithSavedCredentials, type SavedOdooLogin } from "@/lib/odoo/session";
+import {
+  DEFAULT_PUNCH_TYPE_POLICIES,
+  POLICY_PUNCH_TYPES,
+  PUNCH_TYPE_POLICIES,
+  type PunchTypePolicies,
+  type PunchTypePolicy,
+  type PushMode,
+} from "@/lib/odoo/attendance-push";
+import { TRANSACTION_TYPE_LABELS } from "@/lib/attendance-manager";
+import { configureSchedulerJob, runSchedulerJob } from "@/lib/scheduler/api";
+import { useSchedulerJob } from "@/hooks/use-scheduler-job";
+import { ScheduledJobStatus } from "@/components/scheduler/scheduled-job-status";
+
+// All Odoo traffic goes through the shared JSON-RPC client in src/lib/odoo/api.ts.
+// The Odoo session cookies stay on the server in a connection profile; this page only keeps the profile ID.
+// The session is checked against Odoo when the page loads. If Odoo has expired it and the user
+// opted in to automatic re-login, the server logs in again with the credentials it keeps encrypted.
+// Pushes run as the server-side 'odoo_push' job (src/lib/server/scheduler-jobs.ts); this page
+// hands the job its connection profile and push settings whenever they change.
+
+interface ActiveSession {
+  profileId: string;
+  user: string;
+  db: string;
+  url: string;
 }
 
 const PUSH_FREQUENCY_OPTIONS = [
@@ -77,207 +48,70 @@ const PUSH_FREQUENCY_OPTIONS = [
   { value: "1h", label: "Every 1 hour" },
 ];
 
-const PUSH_BATCH_SIZE_OPTIONS = [
-  { value: "20", label: "20 records" },
-  { value: "50", label: "50 records" },
-  { value: "100", label: "100 records" },
-  { value: "200", label: "200 records" },
-  { value: "500", label: "500 records" },
+const PUSH_MODE_OPTIONS: { value: PushMode; label: string }[] = [
+  { value: "hr_attendance", label: "Standard Odoo attendance (hr.attendance)" },
+  { value: "custom_endpoint", label: "Custom batch endpoint" },
 ];
 
+const PUNCH_TYPE_POLICY_LABELS: Record<PunchTypePolicy, string> = {
+  skip: "Skip (don't push)",
+  "check-in": "Push as check-in",
+  "check-out": "Push as check-out",
+  overtime: "Record as overtime (hr.attendance.overtime)",
+};
+
 /**
- * Attempts to authenticate with the Odoo server via the Next.js API proxy.
- * @param uhhBaseUrl - The base URL of the Odoo instance.
- * @param username - Odoo login username.
- * @param password - Odoo login password.
- * @param dbName - Odoo database name.
- * @returns Promise<TestConnectionResult> - Result of the authentication attempt.
+ * Reads stored punch type policies, keeping defaults for types missing or invalid in storage.
  */
-async function testUhhConnection(
-  uhhBaseUrl: string,
-  username: string,
-  password: string,
-  dbName: string
-): Promise<TestConnectionResult> {
-  const authPath = "/web/session/authenticate";
-  const odooFullAuthUrl = `${uhhBaseUrl.replace(/\/$/, "")}${authPath}`;
-
-  const odooPayload = {
-    jsonrpc: "2.0",
-    params: {
-      db: dbName,
-      login: username,
-      password: password,
-    },
-  };
-  
-  addLog("UHH Connectivity", `Attempting authentication to ${odooFullAuthUrl} for user ${username}, DB: ${dbName}.`, "Info");
-
-  let receivedDebugHeaders: Record<string, string> | null = null;
-
+function parseStoredTypePolicies(raw: string | null): PunchTypePolicies {
+  const policies = { ...DEFAULT_PUNCH_TYPE_POLICIES };
   try {
-    const proxyResponse = await fetch("/api/uhh-proxy", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        targetUrl: odooFullAuthUrl,
-        payload: odooPayload,
-      }),
-    });
-
-    // Try to parse JSON, but handle cases where it might not be (e.g. network error before proxy)
-    let responseBody;
-    try {
-        responseBody = await proxyResponse.json();
-    } catch (parseError) {
-        const errorText = await proxyResponse.text().catch(() => "Could not read response body.");
-        addLog("UHH Connectivity", `Proxy response parsing error. Status: ${proxyResponse.status} ${proxyResponse.statusText}. Body: ${errorText.substring(0,300)}`, "Error");
-        return {
-            success: false,
-            message: `Failed to parse response from proxy. Status: ${proxyResponse.status}. Check network or proxy logs.`,
-            debugHeaders: null, // Headers might not be available if parsing failed early
-        };
-    }
-    
-    receivedDebugHeaders = responseBody.debug_headers || null;
-
-    if (!proxyResponse.ok) {
-      const errorData: ProxyErrorResponse = responseBody;
-      const errorMessage = `Proxy or Odoo Server error: ${proxyResponse.status} ${proxyResponse.statusText}. ${errorData.error || errorData.details || "An unexpected error occurred."}`.trim();
-      addLog("UHH Connectivity", `Proxy/Server Error: ${errorMessage}. Status: ${proxyResponse.status}. Odoo Response Body (if any): ${JSON.stringify(responseBody)}. Headers: ${JSON.stringify(receivedDebugHeaders)}`, "Error");
-      return {
-        success: false,
-        message: errorMessage,
-        debugHeaders: receivedDebugHeaders,
-      };
+    const stored = raw ? JSON.parse(raw) : {};
+    for (const type of POLICY_PUNCH_TYPES) {
+      if (PUNCH_TYPE_POLICIES.includes(stored?.[type])) policies[type] = stored[type];
     }
-
-    const responseData: UhhAuthResponse = responseBody;
-
-    let sessionIdFromHeader: string | null = null;
-    // Odoo might send multiple Set-Cookie headers as an array or a single string
-    const setCookieHeader = receivedDebugHeaders?.['set-cookie'] || receivedDebugHeaders?.['Set-Cookie'];
-
-    if (setCookieHeader) {
-      const cookies = Array.isArray(setCookieHeader) ? setCookieHeader : [setCookieHeader];
-      for (const cookieStr of cookies) {
-        const match = cookieStr.match(/session_id=([^;]+)/);
-        if (match && match[1] && match[1] !== "false" && match[1] !== "") { // Ensure session_id is not 'false' or empty
-          sessionIdFromHeader = match[1];
-          break; 
-        }
-      }
-    }
-    
-    if (responseData.error) {
-      const errorDetails = responseData.error.data;
-      let odooErrorMessage = responseData.error.message;
-      if (errorDetails?.message) {
-        odooErrorMessage = errorDetails.message;
-      } else if (errorDetails?.arguments && Array.isArray(errorDetails.arguments) && errorDetails.arguments.length > 0) {
-        odooErrorMessage = errorDetails.arguments.join('; '); 
-      }
-      const fullOdooError = `Code: ${responseData.error.code}, Message: ${odooErrorMessage || 'Odoo error'}, Details: ${JSON.stringify(errorDetails)}`;
-      addLog("UHH Connectivity", `Odoo Authentication Error: ${fullOdooError}`, "Error");
-      return {
-        success: false,
-        message: `Authentication failed: ${odooErrorMessage || "Invalid credentials, database name, or server configuration issue."}`,
-        debugHeaders: receivedDebugHeaders,
-      };
-    }
-
-    // Prefer session_id from Set-Cookie header as it's the standard way Odoo establishes sessions
-    if (sessionIdFromHeader) {
-      // WARNING: Storing session_id in localStorage is convenient but has security implications.
-      // For Electron, consider using main process memory or safeStorage if more robustness is needed.
-      localStorage.setItem("uhh_session_id", sessionIdFromHeader);
-      const userDetailsToStore = {
-        uid: responseData.result?.uid,
-        name: responseData.result?.name,
-        username: responseData.result?.username || username, // Fallback to login username
-        db: responseData.result?.db || dbName,  // Fallback to provided dbName
-        url: uhhBaseUrl,
-        isAdmin: responseData.result?.is_admin,
-        companyId: responseData.result?.company_id || responseData.result?.user_companies?.current_company?.[0],
-        partnerId: responseData.result?.partner_id,
-        userContext: responseData.result?.user_context,
-      };
-      localStorage.setItem("uhh_user_details", JSON.stringify(userDetailsToStore));
-      addLog("UHH Connectivity", `Authentication successful (via Set-Cookie header). Session ID (last 5 chars): ...${sessionIdFromHeader.slice(-5)}. User: ${userDetailsToStore.name || userDetailsToStore.username}`, "Success");
-      return {
-        success: true,
-        message: "Authentication successful! Session established.",
-        data: responseData.result,
-        debugHeaders: receivedDebugHeaders,
-        sessionIdFromHeader: sessionIdFromHeader,
-      };
-    }
-    
-    // Fallback to session_id from response body (less common for /web/session/authenticate but possible)
-    if (responseData.result?.session_id) {
-      localStorage.setItem("uhh_session_id", responseData.result.session_id);
-      const userDetailsToStore = {
-        uid: responseData.result.uid,
-        name: responseData.result.name,
-        username: responseData.result.username,
-        db: responseData.result.db || dbName,
-        url: uhhBaseUrl,
-        isAdmin: responseData.result.is_admin,
-        companyId: responseData.result.company_id || responseData.result.user_companies?.current_company?.[0],
-        partnerId: responseData.result.partner_id,
-        userContext: responseData.result.user_context,
-      };
-      localStorage.setItem("uhh_user_details", JSON.stringify(userDetailsToStore));
-      addLog("UHH Connectivity", `Authentication successful (via response body). Session ID (last 5 chars): ...${responseData.result.session_id.slice(-5)}. User: ${userDetailsToStore.name || userDetailsToStore.username}`, "Success");
-       return {
-        success: true,
-        message: "Authentication successful! Session established.",
-        data: responseData.result,
-        debugHeaders: receivedDebugHeaders,
-        sessionIdFromHeader: responseData.result.session_id, 
-      };
-    }
-    
-    // If neither header nor body session_id is found, but no Odoo error was reported
-    addLog("UHH Connectivity", `Authentication response OK, but no session_id found in 'Set-Cookie' header or response body. Response: ${JSON.stringify(responseData)}. Headers: ${JSON.stringify(receivedDebugHeaders)}`, "Error");
-    return {
-      success: false,
-      message: "Authentication Succeeded (no error from Odoo), but Session ID not found. Check Odoo logs or configuration (e.g. session handling).",
-      debugHeaders: receivedDebugHeaders,
-    };
-
-  } catch (error) {
-    let errorMessage = "Connection failed due to an unexpected client-side error. Check your network or the UHH URL.";
-    if (error instanceof Error) {
-        errorMessage = `Client-side connection error: ${error.message}`;
-    }
-    addLog("UHH Connectivity", `Critical client-side error during connection test: ${errorMessage}. Error object: ${String(error)}`, "Error");
-    return { success: false, message: errorMessage, debugHeaders: receivedDebugHeaders };
+  } catch {
+    // Fall back to the defaults
   }
+  return policies;
 }
 
+const PUSH_BATCH_SIZE_OPTIONS = [
+  { value: "20", label: "20 records" },
+  { value: "50", label: "50 records" },
+  { value: "100", label: "100 records" },
+  { value: "200", label: "200 records" },
+  { value: "500", label: "500 records" },
+];
 
 export default function UhhConnectivityPage() {
   const { toast } = useToast();
   const [uhhUrl, setUhhUrl] = React.useState("");
   const [username, setUsername] = React.useState("");
-  const [password, setPassword] = React.useState(""); // Not persisted after successful auth
+  const [password, setPassword] = React.useState(""); // Only kept, encrypted on the server, when automatic re-login is on
   const [dbName, setDbName] = React.useState("");
   const [isLoading, setIsLoading] = React.useState(false);
   const [isPushing, setIsPushing] = React.useState(false);
-  const [activeSession, setActiveSession] = React.useState<{sessionId: string; user: string; db: string; url: string} | null>(null);
-
-  const [pushFrequency, setPushFrequency] = React.useState<string>(PUSH_FREQUENCY_OPTIONS[1].value); // Default 15m
+  const [activeSession, setActiveSession] = React.useState<ActiveSession | null>(null);
+  const [rememberLogin, setRememberLogin] = React.useState(false); // Save credentials on the server for automatic re-login
+  const [savedLogin, setSavedLogin] = React.useState<SavedOdooLogin | null>(null);
+  const [sessionCheck, setSessionCheck] = React.useState<{ health: OdooSessionHealth; checkedAt: Date } | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = React.useState(false);
+
+  const [settingsLoaded, setSettingsLoaded] = React.useState(false);
+  const { job } = useSchedulerJob("odoo_push");
   const [pushBatchSize, setPushBatchSize] = React.useState<string>(PUSH_BATCH_SIZE_OPTIONS[1].value); // Default 50 records
+  const [pushMode, setPushMode] = React.useState<PushMode>(PUSH_MODE_OPTIONS[0].value);
+  const [typePolicies, setTypePolicies] = React.useState<PunchTypePolicies>(DEFAULT_PUNCH_TYPE_POLICIES);
 
   React.useEffect(() => {
     addLog("UHH Connectivity", "Page loaded. Initializing settings from localStorage.", "Debug");
     const storedUserDetailsRaw = localStorage.getItem("uhh_user_details");
-    const storedSessionId = localStorage.getItem("uhh_session_id");
-    const storedPushFrequency = localStorage.getItem("uhh_pushFrequency");
+    const storedProfileId = localStorage.getItem("uhh_profile_id");
+    const legacySessionId = localStorage.getItem(LEGACY_SESSION_ID_STORAGE_KEY);
     const storedPushBatchSize = localStorage.getItem("uhh_pushBatchSize");
+    const storedPushMode = localStorage.getItem("uhh_pushMode");
+    setRememberLogin(localStorage.getItem("uhh_rememberLogin") === "true");
 
     if (storedUserDetailsRaw) {
       try {
@@ -286,56 +120,94 @@ export default function UhhConnectivityPage() {
         setUsername(userDetails.username || "");
         setDbName(userDetails.db || "");
 
-        if (storedSessionId && userDetails.url && (userDetails.username || userDetails.name) && userDetails.db) {
-          setActiveSession({
-            sessionId: storedSessionId,
-            user: userDetails.name || userDetails.username || "Unknown User",
-            db: userDetails.db,
-            url: userDetails.url,
-          });
-           addLog("UHH Connectivity", `Active session restored for user ${userDetails.name || userDetails.username}. Session ID (last 5): ...${storedSessionId.slice(-5)}`, "Info");
+        const detailsComplete = Boolean(userDetails.url && (userDetails.username || userDetails.name) && userDetails.db);
+        const user = userDetails.name || userDetails.username || "Unknown User";
+        if (storedProfileId && detailsComplete) {
+          setActiveSession({ profileId: storedProfileId, user, db: userDetails.db, url: userDetails.url });
+           addLog("UHH Connectivity", `Active session restored for user ${user} (connection profile ${storedProfileId}).`, "Info");
+        } else if (legacySessionId && detailsComplete && userDetails.username) {
+          // Earlier versions kept the Odoo session ID in the browser; hand it to a server-side profile.
+          adoptOdooSession(userDetails.url, userDetails.db, userDetails.username, legacySessionId)
+            .then(profile => {
+              storeOdooProfileId(profile.id);
+              setActiveSession({ profileId: profile.id, user, db: userDetails.db, url: userDetails.url });
+              addLog("UHH Connectivity", `Session of ${user} moved from the browser to server-side connection profile ${profile.id}.`, "Info");
+            })
+            .catch(error => {
+              localStorage.removeItem(LEGACY_SESSION_ID_STORAGE_KEY);
+              addLog("UHH Connectivity", `Could not move the stored session to the server: ${error instanceof Error ? error.message : String(error)}. Please log in again.`, "Error");
+            });
         } else {
             // Clear potentially stale session if user details are incomplete
-            if(storedSessionId) localStorage.removeItem("uhh_session_id"); 
+            if(storedProfileId) localStorage.removeItem("uhh_profile_id");
+            if(legacySessionId) localStorage.removeItem(LEGACY_SESSION_ID_STORAGE_KEY);
             setActiveSession(null);
-             addLog("UHH Connectivity", "Stored user details incomplete or stale session ID found. Session cleared.", "Debug");
+             addLog("UHH Connectivity", "Stored user details incomplete or stale connection profile found. Session cleared.", "Debug");
         }
       } catch (e) {
         console.error("Failed to parse stored user details", e);
         addLog("UHH Connectivity", `Error parsing stored user details: ${e instanceof Error ? e.message : String(e)}. Clearing session.`, "Error");
-        localStorage.removeItem("uhh_session_id");
+        localStorage.removeItem("uhh_profile_id");
+        localStorage.removeItem(LEGACY_SESSION_ID_STORAGE_KEY);
         localStorage.removeItem("uhh_user_details");
         setActiveSession(null);
       }
     } else {
-      if(localStorage.getItem("uhh_session_id")) localStorage.removeItem("uhh_session_id"); // Clean up orphan session_id
+      // Clean up an orphan profile ID or legacy session ID
+      if(storedProfileId) localStorage.removeItem("uhh_profile_id");
+      if(legacySessionId) localStorage.removeItem(LEGACY_SESSION_ID_STORAGE_KEY);
       setActiveSession(null);
     }
 
     // Load push settings, defaulting if not found
-    if (storedPushFrequency && PUSH_FREQUENCY_OPTIONS.find(opt => opt.value === storedPushFrequency)) {
-      setPushFrequency(storedPushFrequency);
-    } else {
-      localStorage.setItem("uhh_pushFrequency", PUSH_FREQUENCY_OPTIONS[1].value); // Persist default
-      setPushFrequency(PUSH_FREQUENCY_OPTIONS[1].value);
-    }
     if (storedPushBatchSize && PUSH_BATCH_SIZE_OPTIONS.find(opt => opt.value === storedPushBatchSize)) {
       setPushBatchSize(storedPushBatchSize);
     } else {
       localStorage.setItem("uhh_pushBatchSize", PUSH_BATCH_SIZE_OPTIONS[1].value); // Persist default
       setPushBatchSize(PUSH_BATCH_SIZE_OPTIONS[1].value);
     }
+    setTypePolicies(parseStoredTypePolicies(localStorage.getItem("uhh_pushTypePolicies")));
+    if (storedPushMode && PUSH_MODE_OPTIONS.find(opt => opt.value === storedPushMode)) {
+      setPushMode(storedPushMode as PushMode);
+    } else {
+      localStorage.setItem("uhh_pushMode", PUSH_MODE_OPTIONS[0].value); // Persist default
+      setPushMode(PUSH_MODE_OPTIONS[0].value);
+    }
+    setSettingsLoaded(true);
   }, []);
 
 
-  React.useEffect(() => {
-    localStorage.setItem("uhh_pushFrequency", pushFrequency);
-  }, [pushFrequency]);
-
   React.useEffect(() => {
     localStorage.setItem("uhh_pushBatchSize", pushBatchSize);
   }, [pushBatchSize]);
 
+  React.useEffect(() => {
+    localStorage.setItem("uhh_pushMode", pushMode);
+    // Only the hr.attendance push can write overtime records.
+    if (pushMode !== "hr_attendance") {
+      setTypePolicies(current => {
+        const overtimeTypes = POLICY_PUNCH_TYPES.filter(type => current[type] === "overtime");
+        if (overtimeTypes.length === 0) return current;
+        return { ...current, ...Object.fromEntries(overtimeTypes.map(type => [type, DEFAULT_PUNCH_TYPE_POLICIES[type]])) };
+      });
+    }
+  }, [pushMode]);
+
+  React.useEffect(() => {
+    if (settingsLoaded) localStorage.setItem("uhh_pushTypePolicies", JSON.stringify(typePolicies));
+  }, [settingsLoaded, typePolicies]);
+
+  // Keep the background push job in step with the connection profile and push settings; logging out clears its settings.
+  React.useEffect(() => {
+    if (!settingsLoaded) return;
+    const config = activeSession
+      ? { profileId: activeSession.profileId, pushMode, batchSize: parseInt(pushBatchSize, 10), typePolicies }
+      : null;
+    configureSchedulerJob("odoo_push", { config }).catch(error => {
+      addLog("UHH Connectivity", `Could not save settings for the background push: ${error instanceof Error ? error.message : String(error)}`, "Error");
+    });
+  }, [settingsLoaded, activeSession, pushMode, pushBatchSize, typePolicies]);
+
 
   const canTestConnection = Boolean(uhhUrl && username && password && dbName);
 
@@ -343,7 +215,11 @@ export default function UhhConnectivityPage() {
     if (!canTestConnection || isLoading) return;
     setIsLoading(true);
 
-    const result = await testUhhConnection(uhhUrl, username, password, dbName);
+    const result = await testUhhConnection(uhhUrl, username, password, dbName, rememberLogin);
+    if (result.success) {
+      setSavedLogin(result.savedLogin ?? null);
+      if (result.savedLogin) addLog("UHH Connectivity", `Automatic re-login enabled: credentials of ${username} saved (encrypted) on the server.`, "Info");
+    }
     setIsLoading(false);
 
     toast({
@@ -353,9 +229,9 @@ export default function UhhConnectivityPage() {
       duration: result.success ? 5000 : 9000, 
     });
 
-    if (result.success && result.sessionIdFromHeader && result.data) {
+    if (result.success && result.profileId && result.data) {
         setActiveSession({
-            sessionId: result.sessionIdFromHeader,
+            profileId: result.profileId,
             user: result.data.name || result.data.username || username,
             db: result.data.db || dbName,
             url: uhhUrl,
@@ -366,11 +242,72 @@ export default function UhhConnectivityPage() {
     }
   };
 
-  const handleLogout = () => {
-    addLog("UHH Connectivity", `User ${activeSession?.user || 'unknown'} logged out. Session and related details cleared. Session ID (last 5): ...${activeSession?.sessionId.slice(-5)}`, "Info");
-    localStorage.removeItem("uhh_session_id");
+  const handleRememberLoginChange = (checked: boolean) => {
+    setRememberLogin(checked);
+    localStorage.setItem("uhh_rememberLogin", String(checked));
+  };
+
+  const clearLocalSession = () => {
+    localStorage.removeItem("uhh_profile_id");
     localStorage.removeItem("uhh_user_details"); // Clear all stored user details on logout
     setActiveSession(null);
+    setSessionCheck(null);
+  };
+
+  /**
+   * Checks the session with Odoo. An expired session is renewed through the server's saved credentials
+   * when automatic re-login is on; otherwise it is cleared so the user can log in again.
+   * @param isManual - Whether the user asked for the check (only then is a healthy result toasted).
+   */
+  const verifySession = React.useCallback(async (session: ActiveSession, isManual: boolean) => {
+    setIsCheckingSession(true);
+    const check = await checkOdooSession({ url: session.url, db: session.db, profileId: session.profileId });
+    if (check.health === "valid") {
+      setSessionCheck({ health: "valid", checkedAt: new Date() });
+      if (isManual) toast({ title: "Session Valid", description: `Odoo still recognizes the session of ${session.user}.` });
+    } else if (check.health === "unreachable") {
+      setSessionCheck({ health: "unreachable", checkedAt: new Date() });
+      addLog("UHH Connectivity", `Could not check the Odoo session: ${check.error}`, "Error");
+      if (isManual) toast({ title: "Odoo Unreachable", description: check.error, variant: "destructive" });
+    } else {
+      addLog("UHH Connectivity", `Odoo session of ${session.user} (connection profile ${session.profileId}) has expired: ${check.error}`, "Info");
+      try {
+        await reloginWithSavedCredentials(session.profileId);
+        setSessionCheck({ health: "valid", checkedAt: new Date() });
+        addLog("UHH Connectivity", "Session expired; logged in again automatically with the saved credentials. The server keeps the new session.", "Success");
+        toast({ title: "Session Renewed", description: "The Odoo session had expired and was renewed automatically." });
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        addLog("UHH Connectivity", `Automatic re-login failed: ${msg}. Session cleared.`, "Error");
+        clearLocalSession();
+        toast({ title: "Session Expired", description: "Odoo has ended the session. Please log in again.", variant: "destructive", duration: 9000 });
+      }
+    }
+    setIsCheckingSession(false);
+  }, [toast]);
+
+  // Check the session whenever one is restored, established or renewed.
+  React.useEffect(() => {
+    if (activeSession) verifySession(activeSession, false);
+  }, [activeSession, verifySession]);
+
+  React.useEffect(() => {
+    if (!activeSession) return;
+    getSavedOdooLogin(activeSession.profileId)
+      .then(setSavedLogin)
+      .catch(error => addLog("UHH Connectivity", `Could not read the saved login: ${error instanceof Error ? error.message : String(error)}`, "Error"));
+  }, [activeSession]);
+
+  const handleLogout = async () => {
+    addLog("UHH Connectivity", `User ${activeSession?.user || 'unknown'} logged out. Session and related details cleared. Connection profile: ${activeSession?.profileId}`, "Info");
+    if (activeSession) {
+      // Deleting the profile ends the Odoo session and removes any saved credentials with it.
+      await logoutOdooProfile(activeSession.profileId)
+        .then(() => addLog("UHH Connectivity", "Connection profile, session cookies and saved credentials removed from the server.", "Info"))
+        .catch(error => addLog("UHH Connectivity", `Could not remove the connection profile: ${error instanceof Error ? error.message : String(error)}`, "Error"));
+      setSavedLogin(null);
+    }
+    clearLocalSession();
     setPassword(""); 
     // Do not clear URL, username, dbName fields, so user can easily re-login
     toast({
@@ -379,129 +316,48 @@ export default function UhhConnectivityPage() {
     });
   };
 
+  const handlePushFrequencyChange = async (value: string) => {
+    try {
+      await configureSchedulerJob("odoo_push", { frequency: value });
+      addLog("UHH Connectivity", `Push frequency set to: ${PUSH_FREQUENCY_OPTIONS.find(o => o.value === value)?.label || value}.`, "Info");
+    } catch (error) {
+      addLog("UHH Connectivity", `Error saving push frequency: ${error instanceof Error ? error.message : String(error)}`, "Error");
+    }
+  };
+
   /**
-   * Placeholder function to simulate pushing attendance data to Odoo.
-   * In Electron, this would involve IPC to the main process for the actual HTTP request
-   * and database updates.
-   * @param isManual - Indicates if the push was triggered manually by the user.
+   * Runs the background push job now: pushes the next batch of 'not_uploaded' attendance records,
+   * plus failed ones whose retry is due, to Odoo using the selected push mode.
    */
-  const handleScheduledPushToUHH = async (isManual: boolean = false) => {
+  const handlePushNow = async () => {
     if (!activeSession) {
       const msg = "Cannot push data: No active UHH session.";
       addLog("UHH Connectivity", msg, "Error");
-      if (isManual) toast({ title: "Push Error", description: msg, variant: "destructive" });
+      toast({ title: "Push Error", description: msg, variant: "destructive" });
       return;
     }
-    if (isPushing) {
-      const msg = "Push operation already in progress.";
-       addLog("UHH Connectivity", msg, "Info");
-      if (isManual) toast({ title: "In Progress", description: msg, variant: "default" });
+    if (isPushing || job?.running) {
+      toast({ title: "In Progress", description: "Push operation already in progress.", variant: "default" });
       return;
     }
 
     setIsPushing(true);
-    const pushType = isManual ? "Manual" : "Scheduled";
-    addLog("UHH Connectivity", `Starting ${pushType} push to UHH (Odoo). Session: ...${activeSession.sessionId.slice(-5)}`, "Info");
-
-    const allTransactions = getAttendanceTransactions();
-    const notUploadedTransactions = allTransactions.filter(t => t.status === 'not_uploaded');
-    
-    if (notUploadedTransactions.length === 0) {
-      addLog("UHH Connectivity", "No 'not_uploaded' attendance records to push.", "Info");
-      if (isManual) toast({ title: "No Data", description: "No new attendance records to push." });
-      setIsPushing(false);
-      return;
-    }
-
-    const batchSize = parseInt(pushBatchSize, 10);
-    const batchToPush = notUploadedTransactions.slice(0, batchSize);
-    const batchIds = batchToPush.map(t => t.id);
-
-    // TODO: [Electron Main Process] Refine Odoo data transformation.
-    // The structure of 'params' for 'execute_kw' or a custom endpoint needs to be precise.
-    // employee_id lookup (e.g., by barcode) usually happens on Odoo side or needs pre-fetching.
-    const odooFormattedBatch = batchToPush.map(t => ({
-      employee_external_id: t.employee_id, 
-      timestamp: t.transaction_time,
-      action: t.transaction_type === 'check-in' ? 'sign_in' : 'sign_out',
-      device_id: t.device_id,
-    }));
-
-    // This payload is conceptual for a custom Odoo endpoint.
-    // For Odoo's standard 'execute_kw' to create 'hr.attendance', the payload would be different.
-    const pushPayload = {
-      jsonrpc: "2.0",
-      method: "call", 
-      params: {
-        attendance_data: odooFormattedBatch, 
-        // session_id: activeSession.sessionId // Might be needed if not using cookies, but proxy should handle cookies.
-      },
-      id: `push_${Date.now()}`
-    };
-
-    // Conceptual Odoo endpoint for batch creating attendance.
-    const targetPushUrl = `${activeSession.url.replace(/\/$/, "")}/api/custom/batch_attendance_create`; 
-    addLog("UHH Connectivity", `Attempting to push ${batchToPush.length} records to ${targetPushUrl}. Batch IDs (first 5): ${batchIds.slice(0,5).join(', ')}.`, "Info");
-    // addLog("UHH Connectivity", `Simulated Odoo Payload: ${JSON.stringify(pushPayload)}`, "Debug"); // Can be verbose
-
-    // TODO: [Electron Main Process] Implement actual scheduled push logic, including robust retry.
-    // The scheduler (e.g., setInterval or node-cron) would live in the main process.
-    let success = false;
-    const MAX_RETRIES = 2; // Reduced for faster UI feedback during simulation
-    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-      try {
-        // The proxy MUST be configured to forward the session_id cookie from localStorage
-        // or the Electron main process must handle attaching it.
-        const proxyResponse = await fetch("/api/uhh-proxy", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ targetUrl: targetPushUrl, payload: pushPayload }),
-        });
-
-        const responseBody = await proxyResponse.json().catch(() => ({ error: "Failed to parse proxy JSON response" }));
-
-        if (proxyResponse.ok) {
-          // TODO: Define clear success criteria based on actual Odoo endpoint response.
-          // Example: responseBody.result?.processed_count === batchToPush.length
-          const odooResult = responseBody.result; 
-          if (odooResult && (odooResult === true || odooResult.success || (typeof odooResult.processed_count === 'number' && odooResult.processed_count > 0) )) {
-             addLog("UHH Connectivity", `Successfully pushed ${batchToPush.length} records (Attempt ${attempt}). Odoo Response: ${JSON.stringify(odooResult).substring(0,100)}...`, "Success");
-            updateAttendanceTransactionStatus(batchIds, "uploaded");
-            if (isManual) toast({ title: "Push Successful", description: `${batchToPush.length} records pushed to Odoo.` });
-            success = true;
-            break; 
-          } else {
-             const errorMessage = `Odoo reported an issue with pushed data (Attempt ${attempt}). Response: ${JSON.stringify(responseBody).substring(0,300)}`;
-             addLog("UHH Connectivity", errorMessage, "Error");
-             if (attempt === MAX_RETRIES && isManual) {
-                toast({ title: "Push Failed", description: `Odoo reported an issue after ${MAX_RETRIES} attempts. Check logs. Details: ${responseBody.error?.message || responseBody.error || 'Unknown Odoo error'}`, variant: "destructive", duration: 7000 });
-             }
-          }
-        } else {
-          const errorData: ProxyErrorResponse | UhhAuthResponse = responseBody;
-          let detailMsg = "Unknown proxy/server error.";
-          if ('error' in errorData && typeof errorData.error === 'string') detailMsg = errorData.error;
-          if ('details' in errorData && typeof errorData.details === 'string') detailMsg += ` ${errorData.details}`;
-          if ('error' in errorData && typeof errorData.error === 'object' && errorData.error?.message) detailMsg = errorData.error.message;
-
-
-          const errorMessage = `Proxy/Server error during push: ${proxyResponse.status} ${proxyResponse.statusText}. ${detailMsg} (Attempt ${attempt})`;
-          addLog("UHH Connectivity", errorMessage, "Error");
-          if (attempt === MAX_RETRIES && isManual) {
-            toast({ title: "Push Failed", description: `Failed to push data after ${MAX_RETRIES} attempts due to server/proxy error. Check logs.`, variant: "destructive" });
-          }
-        }
-      } catch (error) {
-        const catchMessage = error instanceof Error ? error.message : String(error);
-        addLog("UHH Connectivity", `Client-side error during push (Attempt ${attempt}): ${catchMessage}`, "Error");
-        if (attempt === MAX_RETRIES && isManual) {
-           toast({ title: "Push Error", description: `A client-side error occurred during push after ${MAX_RETRIES} attempts. Check logs.`, variant: "destructive" });
-        }
-      }
-      if (!success && attempt < MAX_RETRIES) {
-        addLog("UHH Connectivity", `Push attempt ${attempt} failed. Retrying in 3 seconds...`, "Info");
-        await new Promise(resolve => setTimeout(resolve, 3000)); // Shorter retry for simulation
-      }
+    const correlationId = newCorrelationId(); // Ties these entries to the job's own log entries
+    addLog("UHH Connectivity", `Starting manual push to UHH (Odoo). Connection profile: ${activeSession.profileId}`, "Info", { correlationId });
+    try {
+      const result = await runSchedulerJob("odoo_push", { correlationId });
+      const succeeded = result.lastStatus === "success";
+      addLog("UHH Connectivity", result.lastMessage || "Push finished.", succeeded ? "Success" : "Error", { correlationId });
+      toast({
+        title: succeeded ? "Push Finished" : "Push Failed",
+        description: result.lastMessage,
+        variant: succeeded ? "default" : "destructive",
+        duration: succeeded ? 5000 : 9000,
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      addLog("UHH Connectivity", `Manual push failed: ${msg}`, "Error", { correlationId, error });
+      toast({ title: "Push Failed", description: msg, variant: "destructive", duration: 9000 });
     }
     setIsPushing(false);
   };
@@ -515,7 +371,7 @@ export default function UhhConnectivityPage() {
             <Network className="h-8 w-8 text-primary" />
             <CardTitle className="font-headline text-2xl">UHH Odoo Connectivity</CardTitle>
           </div>
-          <CardDescription>Configure and test connectivity to the UHH (Odoo) server. Session details are stored locally for convenience (password is not stored after login).</CardDescription>
+          <CardDescription>Configure and test connectivity to the UHH (Odoo) server. The Odoo session is kept on the server running this app; this browser only remembers your connection details (the password is only kept, encrypted on the server, if automatic re-login is enabled).</CardDescription>
         </CardHeader>
         <CardContent className="pt-6 space-y-6">
           {activeSession ? (
@@ -527,10 +383,29 @@ export default function UhhConnectivityPage() {
               <p className="text-sm text-green-700 dark:text-green-400">
                 Connected as <span className="font-medium">{activeSession.user}</span> to database <span className="font-medium">{activeSession.db}</span> on <span className="font-medium">{activeSession.url}</span>.
               </p>
-              <p className="text-xs text-green-600 dark:text-green-400 mt-1 truncate" title={`Full Session ID: ${activeSession.sessionId}`}>Session ID: ...{activeSession.sessionId.slice(-10)} (Last 10 chars)</p>
-              <Button onClick={handleLogout} variant="outline" size="sm" className="mt-3 border-green-300 text-green-700 hover:bg-green-100 dark:border-green-600 dark:text-green-300 dark:hover:bg-green-700/30">
-                Logout / Clear Session
-              </Button>
+              <p className="text-xs text-green-600 dark:text-green-400 mt-1 truncate" title={`Connection profile: ${activeSession.profileId}`}>Session cookies are kept on the server (connection profile ...{activeSession.profileId.slice(-8)}).</p>
+              <p className="text-xs text-green-600 dark:text-green-400 mt-1">
+                {isCheckingSession
+                  ? "Checking session with Odoo..."
+                  : sessionCheck?.health === "valid"
+                    ? `Session verified at ${format(sessionCheck.checkedAt, "p")}.`
+                    : sessionCheck?.health === "unreachable"
+                      ? `Odoo could not be reached at ${format(sessionCheck.checkedAt, "p")}; the session may still be valid.`
+                      : "Session not checked yet."}
+                {" "}
+                {savedLogin
+                  ? `Automatic re-login is on (as ${savedLogin.login}).`
+                  : "Automatic re-login is off; log in again when Odoo expires the session."}
+              </p>
+              <div className="flex flex-wrap gap-2 mt-3">
+                <Button onClick={() => verifySession(activeSession, true)} variant="outline" size="sm" disabled={isCheckingSession} className="border-green-300 text-green-700 hover:bg-green-100 dark:border-green-600 dark:text-green-300 dark:hover:bg-green-700/30">
+                  {isCheckingSession ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+                  Check Session
+                </Button>
+                <Button onClick={handleLogout} variant="outline" size="sm" className="border-green-300 text-green-700 hover:bg-green-100 dark:border-green-600 dark:text-green-300 dark:hover:bg-green-700/30">
+                  Logout / Clear Session
+                </Button>
+              </div>
             </div>
           ) : (
             <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-700 rounded-lg shadow-sm">
@@ -579,7 +454,7 @@ export default function UhhConnectivityPage() {
                 disabled={isLoading || !!activeSession || isPushing}
                 autoComplete="current-password"
               />
-              <p className="text-xs text-muted-foreground mt-1">Your Odoo login password. This is not stored after successful login.</p>
+              <p className="text-xs text-muted-foreground mt-1">Your Odoo login password. This is not stored after successful login unless automatic re-login is enabled.</p>
             </div>
             <div>
               <Label htmlFor="db-name">Database Name</Label>
@@ -594,6 +469,18 @@ export default function UhhConnectivityPage() {
             </div>
           </div>
 
+          {!activeSession && (
+            <div className="flex items-start gap-2">
+              <Checkbox id="remember-login" checked={rememberLogin} onCheckedChange={(checked) => handleRememberLoginChange(checked === true)} disabled={isLoading} />
+              <div className="grid gap-1 leading-none">
+                <Label htmlFor="remember-login">Log in again automatically when the session expires</Label>
+                <p className="text-xs text-muted-foreground">
+                  Saves the username and password encrypted on the server running this app, so scheduled pushes keep working after Odoo ends the session. Every automatic login is logged.
+                </p>
+              </div>
+            </div>
+          )}
+
           {!activeSession && (
               <div className="flex justify-end">
               <Button
@@ -617,19 +504,43 @@ export default function UhhConnectivityPage() {
                 </div>
                 <CardDescription>
                     Configure how often and how much attendance data is pushed to Odoo.
-                    (Automatic push scheduling to be implemented in Electron main process).
+                    Automatic pushes run on the server with the session above.
                 </CardDescription>
             </CardHeader>
             <CardContent className="pt-6 space-y-6">
                 <div className="space-y-2">
-                    <Label htmlFor="push-frequency">Push Data Frequency</Label>
-                    <Select 
-                        value={pushFrequency} 
+                    <Label htmlFor="push-mode">Push Mode</Label>
+                    <Select
+                        value={pushMode}
                         onValueChange={(value) => {
-                            setPushFrequency(value);
-                            addLog("UHH Connectivity", `Push frequency set to: ${PUSH_FREQUENCY_OPTIONS.find(o => o.value === value)?.label || value}.`, "Info");
+                            setPushMode(value as PushMode);
+                            addLog("UHH Connectivity", `Push mode set to: ${PUSH_MODE_OPTIONS.find(o => o.value === value)?.label || value}.`, "Info");
                         }}
                         disabled={isPushing}
+                    >
+                        <SelectTrigger id="push-mode">
+                            <SelectValue placeholder="Select push mode" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectGroup>
+                                <SelectLabel>Push Mode</SelectLabel>
+                                {PUSH_MODE_OPTIONS.map(option => (
+                                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                            </SelectGroup>
+                        </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                        Standard mode creates an hr.attendance record on check-in and writes the check-out onto it, so no custom Odoo module is needed.
+                        Employees are matched through the Employee Mapping page; unmapped employees are held back.
+                    </p>
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="push-frequency">Push Data Frequency</Label>
+                    <Select 
+                        value={job?.frequency} 
+                        onValueChange={handlePushFrequencyChange}
+                        disabled={isPushing || !job}
                     >
                         <SelectTrigger id="push-frequency">
                             <SelectValue placeholder="Select frequency" />
@@ -644,7 +555,7 @@ export default function UhhConnectivityPage() {
                         </SelectContent>
                     </Select>
                     <p className="text-xs text-muted-foreground">
-                        How often the application should automatically attempt to push 'Not Uploaded' attendance records to Odoo.
+                        How often the application should automatically attempt to push &apos;Not Uploaded&apos; attendance records to Odoo.
                     </p>
                 </div>
                 <div className="space-y-2">
@@ -670,12 +581,45 @@ export default function UhhConnectivityPage() {
                         </SelectContent>
                     </Select>
                     <p className="text-xs text-muted-foreground">
-                        The maximum number of 'Not Uploaded' attendance records to include in a single push attempt to Odoo.
+                        The maximum number of &apos;Not Uploaded&apos; attendance records to include in a single push attempt to Odoo.
+                        Records that fail are retried with increasing delays and marked &apos;Failed&apos; after repeated errors.
+                    </p>
+                </div>
+                <div className="space-y-2">
+                    <Label>Break, Overtime and Unknown Punches</Label>
+                    <div className="grid gap-3 sm:grid-cols-2">
+                        {POLICY_PUNCH_TYPES.map(type => (
+                            <div key={type} className="space-y-1">
+                                <Label htmlFor={`push-policy-${type}`} className="text-xs text-muted-foreground">{TRANSACTION_TYPE_LABELS[type]}</Label>
+                                <Select
+                                    value={typePolicies[type]}
+                                    onValueChange={(value) => {
+                                        setTypePolicies(current => ({ ...current, [type]: value as PunchTypePolicy }));
+                                        addLog("UHH Connectivity", `Push policy for ${type} punches set to: ${PUNCH_TYPE_POLICY_LABELS[value as PunchTypePolicy]}.`, "Info");
+                                    }}
+                                    disabled={isPushing}
+                                >
+                                    <SelectTrigger id={`push-policy-${type}`}>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {PUNCH_TYPE_POLICIES.filter(policy => policy !== "overtime" || pushMode === "hr_attendance").map(policy => (
+                                            <SelectItem key={policy} value={policy}>{PUNCH_TYPE_POLICY_LABELS[policy]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Check-ins and check-outs are always pushed as they are. Skipped punches are marked &apos;Skipped&apos; on the Attendance page.
+                        As overtime, an overtime-out becomes an hr.attendance.overtime adjustment lasting from the overtime-in before it.
                     </p>
                 </div>
+                <ScheduledJobStatus job={job} logSource="UHH Connectivity" />
             </CardContent>
             <CardFooter className="border-t pt-6">
-                 <Button onClick={() => handleScheduledPushToUHH(true)} disabled={isPushing || !activeSession}>
+                 <Button onClick={handlePushNow} disabled={isPushing || !activeSession || Boolean(job?.running)}>
                     {isPushing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                     <UploadCloud className="mr-2 h-4 w-4" /> Push Attendance Data Now
                 </Button>
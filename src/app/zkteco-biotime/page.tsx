@@ -1,74 +1,283 @@
+"use client";
 
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import * as React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Fingerprint } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Fingerprint, Loader2, CheckCircle, RefreshCw, Download, RotateCcw } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { addLog, newCorrelationId } from "@/lib/app-logger";
+import {
+  BIOTIME_LATE_SYNC_WINDOW_MS,
+  BIOTIME_SOURCE_TYPE,
+  testBiotimeConnection,
+  type BiotimeAuthMode,
+  type BiotimeConfig,
+} from "@/lib/zkteco/biotime/api";
+import { ZK_PUNCH_CODES } from "@/lib/zkteco/time/api";
+import { configureSchedulerJob, resetSchedulerJobState, runSchedulerJob } from "@/lib/scheduler/api";
+import { useSchedulerJob } from "@/hooks/use-scheduler-job";
+import { ScheduledJobStatus } from "@/components/scheduler/scheduled-job-status";
+import { PunchCodeMappingCard } from "@/components/attendance/punch-code-mapping-card";
 
-// This page is a placeholder for ZKTeco Biotime integration.
-// Actual device communication and data fetching would be implemented
-// in Electron's main process, potentially using a ZKTeco SDK or API.
+const AUTH_MODE_OPTIONS: { value: BiotimeAuthMode; label: string }[] = [
+  { value: "jwt", label: "JWT (BioTime 8 and later)" },
+  { value: "token", label: "API Token (older BioTime)" },
+];
+
+const FETCH_FREQUENCY_OPTIONS = [
+  { value: "15m", label: "Every 15 minutes" },
+  { value: "30m", label: "Every 30 minutes" },
+  { value: "1h", label: "Every 1 hour" },
+  { value: "4h", label: "Every 4 hours" },
+];
 
 export default function ZKTecoBiotimePage() {
+  const { toast } = useToast();
+  const [baseUrl, setBaseUrl] = React.useState("");
+  const [username, setUsername] = React.useState("");
+  const [password, setPassword] = React.useState("");
+  const [authMode, setAuthMode] = React.useState<BiotimeAuthMode>("jwt");
+  const [isConnected, setIsConnected] = React.useState(false);
+  const { job } = useSchedulerJob("biotime_fetch");
+  const lastPunchTime = job?.state.lastRecordTime ?? null;
+  const [isTesting, setIsTesting] = React.useState(false);
+  const [isFetching, setIsFetching] = React.useState(false);
+  const [debugOutput, setDebugOutput] = React.useState("");
+
+  React.useEffect(() => {
+    addLog("ZKTecoBiotimePage", "Page loaded. Initializing settings from localStorage.", "Debug");
+    const savedUrl = localStorage.getItem("biotime_baseUrl");
+    const savedUsername = localStorage.getItem("biotime_username");
+    // WARNING: Loading passwords from localStorage is insecure for production.
+    const savedPassword = localStorage.getItem("biotime_password");
+    const savedAuthMode = localStorage.getItem("biotime_authMode");
+    if (savedUrl) setBaseUrl(savedUrl);
+    if (savedUsername) setUsername(savedUsername);
+    if (savedPassword) setPassword(savedPassword);
+    if (savedAuthMode === "jwt" || savedAuthMode === "token") setAuthMode(savedAuthMode);
+  }, []);
+
+  const buildConfig = (): BiotimeConfig | null => {
+    if (!baseUrl.trim() || !username || !password) {
+      toast({ title: "Missing Information", description: "Enter the BioTime server URL, username and password.", variant: "destructive" });
+      addLog("ZKTecoBiotimePage", "BioTime action attempted with incomplete configuration.", "Error");
+      return null;
+    }
+    localStorage.setItem("biotime_baseUrl", baseUrl.trim());
+    localStorage.setItem("biotime_username", username);
+    // WARNING: Storing passwords in localStorage is insecure.
+    localStorage.setItem("biotime_password", password);
+    localStorage.setItem("biotime_authMode", authMode);
+    return { baseUrl: baseUrl.trim(), username, password, authMode };
+  };
+
+  /**
+   * Saves the BioTime settings for the background fetch job.
+   */
+  const saveJobConfig = async (config: BiotimeConfig) => {
+    // Carry over the watermark kept in localStorage before imports moved server-side.
+    const legacyWatermark = localStorage.getItem("biotime_lastPunchTime");
+    await configureSchedulerJob("biotime_fetch", { config, initialState: legacyWatermark ? { lastRecordTime: legacyWatermark } : undefined });
+    localStorage.removeItem("biotime_lastPunchTime");
+  };
+
+  const handleTestConnection = async () => {
+    const config = buildConfig();
+    if (!config) return;
+    setIsTesting(true);
+    setIsConnected(false);
+    setDebugOutput(`Logging in to ${config.baseUrl} (${config.authMode === "jwt" ? "JWT" : "API token"})...`);
+    addLog("ZKTecoBiotimePage", `Testing connection to ${config.baseUrl} as '${config.username}'.`, "Info");
+
+    const result = await testBiotimeConnection(config);
+    if (result.success && result.data) {
+      setIsConnected(true);
+      setDebugOutput(`Connection successful.\nBioTime reports ${result.data.transactionCount} transactions.`);
+      toast({ title: "Connection Successful", description: `Logged in to BioTime as ${config.username}.` });
+      addLog("ZKTecoBiotimePage", `Connected to BioTime at ${config.baseUrl}. ${result.data.transactionCount} transactions available.`, "Success");
+      await saveJobConfig(config).catch(error => addLog("ZKTecoBiotimePage", `Could not save settings for the background fetch: ${error instanceof Error ? error.message : String(error)}`, "Error"));
+    } else {
+      setDebugOutput(`Connection failed: ${result.error}`);
+      toast({ title: "Connection Failed", description: result.error, variant: "destructive" });
+      addLog("ZKTecoBiotimePage", `Connection to ${config.baseUrl} failed: ${result.error}`, "Error");
+    }
+    setIsTesting(false);
+  };
+
+  const handleFetch = async () => {
+    const config = buildConfig();
+    if (!config) return;
+    setIsFetching(true);
+    const correlationId = newCorrelationId();
+    addLog("ZKTecoBiotimePage", `Fetching transactions from ${config.baseUrl}${lastPunchTime ? ` since ${lastPunchTime}` : ""}.`, "Info", { correlationId });
+    setDebugOutput(prev => `${prev}\n\nFetching transactions${lastPunchTime ? ` since ${format(parseISO(lastPunchTime), "Pp")}` : ""}...`);
+
+    try {
+      await saveJobConfig(config);
+      const result = await runSchedulerJob("biotime_fetch", { correlationId });
+      setDebugOutput(prev => `${prev}\n${result.lastStatus === "success" ? "" : "Fetch failed: "}${result.lastMessage}`);
+      if (result.lastStatus === "success") {
+        toast({ title: "Fetch Complete", description: result.lastMessage });
+        addLog("ZKTecoBiotimePage", result.lastMessage || "Fetch complete.", "Success", { correlationId });
+      } else {
+        toast({ title: "Fetch Failed", description: result.lastMessage, variant: "destructive" });
+        addLog("ZKTecoBiotimePage", `Fetch from ${config.baseUrl} failed: ${result.lastMessage}`, "Error", { correlationId });
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      setDebugOutput(prev => `${prev}\nFetch failed: ${msg}`);
+      toast({ title: "Fetch Failed", description: msg, variant: "destructive" });
+      addLog("ZKTecoBiotimePage", `Fetch from ${config.baseUrl} failed: ${msg}`, "Error", { correlationId, error });
+    }
+    setIsFetching(false);
+  };
+
+  const handleResetWatermark = async () => {
+    try {
+      await resetSchedulerJobState("biotime_fetch");
+      toast({ title: "Import Position Reset", description: "The next fetch will import every BioTime transaction." });
+      addLog("ZKTecoBiotimePage", "Import watermark reset by user.", "Info");
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Reset Failed", description: msg, variant: "destructive" });
+      addLog("ZKTecoBiotimePage", `Import watermark reset failed: ${msg}`, "Error");
+    }
+  };
+
+  const handleFrequencyChange = async (frequency: string) => {
+    try {
+      await configureSchedulerJob("biotime_fetch", { frequency });
+      addLog("ZKTecoBiotimePage", `Fetch frequency set to: ${FETCH_FREQUENCY_OPTIONS.find(opt => opt.value === frequency)?.label}`, "Info");
+    } catch (error) {
+      addLog("ZKTecoBiotimePage", `Error saving fetch frequency: ${error instanceof Error ? error.message : String(error)}`, "Error");
+    }
+  };
+
+  const isBusy = isTesting || isFetching;
+  const canConnect = Boolean(baseUrl && username && password);
+
   return (
-    <Card className="shadow-lg rounded-lg">
-      <CardHeader className="border-b">
-        <div className="flex items-center gap-3">
-          <Fingerprint className="h-8 w-8 text-primary" />
-          <CardTitle className="font-headline text-2xl">ZKTeco Biotime Integration (Coming Soon)</CardTitle>
-        </div>
-        <CardDescription>Manage and synchronize attendance data from ZKTeco Biotime devices.</CardDescription>
-      </CardHeader>
-      <CardContent className="pt-6 space-y-6">
-        <p className="text-muted-foreground">
-          Configuration and data synchronization features for ZKTeco Biotime devices will be available here in a future update.
-          This will involve connecting to the Biotime software/server, typically via its API or direct database access (if applicable and secure),
-          to fetch attendance logs.
-        </p>
-        
-        <div className="opacity-50 pointer-events-none"> {/* Visually disable inputs for placeholder */}
-          <h3 className="font-semibold text-lg mb-2">Device/Server Configuration (Example)</h3>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <Label htmlFor="biotime-ip">Biotime Server IP/Hostname</Label>
-              <Input id="biotime-ip" placeholder="e.g., biotime.example.com" disabled />
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-lg">
+        <CardHeader className="border-b">
+          <div className="flex items-center gap-3">
+            <Fingerprint className="h-8 w-8 text-primary" />
+            <CardTitle className="font-headline text-2xl">ZKTeco BioTime Integration</CardTitle>
+          </div>
+          <CardDescription>Connect to a BioTime server and import its attendance transactions through the BioTime REST API. Credentials are stored locally (Warning: Insecure).</CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          {isConnected && (
+            <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg shadow-sm flex items-center gap-3">
+              <CheckCircle className="h-6 w-6 text-green-600 dark:text-green-400" />
+              <div>
+                <h4 className="text-lg font-semibold text-green-800 dark:text-green-300">BioTime Connected</h4>
+                <p className="text-sm text-green-700 dark:text-green-400">
+                  Logged in to <span className="font-medium">{baseUrl}</span> as {username}.
+                </p>
+              </div>
             </div>
-            <div>
-              <Label htmlFor="biotime-port">Port</Label>
-              <Input id="biotime-port" placeholder="e.g., 80 or 443" disabled />
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="biotime-url">BioTime Server URL</Label>
+              <Input id="biotime-url" value={baseUrl} onChange={(e) => setBaseUrl(e.target.value)} placeholder="e.g., http://192.168.1.201:8081" disabled={isBusy} />
             </div>
-            <div>
+            <div className="space-y-2">
               <Label htmlFor="biotime-user">API Username</Label>
-              <Input id="biotime-user" placeholder="Username for Biotime API" disabled />
+              <Input id="biotime-user" value={username} onChange={(e) => setUsername(e.target.value)} placeholder="BioTime user with API access" disabled={isBusy} />
             </div>
-            <div>
+            <div className="space-y-2">
               <Label htmlFor="biotime-pass">API Password</Label>
-              <Input id="biotime-pass" type="password" placeholder="Password for Biotime API" disabled />
+              <Input id="biotime-pass" type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" disabled={isBusy} autoComplete="current-password" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="biotime-auth">Authentication Type</Label>
+              <Select value={authMode} onValueChange={(value) => setAuthMode(value as BiotimeAuthMode)} disabled={isBusy}>
+                <SelectTrigger id="biotime-auth">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTH_MODE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
-        </div>
-        
-        <div className="opacity-50 pointer-events-none">
-          <h3 className="font-semibold text-lg mb-2">Actions (Example)</h3>
-          <div className="flex flex-wrap gap-3">
-            <Button disabled>
-              <Fingerprint className="mr-2 h-4 w-4" /> Test Connection
-            </Button>
-            <Button variant="outline" disabled>
-              Fetch Attendance Data
+
+          <div className="flex justify-end">
+            <Button onClick={handleTestConnection} disabled={isBusy || !canConnect}>
+              {isTesting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Test Connection
             </Button>
           </div>
-        </div>
 
-        <div>
-          <h3 className="font-semibold text-lg mb-2">Status</h3>
-          <p className="text-sm text-muted-foreground">
-            This feature is currently under development.
+          {debugOutput && (
+            <div className="space-y-2 pt-4 border-t">
+              <Label htmlFor="debug-output" className="font-medium">Debug Output / Connection Status</Label>
+              <Textarea
+                id="debug-output"
+                value={debugOutput}
+                readOnly
+                rows={10}
+                className="font-mono text-xs bg-muted/30 dark:bg-muted/50 border rounded-md p-2 h-48"
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg rounded-lg">
+        <CardHeader className="border-b">
+          <div className="flex items-center gap-3">
+            <Download className="h-8 w-8 text-primary" />
+            <CardTitle className="font-headline text-2xl">Transaction Import</CardTitle>
+          </div>
+          <CardDescription>Reads every page of BioTime transactions since the last imported punch and stores them as attendance transactions.</CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-4">
+          <p className="text-sm">
+            {lastPunchTime
+              ? <>Punches up to <span className="font-medium">{format(parseISO(lastPunchTime), "PPpp")}</span> have been imported; only newer punches are added, and ones terminals sync up to {BIOTIME_LATE_SYNC_WINDOW_MS / 86400000} days late.</>
+              : "No transactions imported yet; the next fetch imports BioTime's full history."}
           </p>
-        </div>
-      </CardContent>
-    </Card>
+          <p className="text-xs text-muted-foreground">
+            BioTime punch times have no time zone and are read in the server&apos;s local time.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="fetch-frequency">Automatic Fetch Frequency</Label>
+            <Select value={job?.frequency} onValueChange={handleFrequencyChange} disabled={!job}>
+              <SelectTrigger id="fetch-frequency">
+                <SelectValue placeholder="Select frequency" />
+              </SelectTrigger>
+              <SelectContent>
+                {FETCH_FREQUENCY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ScheduledJobStatus job={job} logSource="ZKTecoBiotimePage" />
+        </CardContent>
+        <CardFooter className="border-t pt-6 flex gap-3">
+          <Button onClick={handleFetch} disabled={isBusy || !canConnect || Boolean(job?.running)}>
+            {isFetching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Fetch Now
+          </Button>
+          <Button variant="outline" onClick={handleResetWatermark} disabled={isBusy || !lastPunchTime}>
+            <RotateCcw className="mr-2 h-4 w-4" /> Reset Import Position
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <PunchCodeMappingCard sourceType={BIOTIME_SOURCE_TYPE} standardCodes={ZK_PUNCH_CODES} codeLabel="punch state" logSource="ZKTecoBiotimePage" />
+    </div>
   );
 }
-    
-```
\ No newline at end of file
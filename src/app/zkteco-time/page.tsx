@@ -1,69 +1,291 @@
+"use client";
 
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import * as React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Clock } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Clock, Loader2, CheckCircle, RefreshCw, Download, RotateCcw } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { addLog, newCorrelationId } from "@/lib/app-logger";
+import {
+  DEFAULT_ZK_PORT,
+  ZK_PUNCH_CODES,
+  ZK_SOURCE_TYPE,
+  testZkTimeConnection,
+  type ZkDeviceConfig,
+  type ZkDeviceInfo,
+  type ZkTransport,
+} from "@/lib/zkteco/time/api";
+import { configureSchedulerJob, resetSchedulerJobState, runSchedulerJob } from "@/lib/scheduler/api";
+import { useSchedulerJob } from "@/hooks/use-scheduler-job";
+import { ScheduledJobStatus } from "@/components/scheduler/scheduled-job-status";
+import { PunchCodeMappingCard } from "@/components/attendance/punch-code-mapping-card";
 
-// This page is a placeholder for ZKTeco Time (standalone device) integration.
-// Actual device communication (likely via an SDK like zklib) and data fetching
-// MUST be implemented in Electron's main process.
+const PROTOCOL_OPTIONS: { value: ZkTransport; label: string }[] = [
+  { value: "tcp", label: "TCP (newer firmware)" },
+  { value: "udp", label: "UDP (older firmware)" },
+];
+
+const FETCH_FREQUENCY_OPTIONS = [
+  { value: "15m", label: "Every 15 minutes" },
+  { value: "30m", label: "Every 30 minutes" },
+  { value: "1h", label: "Every 1 hour" },
+  { value: "4h", label: "Every 4 hours" },
+];
 
 export default function ZKTecoTimePage() {
+  const { toast } = useToast();
+  const [ip, setIp] = React.useState("");
+  const [port, setPort] = React.useState(String(DEFAULT_ZK_PORT));
+  const [protocol, setProtocol] = React.useState<ZkTransport>("tcp");
+  const [commKey, setCommKey] = React.useState("0");
+  const [deviceInfo, setDeviceInfo] = React.useState<ZkDeviceInfo | null>(null);
+  const { job } = useSchedulerJob("zktime_fetch");
+  const lastRecordTime = job?.state.lastRecordTime ?? null;
+  const [isTesting, setIsTesting] = React.useState(false);
+  const [isFetching, setIsFetching] = React.useState(false);
+  const [debugOutput, setDebugOutput] = React.useState("");
+
+  React.useEffect(() => {
+    addLog("ZKTecoTimePage", "Page loaded. Initializing settings from localStorage.", "Debug");
+    const savedIp = localStorage.getItem("zktime_ip");
+    const savedPort = localStorage.getItem("zktime_port");
+    const savedProtocol = localStorage.getItem("zktime_protocol");
+    const savedCommKey = localStorage.getItem("zktime_commKey");
+    if (savedIp) setIp(savedIp);
+    if (savedPort) setPort(savedPort);
+    if (savedProtocol === "tcp" || savedProtocol === "udp") setProtocol(savedProtocol);
+    if (savedCommKey) setCommKey(savedCommKey);
+  }, []);
+
+  const buildConfig = (): ZkDeviceConfig | null => {
+    const numericPort = parseInt(port, 10);
+    const numericKey = parseInt(commKey || "0", 10);
+    if (!ip.trim() || isNaN(numericPort) || isNaN(numericKey)) {
+      toast({ title: "Missing Information", description: "Enter the device IP, port and communication key (0 if none).", variant: "destructive" });
+      addLog("ZKTecoTimePage", "Device action attempted with incomplete configuration.", "Error");
+      return null;
+    }
+    localStorage.setItem("zktime_ip", ip.trim());
+    localStorage.setItem("zktime_port", String(numericPort));
+    localStorage.setItem("zktime_protocol", protocol);
+    // WARNING: The comm key is stored in plain text, like the other device settings.
+    localStorage.setItem("zktime_commKey", String(numericKey));
+    return { ip: ip.trim(), port: numericPort, protocol, commKey: numericKey };
+  };
+
+  /**
+   * Saves the device settings for the background fetch job.
+   */
+  const saveJobConfig = async (config: ZkDeviceConfig) => {
+    // Carry over the watermark kept in localStorage before imports moved server-side.
+    const legacyWatermark = localStorage.getItem("zktime_lastRecordTime");
+    await configureSchedulerJob("zktime_fetch", { config, initialState: legacyWatermark ? { lastRecordTime: legacyWatermark } : undefined });
+    localStorage.removeItem("zktime_lastRecordTime");
+  };
+
+  const describeDevice = (info: ZkDeviceInfo) =>
+    `Serial: ${info.serialNumber || "unknown"}\nModel: ${info.deviceName || "unknown"} (${info.platform || "unknown platform"})\nFirmware: ${info.firmwareVersion || "unknown"}\n` +
+    `Users: ${info.userCount}/${info.userCapacity}, Fingerprints: ${info.fingerprintCount}, Records: ${info.recordCount}/${info.recordCapacity}`;
+
+  const handleTestConnection = async () => {
+    const config = buildConfig();
+    if (!config) return;
+    setIsTesting(true);
+    setDeviceInfo(null);
+    setDebugOutput(`Connecting to ${config.ip}:${config.port} over ${config.protocol.toUpperCase()}...`);
+    addLog("ZKTecoTimePage", `Testing connection to ${config.ip}:${config.port} (${config.protocol}).`, "Info");
+
+    const result = await testZkTimeConnection(config);
+    if (result.success && result.data) {
+      setDeviceInfo(result.data);
+      setDebugOutput(`Connection successful.\n\n${describeDevice(result.data)}`);
+      toast({ title: "Connection Successful", description: `Connected to device ${result.data.serialNumber}.` });
+      addLog("ZKTecoTimePage", `Connected to device ${result.data.serialNumber} at ${config.ip}:${config.port}.`, "Success");
+      await saveJobConfig(config).catch(error => addLog("ZKTecoTimePage", `Could not save settings for the background fetch: ${error instanceof Error ? error.message : String(error)}`, "Error"));
+    } else {
+      setDebugOutput(`Connection failed: ${result.error}`);
+      toast({ title: "Connection Failed", description: result.error, variant: "destructive" });
+      addLog("ZKTecoTimePage", `Connection to ${config.ip}:${config.port} failed: ${result.error}`, "Error");
+    }
+    setIsTesting(false);
+  };
+
+  const handleFetch = async () => {
+    const config = buildConfig();
+    if (!config) return;
+    setIsFetching(true);
+    const correlationId = newCorrelationId();
+    addLog("ZKTecoTimePage", `Downloading attendance log from ${config.ip}:${config.port}${lastRecordTime ? ` (importing records after ${lastRecordTime})` : ""}.`, "Info", { correlationId });
+    setDebugOutput(prev => `${prev}\n\nDownloading users and attendance log...`);
+
+    try {
+      await saveJobConfig(config);
+      const result = await runSchedulerJob("zktime_fetch", { correlationId });
+      setDebugOutput(prev => `${prev}\n${result.lastStatus === "success" ? "" : "Fetch failed: "}${result.lastMessage}`);
+      if (result.lastStatus === "success") {
+        toast({ title: "Fetch Complete", description: result.lastMessage });
+        addLog("ZKTecoTimePage", result.lastMessage || "Fetch complete.", "Success", { correlationId });
+      } else {
+        toast({ title: "Fetch Failed", description: result.lastMessage, variant: "destructive" });
+        addLog("ZKTecoTimePage", `Fetch from ${config.ip}:${config.port} failed: ${result.lastMessage}`, "Error", { correlationId });
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      setDebugOutput(prev => `${prev}\nFetch failed: ${msg}`);
+      toast({ title: "Fetch Failed", description: msg, variant: "destructive" });
+      addLog("ZKTecoTimePage", `Fetch from ${config.ip}:${config.port} failed: ${msg}`, "Error", { correlationId, error });
+    }
+    setIsFetching(false);
+  };
+
+  const handleResetWatermark = async () => {
+    try {
+      await resetSchedulerJobState("zktime_fetch");
+      toast({ title: "Import Position Reset", description: "The next fetch will import the device's full attendance log." });
+      addLog("ZKTecoTimePage", "Import watermark reset by user.", "Info");
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Reset Failed", description: msg, variant: "destructive" });
+      addLog("ZKTecoTimePage", `Import watermark reset failed: ${msg}`, "Error");
+    }
+  };
+
+  const handleFrequencyChange = async (frequency: string) => {
+    try {
+      await configureSchedulerJob("zktime_fetch", { frequency });
+      addLog("ZKTecoTimePage", `Fetch frequency set to: ${FETCH_FREQUENCY_OPTIONS.find(opt => opt.value === frequency)?.label}`, "Info");
+    } catch (error) {
+      addLog("ZKTecoTimePage", `Error saving fetch frequency: ${error instanceof Error ? error.message : String(error)}`, "Error");
+    }
+  };
+
+  const isBusy = isTesting || isFetching;
+
   return (
-    <Card className="shadow-lg rounded-lg">
-      <CardHeader className="border-b">
-        <div className="flex items-center gap-3">
-          <Clock className="h-8 w-8 text-primary" />
-          <CardTitle className="font-headline text-2xl">ZKTeco Time Integration (Coming Soon)</CardTitle>
-        </div>
-        <CardDescription>Manage and synchronize attendance data from standalone ZKTeco Time devices.</CardDescription>
-      </CardHeader>
-      <CardContent className="pt-6 space-y-6">
-         <p className="text-muted-foreground">
-          Configuration and data synchronization features for standalone ZKTeco Time attendance devices will be available here.
-          This typically involves direct communication with the device over the local network using a specific SDK.
-        </p>
-
-        <div className="opacity-50 pointer-events-none"> {/* Visually disable inputs for placeholder */}
-          <h3 className="font-semibold text-lg mb-2">Device Configuration (Example)</h3>
+    <div className="space-y-6">
+      <Card className="shadow-lg rounded-lg">
+        <CardHeader className="border-b">
+          <div className="flex items-center gap-3">
+            <Clock className="h-8 w-8 text-primary" />
+            <CardTitle className="font-headline text-2xl">ZKTeco Time Integration</CardTitle>
+          </div>
+          <CardDescription>Connect to a standalone ZKTeco attendance device on the local network (ZK protocol, port 4370).</CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          {deviceInfo && (
+            <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg shadow-sm flex items-center gap-3">
+              <CheckCircle className="h-6 w-6 text-green-600 dark:text-green-400" />
+              <div>
+                <h4 className="text-lg font-semibold text-green-800 dark:text-green-300">Device Connected</h4>
+                <p className="text-sm text-green-700 dark:text-green-400">
+                  {deviceInfo.deviceName || "ZKTeco device"} <span className="font-medium">{deviceInfo.serialNumber}</span>, {deviceInfo.recordCount} attendance records stored.
+                </p>
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
+            <div className="space-y-2">
               <Label htmlFor="time-ip">Device IP Address</Label>
-              <Input id="time-ip" placeholder="e.g., 192.168.1.202" disabled />
+              <Input id="time-ip" value={ip} onChange={(e) => setIp(e.target.value)} placeholder="e.g., 192.168.1.202" disabled={isBusy} />
             </div>
-            <div>
-              <Label htmlFor="time-port">Port (usually 4370 for SDK)</Label>
-              <Input id="time-port" placeholder="e.g., 4370" disabled />
+            <div className="space-y-2">
+              <Label htmlFor="time-port">Port</Label>
+              <Input id="time-port" type="number" value={port} onChange={(e) => setPort(e.target.value)} placeholder="4370" disabled={isBusy} />
             </div>
-             <div>
-              <Label htmlFor="time-comkey">Communication Key (if set)</Label>
-              <Input id="time-comkey" type="password" placeholder="Device communication key" disabled />
+            <div className="space-y-2">
+              <Label htmlFor="time-protocol">Protocol</Label>
+              <Select value={protocol} onValueChange={(value) => setProtocol(value as ZkTransport)} disabled={isBusy}>
+                <SelectTrigger id="time-protocol">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROTOCOL_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="time-comkey">Communication Key</Label>
+              <Input id="time-comkey" type="password" value={commKey} onChange={(e) => setCommKey(e.target.value)} placeholder="0 if not set" disabled={isBusy} />
+              <p className="text-xs text-muted-foreground">Numeric key set under the device&apos;s Comm. settings; 0 when none is set.</p>
             </div>
           </div>
-        </div>
-        
-        <div className="opacity-50 pointer-events-none">
-          <h3 className="font-semibold text-lg mb-2">Actions (Example)</h3>
-          <div className="flex flex-wrap gap-3">
-            <Button disabled>
-              <Clock className="mr-2 h-4 w-4" /> Test Connection
-            </Button>
-            <Button variant="outline" disabled>
-              Fetch Attendance Data
+
+          <div className="flex justify-end">
+            <Button onClick={handleTestConnection} disabled={isBusy || !ip}>
+              {isTesting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Test Connection
             </Button>
           </div>
-        </div>
 
-        <div>
-          <h3 className="font-semibold text-lg mb-2">Status</h3>
-          <p className="text-sm text-muted-foreground">
-            This feature is currently under development.
+          {debugOutput && (
+            <div className="space-y-2 pt-4 border-t">
+              <Label htmlFor="debug-output" className="font-medium">Debug Output / Connection Status</Label>
+              <Textarea
+                id="debug-output"
+                value={debugOutput}
+                readOnly
+                rows={10}
+                className="font-mono text-xs bg-muted/30 dark:bg-muted/50 border rounded-md p-2 h-48"
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg rounded-lg">
+        <CardHeader className="border-b">
+          <div className="flex items-center gap-3">
+            <Download className="h-8 w-8 text-primary" />
+            <CardTitle className="font-headline text-2xl">Attendance Download</CardTitle>
+          </div>
+          <CardDescription>
+            Downloads the device&apos;s attendance log and stores new punches as attendance transactions. The keypad is locked while the log is read.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-4">
+          <p className="text-sm">
+            {lastRecordTime
+              ? <>Records up to <span className="font-medium">{format(parseISO(lastRecordTime), "PPpp")}</span> have been imported; only newer punches are added.</>
+              : "No records imported yet; the next fetch imports the full attendance log."}
           </p>
-        </div>
-      </CardContent>
-    </Card>
+          <p className="text-xs text-muted-foreground">
+            Device timestamps have no time zone and are read in the server&apos;s local time.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="fetch-frequency">Automatic Fetch Frequency</Label>
+            <Select value={job?.frequency} onValueChange={handleFrequencyChange} disabled={!job}>
+              <SelectTrigger id="fetch-frequency">
+                <SelectValue placeholder="Select frequency" />
+              </SelectTrigger>
+              <SelectContent>
+                {FETCH_FREQUENCY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ScheduledJobStatus job={job} logSource="ZKTecoTimePage" />
+        </CardContent>
+        <CardFooter className="border-t pt-6 flex gap-3">
+          <Button onClick={handleFetch} disabled={isBusy || !ip || Boolean(job?.running)}>
+            {isFetching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Fetch Now
+          </Button>
+          <Button variant="outline" onClick={handleResetWatermark} disabled={isBusy || !lastRecordTime}>
+            <RotateCcw className="mr-2 h-4 w-4" /> Reset Import Position
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <PunchCodeMappingCard sourceType={ZK_SOURCE_TYPE} standardCodes={ZK_PUNCH_CODES} codeLabel="punch state" logSource="ZKTecoTimePage" />
+    </div>
   );
 }
-    
-```
\ No newline at end of file
@@ -0,0 +1,167 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { addLog } from "@/lib/app-logger";
+import {
+  ATTENDANCE_EXPORT_COLUMNS,
+  DEFAULT_EXPORT_COLUMNS,
+  exportAttendanceTransactions,
+  type AttendanceExportColumn,
+  type AttendanceExportFormat,
+} from "@/lib/attendance-export";
+import { listTimeZones } from "@/lib/time-zones";
+import { getAllAttendanceTransactions, type AttendanceTransactionFilter } from "@/lib/attendance-manager";
+import { Download } from "lucide-react";
+
+const SETTINGS_STORAGE_KEY = "attendanceExportSettings";
+
+interface AttendanceExportDialogProps {
+  filter: AttendanceTransactionFilter; // The page's filters; every matching transaction is exported, not just the page shown
+  total: number; // Number of matching transactions
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function AttendanceExportDialog({ filter, total, isOpen, onClose }: AttendanceExportDialogProps) {
+  const { toast } = useToast();
+  const timeZones = React.useMemo(() => listTimeZones(), []);
+  const [format, setFormat] = React.useState<AttendanceExportFormat>("xlsx");
+  const [columns, setColumns] = React.useState<AttendanceExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+  const [timeZone, setTimeZone] = React.useState<string>(timeZones[0]);
+  const [includeDailySummary, setIncludeDailySummary] = React.useState(true);
+  const [isExporting, setIsExporting] = React.useState(false);
+
+  React.useEffect(() => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || "null");
+      if (!stored) return;
+      if (stored.format === "csv" || stored.format === "xlsx") setFormat(stored.format);
+      if (Array.isArray(stored.columns)) {
+        setColumns(stored.columns.filter((c: string) => ATTENDANCE_EXPORT_COLUMNS.some(option => option.value === c)));
+      }
+      if (typeof stored.timeZone === "string" && timeZones.includes(stored.timeZone)) setTimeZone(stored.timeZone);
+      if (typeof stored.includeDailySummary === "boolean") setIncludeDailySummary(stored.includeDailySummary);
+    } catch {
+      // Keep the defaults.
+    }
+  }, [timeZones]);
+
+  const toggleColumn = (column: AttendanceExportColumn, checked: boolean) => {
+    // Keep the columns in the order they are listed, whatever order they were ticked in.
+    setColumns(current => ATTENDANCE_EXPORT_COLUMNS
+      .map(option => option.value)
+      .filter(value => value === column ? checked : current.includes(value)));
+  };
+
+  const handleExport = async () => {
+    const options = { format, columns, timeZone, includeDailySummary };
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(options));
+    setIsExporting(true);
+    try {
+      const transactions = await getAllAttendanceTransactions(filter);
+      const fileNames = exportAttendanceTransactions(transactions, options);
+      toast({ title: "Export Ready", description: `${transactions.length} transactions saved to ${fileNames.join(" and ")}.` });
+      addLog("AttendanceTransactionsPage", `Exported ${transactions.length} transactions as ${format.toUpperCase()} (${timeZone}).`, "Info", {
+        context: { fileNames, columns, timeZone, includeDailySummary },
+      });
+      onClose();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Export Failed", description: msg, variant: "destructive" });
+      addLog("AttendanceTransactionsPage", `Export failed: ${msg}`, "Error", { error });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Attendance Transactions</DialogTitle>
+          <DialogDescription>
+            Exports the {total} transactions matching the current filters.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-format">Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as AttendanceExportFormat)}>
+                <SelectTrigger id="export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                  <SelectItem value="csv">CSV</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-timezone">Time Zone</Label>
+              <Select value={timeZone} onValueChange={setTimeZone}>
+                <SelectTrigger id="export-timezone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeZones.map((zone) => (
+                    <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+              {ATTENDANCE_EXPORT_COLUMNS.map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`export-column-${option.value}`}
+                    checked={columns.includes(option.value)}
+                    onCheckedChange={(checked) => toggleColumn(option.value, checked === true)}
+                  />
+                  <Label htmlFor={`export-column-${option.value}`} className="font-normal">{option.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-start space-x-2">
+            <Checkbox id="export-summary" checked={includeDailySummary} onCheckedChange={(checked) => setIncludeDailySummary(checked === true)} />
+            <div className="space-y-1">
+              <Label htmlFor="export-summary" className="font-normal">Include daily summary per employee</Label>
+              <p className="text-xs text-muted-foreground">
+                First in, last out and total hours per day. Added as a second sheet in XLSX, or as a second file in CSV.
+              </p>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleExport} disabled={columns.length === 0 || total === 0 || isExporting}>
+            <Download className="mr-2 h-4 w-4" /> Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
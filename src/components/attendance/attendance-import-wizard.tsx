@@ -0,0 +1,364 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { addLog } from "@/lib/app-logger";
+import { importAttendanceTransactions } from "@/lib/attendance-manager";
+import {
+  IMPORT_DATE_FORMATS,
+  IMPORT_FIELDS,
+  buildImportPreview,
+  guessColumnMapping,
+  guessDateFormat,
+  parseImportTime,
+  readImportFile,
+  type ImportColumnMapping,
+  type ImportDateFormat,
+  type ImportField,
+  type ImportFile,
+} from "@/lib/attendance-import";
+import { listTimeZones, toZonedParts } from "@/lib/time-zones";
+import { Upload } from "lucide-react";
+
+type WizardStep = "upload" | "mapping" | "format" | "preview";
+
+const STEPS: { value: WizardStep; label: string }[] = [
+  { value: "upload", label: "1. Upload" },
+  { value: "mapping", label: "2. Map Columns" },
+  { value: "format", label: "3. Date & Time Zone" },
+  { value: "preview", label: "4. Preview" },
+];
+
+const NOT_MAPPED_VALUE = "__not_mapped__";
+const PREVIEW_ROW_LIMIT = 200;
+const SAMPLE_ROW_COUNT = 5;
+
+interface AttendanceImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function AttendanceImportWizard({ isOpen, onClose }: AttendanceImportWizardProps) {
+  const { toast } = useToast();
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const timeZones = React.useMemo(() => listTimeZones(), []);
+
+  const [step, setStep] = React.useState<WizardStep>("upload");
+  const [fileName, setFileName] = React.useState("");
+  const [fileText, setFileText] = React.useState("");
+  const [hasHeader, setHasHeader] = React.useState(true);
+  const [importFile, setImportFile] = React.useState<ImportFile | null>(null);
+  const [fileError, setFileError] = React.useState<string | null>(null);
+  const [mapping, setMapping] = React.useState<ImportColumnMapping>({ employee_id: null, transaction_time: null, transaction_type: null, device_id: null });
+  const [defaultDeviceId, setDefaultDeviceId] = React.useState("");
+  const [dateFormat, setDateFormat] = React.useState<ImportDateFormat>("ymd");
+  const [timeZone, setTimeZone] = React.useState<string>(timeZones[0]);
+  const [showErrorsOnly, setShowErrorsOnly] = React.useState(false);
+  const [isImporting, setIsImporting] = React.useState(false);
+  const [importedCount, setImportedCount] = React.useState(0);
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setFileText("");
+    setHasHeader(true);
+    setImportFile(null);
+    setFileError(null);
+    setShowErrorsOnly(false);
+    setImportedCount(0);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    reset();
+    onClose();
+  };
+
+  // Reads the file and suggests a mapping and date format for it; runs again when the header option changes.
+  const loadFile = (text: string, withHeader: boolean) => {
+    setFileText(text);
+    setHasHeader(withHeader);
+    const { file, error } = readImportFile(text, withHeader);
+    setImportFile(file ?? null);
+    setFileError(error ?? null);
+    if (!file) return;
+    const guessedMapping = guessColumnMapping(file.header);
+    setMapping(guessedMapping);
+    if (guessedMapping.transaction_time !== null) {
+      const samples = file.rows.slice(0, 50).map(row => row[guessedMapping.transaction_time!] ?? "");
+      setDateFormat(guessDateFormat(samples, timeZone));
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setDefaultDeviceId(file.name.replace(/\.[^.]+$/, ""));
+    loadFile(await file.text(), hasHeader);
+  };
+
+  const preview = React.useMemo(() => {
+    if (step !== "preview" || !importFile) return [];
+    return buildImportPreview(importFile, { mapping, dateFormat, timeZone, defaultDeviceId });
+  }, [step, importFile, mapping, dateFormat, timeZone, defaultDeviceId]);
+
+  const validTransactions = React.useMemo(() => preview.flatMap(row => row.transaction ? [row.transaction] : []), [preview]);
+  const invalidCount = preview.length - validTransactions.length;
+  const visibleRows = (showErrorsOnly ? preview.filter(row => row.errors.length > 0) : preview).slice(0, PREVIEW_ROW_LIMIT);
+
+  const mappedColumns = IMPORT_FIELDS.map(field => mapping[field.value]).filter(index => index !== null);
+  const isMappingComplete = IMPORT_FIELDS.every(field => !field.required || mapping[field.value] !== null)
+    && new Set(mappedColumns).size === mappedColumns.length
+    && (mapping.device_id !== null || defaultDeviceId.trim() !== "");
+
+  const sampleValue = (field: ImportField) => {
+    const index = mapping[field];
+    return index === null || !importFile ? "" : importFile.rows.slice(0, 3).map(row => row[index] ?? "").join(", ");
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setImportedCount(0);
+    try {
+      const { inserted, duplicates } = await importAttendanceTransactions(validTransactions, setImportedCount);
+      const skippedNote = invalidCount > 0 ? ` ${invalidCount} invalid rows were skipped.` : "";
+      toast({ title: "Import Complete", description: `${inserted} transactions imported, ${duplicates} already stored.${skippedNote}` });
+      addLog("AttendanceTransactionsPage", `Imported ${inserted} transactions from '${fileName}' (${duplicates} duplicates, ${invalidCount} invalid rows skipped).`, "Success", {
+        context: { fileName, dateFormat, timeZone, mapping },
+      });
+      setIsImporting(false);
+      reset();
+      onClose();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Import Failed", description: msg, variant: "destructive" });
+      addLog("AttendanceTransactionsPage", `Import of '${fileName}' failed: ${msg}`, "Error", { error });
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Attendance from CSV</DialogTitle>
+          <DialogDescription>
+            Punches from spreadsheets or legacy clocks are stored like device punches: duplicates are skipped and new records are queued for the Odoo push.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-4 text-sm">
+          {STEPS.map((s) => (
+            <span key={s.value} className={cn(s.value === step ? "font-semibold text-foreground" : "text-muted-foreground")}>{s.label}</span>
+          ))}
+        </div>
+
+        {step === "upload" && (
+          <div className="space-y-4 py-2">
+            <input ref={fileInputRef} type="file" accept=".csv,.txt" className="hidden" onChange={handleFileSelected} />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" /> Choose CSV File
+            </Button>
+            {fileName && <p className="text-sm">Selected: <span className="font-medium">{fileName}</span></p>}
+            <div className="flex items-center space-x-2">
+              <Checkbox id="import-has-header" checked={hasHeader} onCheckedChange={(checked) => fileText ? loadFile(fileText, checked === true) : setHasHeader(checked === true)} />
+              <Label htmlFor="import-has-header" className="font-normal">First row contains column names</Label>
+            </div>
+            {fileError && <p className="text-sm text-destructive">{fileError}</p>}
+            {importFile && (
+              <p className="text-sm text-muted-foreground">{importFile.rows.length} rows, {importFile.header.length} columns.</p>
+            )}
+          </div>
+        )}
+
+        {step === "mapping" && importFile && (
+          <div className="space-y-4 py-2">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field.value} className="grid grid-cols-[10rem_1fr] items-center gap-4">
+                <Label htmlFor={`import-map-${field.value}`}>{field.label}{field.required ? " *" : ""}</Label>
+                <div className="space-y-1">
+                  <Select
+                    value={mapping[field.value] === null ? NOT_MAPPED_VALUE : String(mapping[field.value])}
+                    onValueChange={(value) => setMapping(current => ({ ...current, [field.value]: value === NOT_MAPPED_VALUE ? null : Number(value) }))}
+                  >
+                    <SelectTrigger id={`import-map-${field.value}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED_VALUE}>Not in file</SelectItem>
+                      {importFile.header.map((column, index) => (
+                        <SelectItem key={index} value={String(index)}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {mapping[field.value] !== null && (
+                    <p className="text-xs text-muted-foreground truncate">e.g. {sampleValue(field.value)}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+            {mapping.device_id === null && (
+              <div className="grid grid-cols-[10rem_1fr] items-center gap-4">
+                <Label htmlFor="import-default-device">Device ID for all rows *</Label>
+                <Input id="import-default-device" value={defaultDeviceId} onChange={(e) => setDefaultDeviceId(e.target.value)} placeholder="e.g. Old-Clock-Lobby" />
+              </div>
+            )}
+            {new Set(mappedColumns).size !== mappedColumns.length && (
+              <p className="text-sm text-destructive">Each column can be mapped to one field only.</p>
+            )}
+          </div>
+        )}
+
+        {step === "format" && importFile && (
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="import-date-format">Date Format</Label>
+                <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as ImportDateFormat)}>
+                  <SelectTrigger id="import-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {IMPORT_DATE_FORMATS.map((f) => (
+                      <SelectItem key={f.value} value={f.value}>{f.label} ({f.example})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-timezone">Time Zone of the Clock</Label>
+                <Select value={timeZone} onValueChange={setTimeZone}>
+                  <SelectTrigger id="import-timezone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timeZones.map((zone) => (
+                      <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Times that include a UTC offset keep it; all others are read in the selected time zone.</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Value in File</TableHead>
+                  <TableHead>Read As ({timeZone})</TableHead>
+                  <TableHead>UTC</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {importFile.rows.slice(0, SAMPLE_ROW_COUNT).map((row, i) => {
+                  const value = row[mapping.transaction_time!] ?? "";
+                  const parsed = parseImportTime(value, dateFormat, timeZone);
+                  const zoned = parsed ? toZonedParts(parsed.toISOString(), timeZone) : null;
+                  return (
+                    <TableRow key={i}>
+                      <TableCell className="font-mono text-xs">{value}</TableCell>
+                      <TableCell className={cn("text-xs", !zoned && "text-destructive")}>{zoned ? `${zoned.date} ${zoned.time}` : "Not readable"}</TableCell>
+                      <TableCell className="font-mono text-xs">{parsed?.toISOString() ?? "-"}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-3 py-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm">
+                <span className="font-medium">{validTransactions.length}</span> valid rows,{" "}
+                <span className={cn("font-medium", invalidCount > 0 && "text-destructive")}>{invalidCount}</span> with errors (skipped on import).
+              </p>
+              <div className="flex items-center space-x-2">
+                <Switch id="import-errors-only" checked={showErrorsOnly} onCheckedChange={setShowErrorsOnly} />
+                <Label htmlFor="import-errors-only">Errors only</Label>
+              </div>
+            </div>
+            <ScrollArea className="h-[350px] rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Employee ID</TableHead>
+                    <TableHead>Time (UTC)</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Device ID</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) => (
+                    <TableRow key={row.rowNumber} className={cn(row.errors.length > 0 && "bg-destructive/10 hover:bg-destructive/15")}>
+                      <TableCell className="text-xs">{row.rowNumber}</TableCell>
+                      <TableCell className="text-xs">{row.transaction?.employee_id ?? (mapping.employee_id !== null ? row.fields[mapping.employee_id] : "")}</TableCell>
+                      <TableCell className="font-mono text-xs">{row.transaction ? String(row.transaction.transaction_time) : (mapping.transaction_time !== null ? row.fields[mapping.transaction_time] : "")}</TableCell>
+                      <TableCell className="text-xs">{row.transaction?.transaction_type ?? (mapping.transaction_type !== null ? row.fields[mapping.transaction_type] : "")}</TableCell>
+                      <TableCell className="text-xs">{row.transaction?.device_id ?? (mapping.device_id !== null ? row.fields[mapping.device_id] : defaultDeviceId)}</TableCell>
+                      <TableCell className="text-xs text-destructive">{row.errors.join(" ")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+            {(showErrorsOnly ? invalidCount : preview.length) > PREVIEW_ROW_LIMIT && (
+              <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROW_LIMIT} rows.</p>
+            )}
+            {isImporting && <Progress value={(importedCount / Math.max(validTransactions.length, 1)) * 100} />}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isImporting}>Cancel</Button>
+          {step !== "upload" && (
+            <Button variant="outline" onClick={() => setStep(STEPS[STEPS.findIndex(s => s.value === step) - 1].value)} disabled={isImporting}>Back</Button>
+          )}
+          {step === "upload" && <Button onClick={() => setStep("mapping")} disabled={!importFile}>Next</Button>}
+          {step === "mapping" && <Button onClick={() => setStep("format")} disabled={!isMappingComplete}>Next</Button>}
+          {step === "format" && <Button onClick={() => setStep("preview")}>Next</Button>}
+          {step === "preview" && (
+            <Button onClick={handleImport} disabled={isImporting || validTransactions.length === 0}>
+              {isImporting ? `Importing ${importedCount}/${validTransactions.length}...` : `Import ${validTransactions.length} Rows`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import * as React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { getStoredOdooUserName } from "@/lib/odoo/api";
+import type { AttendanceChangeAuthor } from "@/lib/attendance-manager";
+
+const ACTOR_STORAGE_KEY = "attendanceChangeActor";
+
+/**
+ * Holds who makes a manual attendance change and why. The name defaults to the last one used, or
+ * to the logged-in Odoo user; `rememberActor` stores it after a successful change.
+ */
+export function useChangeAuthor() {
+  const [author, setAuthor] = React.useState<AttendanceChangeAuthor>({ actor: "", reason: "" });
+
+  React.useEffect(() => {
+    const actor = localStorage.getItem(ACTOR_STORAGE_KEY) || getStoredOdooUserName() || "";
+    setAuthor(current => ({ ...current, actor: current.actor || actor }));
+  }, []);
+
+  const rememberActor = React.useCallback(() => {
+    localStorage.setItem(ACTOR_STORAGE_KEY, author.actor.trim());
+  }, [author.actor]);
+
+  const isComplete = author.actor.trim() !== "" && author.reason.trim() !== "";
+  return { author, setAuthor, rememberActor, isComplete };
+}
+
+interface ChangeAuthorFieldsProps {
+  idPrefix: string;
+  author: AttendanceChangeAuthor;
+  onChange: (author: AttendanceChangeAuthor) => void;
+  reasonPlaceholder?: string;
+}
+
+export function ChangeAuthorFields({ idPrefix, author, onChange, reasonPlaceholder }: ChangeAuthorFieldsProps) {
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-actor`}>Changed By *</Label>
+        <Input id={`${idPrefix}-actor`} value={author.actor} onChange={(e) => onChange({ ...author, actor: e.target.value })} placeholder="Your name" />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-reason`}>Reason *</Label>
+        <Textarea
+          id={`${idPrefix}-reason`}
+          value={author.reason}
+          onChange={(e) => onChange({ ...author, reason: e.target.value })}
+          placeholder={reasonPlaceholder ?? "Why is this change needed?"}
+          rows={2}
+        />
+      </div>
+    </div>
+  );
+}
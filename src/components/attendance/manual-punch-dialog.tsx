@@ -0,0 +1,125 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { addLog } from "@/lib/app-logger";
+import { MANUAL_TRANSACTION_TYPES, TRANSACTION_TYPE_LABELS, addManualAttendanceTransaction, type TransactionType } from "@/lib/attendance-manager";
+import { ChangeAuthorFields, useChangeAuthor } from "@/components/attendance/change-author-fields";
+
+const DEFAULT_MANUAL_DEVICE_ID = "manual";
+
+interface ManualPunchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ManualPunchDialog({ isOpen, onClose }: ManualPunchDialogProps) {
+  const { toast } = useToast();
+  const { author, setAuthor, rememberActor, isComplete } = useChangeAuthor();
+  const [employeeId, setEmployeeId] = React.useState("");
+  const [transactionType, setTransactionType] = React.useState<TransactionType>("check-in");
+  const [transactionTime, setTransactionTime] = React.useState("");
+  const [deviceId, setDeviceId] = React.useState(DEFAULT_MANUAL_DEVICE_ID);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setEmployeeId("");
+    setTransactionType("check-in");
+    setTransactionTime(format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+    setDeviceId(DEFAULT_MANUAL_DEVICE_ID);
+    setAuthor(current => ({ ...current, reason: "" }));
+  }, [isOpen, setAuthor]);
+
+  const canSave = employeeId.trim() !== "" && deviceId.trim() !== "" && transactionTime !== "" && isComplete && !isSaving;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const transaction = await addManualAttendanceTransaction({
+        employee_id: employeeId.trim(),
+        transaction_type: transactionType,
+        transaction_time: new Date(transactionTime).toISOString(),
+        device_id: deviceId.trim(),
+      }, author);
+      rememberActor();
+      toast({ title: "Manual Punch Added", description: `${TRANSACTION_TYPE_LABELS[transactionType]} for ${transaction.employee_id} is queued for the push.` });
+      addLog("AttendanceTransactionsPage", `Manual punch ${transaction.id} added for ${transaction.employee_id} by ${author.actor}: ${author.reason}`, "Info", {
+        context: { transactionId: transaction.id, transactionType, transactionTime: transaction.transaction_time },
+      });
+      onClose();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Could Not Add Punch", description: msg, variant: "destructive" });
+      addLog("AttendanceTransactionsPage", `Adding a manual punch failed: ${msg}`, "Error", { error });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Manual Punch</DialogTitle>
+          <DialogDescription>
+            For an employee who forgot to punch. The punch is queued for the Odoo push and recorded in its audit history.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-3 py-2">
+          <div className="space-y-1">
+            <Label htmlFor="manual-employee">Employee ID *</Label>
+            <Input id="manual-employee" value={employeeId} onChange={(e) => setEmployeeId(e.target.value)} placeholder="ID as used on the devices" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="manual-type">Type *</Label>
+              <Select value={transactionType} onValueChange={(value) => setTransactionType(value as TransactionType)}>
+                <SelectTrigger id="manual-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANUAL_TRANSACTION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{TRANSACTION_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="manual-device">Device ID *</Label>
+              <Input id="manual-device" value={deviceId} onChange={(e) => setDeviceId(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="manual-time">Time *</Label>
+            <Input id="manual-time" type="datetime-local" step={1} value={transactionTime} onChange={(e) => setTransactionTime(e.target.value)} />
+          </div>
+          <ChangeAuthorFields idPrefix="manual" author={author} onChange={setAuthor} reasonPlaceholder="e.g. Forgot to punch in, confirmed by the shift lead" />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!canSave}>{isSaving ? "Saving..." : "Add Punch"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
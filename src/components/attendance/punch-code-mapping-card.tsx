@@ -0,0 +1,207 @@
+"use client";
+
+import * as React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Binary, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { addLog } from "@/lib/app-logger";
+import { TRANSACTION_TYPE_LABELS, type TransactionType } from "@/lib/attendance-manager";
+import {
+  ALL_DEVICES,
+  PUNCH_CODE_TARGETS,
+  getPunchCodeOverview,
+  savePunchCodeMapping,
+  type PunchCodeOverview,
+  type PunchCodeTarget,
+} from "@/lib/punch-codes";
+
+interface PunchCodeMappingCardProps {
+  sourceType: string;
+  standardCodes: Record<string, TransactionType>; // The source's built-in codes, shown for reference
+  codeLabel: string; // What the source calls its codes, e.g. "punch state"
+  logSource: string;
+}
+
+const formatTarget = (target: PunchCodeTarget) => target === "ignore" ? "Ignore (not a punch)" : TRANSACTION_TYPE_LABELS[target];
+const formatDevice = (deviceId: string) => deviceId === ALL_DEVICES ? "All devices" : deviceId;
+
+/**
+ * Lists a source's punch-code mappings and the codes of its stored 'unknown' punches, and saves new ones.
+ */
+export function PunchCodeMappingCard({ sourceType, standardCodes, codeLabel, logSource }: PunchCodeMappingCardProps) {
+  const { toast } = useToast();
+  const [overview, setOverview] = React.useState<PunchCodeOverview | null>(null);
+  const [deviceId, setDeviceId] = React.useState(ALL_DEVICES);
+  const [punchCode, setPunchCode] = React.useState("");
+  const [target, setTarget] = React.useState<PunchCodeTarget>("check-in");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const loadOverview = React.useCallback(async () => {
+    try {
+      setOverview(await getPunchCodeOverview(sourceType));
+    } catch (error) {
+      addLog(logSource, `Could not load punch-code mappings: ${error instanceof Error ? error.message : String(error)}`, "Error", { error });
+    }
+  }, [sourceType, logSource]);
+
+  React.useEffect(() => {
+    loadOverview();
+    const handleUpdate = () => { loadOverview(); };
+    window.addEventListener("attendanceTransactionsUpdated", handleUpdate);
+    return () => window.removeEventListener("attendanceTransactionsUpdated", handleUpdate);
+  }, [loadOverview]);
+
+  const handleSave = async (mappingDeviceId: string, code: string, mappingTarget: PunchCodeTarget | null) => {
+    setIsSaving(true);
+    try {
+      const { retyped } = await savePunchCodeMapping(sourceType, mappingDeviceId, code, mappingTarget);
+      const description = mappingTarget === null
+        ? `Code ${code} on ${formatDevice(mappingDeviceId)} uses the standard mapping again.`
+        : `Code ${code} on ${formatDevice(mappingDeviceId)} now maps to ${formatTarget(mappingTarget)}.${retyped > 0 ? ` ${retyped} stored punches re-typed.` : ""}`;
+      toast({ title: mappingTarget === null ? "Mapping Removed" : "Mapping Saved", description });
+      addLog(logSource, description, "Info", { context: { sourceType, deviceId: mappingDeviceId, punchCode: code, target: mappingTarget, retyped } });
+      if (mappingTarget !== null) setPunchCode("");
+      await loadOverview();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Mapping Not Saved", description: msg, variant: "destructive" });
+      addLog(logSource, `Saving punch-code mapping for code ${code} failed: ${msg}`, "Error", { error });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg rounded-lg">
+      <CardHeader className="border-b">
+        <div className="flex items-center gap-3">
+          <Binary className="h-8 w-8 text-primary" />
+          <CardTitle className="font-headline text-2xl">Punch Codes</CardTitle>
+        </div>
+        <CardDescription>
+          Maps the {codeLabel} of each punch to a punch type. A mapping for one device takes precedence over one for all devices,
+          which takes precedence over the standard codes. Punches with a code nothing maps are stored as Unknown.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        <div className="flex flex-wrap gap-2 text-xs">
+          <span className="text-muted-foreground">Standard codes:</span>
+          {Object.entries(standardCodes).map(([code, type]) => (
+            <Badge key={code} variant="outline">{code} = {TRANSACTION_TYPE_LABELS[type]}</Badge>
+          ))}
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-[1fr_8rem_1fr_auto] items-end">
+          <div className="space-y-1">
+            <Label htmlFor={`${sourceType}-code-device`}>Device</Label>
+            <Input id={`${sourceType}-code-device`} value={deviceId} onChange={(e) => setDeviceId(e.target.value)} placeholder={`${ALL_DEVICES} for all devices`} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${sourceType}-code-value`}>Code</Label>
+            <Input id={`${sourceType}-code-value`} value={punchCode} onChange={(e) => setPunchCode(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${sourceType}-code-target`}>Punch Type</Label>
+            <Select value={target} onValueChange={(value) => setTarget(value as PunchCodeTarget)}>
+              <SelectTrigger id={`${sourceType}-code-target`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PUNCH_CODE_TARGETS.map(option => (
+                  <SelectItem key={option} value={option}>{formatTarget(option)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => handleSave(deviceId.trim(), punchCode.trim(), target)} disabled={isSaving || !deviceId.trim() || !punchCode.trim()}>
+            <Save className="mr-2 h-4 w-4" /> Save
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="font-semibold text-sm">Saved Mappings</h3>
+          {overview && overview.mappings.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Device</TableHead>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Punch Type</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overview.mappings.map((mapping) => (
+                  <TableRow key={`${mapping.device_id}|${mapping.punch_code}`}>
+                    <TableCell>{formatDevice(mapping.device_id)}</TableCell>
+                    <TableCell className="font-mono">{mapping.punch_code}</TableCell>
+                    <TableCell>{formatTarget(mapping.transaction_type)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Remove mapping" disabled={isSaving} onClick={() => handleSave(mapping.device_id, mapping.punch_code, null)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No mappings saved; the standard codes apply.</p>
+          )}
+        </div>
+
+        {overview && overview.unknownCodes.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold text-sm">Unknown Codes Received</h3>
+            <p className="text-xs text-muted-foreground">
+              Mapping a code re-types the stored punches that haven&apos;t reached Odoo yet; those the push skipped go back to the queue.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Device</TableHead>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Punches</TableHead>
+                  <TableHead className="w-[80px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overview.unknownCodes.map((unknown) => (
+                  <TableRow key={`${unknown.device_id}|${unknown.punch_code}`}>
+                    <TableCell>{unknown.device_id}</TableCell>
+                    <TableCell className="font-mono">{unknown.punch_code}</TableCell>
+                    <TableCell>{unknown.count}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => { setDeviceId(unknown.device_id); setPunchCode(unknown.punch_code); }}>
+                        Map
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
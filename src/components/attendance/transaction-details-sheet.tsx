@@ -0,0 +1,266 @@
+"use client";
+
+import * as React from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { addLog } from "@/lib/app-logger";
+import {
+  MANUAL_TRANSACTION_TYPES,
+  TRANSACTION_TYPE_LABELS,
+  UPLOAD_STATUS_LABELS,
+  correctAttendanceTransaction,
+  getAttendanceTransactionHistory,
+  voidAttendanceTransaction,
+  type AttendanceAuditEntry,
+  type AttendanceTransaction,
+  type TransactionType,
+} from "@/lib/attendance-manager";
+import { ChangeAuthorFields, useChangeAuthor } from "@/components/attendance/change-author-fields";
+import { deviceKey, type Device } from "@/lib/devices";
+import { Ban, Save } from "lucide-react";
+
+interface TransactionDetailsSheetProps {
+  transactionId: string | null;
+  deviceLookup?: Map<string, Device>; // Registered devices, see buildDeviceLookup
+  onClose: () => void;
+}
+
+const AUDIT_ACTION_LABELS: Record<AttendanceAuditEntry["action"], string> = {
+  create: "Added manually",
+  update: "Corrected",
+  void: "Voided",
+};
+
+const formatType = (type: TransactionType | null) => type === null ? "-" : TRANSACTION_TYPE_LABELS[type];
+const formatTime = (time: string | null) => time ? format(new Date(time), "PPpp") : "-";
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="grid grid-cols-[9rem_1fr] gap-2 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="break-all">{children}</span>
+    </div>
+  );
+}
+
+/**
+ * Lists what an audit entry changed, e.g. "Type: Check-in → Check-out".
+ */
+function describeChanges(entry: AttendanceAuditEntry): string[] {
+  if (!entry.before) return [`${formatType(entry.after.transaction_type)} at ${formatTime(entry.after.transaction_time)} on ${entry.after.device_id}`];
+  const changes: string[] = [];
+  if (entry.before.transaction_type !== entry.after.transaction_type) {
+    changes.push(`Type: ${formatType(entry.before.transaction_type)} → ${formatType(entry.after.transaction_type)}`);
+  }
+  if (entry.before.transaction_time !== entry.after.transaction_time) {
+    changes.push(`Time: ${formatTime(entry.before.transaction_time)} → ${formatTime(entry.after.transaction_time)}`);
+  }
+  if (entry.before.status !== entry.after.status) {
+    changes.push(`Status: ${UPLOAD_STATUS_LABELS[entry.before.status]} → ${UPLOAD_STATUS_LABELS[entry.after.status]}`);
+  }
+  return changes;
+}
+
+export function TransactionDetailsSheet({ transactionId, deviceLookup, onClose }: TransactionDetailsSheetProps) {
+  const { toast } = useToast();
+  const { author, setAuthor, rememberActor, isComplete } = useChangeAuthor();
+  const [transaction, setTransaction] = React.useState<AttendanceTransaction | null>(null);
+  const [audit, setAudit] = React.useState<AttendanceAuditEntry[]>([]);
+  const [loadError, setLoadError] = React.useState<string | null>(null);
+  const [editType, setEditType] = React.useState<TransactionType>("check-in");
+  const [editTime, setEditTime] = React.useState("");
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const loadHistory = React.useCallback(async () => {
+    if (!transactionId) return;
+    try {
+      const history = await getAttendanceTransactionHistory(transactionId);
+      setTransaction(history.transaction);
+      setAudit(history.audit);
+      setEditType(history.transaction.transaction_type);
+      setEditTime(format(new Date(history.transaction.transaction_time), "yyyy-MM-dd'T'HH:mm:ss"));
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : String(error));
+    }
+  }, [transactionId]);
+
+  React.useEffect(() => {
+    setTransaction(null);
+    setAudit([]);
+    setAuthor(current => ({ ...current, reason: "" }));
+    loadHistory();
+    const handleUpdate = () => { loadHistory(); };
+    window.addEventListener("attendanceTransactionsUpdated", handleUpdate);
+    return () => window.removeEventListener("attendanceTransactionsUpdated", handleUpdate);
+  }, [loadHistory, setAuthor]);
+
+  const isEditable = transaction !== null && !transaction.voided_at && transaction.status !== "voided" && transaction.status !== "uploading";
+  const inOdoo = transaction?.status === "uploaded" || transaction?.status === "correction_pending";
+  const editedTime = editTime ? new Date(editTime).toISOString() : "";
+  const hasChanges = transaction !== null && editTime !== "" && (editType !== transaction.transaction_type || editedTime !== transaction.transaction_time);
+
+  const handleChange = async (action: "update" | "void") => {
+    if (!transaction) return;
+    setIsSaving(true);
+    try {
+      const updated = action === "void"
+        ? await voidAttendanceTransaction(transaction.id, author)
+        : await correctAttendanceTransaction(transaction.id, {
+            transaction_type: editType !== transaction.transaction_type ? editType : undefined,
+            transaction_time: editedTime !== transaction.transaction_time ? editedTime : undefined,
+          }, author);
+      rememberActor();
+      const odooNote = updated.status === "correction_pending" ? " The next push corrects Odoo." : "";
+      toast({ title: action === "void" ? "Transaction Voided" : "Transaction Corrected", description: `Transaction for ${updated.employee_id} saved.${odooNote}` });
+      addLog("AttendanceTransactionsPage", `Transaction ${updated.id} ${action === "void" ? "voided" : "corrected"} by ${author.actor}: ${author.reason}`, "Info", {
+        context: { transactionId: updated.id, status: updated.status, transactionType: updated.transaction_type, transactionTime: updated.transaction_time },
+      });
+      setAuthor(current => ({ ...current, reason: "" }));
+      await loadHistory();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Change Not Saved", description: msg, variant: "destructive" });
+      addLog("AttendanceTransactionsPage", `Changing transaction ${transaction.id} failed: ${msg}`, "Error", { error });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const original = audit.length > 0 ? audit[0].before ?? audit[0].after : null;
+  const registeredDevice = transaction ? deviceLookup?.get(deviceKey(transaction.source_type, transaction.device_id)) : undefined;
+
+  return (
+    <Sheet open={transactionId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Transaction Details</SheetTitle>
+          <SheetDescription>Correct or void this punch. Every change is kept in the history below.</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          {loadError && <p className="text-sm text-destructive py-4">{loadError}</p>}
+          {transaction && (
+            <div className="space-y-5 py-4">
+              <div className="space-y-2">
+                <DetailRow label="Employee ID">{transaction.employee_id}</DetailRow>
+                <DetailRow label="Type">{formatType(transaction.transaction_type)}</DetailRow>
+                {transaction.punch_code !== null && <DetailRow label="Punch Code">{transaction.punch_code}</DetailRow>}
+                <DetailRow label="Time">{formatTime(transaction.transaction_time)}</DetailRow>
+                <DetailRow label="Source">{transaction.source_type}</DetailRow>
+                <DetailRow label="Device ID">{transaction.device_id}</DetailRow>
+                {registeredDevice && (
+                  <DetailRow label="Device">{registeredDevice.name}{registeredDevice.location && ` (${registeredDevice.location})`}</DetailRow>
+                )}
+                <DetailRow label="Status"><Badge variant="outline">{UPLOAD_STATUS_LABELS[transaction.status]}</Badge></DetailRow>
+                {transaction.pushed_time && (
+                  <DetailRow label="In Odoo As">
+                    {formatType(transaction.pushed_type)} at {formatTime(transaction.pushed_time)}
+                    {transaction.odoo_attendance_id !== null && ` (hr.attendance ${transaction.odoo_attendance_id})`}
+                    {transaction.odoo_overtime_id !== null && ` (hr.attendance.overtime ${transaction.odoo_overtime_id})`}
+                  </DetailRow>
+                )}
+                {transaction.voided_at && <DetailRow label="Voided">{formatTime(transaction.voided_at)}</DetailRow>}
+                {transaction.last_error && <DetailRow label="Last Error"><span className="text-destructive">{transaction.last_error}</span></DetailRow>}
+              </div>
+
+              {isEditable && (
+                <>
+                  <Separator />
+                  <div className="space-y-3">
+                    <h3 className="font-semibold text-sm">Correct or Void</h3>
+                    {inOdoo && (
+                      <p className="text-xs text-muted-foreground">This punch is already in Odoo; the next push writes the correction there.</p>
+                    )}
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="correct-type">Type</Label>
+                        <Select value={editType} onValueChange={(value) => setEditType(value as TransactionType)}>
+                          <SelectTrigger id="correct-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {transaction.transaction_type === "unknown" && (
+                              <SelectItem value="unknown" disabled>{TRANSACTION_TYPE_LABELS.unknown}</SelectItem>
+                            )}
+                            {MANUAL_TRANSACTION_TYPES.map((type) => (
+                              <SelectItem key={type} value={type}>{TRANSACTION_TYPE_LABELS[type]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="correct-time">Time</Label>
+                        <Input id="correct-time" type="datetime-local" step={1} value={editTime} onChange={(e) => setEditTime(e.target.value)} />
+                      </div>
+                    </div>
+                    <ChangeAuthorFields idPrefix="correct" author={author} onChange={setAuthor} />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="destructive" size="sm" onClick={() => handleChange("void")} disabled={!isComplete || isSaving}>
+                        <Ban className="mr-2 h-4 w-4" /> Void
+                      </Button>
+                      <Button size="sm" onClick={() => handleChange("update")} disabled={!isComplete || !hasChanges || isSaving}>
+                        <Save className="mr-2 h-4 w-4" /> Save Correction
+                      </Button>
+                    </div>
+                  </div>
+                </>
+              )}
+
+              <Separator />
+              <div className="space-y-3">
+                <h3 className="font-semibold text-sm">History</h3>
+                {audit.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No manual changes. This is the record as received from {transaction.source_type}.</p>
+                ) : (
+                  <>
+                    {original && (
+                      <div className="rounded-md border p-3 space-y-1 bg-muted/40">
+                        <p className="text-xs font-medium text-muted-foreground">Original Record</p>
+                        <p className="text-sm">{formatType(original.transaction_type)} at {formatTime(original.transaction_time)}</p>
+                        <p className="text-xs text-muted-foreground">{original.source_type} / {original.device_id} / {UPLOAD_STATUS_LABELS[original.status]}</p>
+                      </div>
+                    )}
+                    <ol className="space-y-3">
+                      {audit.map((entry) => (
+                        <li key={entry.id} className="border-l-2 pl-3 space-y-1">
+                          <p className="text-sm">
+                            <span className="font-medium">{AUDIT_ACTION_LABELS[entry.action]}</span> by {entry.actor}
+                            <span className="text-xs text-muted-foreground"> · {formatTime(entry.created_at)}</span>
+                          </p>
+                          <p className="text-sm italic">&ldquo;{entry.reason}&rdquo;</p>
+                          {describeChanges(entry).map((change) => (
+                            <p key={change} className="text-xs text-muted-foreground">{change}</p>
+                          ))}
+                        </li>
+                      ))}
+                    </ol>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
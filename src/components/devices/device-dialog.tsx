@@ -0,0 +1,245 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { addLog } from "@/lib/app-logger";
+import { DEVICE_SOURCES, DEVICE_SOURCE_TYPES, SECRET_SETTING_FIELDS, saveDevice, type Device } from "@/lib/devices";
+import { DEFAULT_ZK_PORT, ZK_SOURCE_TYPE } from "@/lib/zkteco/time/api";
+import { BIOTIME_SOURCE_TYPE } from "@/lib/zkteco/biotime/api";
+import { SECURELINK_SOURCE_TYPE } from "@/lib/securelink/api";
+
+interface SettingField {
+  name: string;
+  label: string;
+  placeholder?: string;
+  defaultValue?: string;
+  options?: { value: string; label: string }[]; // Renders a select instead of a text input
+}
+
+// Connection settings each fetched source asks for; the server checks them with the source's parser.
+const SETTING_FIELDS: Record<string, SettingField[]> = {
+  [ZK_SOURCE_TYPE]: [
+    { name: "ip", label: "IP Address", placeholder: "e.g., 192.168.1.202" },
+    { name: "port", label: "Port", defaultValue: String(DEFAULT_ZK_PORT) },
+    { name: "protocol", label: "Protocol", defaultValue: "tcp", options: [{ value: "tcp", label: "TCP (newer firmware)" }, { value: "udp", label: "UDP (older firmware)" }] },
+    { name: "commKey", label: "Communication Key", defaultValue: "0", placeholder: "0 if not set" },
+  ],
+  [BIOTIME_SOURCE_TYPE]: [
+    { name: "baseUrl", label: "Server URL", placeholder: "e.g., http://biotime.local:8081" },
+    { name: "username", label: "Username" },
+    { name: "password", label: "Password" },
+    { name: "authMode", label: "Authentication", defaultValue: "jwt", options: [{ value: "jwt", label: "JWT (BioTime 8+)" }, { value: "token", label: "Token (older releases)" }] },
+  ],
+  [SECURELINK_SOURCE_TYPE]: [
+    { name: "filePath", label: "Database File Path", placeholder: "e.g., C:\\AAS\\AAS.mdb" },
+    { name: "password", label: "Database Password" },
+  ],
+};
+
+const FETCH_FREQUENCY_OPTIONS = [
+  { value: "5m", label: "Every 5 minutes" },
+  { value: "15m", label: "Every 15 minutes" },
+  { value: "30m", label: "Every 30 minutes" },
+  { value: "1h", label: "Every 1 hour" },
+  { value: "4h", label: "Every 4 hours" },
+];
+
+interface DeviceDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  device: Device | null; // The device to edit; null to register a new one
+  prefill?: { sourceType: string; deviceId: string }; // For registering a device seen on stored punches
+}
+
+const isSecret = (field: string) => SECRET_SETTING_FIELDS.includes(field);
+
+/**
+ * Registers a device or edits a registered one: name, location, device ID, schedule and connection settings.
+ */
+export function DeviceDialog({ isOpen, onClose, device, prefill }: DeviceDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = React.useState("");
+  const [location, setLocation] = React.useState("");
+  const [sourceType, setSourceType] = React.useState(ZK_SOURCE_TYPE);
+  const [deviceId, setDeviceId] = React.useState("");
+  const [enabled, setEnabled] = React.useState(true);
+  const [frequency, setFrequency] = React.useState("30m");
+  const [settings, setSettings] = React.useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    setName(device?.name ?? "");
+    setLocation(device?.location ?? "");
+    setSourceType(device?.sourceType ?? prefill?.sourceType ?? ZK_SOURCE_TYPE);
+    setDeviceId(device?.deviceId ?? prefill?.deviceId ?? "");
+    setEnabled(device?.enabled ?? true);
+    setFrequency(device?.frequency ?? "30m");
+    setSettings(Object.fromEntries(Object.entries(device?.settings ?? {}).map(([field, value]) => [field, String(value)])));
+  }, [isOpen, device, prefill]);
+
+  const source = DEVICE_SOURCES[sourceType];
+  const fields = SETTING_FIELDS[sourceType] ?? [];
+  const hasSavedSettings = device?.settings !== null && device?.settings !== undefined;
+  const settingValue = (field: SettingField) => settings[field.name] ?? (isSecret(field.name) ? "" : field.defaultValue ?? "");
+
+  // Settings are only sent once every non-secret field is filled; secrets left blank keep their saved values.
+  const buildConfig = (): Record<string, string> | undefined => {
+    if (!source.fetched) return undefined;
+    const config: Record<string, string> = {};
+    for (const field of fields) {
+      const value = settingValue(field).trim();
+      if (isSecret(field.name) && !value && hasSavedSettings) continue;
+      config[field.name] = value;
+    }
+    return fields.some(field => !isSecret(field.name) && !config[field.name]) ? undefined : config;
+  };
+
+  const canSave = name.trim() !== "" && (!source.deviceIdRequired || deviceId.trim() !== "") && !isSaving;
+
+  const handleSave = async () => {
+    const config = buildConfig();
+    setIsSaving(true);
+    try {
+      const saved = await saveDevice({
+        id: device?.id,
+        name: name.trim(),
+        location: location.trim(),
+        sourceType,
+        deviceId: deviceId.trim(),
+        enabled,
+        frequency,
+        config,
+      });
+      const note = source.fetched && !saved.settings ? " Add its connection settings to fetch it." : "";
+      toast({ title: device ? "Device Updated" : "Device Registered", description: `${saved.name} (${source.label}) is saved.${note}` });
+      addLog("DevicesPage", `${device ? "Updated" : "Registered"} device '${saved.name}' (${sourceType}${saved.deviceId ? ` ${saved.deviceId}` : ""}).`, "Info", {
+        context: { deviceId: saved.id, sourceType, deviceSerial: saved.deviceId, enabled, frequency, location: saved.location },
+      });
+      onClose();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      toast({ title: "Device Not Saved", description: msg, variant: "destructive" });
+      addLog("DevicesPage", `Saving device '${name.trim()}' failed: ${msg}`, "Error", { error });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{device ? `Edit ${device.name}` : "Register Device"}</DialogTitle>
+          <DialogDescription>
+            {source.fetched
+              ? "The server fetches the device on its own schedule and imports only punches newer than its watermark."
+              : "ADMS devices upload punches by themselves; the switch accepts or refuses their uploads, as approval on the ADMS page does."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-3 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="device-name">Name *</Label>
+              <Input id="device-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Main entrance" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="device-location">Location</Label>
+              <Input id="device-location" value={location} onChange={(e) => setLocation(e.target.value)} placeholder="e.g., Building B, ground floor" />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="device-source">Source *</Label>
+              <Select value={sourceType} onValueChange={setSourceType} disabled={device !== null}>
+                <SelectTrigger id="device-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEVICE_SOURCE_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{DEVICE_SOURCES[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="device-id">{source.deviceIdLabel}{source.deviceIdRequired ? " *" : ""}</Label>
+              <Input id="device-id" value={deviceId} onChange={(e) => setDeviceId(e.target.value)} placeholder={source.deviceIdRequired ? "" : "Learned on the first fetch"} />
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-3 rounded-md border p-3">
+            <Label htmlFor="device-enabled" className="font-medium">{source.fetched ? "Fetch automatically" : "Accept uploads"}</Label>
+            <Switch id="device-enabled" checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+          {source.fetched && (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="device-frequency">Fetch Frequency</Label>
+                <Select value={frequency} onValueChange={setFrequency}>
+                  <SelectTrigger id="device-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FETCH_FREQUENCY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-3 pt-2 border-t">
+                {fields.map(field => (
+                  <div key={field.name} className="space-y-1">
+                    <Label htmlFor={`device-setting-${field.name}`}>{field.label}</Label>
+                    {field.options ? (
+                      <Select value={settingValue(field)} onValueChange={(value) => setSettings(current => ({ ...current, [field.name]: value }))}>
+                        <SelectTrigger id={`device-setting-${field.name}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {field.options.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        id={`device-setting-${field.name}`}
+                        type={isSecret(field.name) ? "password" : "text"}
+                        value={settingValue(field)}
+                        onChange={(e) => setSettings(current => ({ ...current, [field.name]: e.target.value }))}
+                        placeholder={isSecret(field.name) && hasSavedSettings ? "Unchanged" : field.placeholder}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!canSave}>{isSaving ? "Saving..." : device ? "Save" : "Register"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
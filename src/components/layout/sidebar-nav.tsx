@@ -4,7 +4,7 @@
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import type { LucideIcon } from 'lucide-react';
-import { ScrollText, Fingerprint, Clock, Shield, Link2 as LinkIcon, Network, ClipboardList } from 'lucide-react';
+import { ScrollText, Fingerprint, Clock, Shield, Link2 as LinkIcon, Network, ClipboardList, Users, RadioTower, TriangleAlert, HardDrive, LayoutDashboard } from 'lucide-react';
 import { SidebarMenu, SidebarMenuItem, SidebarMenuButton } from '@/components/ui/sidebar';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
@@ -18,10 +18,15 @@ interface NavItemConfig {
 }
 
 const navItems: NavItemConfig[] = [
+  { href: '/', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/logs', label: 'Logs', icon: ScrollText },
   { href: '/attendance-transactions', label: 'Attendance', icon: ClipboardList },
-  { href: '/zkteco-biotime', label: 'ZKTeco (ZKBiotime)', icon: Fingerprint, soon: true, disabled: true },
-  { href: '/zkteco-time', label: 'ZKTeco (ZKTime)', icon: Clock, soon: true, disabled: true },
+  { href: '/attendance-exceptions', label: 'Exceptions', icon: TriangleAlert },
+  { href: '/employee-mapping', label: 'Employee Mapping', icon: Users },
+  { href: '/devices', label: 'Devices', icon: HardDrive },
+  { href: '/zkteco-biotime', label: 'ZKTeco (ZKBiotime)', icon: Fingerprint },
+  { href: '/zkteco-time', label: 'ZKTeco (ZKTime)', icon: Clock },
+  { href: '/adms', label: 'ZKTeco (ADMS)', icon: RadioTower },
   { href: '/sentry', label: 'Sentry', icon: Shield, soon: true, disabled: true },
   { href: '/securelink', label: 'SecureLink', icon: LinkIcon },
   { href: '/uhh-connectivity', label: 'UHH Connectivity', icon: Network },
@@ -0,0 +1,60 @@
+"use client";
+
+import * as React from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+interface JsonTreeProps {
+  data: unknown;
+  name?: string; // Key or index under which the value sits in its parent
+  depth?: number;
+  defaultExpandDepth?: number; // Levels that start expanded
+}
+
+function isExpandable(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === "object" && value !== null && Object.keys(value).length > 0;
+}
+
+function formatValue(value: unknown): { text: string; className: string } {
+  if (value === null || value === undefined) return { text: String(value), className: "text-muted-foreground" };
+  if (typeof value === "string") return { text: JSON.stringify(value), className: "text-green-700 dark:text-green-400" };
+  if (typeof value === "number") return { text: String(value), className: "text-blue-700 dark:text-blue-400" };
+  if (typeof value === "boolean") return { text: String(value), className: "text-purple-700 dark:text-purple-400" };
+  if (Array.isArray(value)) return { text: "[]", className: "text-muted-foreground" };
+  if (typeof value === "object") return { text: "{}", className: "text-muted-foreground" };
+  return { text: String(value), className: "" };
+}
+
+/**
+ * Collapsible view of a JSON value: objects and arrays expand on click, leaves are colored by type.
+ */
+export function JsonTree({ data, name, depth = 0, defaultExpandDepth = 1 }: JsonTreeProps) {
+  const [expanded, setExpanded] = React.useState(depth < defaultExpandDepth);
+  const label = name !== undefined && <span className="text-foreground">{name}: </span>;
+
+  if (!isExpandable(data)) {
+    const { text, className } = formatValue(data);
+    return (
+      <div className="font-mono text-xs break-all pl-4">
+        {label}<span className={className}>{text}</span>
+      </div>
+    );
+  }
+
+  const entries: [string, unknown][] = Array.isArray(data) ? data.map((value, index) => [String(index), value]) : Object.entries(data);
+  const summary = Array.isArray(data) ? `Array(${data.length})` : `{${entries.length} ${entries.length === 1 ? "key" : "keys"}}`;
+  return (
+    <div className="font-mono text-xs">
+      <button type="button" onClick={() => setExpanded(!expanded)} className="flex items-center gap-1 text-left hover:underline">
+        {expanded ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+        <span>{label}<span className="text-muted-foreground">{summary}</span></span>
+      </button>
+      {expanded && (
+        <div className="ml-1.5 border-l pl-2">
+          {entries.map(([key, value]) => (
+            <JsonTree key={key} name={key} data={value} depth={depth + 1} defaultExpandDepth={defaultExpandDepth} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
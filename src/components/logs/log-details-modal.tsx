@@ -16,16 +16,18 @@ import { Input } from "@/components/ui/input";
 // import { Textarea } from "@/components/ui/textarea"; // Replaced with div/pre for scrollbar consistency
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
+import { JsonTree } from "@/components/logs/json-tree";
 import type { LogEntry } from "@/lib/app-logger";
-import { Copy } from "lucide-react";
+import { Copy, ListFilter } from "lucide-react";
 
 interface LogDetailsModalProps {
   log: LogEntry | null;
   isOpen: boolean;
   onClose: () => void;
+  onShowCorrelated?: (correlationId: string) => void; // Filters the log view down to the entry's run
 }
 
-export function LogDetailsModal({ log, isOpen, onClose }: LogDetailsModalProps) {
+export function LogDetailsModal({ log, isOpen, onClose, onShowCorrelated }: LogDetailsModalProps) {
   const { toast } = useToast();
 
   if (!log) {
@@ -90,6 +92,51 @@ export function LogDetailsModal({ log, isOpen, onClose }: LogDetailsModalProps)
               </div>
             </ScrollArea>
           </div>
+          {log.correlationId && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="correlation-id" className="text-right">
+                Correlation ID
+              </Label>
+              <div className="col-span-3 flex gap-2">
+                <Input id="correlation-id" value={log.correlationId} readOnly className="font-mono text-xs" />
+                {onShowCorrelated && (
+                  <Button variant="outline" size="sm" className="h-10 shrink-0" onClick={() => onShowCorrelated(log.correlationId!)}>
+                    <ListFilter className="mr-2 h-4 w-4" /> Show Run
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+          {log.context && (
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="text-right pt-2">Context</Label>
+              <ScrollArea className="col-span-3 max-h-64 rounded-md border">
+                <table className="w-full text-xs">
+                  <tbody>
+                    {Object.entries(log.context).map(([key, value]) => (
+                      <tr key={key} className="border-b last:border-0 align-top">
+                        <td className="p-2 font-medium whitespace-nowrap">{key}</td>
+                        <td className="p-2 w-full">
+                          {typeof value === "object" && value !== null
+                            ? <JsonTree data={value} defaultExpandDepth={0} />
+                            : <span className="font-mono break-all">{String(value)}</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </ScrollArea>
+            </div>
+          )}
+          {log.stack && (
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="text-right pt-2">Stack Trace</Label>
+              <details className="col-span-3 rounded-md border bg-muted/20 dark:bg-muted/50">
+                <summary className="cursor-pointer p-2 text-sm">{log.stack.split("\n")[0]}</summary>
+                <pre className="p-2 text-xs whitespace-pre-wrap break-all font-mono max-h-64 overflow-y-auto">{log.stack}</pre>
+              </details>
+            </div>
+          )}
         </div>
         <DialogFooter className="sm:justify-between">
            <Button variant="outline" onClick={handleCopyToClipboard}>
@@ -0,0 +1,82 @@
+"use client";
+
+import * as React from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { addLog } from "@/lib/app-logger";
+import { configureSchedulerJob, type SchedulerJob, type SchedulerRunStatus } from "@/lib/scheduler/api";
+
+const RUN_STATUS_CLASSES: Record<SchedulerRunStatus, string> = {
+  success: "bg-green-100 text-green-800 border border-green-300 dark:bg-green-700/30 dark:text-green-300 dark:border-green-600",
+  error: "bg-red-100 text-red-800 border border-red-300 dark:bg-red-700/30 dark:text-red-300 dark:border-red-600",
+  skipped: "bg-yellow-100 text-yellow-800 border border-yellow-300 dark:bg-yellow-700/30 dark:text-yellow-300 dark:border-yellow-600",
+};
+
+interface ScheduledJobStatusProps {
+  job: SchedulerJob | null;
+  logSource: string; // Source name used for the page's log entries
+}
+
+/**
+ * Shows a background job's last and next run, with a switch to turn automatic runs on or off.
+ */
+export function ScheduledJobStatus({ job, logSource }: ScheduledJobStatusProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  if (!job) {
+    return <p className="text-sm text-muted-foreground">Loading schedule...</p>;
+  }
+
+  const handleEnabledChange = async (enabled: boolean) => {
+    setIsSaving(true);
+    try {
+      await configureSchedulerJob(job.id, { enabled });
+      addLog(logSource, `Automatic ${job.label} ${enabled ? "enabled" : "disabled"} by user.`, "Info");
+      toast({ title: enabled ? "Schedule Enabled" : "Schedule Disabled", description: enabled ? `${job.label} now runs in the background.` : `${job.label} only runs when started by hand.` });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      addLog(logSource, `Error updating the ${job.label} schedule: ${msg}`, "Error");
+      toast({ title: "Update Failed", description: msg, variant: "destructive" });
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <Label htmlFor={`${job.id}-enabled`} className="font-medium">Run automatically</Label>
+          <p className="text-xs text-muted-foreground">
+            Runs on the server, even when no browser is open.{!job.configured && " Save working settings on this page first."}
+          </p>
+        </div>
+        <Switch id={`${job.id}-enabled`} checked={job.enabled} onCheckedChange={handleEnabledChange} disabled={isSaving} />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+        <div>
+          <span className="text-muted-foreground">Last run: </span>
+          {job.running ? (
+            <span className="inline-flex items-center gap-1"><Loader2 className="h-3 w-3 animate-spin" /> Running now</span>
+          ) : job.lastRunAt ? (
+            <>
+              <span title={format(new Date(job.lastRunAt), "PPpp")}>{formatDistanceToNow(new Date(job.lastRunAt), { addSuffix: true })}</span>{" "}
+              {job.lastStatus && <Badge variant="secondary" className={RUN_STATUS_CLASSES[job.lastStatus]}>{job.lastStatus}</Badge>}
+            </>
+          ) : (
+            "never"
+          )}
+        </div>
+        <div>
+          <span className="text-muted-foreground">Next run: </span>
+          {job.enabled && job.nextRunAt ? format(new Date(job.nextRunAt), "Pp") : "not scheduled"}
+        </div>
+      </div>
+      {job.lastMessage && !job.running && <p className="text-xs text-muted-foreground break-words">{job.lastMessage}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import * as React from "react";
+import { getSchedulerJobs, type SchedulerJob, type SchedulerJobId } from "@/lib/scheduler/api";
+
+const REFRESH_INTERVAL_MS = 15000;
+
+/**
+ * Loads a background job's status and keeps it fresh: polls while mounted and reloads
+ * whenever a page changes or runs a job ('schedulerJobsUpdated').
+ */
+export function useSchedulerJob(jobId: SchedulerJobId) {
+  const [job, setJob] = React.useState<SchedulerJob | null>(null);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const jobs = await getSchedulerJobs();
+      setJob(jobs.find(j => j.id === jobId) ?? null);
+    } catch (error) {
+      console.error(`useSchedulerJob: Error loading job '${jobId}':`, error);
+    }
+  }, [jobId]);
+
+  React.useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    window.addEventListener("schedulerJobsUpdated", refresh);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("schedulerJobsUpdated", refresh);
+    };
+  }, [refresh]);
+
+  return { job, refresh };
+}
@@ -0,0 +1,10 @@
+/**
+ * Next.js calls this once when a server process starts. The scheduler needs Node APIs
+ * (SQLite, sockets), so it is only started in the Node.js runtime.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('@/lib/server/scheduler');
+    startScheduler();
+  }
+}
@@ -1,112 +1,240 @@
-
-// Client-side logger utility using localStorage.
-// For production Electron apps with potentially large log volumes,
-// consider moving log storage to SQLite managed by the main process for better performance and reliability.
+// Application log shared by the pages and the server. Entries are stored server-side in SQLite
+// (see src/lib/server/log-store.ts), so background jobs write to the same log the Logs page shows.
+// `addLog` queues entries in the browser and sends them to /api/logs in small batches.
 
 export type LogEntryStatus = 'Success' | 'Error' | 'Info' | 'Debug';
 
+export const LOG_ENTRY_STATUSES: LogEntryStatus[] = ['Success', 'Error', 'Info', 'Debug'];
+
 export interface LogEntry {
   id: string; 
   timestamp: string; // ISO string format
   source: string;
   message: string;
   status: LogEntryStatus;
+  context?: Record<string, unknown>; // Structured details, shown as a tree in the log details
+  correlationId?: string; // Shared by every entry of one fetch or push run
+  stack?: string; // Stack trace of the error behind the entry
+}
+
+export interface LogOptions {
+  context?: Record<string, unknown>;
+  correlationId?: string;
+  error?: unknown; // Its stack trace is stored with the entry
+}
+
+export interface LogQuery {
+  source?: string;
+  status?: LogEntryStatus;
+  correlationId?: string;
+  search?: string; // Free text over message and context; see parseLogSearch
+  from?: string; // ISO timestamp; entries at or after it
+  to?: string; // ISO timestamp; entries at or before it
+  limit?: number; // All matching entries when omitted
+  offset?: number;
+}
+
+// Days each status is kept before the background retention job deletes it; null keeps it forever.
+export type LogRetentionDays = Record<LogEntryStatus, number | null>;
+
+export const DEFAULT_LOG_RETENTION_DAYS: LogRetentionDays = {
+  Error: 90,
+  Success: 30,
+  Info: 30,
+  Debug: 7,
+};
+
+export interface LogSearchTerm {
+  text: string;
+  exclude: boolean; // Entries containing the term are left out
+}
+
+export interface LogPage {
+  logs: LogEntry[]; // Newest first
+  total: number; // Matching entries before limit/offset
+  sources: string[]; // Every source in the log, for the source filter
 }
 
-const LOGS_STORAGE_KEY = 'app_dynamic_logs';
-const MAX_LOGS_IN_STORAGE = 1000; // Limit the number of logs stored in localStorage
+const LOGS_API_URL = '/api/logs';
+const LEGACY_LOGS_STORAGE_KEY = 'app_dynamic_logs'; // Logs kept in localStorage before the server store
+const FLUSH_DELAY_MS = 250;
+const MAX_PENDING_LOGS = 500; // Entries kept while the server can't be reached
+
+let pendingLogs: LogEntry[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let legacyLogsChecked = false;
+let unloadHandlerAdded = false;
+
+function generateId(): string {
+  return Date.now().toString() + Math.random().toString(36).substring(2, 7);
+}
 
 /**
- * Retrieves all log entries from localStorage.
- * @returns {LogEntry[]} An array of log entries, sorted newest first if previously saved that way.
+ * Splits a log search into terms. Words and "quoted phrases" must all appear (case-insensitive, anywhere
+ * in the message or context); a leading '-' excludes entries containing the word or phrase.
+ * e.g. `push "session expired" -debug`
  */
-export function getLogs(): LogEntry[] {
-  if (typeof window === 'undefined') return []; 
-  try {
-    const storedLogs = localStorage.getItem(LOGS_STORAGE_KEY);
-    return storedLogs ? JSON.parse(storedLogs) : [];
-  } catch (error) {
-    console.error("AppLogger: Error reading logs from localStorage:", error);
-    return [];
+export function parseLogSearch(search: string): LogSearchTerm[] {
+  const terms: LogSearchTerm[] = [];
+  for (const match of search.matchAll(/(-?)"([^"]*)"?|(-?)(\S+)/g)) {
+    const exclude = (match[1] || match[3]) === '-';
+    const text = (match[2] ?? match[4]).trim();
+    if (text) terms.push({ text, exclude });
   }
+  return terms;
 }
 
 /**
- * Adds a new log entry to localStorage.
- * Dispatches a 'logsUpdated' custom event on the window object after adding a log.
- * @param {string} source - The source of the log entry (e.g., component name, module).
- * @param {string} message - The log message.
- * @param {LogEntryStatus} status - The status of the log entry.
+ * @returns {string} A new ID to pass as `correlationId` to every log entry of one run.
  */
-export function addLog(source: string, message: string, status: LogEntryStatus): void {
-  if (typeof window === 'undefined') return; 
-  
-  const newLog: LogEntry = {
-    // Generate a reasonably unique ID
-    id: Date.now().toString() + Math.random().toString(36).substring(2,7), 
+export function newCorrelationId(): string {
+  return `run-${generateId()}`;
+}
+
+/**
+ * Builds a log entry. Used by `addLog` and by the server store, so both create entries the same way.
+ */
+export function createLogEntry(source: string, message: string, status: LogEntryStatus, options: LogOptions = {}): LogEntry {
+  const entry: LogEntry = {
+    id: generateId(),
     timestamp: new Date().toISOString(),
     source,
     message,
     status,
   };
+  if (options.context && Object.keys(options.context).length > 0) entry.context = options.context;
+  if (options.correlationId) entry.correlationId = options.correlationId;
+  if (options.error instanceof Error && options.error.stack) entry.stack = options.error.stack;
+  return entry;
+}
 
+/**
+ * Checks that a value received from outside (an API request or an imported file) is a well-formed log entry.
+ * @returns An error message, or null when the entry is valid.
+ */
+export function validateLogEntry(value: unknown, index: number): string | null {
+  if (!value || typeof value !== 'object') return `Log entry ${index} is not an object.`;
+  const entry = value as Record<string, unknown>;
+  for (const field of ['id', 'source'] as const) {
+    if (typeof entry[field] !== 'string' || entry[field] === '') return `Log entry ${index} is missing '${field}'.`;
+  }
+  if (typeof entry.message !== 'string') return `Log entry ${index} has no message.`;
+  if (typeof entry.timestamp !== 'string' || isNaN(new Date(entry.timestamp).getTime())) {
+    return `Log entry ${index} has an invalid timestamp '${entry.timestamp}'.`;
+  }
+  if (!LOG_ENTRY_STATUSES.includes(entry.status as LogEntryStatus)) return `Log entry ${index} has an invalid status '${entry.status}'.`;
+  if (entry.context !== undefined && (typeof entry.context !== 'object' || entry.context === null || Array.isArray(entry.context))) {
+    return `Log entry ${index} has a context that is not an object.`;
+  }
+  for (const field of ['correlationId', 'stack'] as const) {
+    if (entry[field] !== undefined && typeof entry[field] !== 'string') return `Log entry ${index} has an invalid '${field}'.`;
+  }
+  return null;
+}
+
+/**
+ * Entries logged in the browser before logs moved to the server; sent along with the first flush.
+ */
+function takeLegacyLogs(): LogEntry[] {
+  if (legacyLogsChecked) return [];
+  legacyLogsChecked = true;
   try {
-    const currentLogs = getLogs();
-    // Add new log to the beginning (newest first) and apply storage limit.
-    const updatedLogs = [newLog, ...currentLogs].slice(0, MAX_LOGS_IN_STORAGE); 
+    const stored = localStorage.getItem(LEGACY_LOGS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function flushLogs(): Promise<void> {
+  flushTimer = null;
+  const legacyLogs = takeLegacyLogs();
+  const batch = [...legacyLogs, ...pendingLogs];
+  pendingLogs = [];
+  if (batch.length === 0) return;
 
-    localStorage.setItem(LOGS_STORAGE_KEY, JSON.stringify(updatedLogs));
+  try {
+    const response = await fetch(LOGS_API_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ logs: batch }),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    if (legacyLogs.length > 0) localStorage.removeItem(LEGACY_LOGS_STORAGE_KEY);
     // Notify other parts of the app that logs have been updated.
     window.dispatchEvent(new CustomEvent('logsUpdated'));
   } catch (error) {
-    console.error("AppLogger: Error writing log to localStorage:", error);
-    // In a production app, you might dispatch an error to a more robust error handling system.
+    console.error("AppLogger: Error sending logs to the server:", error);
+    if (legacyLogs.length > 0) legacyLogsChecked = false;
+    pendingLogs = [...batch.slice(legacyLogs.length), ...pendingLogs].slice(-MAX_PENDING_LOGS);
   }
 }
 
 /**
- * Clears all log entries from localStorage.
- * Dispatches a 'logsUpdated' custom event on the window object after clearing logs.
+ * Adds a new log entry. Entries are sent to the server shortly afterwards, in batches;
+ * a 'logsUpdated' custom event is dispatched on the window object once they are stored.
+ * @param {string} source - The source of the log entry (e.g., component name, module).
+ * @param {string} message - The log message.
+ * @param {LogEntryStatus} status - The status of the log entry.
+ * @param {LogOptions} options - Structured context, the run's correlation ID and the error behind the entry.
  */
-export function clearLogs(): void {
+export function addLog(source: string, message: string, status: LogEntryStatus, options?: LogOptions): void {
   if (typeof window === 'undefined') return; 
+
+  pendingLogs.push(createLogEntry(source, message, status, options));
+  if (!flushTimer) flushTimer = setTimeout(flushLogs, FLUSH_DELAY_MS);
+
+  if (!unloadHandlerAdded) {
+    unloadHandlerAdded = true;
+    // Entries still queued when the window closes or reloads are handed to the browser to deliver.
+    window.addEventListener('pagehide', () => {
+      if (pendingLogs.length === 0) return;
+      navigator.sendBeacon(LOGS_API_URL, new Blob([JSON.stringify({ logs: pendingLogs })], { type: 'application/json' }));
+      pendingLogs = [];
+    });
+  }
+}
+
+/**
+ * Retrieves log entries from the server store.
+ * @param {LogQuery} query - Optional source, status, correlation ID, text search and date range filters, with paging.
+ * @returns {Promise<LogPage>} The matching entries, newest first.
+ */
+export async function getLogs(query: LogQuery = {}): Promise<LogPage> {
+  if (typeof window === 'undefined') return { logs: [], total: 0, sources: [] };
+  const params = new URLSearchParams();
+  if (query.source) params.set('source', query.source);
+  if (query.status) params.set('status', query.status);
+  if (query.correlationId) params.set('correlationId', query.correlationId);
+  if (query.search) params.set('search', query.search);
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.limit) params.set('limit', String(query.limit));
+  if (query.offset) params.set('offset', String(query.offset));
+
   try {
-    localStorage.removeItem(LOGS_STORAGE_KEY);
-    window.dispatchEvent(new CustomEvent('logsUpdated'));
+    const response = await fetch(`${LOGS_API_URL}?${params.toString()}`, { cache: 'no-store' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await response.json();
   } catch (error) {
-    console.error("AppLogger: Error clearing logs from localStorage:", error);
+    console.error("AppLogger: Error reading logs from the server:", error);
+    return { logs: [], total: 0, sources: [] };
   }
 }
 
 /**
- * Placeholder for applying log retention policy.
- * In a production Electron application, this logic should reside in the main process
- * and operate on a more robust storage system like SQLite.
- * It's called from the LogsPage for now to log the action but doesn't perform actual deletion.
- * @param {string} retentionPeriodValue - The retention period (e.g., "7d", "30d", "never").
+ * Clears all log entries from the server store.
+ * Dispatches a 'logsUpdated' custom event on the window object after clearing logs.
+ * @throws {Error} If the server rejects the request, so callers can report the failure.
  */
-export function applyRetentionPolicy(retentionPeriodValue: string): void {
-  if (typeof window === 'undefined' || retentionPeriodValue === 'never') return;
-
-  // This is a SIMULATION and logs that this needs backend implementation.
-  // Actual deletion logic for localStorage would be complex and potentially slow.
-  console.warn(`AppLogger: Simulating log retention policy check. Period: ${retentionPeriodValue}. This needs a robust background process implementation (e.g., in Electron main process with SQLite).`);
-  
-  // TODO: [Electron Main Process] Implement actual log cleanup based on retention period,
-  // likely querying and deleting from an SQLite database.
-  // Example of how one might attempt client-side localStorage cleanup (not recommended for large logs):
-  // const now = new Date();
-  // const unit = retentionPeriodValue.slice(-1); // 'd'
-  // const amount = parseInt(retentionPeriodValue.slice(0, -1), 10); // e.g., 7
-  // if (unit === 'd' && !isNaN(amount)) {
-  //   const cutoffDate = new Date(now.setDate(now.getDate() - amount));
-  //   let currentLogs = getLogs();
-  //   const logsBefore = currentLogs.length;
-  //   const retainedLogs = currentLogs.filter(log => new Date(log.timestamp) >= cutoffDate);
-  //   if (retainedLogs.length < logsBefore) {
-  //      localStorage.setItem(LOGS_STORAGE_KEY, JSON.stringify(retainedLogs));
-  //      window.dispatchEvent(new CustomEvent('logsUpdated'));
-  //      console.log(`AppLogger (Simulated): Deleted ${logsBefore - retainedLogs.length} logs older than ${cutoffDate.toISOString()}`);
-  //   }
-  // }
+export async function clearLogs(): Promise<void> {
+  if (typeof window === 'undefined') return; 
+  try {
+    const response = await fetch(LOGS_API_URL, { method: 'DELETE' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    window.dispatchEvent(new CustomEvent('logsUpdated'));
+  } catch (error) {
+    console.error("AppLogger: Error clearing logs on the server:", error);
+    throw error;
+  }
 }
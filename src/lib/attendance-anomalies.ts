@@ -0,0 +1,242 @@
+// Exception rules over the punch sequence of each employee. The rules engine below is shared by the
+// server, which flags transactions before the push and on demand (see src/lib/server/anomaly-store.ts),
+// and the Exceptions page, which lists the flags and lets a supervisor resolve them.
+
+import { toZonedParts } from '@/lib/time-zones';
+import { TRANSACTION_TYPE_DIRECTIONS, TRANSACTION_TYPE_LABELS } from '@/lib/attendance-manager';
+import type { AttendanceChangeAuthor, AttendanceTransaction, TransactionType } from '@/lib/attendance-manager';
+
+export type AnomalyRule = 'repeated_check_in' | 'check_out_without_check_in' | 'shift_too_long' | 'double_tap' | 'outside_usual_hours';
+
+// 'dismissed': accepted as is by a supervisor. 'cleared': no longer detected, e.g. after a correction.
+export type AnomalyResolution = 'dismissed' | 'cleared';
+
+export interface AnomalySettings {
+  enabledRules: AnomalyRule[];
+  maxShiftHours: number;
+  doubleTapSeconds: number;
+  usualHoursToleranceMinutes: number; // Margin around the employee's usual punch times
+  usualHoursMinPunches: number; // Punches of a type needed before usual hours are judged
+  historyDays: number; // Punches before the checked ones that the rules look at
+  timeZone: string; // IANA name; usual hours and messages use its wall-clock time
+  holdFlagged: boolean; // Keep transactions with an open exception out of the push
+}
+
+export interface DetectedAnomaly {
+  transaction_id: string;
+  employee_id: string;
+  rule: AnomalyRule;
+  message: string;
+  related_transaction_id: string | null; // The punch the flagged one conflicts with, if any
+}
+
+export interface AttendanceAnomaly extends DetectedAnomaly {
+  detected_at: string;
+  resolved_at: string | null;
+  resolution: AnomalyResolution | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+  transaction: AttendanceTransaction;
+}
+
+export interface AnomalyOverview {
+  anomalies: AttendanceAnomaly[];
+  settings: AnomalySettings;
+}
+
+export interface AnomalyScanResult {
+  scanned: number;
+  flagged: number; // Scanned transactions with an open exception
+  held: number; // Newly held back from the push
+  released: number; // Returned to the push queue
+}
+
+export const ANOMALY_RULES: { value: AnomalyRule; label: string; description: string }[] = [
+  { value: 'repeated_check_in', label: 'Repeated check-in', description: 'A check-in (or break-in, overtime-in) follows another with no punch out between them.' },
+  { value: 'check_out_without_check_in', label: 'Check-out without check-in', description: 'A check-out (or break-out, overtime-out) has no open punch in before it, including a second punch out in a row.' },
+  { value: 'shift_too_long', label: 'Shift too long', description: 'A punch out comes longer after the punch in before it than the maximum shift.' },
+  { value: 'double_tap', label: 'Double tap', description: 'A punch comes within a few seconds of the previous one.' },
+  { value: 'outside_usual_hours', label: 'Outside usual hours', description: "A punch falls outside the times the employee usually punches that type." },
+];
+
+export const ANOMALY_RULE_LABELS = Object.fromEntries(ANOMALY_RULES.map(rule => [rule.value, rule.label])) as Record<AnomalyRule, string>;
+
+export const DEFAULT_ANOMALY_SETTINGS: AnomalySettings = {
+  enabledRules: ANOMALY_RULES.map(rule => rule.value),
+  maxShiftHours: 16,
+  doubleTapSeconds: 60,
+  usualHoursToleranceMinutes: 90,
+  usualHoursMinPunches: 10,
+  historyDays: 28,
+  timeZone: 'UTC',
+  holdFlagged: false,
+};
+
+const MINUTES_PER_DAY = 1440;
+const USUAL_HOURS_PERCENTILE = 0.1; // The earliest and latest 10% of punches don't widen the usual window
+
+const ANOMALIES_API_URL = '/api/attendance-anomalies';
+
+interface UsualWindow {
+  start: number; // Minute of the day
+  length: number; // Minutes; the window may run past midnight
+}
+
+function minuteOfDay(isoTime: string, timeZone: string): number {
+  const [hours, minutes] = toZonedParts(isoTime, timeZone).time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatMinute(minute: number): string {
+  const normalized = ((minute % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(normalized / 60)).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Finds the times of day an employee usually punches. The largest gap between punch times is taken as
+ * the break in the day, so night shifts running past midnight get one window rather than two.
+ * @returns The window, or null with too few punches to judge or when punches spread over the whole day.
+ */
+function findUsualWindow(minutes: number[], settings: AnomalySettings): UsualWindow | null {
+  if (minutes.length < settings.usualHoursMinPunches) return null;
+  const sorted = [...minutes].sort((a, b) => a - b);
+
+  let gapEnd = 0;
+  let largestGap = sorted[0] + MINUTES_PER_DAY - sorted[sorted.length - 1];
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i] - sorted[i - 1] > largestGap) {
+      largestGap = sorted[i] - sorted[i - 1];
+      gapEnd = i;
+    }
+  }
+  const dayStart = sorted[gapEnd];
+  const offsets = sorted.map(minute => (minute - dayStart + MINUTES_PER_DAY) % MINUTES_PER_DAY).sort((a, b) => a - b);
+  const low = offsets[Math.floor((offsets.length - 1) * USUAL_HOURS_PERCENTILE)];
+  const high = offsets[Math.ceil((offsets.length - 1) * (1 - USUAL_HOURS_PERCENTILE))];
+
+  const length = high - low + 2 * settings.usualHoursToleranceMinutes;
+  if (length >= MINUTES_PER_DAY) return null;
+  return { start: (dayStart + low - settings.usualHoursToleranceMinutes + MINUTES_PER_DAY) % MINUTES_PER_DAY, length };
+}
+
+function isInWindow(minute: number, window: UsualWindow): boolean {
+  return (minute - window.start + MINUTES_PER_DAY) % MINUTES_PER_DAY <= window.length;
+}
+
+/**
+ * Runs the enabled rules over each employee's punches in time order. Voided and 'unknown' transactions are
+ * ignored; break and overtime punches count as punches in or out in the direction they go.
+ * Each punch is judged against the one before it, so pass the punches leading up to the ones of interest
+ * as well; they also make up the history that usual hours are learned from.
+ * @returns Every anomaly found, at most one sequence anomaly per punch.
+ */
+export function detectAnomalies(transactions: AttendanceTransaction[], settings: AnomalySettings): DetectedAnomaly[] {
+  const enabled = new Set(settings.enabledRules);
+  const byEmployee = new Map<string, AttendanceTransaction[]>();
+  for (const transaction of transactions) {
+    if (transaction.status === 'voided' || TRANSACTION_TYPE_DIRECTIONS[transaction.transaction_type] === null) continue;
+    const punches = byEmployee.get(transaction.employee_id) ?? [];
+    punches.push(transaction);
+    byEmployee.set(transaction.employee_id, punches);
+  }
+
+  const clock = (transaction: AttendanceTransaction) => {
+    const { date, time } = toZonedParts(transaction.transaction_time, settings.timeZone);
+    return `${date} ${time.slice(0, 5)}`;
+  };
+  const anomalies: DetectedAnomaly[] = [];
+
+  for (const [employeeId, punches] of byEmployee) {
+    punches.sort((a, b) => new Date(a.transaction_time).getTime() - new Date(b.transaction_time).getTime());
+    const flag = (punch: AttendanceTransaction, rule: AnomalyRule, message: string, related?: AttendanceTransaction) => {
+      if (enabled.has(rule)) anomalies.push({ transaction_id: punch.id, employee_id: employeeId, rule, message, related_transaction_id: related?.id ?? null });
+    };
+
+    const usualWindows = new Map<TransactionType, UsualWindow | null>();
+    if (enabled.has('outside_usual_hours')) {
+      for (const type of new Set(punches.map(p => p.transaction_type))) {
+        const minutes = punches.filter(p => p.transaction_type === type).map(p => minuteOfDay(p.transaction_time, settings.timeZone));
+        usualWindows.set(type, findUsualWindow(minutes, settings));
+      }
+    }
+
+    punches.forEach((punch, i) => {
+      const previous: AttendanceTransaction | undefined = punches[i - 1];
+      const gapMs = previous ? new Date(punch.transaction_time).getTime() - new Date(previous.transaction_time).getTime() : Infinity;
+      const typeLabel = TRANSACTION_TYPE_LABELS[punch.transaction_type];
+      const direction = TRANSACTION_TYPE_DIRECTIONS[punch.transaction_type];
+      const previousDirection = previous ? TRANSACTION_TYPE_DIRECTIONS[previous.transaction_type] : null;
+
+      if (previous && gapMs <= settings.doubleTapSeconds * 1000) {
+        flag(punch, 'double_tap', `${typeLabel} ${Math.round(gapMs / 1000)}s after the ${previous.transaction_type} at ${clock(previous)}.`, previous);
+      } else if (direction === 'in') {
+        if (previousDirection === 'in') {
+          flag(punch, 'repeated_check_in', `${typeLabel} with no punch out since the ${previous.transaction_type} at ${clock(previous)}.`, previous);
+        }
+      } else if (!previous) {
+        flag(punch, 'check_out_without_check_in', `${typeLabel} with no punch in during the ${settings.historyDays} days before it.`);
+      } else if (previousDirection === 'out') {
+        flag(punch, 'check_out_without_check_in', `${typeLabel} with no punch in since the ${previous.transaction_type} at ${clock(previous)}.`, previous);
+      } else if (gapMs > settings.maxShiftHours * 3600000) {
+        const hours = Math.round(gapMs / 360000) / 10;
+        flag(punch, 'shift_too_long', `Shift of ${hours}h since the ${previous.transaction_type} at ${clock(previous)}, longer than the ${settings.maxShiftHours}h maximum.`, previous);
+      }
+
+      const window = usualWindows.get(punch.transaction_type);
+      if (window) {
+        const minute = minuteOfDay(punch.transaction_time, settings.timeZone);
+        if (!isInWindow(minute, window)) {
+          flag(punch, 'outside_usual_hours', `${typeLabel} at ${formatMinute(minute)} is outside this employee's usual ${punch.transaction_type} hours (${formatMinute(window.start)}–${formatMinute(window.start + window.length)}).`);
+        }
+      }
+    });
+  }
+
+  return anomalies;
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { cache: 'no-store', ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+  return body as T;
+}
+
+/**
+ * Loads the exceptions and the rule settings.
+ * @param includeResolved - Also list dismissed and cleared exceptions.
+ */
+export async function getAnomalyOverview(includeResolved: boolean = false): Promise<AnomalyOverview> {
+  return requestJson<AnomalyOverview>(`${ANOMALIES_API_URL}${includeResolved ? '?resolved=1' : ''}`);
+}
+
+/**
+ * Saves the rule settings. Turning holding off releases every held transaction; turning it on holds
+ * the queued transactions that have an open exception.
+ */
+export async function saveAnomalySettings(settings: AnomalySettings): Promise<AnomalyScanResult> {
+  const result = await requestJson<AnomalyScanResult>(ANOMALIES_API_URL, { method: 'PUT', body: JSON.stringify(settings) });
+  window.dispatchEvent(new CustomEvent('attendanceTransactionsUpdated'));
+  return result;
+}
+
+/**
+ * Runs the rules over the transactions of the last `historyDays` days now.
+ */
+export async function scanAttendanceAnomalies(): Promise<AnomalyScanResult> {
+  const result = await requestJson<AnomalyScanResult>(ANOMALIES_API_URL, { method: 'POST', body: JSON.stringify({ action: 'scan' }) });
+  window.dispatchEvent(new CustomEvent('attendanceTransactionsUpdated'));
+  return result;
+}
+
+/**
+ * Accepts a flagged transaction as it is. Once none of its exceptions are open, a held transaction
+ * returns to the push queue.
+ */
+export async function dismissAttendanceAnomaly(transactionId: string, rule: AnomalyRule, author: AttendanceChangeAuthor): Promise<void> {
+  await requestJson(ANOMALIES_API_URL, {
+    method: 'POST',
+    body: JSON.stringify({ action: 'dismiss', transaction_id: transactionId, rule, ...author }),
+  });
+  window.dispatchEvent(new CustomEvent('attendanceTransactionsUpdated'));
+}
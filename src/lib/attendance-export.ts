@@ -0,0 +1,154 @@
+// Export of attendance transactions to CSV or XLSX. Times are written in a chosen time zone; the optional
+// daily summary gives each employee's first check-in, last check-out and worked hours per day.
+
+import { downloadFile, formatCsv, type CsvValue } from '@/lib/csv';
+import { buildXlsx, XLSX_MIME_TYPE } from '@/lib/xlsx-writer';
+import { toZonedParts } from '@/lib/time-zones';
+import { TRANSACTION_TYPE_DIRECTIONS, type AttendanceTransaction } from '@/lib/attendance-manager';
+
+export type AttendanceExportFormat = 'csv' | 'xlsx';
+
+export type AttendanceExportColumn =
+  | 'employee_id'
+  | 'transaction_time'
+  | 'transaction_type'
+  | 'source_type'
+  | 'device_id'
+  | 'punch_code'
+  | 'status'
+  | 'push_attempts'
+  | 'last_error'
+  | 'id'
+  | 'dedup_key';
+
+export interface AttendanceExportOptions {
+  format: AttendanceExportFormat;
+  columns: AttendanceExportColumn[]; // In output order
+  timeZone: string; // IANA name, e.g. 'Europe/Berlin'
+  includeDailySummary: boolean; // A second sheet in XLSX, a second file in CSV
+}
+
+export interface DailyAttendanceSummary {
+  employeeId: string;
+  date: string; // yyyy-MM-dd in the export time zone
+  firstIn: string | null; // HH:mm:ss
+  lastOut: string | null;
+  totalHours: number; // Sum of punch in -> punch out pairs, rounded to 2 decimals
+  punches: number;
+  unpairedPunches: number; // Punches in without a punch out and punches out without a punch in
+}
+
+export const ATTENDANCE_EXPORT_COLUMNS: { value: AttendanceExportColumn; label: string }[] = [
+  { value: 'employee_id', label: 'Employee ID' },
+  { value: 'transaction_time', label: 'Transaction Time' },
+  { value: 'transaction_type', label: 'Type' },
+  { value: 'source_type', label: 'Source' },
+  { value: 'device_id', label: 'Device ID' },
+  { value: 'punch_code', label: 'Punch Code' },
+  { value: 'status', label: 'Upload Status' },
+  { value: 'push_attempts', label: 'Failed Push Attempts' },
+  { value: 'last_error', label: 'Last Push Error' },
+  { value: 'id', label: 'Transaction ID' },
+  { value: 'dedup_key', label: 'Deduplication Key' },
+];
+
+export const DEFAULT_EXPORT_COLUMNS: AttendanceExportColumn[] = ['employee_id', 'transaction_time', 'transaction_type', 'device_id', 'status'];
+
+const SUMMARY_HEADER = ['Employee ID', 'Date', 'First In', 'Last Out', 'Total Hours', 'Punches', 'Unpaired Punches'];
+
+function columnValue(transaction: AttendanceTransaction, column: AttendanceExportColumn, timeZone: string): CsvValue {
+  if (column === 'transaction_time') {
+    const { date, time } = toZonedParts(transaction.transaction_time, timeZone);
+    return `${date} ${time}`;
+  }
+  return transaction[column];
+}
+
+/**
+ * Summarizes transactions per employee and calendar day in the given time zone. Within a day, each
+ * punch in is paired with the next punch out, so time on a break (break-out to break-in) is not counted;
+ * shifts that cross midnight therefore show as unpaired punches. 'Unknown' punches count as punches but
+ * are never paired. Voided transactions are left out.
+ * @returns One row per employee and day, sorted by employee, then date.
+ */
+export function buildDailySummary(transactions: AttendanceTransaction[], timeZone: string): DailyAttendanceSummary[] {
+  const groups = new Map<string, { employeeId: string; date: string; punches: AttendanceTransaction[] }>();
+  for (const transaction of transactions) {
+    if (transaction.status === 'voided') continue;
+    const { date } = toZonedParts(transaction.transaction_time, timeZone);
+    const key = `${transaction.employee_id}|${date}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { employeeId: transaction.employee_id, date, punches: [] };
+      groups.set(key, group);
+    }
+    group.punches.push(transaction);
+  }
+
+  const summaries: DailyAttendanceSummary[] = [];
+  for (const { employeeId, date, punches } of groups.values()) {
+    punches.sort((a, b) => new Date(a.transaction_time).getTime() - new Date(b.transaction_time).getTime());
+    let openCheckIn: number | null = null;
+    let workedMs = 0;
+    let unpairedPunches = 0;
+    for (const punch of punches) {
+      const time = new Date(punch.transaction_time).getTime();
+      const direction = TRANSACTION_TYPE_DIRECTIONS[punch.transaction_type];
+      if (direction === null) continue;
+      if (direction === 'in') {
+        if (openCheckIn !== null) unpairedPunches++;
+        openCheckIn = time;
+      } else if (openCheckIn !== null) {
+        workedMs += time - openCheckIn;
+        openCheckIn = null;
+      } else {
+        unpairedPunches++;
+      }
+    }
+    if (openCheckIn !== null) unpairedPunches++;
+
+    const checkIns = punches.filter(p => TRANSACTION_TYPE_DIRECTIONS[p.transaction_type] === 'in');
+    const checkOuts = punches.filter(p => TRANSACTION_TYPE_DIRECTIONS[p.transaction_type] === 'out');
+    summaries.push({
+      employeeId,
+      date,
+      firstIn: checkIns.length > 0 ? toZonedParts(checkIns[0].transaction_time, timeZone).time : null,
+      lastOut: checkOuts.length > 0 ? toZonedParts(checkOuts[checkOuts.length - 1].transaction_time, timeZone).time : null,
+      totalHours: Math.round(workedMs / 36000) / 100,
+      punches: punches.length,
+      unpairedPunches,
+    });
+  }
+  return summaries.sort((a, b) => a.employeeId.localeCompare(b.employeeId) || a.date.localeCompare(b.date));
+}
+
+/**
+ * Builds the export and offers it as a download: one XLSX workbook, or one CSV file per sheet.
+ * @returns {string[]} The names of the downloaded files.
+ */
+export function exportAttendanceTransactions(transactions: AttendanceTransaction[], options: AttendanceExportOptions): string[] {
+  const labels = new Map(ATTENDANCE_EXPORT_COLUMNS.map(column => [column.value, column.label]));
+  const transactionRows: CsvValue[][] = [
+    options.columns.map(column => labels.get(column) ?? column),
+    // Oldest first reads naturally in a spreadsheet.
+    ...[...transactions]
+      .sort((a, b) => new Date(a.transaction_time).getTime() - new Date(b.transaction_time).getTime())
+      .map(transaction => options.columns.map(column => columnValue(transaction, column, options.timeZone))),
+  ];
+  const summaryRows: CsvValue[][] = options.includeDailySummary
+    ? [SUMMARY_HEADER, ...buildDailySummary(transactions, options.timeZone).map(s => [s.employeeId, s.date, s.firstIn, s.lastOut, s.totalHours, s.punches, s.unpairedPunches])]
+    : [];
+
+  const baseName = `attendance-${new Date().toISOString().slice(0, 10)}`;
+  if (options.format === 'xlsx') {
+    const sheets = [{ name: 'Transactions', rows: transactionRows }];
+    if (options.includeDailySummary) sheets.push({ name: 'Daily Summary', rows: summaryRows });
+    downloadFile(buildXlsx(sheets), `${baseName}.xlsx`, XLSX_MIME_TYPE);
+    return [`${baseName}.xlsx`];
+  }
+
+  downloadFile(formatCsv(transactionRows), `${baseName}.csv`, 'text/csv');
+  if (!options.includeDailySummary) return [`${baseName}.csv`];
+  downloadFile(formatCsv(summaryRows), `${baseName}-daily-summary.csv`, 'text/csv');
+  return [`${baseName}.csv`, `${baseName}-daily-summary.csv`];
+}
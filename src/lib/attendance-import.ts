@@ -0,0 +1,208 @@
+// Import of attendance punches from CSV files, e.g. exports of legacy time clocks. The file is read in
+// the browser: columns are mapped to transaction fields, times are read in a chosen date format and
+// time zone, and every row is validated before anything is stored.
+
+import { parseCsv } from '@/lib/csv';
+import { zonedTimeToUtc } from '@/lib/time-zones';
+import type { NewAttendanceTransaction, TransactionType } from '@/lib/attendance-manager';
+
+export const CSV_IMPORT_SOURCE_TYPE = 'csv_import';
+
+export type ImportField = 'employee_id' | 'transaction_time' | 'transaction_type' | 'device_id';
+
+// Column index per field; null for a field that is not in the file.
+export type ImportColumnMapping = Record<ImportField, number | null>;
+
+export type ImportDateFormat = 'ymd' | 'dmy' | 'mdy' | 'unix';
+
+export interface ImportSettings {
+  mapping: ImportColumnMapping;
+  dateFormat: ImportDateFormat;
+  timeZone: string; // Times without a UTC offset are read in this zone
+  defaultDeviceId: string; // Used when no device_id column is mapped
+}
+
+export interface ImportFile {
+  header: string[]; // Column names, or 'Column 1', 'Column 2'... for files without a header row
+  rows: string[][];
+  firstRowNumber: number; // Row number of rows[0] in the file, for messages
+}
+
+export interface ImportPreviewRow {
+  rowNumber: number;
+  fields: string[];
+  transaction?: NewAttendanceTransaction; // Set when the row is valid
+  errors: string[];
+}
+
+export const IMPORT_FIELDS: { value: ImportField; label: string; required: boolean }[] = [
+  { value: 'employee_id', label: 'Employee ID', required: true },
+  { value: 'transaction_time', label: 'Transaction Time', required: true },
+  { value: 'transaction_type', label: 'Transaction Type', required: true },
+  { value: 'device_id', label: 'Device ID', required: false },
+];
+
+export const IMPORT_DATE_FORMATS: { value: ImportDateFormat; label: string; example: string }[] = [
+  { value: 'ymd', label: 'Year-Month-Day (ISO 8601)', example: '2024-05-31 08:15:00' },
+  { value: 'dmy', label: 'Day/Month/Year', example: '31/05/2024 08:15' },
+  { value: 'mdy', label: 'Month/Day/Year', example: '05/31/2024 8:15 AM' },
+  { value: 'unix', label: 'Unix timestamp', example: '1717143300' },
+];
+
+// Recognized after lower-casing and dropping everything but letters and digits. 0 to 5 are the
+// punch states of ZKTeco clocks.
+const TRANSACTION_TYPE_ALIASES: Record<string, TransactionType> = {
+  checkin: 'check-in', in: 'check-in', i: 'check-in', ci: 'check-in', cin: 'check-in', clockin: 'check-in', entry: 'check-in', '0': 'check-in',
+  checkout: 'check-out', out: 'check-out', o: 'check-out', co: 'check-out', cout: 'check-out', clockout: 'check-out', exit: 'check-out', '1': 'check-out',
+  breakout: 'break-out', breakstart: 'break-out', '2': 'break-out',
+  breakin: 'break-in', breakend: 'break-in', '3': 'break-in',
+  overtimein: 'overtime-in', otin: 'overtime-in', '4': 'overtime-in',
+  overtimeout: 'overtime-out', otout: 'overtime-out', '5': 'overtime-out',
+};
+
+// Header names that suggest a field, tried in this order so 'Punch Type' is not taken for the time.
+const FIELD_HEADER_PATTERNS: [ImportField, RegExp][] = [
+  ['employee_id', /^(emp|employee|user|badge|person|staff|pin|acno|enroll)/],
+  ['transaction_type', /(type|state|direction|inout|status)$/],
+  ['device_id', /(device|terminal|machine|serial|^sn$)/],
+  ['transaction_time', /(time|date|punch|stamp)/],
+];
+
+const DATE_TIME_PATTERN = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[ T]+|,\s*)(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,]\d+)?)?\s*([ap]\.?m\.?)?\s*(z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Reads a CSV import file. Without a header row the columns are numbered instead.
+ * @returns The columns and data rows, or why the file can't be used.
+ */
+export function readImportFile(text: string, hasHeader: boolean): { file?: ImportFile; error?: string } {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  if (rows.length === 0 || columnCount === 0) return { error: 'The file is empty.' };
+
+  const header = hasHeader
+    ? Array.from({ length: columnCount }, (_, i) => rows[0][i]?.trim() || `Column ${i + 1}`)
+    : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  if (dataRows.length === 0) return { error: 'The file has a header row but no data rows.' };
+  return { file: { header, rows: dataRows, firstRowNumber: hasHeader ? 2 : 1 } };
+}
+
+/**
+ * Suggests a column for each field from the header names.
+ */
+export function guessColumnMapping(header: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = { employee_id: null, transaction_time: null, transaction_type: null, device_id: null };
+  const names = header.map(name => name.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const taken = new Set<number>();
+  for (const [field, pattern] of FIELD_HEADER_PATTERNS) {
+    const index = names.findIndex((name, i) => !taken.has(i) && pattern.test(name));
+    if (index !== -1) {
+      mapping[field] = index;
+      taken.add(index);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Reads a transaction time. Times with a UTC offset or 'Z' keep it; others are wall-clock times in `timeZone`.
+ * @returns The instant, or null if the value doesn't match the format or is not a real date and time.
+ */
+export function parseImportTime(value: string, dateFormat: ImportDateFormat, timeZone: string): Date | null {
+  const text = value.trim();
+  if (dateFormat === 'unix') {
+    if (!/^\d{9,13}$/.test(text)) return null;
+    // 13 digits are milliseconds, fewer are seconds.
+    return new Date(text.length === 13 ? Number(text) : Number(text) * 1000);
+  }
+
+  const match = DATE_TIME_PATTERN.exec(text);
+  if (!match) return null;
+  const [, first, second, third, hourText, minuteText, secondText, meridiem, offset] = match;
+  const [yearText, month, day] = dateFormat === 'ymd' ? [first, Number(second), Number(third)]
+    : dateFormat === 'dmy' ? [third, Number(second), Number(first)]
+    : [third, Number(first), Number(second)];
+  if (yearText.length !== 2 && yearText.length !== 4) return null;
+  const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+
+  let hour = Number(hourText);
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem.toLowerCase().startsWith('p') ? 12 : 0);
+  }
+  const minute = Number(minuteText);
+  const seconds = secondText ? Number(secondText) : 0;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth || hour > 23 || minute > 59 || seconds > 59) return null;
+
+  if (!offset) return zonedTimeToUtc({ year, month, day, hour, minute, second: seconds }, timeZone);
+  const offsetMinutes = offset.toLowerCase() === 'z' ? 0
+    : (offset.startsWith('-') ? -1 : 1) * (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(-2)));
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, seconds) - offsetMinutes * 60000);
+}
+
+/**
+ * Reads a transaction type such as 'Check In', 'IN', 'C/Out', 'Break Out', 'OT-In' or a ZKTeco punch state.
+ * @returns The type, or null if the value is not recognized.
+ */
+export function parseImportTransactionType(value: string): TransactionType | null {
+  return TRANSACTION_TYPE_ALIASES[value.toLowerCase().replace(/[^a-z0-9]/g, '')] ?? null;
+}
+
+/**
+ * Picks the date format that reads the most of the sample values. Day/month order stays ambiguous while
+ * every day is 12 or less, so the user should confirm the suggestion.
+ */
+export function guessDateFormat(samples: string[], timeZone: string): ImportDateFormat {
+  let best: ImportDateFormat = 'ymd';
+  let bestCount = 0;
+  for (const { value } of IMPORT_DATE_FORMATS) {
+    const count = samples.filter(sample => parseImportTime(sample, value, timeZone) !== null).length;
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Turns the file rows into transactions with the given settings, collecting every problem per row.
+ * Imported transactions are queued for the push like punches read from a device.
+ */
+export function buildImportPreview(file: ImportFile, settings: ImportSettings): ImportPreviewRow[] {
+  const { mapping } = settings;
+  const field = (fields: string[], name: ImportField) => (mapping[name] === null ? '' : fields[mapping[name]!] ?? '').trim();
+
+  return file.rows.map((fields, i) => {
+    const errors: string[] = [];
+    const employeeId = field(fields, 'employee_id');
+    if (!employeeId) errors.push('Employee ID is empty.');
+
+    const timeText = field(fields, 'transaction_time');
+    const time = timeText ? parseImportTime(timeText, settings.dateFormat, settings.timeZone) : null;
+    if (!timeText) errors.push('Transaction time is empty.');
+    else if (!time) errors.push(`'${timeText}' is not a valid ${IMPORT_DATE_FORMATS.find(f => f.value === settings.dateFormat)?.label} time.`);
+
+    const typeText = field(fields, 'transaction_type');
+    const type = parseImportTransactionType(typeText);
+    if (!typeText) errors.push('Transaction type is empty.');
+    else if (!type) errors.push(`Unknown transaction type '${typeText}'.`);
+
+    const deviceId = mapping.device_id === null ? settings.defaultDeviceId.trim() : field(fields, 'device_id');
+    if (!deviceId) errors.push('Device ID is empty.');
+
+    const row: ImportPreviewRow = { rowNumber: file.firstRowNumber + i, fields, errors };
+    if (errors.length === 0) {
+      row.transaction = {
+        employee_id: employeeId,
+        transaction_type: type!,
+        transaction_time: time!.toISOString(),
+        source_type: CSV_IMPORT_SOURCE_TYPE,
+        device_id: deviceId,
+        status: 'not_uploaded',
+      };
+    }
+    return row;
+  });
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { buildDedupKey } from '@/lib/attendance-manager';
+
+describe('buildDedupKey', () => {
+  const punch = { source_type: 'zktime', device_id: 'CKJ1234', employee_id: '0042' };
+
+  it('joins source, device, employee and time in the order migration 5 backfills', () => {
+    expect(buildDedupKey(punch, '2024-05-01T08:30:00.000Z')).toBe('zktime|CKJ1234|0042|2024-05-01T08:30:00.000Z');
+  });
+
+  it('tells punches apart by every part of the key', () => {
+    const time = '2024-05-01T08:30:00.000Z';
+    const key = buildDedupKey(punch, time);
+    expect(buildDedupKey({ ...punch, source_type: 'biotime' }, time)).not.toBe(key);
+    expect(buildDedupKey({ ...punch, device_id: 'CKJ9999' }, time)).not.toBe(key);
+    expect(buildDedupKey({ ...punch, employee_id: '42' }, time)).not.toBe(key);
+    expect(buildDedupKey(punch, '2024-05-01T08:30:01.000Z')).not.toBe(key);
+  });
+
+  it('ignores the punch type, so a re-read punch with a remapped state is still a duplicate', () => {
+    expect(buildDedupKey({ ...punch, transaction_type: 'check-in' } as typeof punch, '2024-05-01T08:30:00.000Z'))
+      .toBe(buildDedupKey({ ...punch, transaction_type: 'break-out' } as typeof punch, '2024-05-01T08:30:00.000Z'));
+  });
+});
@@ -1,151 +1,424 @@
+// Client-side attendance transaction manager.
+// Transactions are persisted server-side in SQLite (see src/lib/server/attendance-store.ts);
+// this module talks to the /api/attendance-transactions routes and notifies the UI of changes.
 
-// Client-side attendance transaction manager using localStorage.
-// For production Electron apps with potentially large datasets,
-// consider moving transaction storage to SQLite managed by the main process for better performance and data integrity.
+// Break and overtime punches come from devices with those keypad states; 'unknown' is a punch code the
+// source's punch-code mapping has no entry for (see src/lib/punch-codes.ts).
+export type TransactionType = 'check-in' | 'check-out' | 'break-out' | 'break-in' | 'overtime-in' | 'overtime-out' | 'unknown';
+// Push lifecycle: 'not_uploaded' -> 'uploading' -> 'uploaded', or 'pending_retry' after a failed attempt
+// (retried with exponential backoff) and finally 'failed' once the attempts run out.
+// 'unmapped' transactions are held back from the push until their employee is mapped to Odoo;
+// 'skipped' ones were taken out of the push queue by hand.
+// 'correction_pending' transactions were changed or voided after reaching Odoo and wait for the push to
+// correct the Odoo record; 'voided' ones were withdrawn by a supervisor and are never pushed.
+// 'held' transactions have an open exception (see src/lib/attendance-anomalies.ts) and wait until it is resolved.
+export type UploadStatus = 'not_uploaded' | 'uploading' | 'uploaded' | 'pending_retry' | 'failed' | 'skipped' | 'unmapped' | 'correction_pending' | 'voided' | 'held';
 
-export type TransactionType = 'check-in' | 'check-out';
-export type UploadStatus = 'not_uploaded' | 'uploaded';
+export const TRANSACTION_TYPES: TransactionType[] = ['check-in', 'check-out', 'break-out', 'break-in', 'overtime-in', 'overtime-out', 'unknown'];
+// Types a punch can be entered or corrected to by hand; 'unknown' only comes from sources.
+export const MANUAL_TRANSACTION_TYPES: TransactionType[] = TRANSACTION_TYPES.filter(type => type !== 'unknown');
+export const UPLOAD_STATUSES: UploadStatus[] = ['not_uploaded', 'uploading', 'uploaded', 'pending_retry', 'failed', 'skipped', 'unmapped', 'correction_pending', 'voided', 'held'];
+
+export const UPLOAD_STATUS_LABELS: Record<UploadStatus, string> = {
+  not_uploaded: 'Not Uploaded',
+  uploading: 'Uploading',
+  uploaded: 'Uploaded',
+  pending_retry: 'Pending Retry',
+  failed: 'Failed',
+  skipped: 'Skipped',
+  unmapped: 'Unmapped',
+  correction_pending: 'Correction Pending',
+  voided: 'Voided',
+  held: 'Held (Exception)',
+};
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  'check-in': 'Check-in',
+  'check-out': 'Check-out',
+  'break-out': 'Break-out',
+  'break-in': 'Break-in',
+  'overtime-in': 'Overtime-in',
+  'overtime-out': 'Overtime-out',
+  unknown: 'Unknown',
+};
+
+// Whether a punch starts or ends time at work; null for 'unknown'.
+export const TRANSACTION_TYPE_DIRECTIONS: Record<TransactionType, 'in' | 'out' | null> = {
+  'check-in': 'in',
+  'check-out': 'out',
+  'break-out': 'out',
+  'break-in': 'in',
+  'overtime-in': 'in',
+  'overtime-out': 'out',
+  unknown: null,
+};
+
+// Source type of punches entered by hand on the Attendance page.
+export const MANUAL_SOURCE_TYPE = 'manual';
 
 export interface AttendanceTransaction {
-  id: string; 
+  id: string;
   employee_id: string;
   transaction_type: TransactionType;
   transaction_time: string; // ISO string format
-  source_type: string; 
-  device_id: string; 
-  status: UploadStatus; 
+  source_type: string;
+  device_id: string;
+  punch_code: string | null; // Raw state or record type reported by the source; null for manual and imported punches
+  status: UploadStatus;
+  // Natural key 'source_type|device_id|employee_id|transaction_time', unique across the store.
+  // Also sent to Odoo so a retried push can't create the same attendance twice.
+  dedup_key: string;
+  push_attempts: number; // Failed push attempts so far
+  last_error: string | null; // Error from the most recent failed push
+  next_attempt_at: string | null; // ISO time from which a 'pending_retry' or 'correction_pending' transaction is pushed again
+  odoo_attendance_id: number | null; // hr.attendance record written by the push, when known
+  odoo_overtime_id: number | null; // hr.attendance.overtime record written for an overtime-out punch
+  // Type and time as last written to Odoo; a correction brings Odoo from these to the current values.
+  pushed_type: TransactionType | null;
+  pushed_time: string | null;
+  voided_at: string | null;
 }
 
-const TRANSACTIONS_STORAGE_KEY = 'app_attendance_transactions';
-const MAX_TRANSACTIONS_IN_STORAGE = 5000; // Example limit for localStorage
+/**
+ * Shape accepted when creating transactions. `transaction_time` defaults to now if not provided.
+ */
+export type NewAttendanceTransaction = Pick<AttendanceTransaction, 'employee_id' | 'transaction_type' | 'source_type' | 'device_id' | 'status'> & {
+  transaction_time?: Date | string;
+  punch_code?: string | null;
+};
 
 /**
- * Retrieves all attendance transactions from localStorage.
- * @returns {AttendanceTransaction[]} An array of transactions, sorted newest first if saved that way.
+ * Result of storing a batch: `duplicates` counts entries whose natural key was already stored
+ * (or repeated within the batch) and were left out.
  */
-export function getAttendanceTransactions(): AttendanceTransaction[] {
-  if (typeof window === 'undefined') return [];
+export interface AttendanceInsertResult {
+  inserted: number;
+  duplicates: number;
+}
+
+/**
+ * A punch entered by hand, e.g. for an employee who forgot to punch.
+ */
+export interface ManualAttendanceTransaction {
+  employee_id: string;
+  transaction_type: TransactionType;
+  transaction_time: string; // ISO string format
+  device_id: string;
+}
+
+export interface AttendanceCorrection {
+  transaction_type?: TransactionType;
+  transaction_time?: string; // ISO string format
+}
+
+// Who made a manual change and why; stored with every audit entry.
+export interface AttendanceChangeAuthor {
+  actor: string;
+  reason: string;
+}
+
+export type AttendanceAuditAction = 'create' | 'update' | 'void';
+
+export interface AttendanceAuditEntry {
+  id: number;
+  transaction_id: string;
+  action: AttendanceAuditAction;
+  actor: string;
+  reason: string;
+  before: AttendanceTransaction | null; // The record as it was; null for 'create'
+  after: AttendanceTransaction;
+  created_at: string;
+}
+
+export interface AttendanceTransactionFilter {
+  status?: UploadStatus;
+  transactionType?: TransactionType;
+  employeeSearch?: string; // Part of the employee ID, case-insensitive
+  from?: string; // ISO timestamp; transactions at or after it
+  to?: string; // ISO timestamp; transactions at or before it
+  limit?: number; // At most MAX_TRANSACTIONS_PAGE_SIZE; the API caps omitted limits at it
+  offset?: number;
+  order?: 'asc' | 'desc';
+}
+
+export interface AttendanceTransactionPage {
+  transactions: AttendanceTransaction[];
+  total: number; // Matching transactions before limit/offset
+}
+
+export const MAX_TRANSACTIONS_PAGE_SIZE = 1000;
+
+// The status changes users may make by hand, keyed by the new status, with the statuses they apply to.
+// Everything else is left to the push, the correction workflow and the exception rules, which keep
+// pushed_type, push attempts and the audit trail in step.
+export const MANUAL_STATUS_CHANGES: Partial<Record<UploadStatus, UploadStatus[]>> = {
+  not_uploaded: ['pending_retry', 'failed', 'skipped'],
+  skipped: ['not_uploaded', 'pending_retry', 'failed', 'held'],
+};
+
+const TRANSACTIONS_API_URL = '/api/attendance-transactions';
+const CORRECTIONS_API_URL = '/api/attendance-transactions/corrections';
+
+/**
+ * Builds a transaction's natural key. Migration 5 backfills existing rows with the same expression,
+ * so keep the two in step.
+ * @param transactionTime - The normalized ISO timestamp that is stored.
+ */
+export function buildDedupKey(transaction: Pick<NewAttendanceTransaction, 'source_type' | 'device_id' | 'employee_id'>, transactionTime: string): string {
+  return [transaction.source_type, transaction.device_id, transaction.employee_id, transactionTime].join('|');
+}
+
+function notifyTransactionsUpdated(): void {
+  window.dispatchEvent(new CustomEvent('attendanceTransactionsUpdated'));
+}
+
+async function fetchAttendanceTransactions(filter: AttendanceTransactionFilter): Promise<AttendanceTransactionPage> {
+  const params = new URLSearchParams();
+  if (filter.status) params.set('status', filter.status);
+  if (filter.transactionType) params.set('type', filter.transactionType);
+  if (filter.employeeSearch) params.set('employee', filter.employeeSearch);
+  if (filter.from) params.set('from', filter.from);
+  if (filter.to) params.set('to', filter.to);
+  if (filter.limit) params.set('limit', String(filter.limit));
+  if (filter.offset) params.set('offset', String(filter.offset));
+  if (filter.order) params.set('order', filter.order);
+
+  const response = await fetch(`${TRANSACTIONS_API_URL}?${params.toString()}`, { cache: 'no-store' });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+  return { transactions: body.transactions ?? [], total: body.total ?? 0 };
+}
+
+/**
+ * Retrieves one page of attendance transactions from the server store.
+ * @param {AttendanceTransactionFilter} filter - Optional status, type, employee and date range filters, paging and sort order (newest first by default).
+ * @returns {Promise<AttendanceTransactionPage>} The matching transactions with their total count, or an empty page if the request fails.
+ */
+export async function getAttendanceTransactions(filter: AttendanceTransactionFilter = {}): Promise<AttendanceTransactionPage> {
+  if (typeof window === 'undefined') return { transactions: [], total: 0 };
   try {
-    const storedTransactions = localStorage.getItem(TRANSACTIONS_STORAGE_KEY);
-    return storedTransactions ? JSON.parse(storedTransactions) : [];
+    return await fetchAttendanceTransactions(filter);
   } catch (error) {
-    console.error("AttendanceManager: Error reading transactions from localStorage:", error);
-    return [];
+    console.error("AttendanceManager: Error reading transactions from server:", error);
+    return { transactions: [], total: 0 };
   }
 }
 
 /**
- * Adds a new attendance transaction.
- * @param {Omit<AttendanceTransaction, 'id' | 'transaction_time'> & { transaction_time?: Date }} transactionData - Data for the new transaction. `transaction_time` defaults to now if not provided.
+ * Retrieves every transaction matching a filter, one page at a time (e.g. for an export).
+ * @param filter - As for getAttendanceTransactions, without paging.
+ * @returns {Promise<AttendanceTransaction[]>} The matching transactions.
+ * @throws {Error} If a page could not be read, so that a partial list is never mistaken for the whole.
  */
-export function addAttendanceTransaction(transactionData: Omit<AttendanceTransaction, 'id' | 'transaction_time'> & { transaction_time?: Date }): void {
-  if (typeof window === 'undefined') return;
+export async function getAllAttendanceTransactions(filter: Omit<AttendanceTransactionFilter, 'limit' | 'offset'> = {}): Promise<AttendanceTransaction[]> {
+  const transactions: AttendanceTransaction[] = [];
+  for (;;) {
+    const page = await fetchAttendanceTransactions({ ...filter, limit: MAX_TRANSACTIONS_PAGE_SIZE, offset: transactions.length });
+    transactions.push(...page.transactions);
+    if (page.transactions.length < MAX_TRANSACTIONS_PAGE_SIZE || transactions.length >= page.total) return transactions;
+  }
+}
+
+const IMPORT_BATCH_SIZE = 500;
+
+async function postAttendanceTransactions(transactions: NewAttendanceTransaction[], importAsPushed: boolean = false): Promise<AttendanceInsertResult> {
+  const response = await fetch(TRANSACTIONS_API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      transactions: transactions.map(t => ({
+        ...t,
+        transaction_time: t.transaction_time instanceof Date ? t.transaction_time.toISOString() : t.transaction_time,
+      })),
+      importAsPushed,
+    }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+  return { inserted: body.inserted ?? 0, duplicates: body.duplicates ?? 0 };
+}
 
-  const newTransaction: AttendanceTransaction = {
-    id: Date.now().toString() + Math.random().toString(36).substring(2, 9),
-    ...transactionData,
-    transaction_time: (transactionData.transaction_time || new Date()).toISOString(),
-  };
+/**
+ * Adds attendance transactions in a single request. Transactions that are already stored are skipped.
+ * @param {NewAttendanceTransaction[]} transactions - The transactions to store, 'not_uploaded' unless `importAsPushed`.
+ * @param {boolean} importAsPushed - Allow 'uploaded' transactions, for punches Odoo already holds.
+ * @returns {Promise<AttendanceInsertResult>} Stored and duplicate counts; both 0 if the request fails.
+ */
+export async function addAttendanceTransactions(transactions: NewAttendanceTransaction[], importAsPushed: boolean = false): Promise<AttendanceInsertResult> {
+  if (typeof window === 'undefined' || transactions.length === 0) return { inserted: 0, duplicates: 0 };
 
   try {
-    const currentTransactions = getAttendanceTransactions();
-    // Add new transaction and re-sort by time descending before saving.
-    const updatedTransactions = [newTransaction, ...currentTransactions]
-      .sort((a, b) => new Date(b.transaction_time).getTime() - new Date(a.transaction_time).getTime())
-      .slice(0, MAX_TRANSACTIONS_IN_STORAGE); // Apply storage limit
-    
-    localStorage.setItem(TRANSACTIONS_STORAGE_KEY, JSON.stringify(updatedTransactions));
-    window.dispatchEvent(new CustomEvent('attendanceTransactionsUpdated'));
+    const result = await postAttendanceTransactions(transactions, importAsPushed);
+    notifyTransactionsUpdated();
+    return result;
   } catch (error) {
-    console.error("AttendanceManager: Error writing transaction to localStorage:", error);
+    console.error("AttendanceManager: Error writing transactions to server:", error);
+    return { inserted: 0, duplicates: 0 };
   }
 }
 
 /**
- * Updates the status of specified attendance transactions.
+ * Adds a large set of attendance transactions, such as a file import, in batches of IMPORT_BATCH_SIZE.
+ * Transactions that are already stored are skipped, so an interrupted import can simply be run again.
+ * @param {(done: number) => void} onProgress - Called with the number of transactions sent after each batch.
+ * @returns {Promise<AttendanceInsertResult>} Stored and duplicate counts over all batches.
+ * @throws {Error} If a batch is rejected; the batches before it stay stored.
+ */
+export async function importAttendanceTransactions(transactions: NewAttendanceTransaction[], onProgress?: (done: number) => void): Promise<AttendanceInsertResult> {
+  const total: AttendanceInsertResult = { inserted: 0, duplicates: 0 };
+  if (typeof window === 'undefined' || transactions.length === 0) return total;
+
+  try {
+    for (let start = 0; start < transactions.length; start += IMPORT_BATCH_SIZE) {
+      const { inserted, duplicates } = await postAttendanceTransactions(transactions.slice(start, start + IMPORT_BATCH_SIZE));
+      total.inserted += inserted;
+      total.duplicates += duplicates;
+      onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, transactions.length));
+    }
+    return total;
+  } catch (error) {
+    console.error("AttendanceManager: Error importing transactions:", error);
+    throw new Error(`${error instanceof Error ? error.message : String(error)} (${total.inserted} imported before the failure)`);
+  } finally {
+    if (total.inserted > 0) notifyTransactionsUpdated();
+  }
+}
+
+/**
+ * Adds a new attendance transaction.
+ * @param {NewAttendanceTransaction} transactionData - Data for the new transaction. `transaction_time` defaults to now if not provided.
+ */
+export async function addAttendanceTransaction(transactionData: NewAttendanceTransaction): Promise<void> {
+  await addAttendanceTransactions([transactionData]);
+}
+
+/**
+ * Updates the status of specified attendance transactions. Only the changes in MANUAL_STATUS_CHANGES are
+ * allowed; transactions in another status are left alone.
+ * Setting 'not_uploaded' requeues a transaction for the push and resets its failed attempts.
  * @param {string[]} transactionIds - Array of transaction IDs to update.
  * @param {UploadStatus} newStatus - The new status to set.
  */
-export function updateAttendanceTransactionStatus(transactionIds: string[], newStatus: UploadStatus): void {
+export async function updateAttendanceTransactionStatus(transactionIds: string[], newStatus: UploadStatus): Promise<void> {
   if (typeof window === 'undefined' || transactionIds.length === 0) return;
 
   try {
-    let currentTransactions = getAttendanceTransactions();
-    let updatedCount = 0;
-    currentTransactions = currentTransactions.map(transaction => {
-      if (transactionIds.includes(transaction.id)) {
-        updatedCount++;
-        return { ...transaction, status: newStatus };
-      }
-      return transaction;
+    const response = await fetch(`${TRANSACTIONS_API_URL}/status`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids: transactionIds, status: newStatus }),
     });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
 
-    if (updatedCount > 0) {
-      localStorage.setItem(TRANSACTIONS_STORAGE_KEY, JSON.stringify(currentTransactions));
-      window.dispatchEvent(new CustomEvent('attendanceTransactionsUpdated'));
-      console.log(`AttendanceManager: Updated status to '${newStatus}' for ${updatedCount} transactions.`);
+    if (body.updated > 0) {
+      notifyTransactionsUpdated();
+      console.log(`AttendanceManager: Updated status to '${newStatus}' for ${body.updated} transactions.`);
     } else {
       console.log(`AttendanceManager: No transactions found with IDs: ${transactionIds.join(', ')} to update status.`);
     }
   } catch (error) {
-    console.error("AttendanceManager: Error updating transaction statuses in localStorage:", error);
+    console.error("AttendanceManager: Error updating transaction statuses on server:", error);
   }
 }
 
+async function postCorrection(body: Record<string, unknown>): Promise<AttendanceTransaction> {
+  const response = await fetch(CORRECTIONS_API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+  notifyTransactionsUpdated();
+  return result.transaction;
+}
+
+/**
+ * Adds a punch entered by hand. It is queued for the push like a device punch.
+ * @returns {Promise<AttendanceTransaction>} The stored transaction.
+ * @throws {Error} If the server rejects it, e.g. because an identical punch is already stored.
+ */
+export async function addManualAttendanceTransaction(transaction: ManualAttendanceTransaction, author: AttendanceChangeAuthor): Promise<AttendanceTransaction> {
+  return postCorrection({ action: 'create', transaction, ...author });
+}
 
 /**
- * Clears all attendance transactions from localStorage.
+ * Changes the type or time of a transaction. If it already reached Odoo, the push corrects the Odoo record.
+ * @returns {Promise<AttendanceTransaction>} The updated transaction.
+ * @throws {Error} If the server rejects the change.
  */
-export function clearAttendanceTransactions(): void {
+export async function correctAttendanceTransaction(transactionId: string, changes: AttendanceCorrection, author: AttendanceChangeAuthor): Promise<AttendanceTransaction> {
+  return postCorrection({ action: 'update', id: transactionId, changes, ...author });
+}
+
+/**
+ * Voids a transaction, e.g. a duplicate punch. If it already reached Odoo, the push removes it there.
+ * @returns {Promise<AttendanceTransaction>} The voided transaction.
+ * @throws {Error} If the server rejects the change.
+ */
+export async function voidAttendanceTransaction(transactionId: string, author: AttendanceChangeAuthor): Promise<AttendanceTransaction> {
+  return postCorrection({ action: 'void', id: transactionId, ...author });
+}
+
+/**
+ * Reads a transaction with its audit history, oldest change first.
+ * @throws {Error} If the transaction doesn't exist or the request fails.
+ */
+export async function getAttendanceTransactionHistory(transactionId: string): Promise<{ transaction: AttendanceTransaction; audit: AttendanceAuditEntry[] }> {
+  const response = await fetch(`${CORRECTIONS_API_URL}?id=${encodeURIComponent(transactionId)}`, { cache: 'no-store' });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+  return { transaction: body.transaction, audit: body.audit ?? [] };
+}
+
+/**
+ * Clears all attendance transactions from the server store.
+ * @throws {Error} If the server rejects the request, so callers can report the failure.
+ */
+export async function clearAttendanceTransactions(): Promise<void> {
   if (typeof window === 'undefined') return;
   try {
-    localStorage.removeItem(TRANSACTIONS_STORAGE_KEY);
-    window.dispatchEvent(new CustomEvent('attendanceTransactionsUpdated'));
+    const response = await fetch(TRANSACTIONS_API_URL, { method: 'DELETE' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    notifyTransactionsUpdated();
   } catch (error) {
-    console.error("AttendanceManager: Error clearing transactions from localStorage:", error);
+    console.error("AttendanceManager: Error clearing transactions on server:", error);
+    throw error;
   }
 }
 
 /**
- * Seeds localStorage with sample attendance transaction data for testing purposes.
+ * Seeds the store with sample attendance transaction data for testing purposes.
  * This should typically not be called in a production build unless for specific demo needs.
  */
-export function seedSampleTransactions(): void {
+export async function seedSampleTransactions(): Promise<void> {
   if (typeof window === 'undefined') return;
-  const existingTransactions = getAttendanceTransactions();
-  if (existingTransactions.length > 0) {
+  const { total } = await getAttendanceTransactions({ limit: 1 });
+  if (total > 0) {
     console.log("AttendanceManager: Sample data seeding skipped: Transactions already exist.");
-    return; 
+    return;
   }
 
-  const sampleBaseData: Omit<AttendanceTransaction, 'id' | 'transaction_time'>[] = [
+  const sampleBaseData: Omit<NewAttendanceTransaction, 'transaction_time'>[] = [
     { employee_id: 'EMP001', transaction_type: 'check-in', source_type: 'biometric', device_id: 'ZK-Device-01', status: 'not_uploaded' },
     { employee_id: 'EMP002', transaction_type: 'check-in', source_type: 'biometric', device_id: 'SecureLink-AAS', status: 'uploaded' },
     { employee_id: 'EMP001', transaction_type: 'check-out', source_type: 'biometric', device_id: 'ZK-Device-01', status: 'not_uploaded' },
   ];
-  
-  const allSamplesToSeed: AttendanceTransaction[] = [];
+
+  const allSamplesToSeed: NewAttendanceTransaction[] = [];
   for(let i=0; i<15; i++) { // Generate a reasonable number of samples
     sampleBaseData.forEach(sample => {
         const timeOffset = Math.random() * 7 * 24 * 3600 * 1000; // Transactions within the last week
-        const newTime = new Date(Date.now() - timeOffset);
          allSamplesToSeed.push({
-            id: newTime.getTime().toString() + Math.random().toString(36).substring(2,9) + i, // More unique ID
             ...sample,
-            transaction_time: newTime.toISOString(),
-            employee_id: `EMP${Math.floor(Math.random() * 10 + 1).toString().padStart(3, '0')}`, 
+            transaction_time: new Date(Date.now() - timeOffset),
+            employee_id: `EMP${Math.floor(Math.random() * 10 + 1).toString().padStart(3, '0')}`,
             status: Math.random() > 0.4 ? 'not_uploaded' : 'uploaded'
         });
     });
   }
 
-  allSamplesToSeed.sort((a,b) => new Date(b.transaction_time).getTime() - new Date(a.transaction_time).getTime());
-
-  try {
-    localStorage.setItem(TRANSACTIONS_STORAGE_KEY, JSON.stringify(allSamplesToSeed.slice(0, MAX_TRANSACTIONS_IN_STORAGE)));
-    window.dispatchEvent(new CustomEvent('attendanceTransactionsUpdated'));
-    console.log(`AttendanceManager: Seeded ${allSamplesToSeed.length} sample transactions.`);
-  } catch (error) {
-    console.error("AttendanceManager: Error seeding sample transactions:", error);
-  }
+  const { inserted } = await addAttendanceTransactions(allSamplesToSeed, true); // Some samples are marked as already pushed
+  console.log(`AttendanceManager: Seeded ${inserted} sample transactions.`);
 }
@@ -0,0 +1,45 @@
+// Client-side access to the operations dashboard on the home page: push queue counts, today's punches
+// per hour, the last successful fetch of each source, the last Odoo push and recent errors, in one request.
+
+import type { LogEntry } from '@/lib/app-logger';
+import type { TransactionType, UploadStatus } from '@/lib/attendance-manager';
+import type { SchedulerJob } from '@/lib/scheduler/api';
+
+export interface PunchHourCount {
+  hour: number; // Hours since the start of the requested range
+  transaction_type: TransactionType;
+  count: number;
+}
+
+export interface SourceFetchSummary {
+  sourceType: string;
+  lastSuccessAt: string | null; // Newest successful fetch by the source's job or any of its registered devices
+  fetchers: number; // Enabled source job plus registered devices
+  failing: number; // Of those, how many failed their latest run
+}
+
+export interface DashboardSummary {
+  statusCounts: Record<UploadStatus, number>;
+  punchesPerHour: PunchHourCount[];
+  sources: SourceFetchSummary[];
+  push: SchedulerJob; // The 'odoo_push' job
+  recentErrors: LogEntry[];
+}
+
+const DASHBOARD_API_URL = '/api/dashboard';
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { cache: 'no-store', ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+  return body as T;
+}
+
+/**
+ * Loads the dashboard figures. Punches are counted per hour between `from` and `to`, normally the
+ * browser's local day, so hours follow the operator's clock.
+ */
+export async function getDashboardSummary(from: Date, to: Date): Promise<DashboardSummary> {
+  const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+  return requestJson<DashboardSummary>(`${DASHBOARD_API_URL}?${params.toString()}`);
+}
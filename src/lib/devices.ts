@@ -0,0 +1,178 @@
+// Client-side access to the device registry. Each terminal is registered once with its connection
+// settings, fetch schedule and import watermark; the scheduler fetches every enabled entry on its own
+// schedule (src/lib/server/scheduler.ts). Punches link to their entry through (source_type, device_id).
+// Connection settings are stored server-side (src/lib/server/device-store.ts); passwords and keys
+// are never sent back to the browser.
+
+import { ZK_SOURCE_TYPE } from '@/lib/zkteco/time/api';
+import { BIOTIME_SOURCE_TYPE } from '@/lib/zkteco/biotime/api';
+import { SECURELINK_SOURCE_TYPE } from '@/lib/securelink/api';
+import { ADMS_SOURCE_TYPE } from '@/lib/zkteco/adms/api';
+import { frequencyToMs, type SchedulerRunStatus } from '@/lib/scheduler/api';
+
+export interface DeviceSourceInfo {
+  label: string;
+  deviceIdLabel: string; // What the source calls the ID its punches carry
+  deviceIdRequired: boolean; // False when the first fetch learns it from the device
+  fetched: boolean; // False for devices that send their punches themselves (no settings or schedule)
+}
+
+export const DEVICE_SOURCES: Record<string, DeviceSourceInfo> = {
+  [ZK_SOURCE_TYPE]: { label: 'ZK Time', deviceIdLabel: 'Serial number', deviceIdRequired: false, fetched: true },
+  [BIOTIME_SOURCE_TYPE]: { label: 'BioTime', deviceIdLabel: 'Terminal serial number', deviceIdRequired: true, fetched: true },
+  [SECURELINK_SOURCE_TYPE]: { label: 'SecureLink', deviceIdLabel: 'AAS device ID', deviceIdRequired: true, fetched: true },
+  [ADMS_SOURCE_TYPE]: { label: 'ADMS', deviceIdLabel: 'Serial number', deviceIdRequired: true, fetched: false },
+};
+
+export const DEVICE_SOURCE_TYPES = Object.keys(DEVICE_SOURCES);
+
+// Connection settings fields that are write-only; left out of an update, the saved value is kept.
+export const SECRET_SETTING_FIELDS = ['password', 'commKey'];
+
+export interface Device {
+  id: string;
+  name: string;
+  location: string | null;
+  sourceType: string;
+  deviceId: string | null; // The device_id its punches carry; null until a ZK Time fetch learns it
+  settings: Record<string, unknown> | null; // Connection settings without SECRET_SETTING_FIELDS
+  enabled: boolean; // Fetched on schedule; for ADMS devices, whether their uploads are accepted
+  frequency: string;
+  lastRecordTime: string | null; // Import watermark: newest punch imported so far
+  running: boolean;
+  lastRunAt: string | null;
+  lastStatus: SchedulerRunStatus | null;
+  lastMessage: string | null;
+  nextRunAt: string | null;
+  lastContactAt: string | null; // Last successful fetch, or last ADMS upload or heartbeat
+  lastError: string | null;
+  lastErrorAt: string | null;
+  recordCount: number; // Stored punches of the device, voided ones excluded
+}
+
+export interface DeviceInput {
+  id?: string; // Omitted to register a new device
+  name: string;
+  location: string;
+  sourceType: string;
+  deviceId: string;
+  enabled: boolean;
+  frequency: string;
+  config?: Record<string, unknown>; // Connection settings; omitted secret fields keep their saved values
+}
+
+// A device ID found on stored punches that no registry entry covers.
+export interface UnregisteredDevice {
+  source_type: string;
+  device_id: string;
+  count: number;
+  last_time: string;
+}
+
+export interface DeviceOverview {
+  devices: Device[];
+  unregistered: UnregisteredDevice[];
+}
+
+export type DeviceHealth = 'ok' | 'error' | 'stale' | 'no_contact' | 'disabled';
+
+export const DEVICE_HEALTH_LABELS: Record<DeviceHealth, string> = {
+  ok: 'OK',
+  error: 'Error',
+  stale: 'No recent contact',
+  no_contact: 'Never contacted',
+  disabled: 'Disabled',
+};
+
+// A fetched device is stale after missing this many scheduled fetches.
+const STALE_AFTER_MISSED_FETCHES = 3;
+// ADMS devices poll every minute or so while they are online.
+const ADMS_STALE_MS = 60 * 60 * 1000;
+
+const DEVICES_API_URL = '/api/devices';
+
+/**
+ * Key of a device in lookups by source type and device ID, as used by `buildDeviceLookup`.
+ */
+export function deviceKey(sourceType: string, deviceId: string): string {
+  return `${sourceType}|${deviceId}`;
+}
+
+/**
+ * Indexes registered devices by source type and device ID, for naming the device of a transaction.
+ */
+export function buildDeviceLookup(devices: Device[]): Map<string, Device> {
+  return new Map(devices.filter(d => d.deviceId !== null).map(d => [deviceKey(d.sourceType, d.deviceId!), d]));
+}
+
+/**
+ * Sums up a device's health: an error newer than its last contact, or no contact for longer than expected.
+ */
+export function getDeviceHealth(device: Device, now: Date = new Date()): DeviceHealth {
+  if (!device.enabled) return 'disabled';
+  if (device.lastErrorAt && (!device.lastContactAt || device.lastErrorAt > device.lastContactAt)) return 'error';
+  if (!device.lastContactAt) return 'no_contact';
+  const staleAfter = DEVICE_SOURCES[device.sourceType]?.fetched
+    ? (frequencyToMs(device.frequency) ?? 0) * STALE_AFTER_MISSED_FETCHES
+    : ADMS_STALE_MS;
+  return now.getTime() - new Date(device.lastContactAt).getTime() > staleAfter ? 'stale' : 'ok';
+}
+
+function notifyDevicesUpdated(): void {
+  window.dispatchEvent(new CustomEvent('devicesUpdated'));
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { cache: 'no-store', ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+  return body as T;
+}
+
+/**
+ * Loads the registered devices with their health, and the device IDs on stored punches that aren't registered.
+ */
+export async function getDeviceOverview(): Promise<DeviceOverview> {
+  return requestJson<DeviceOverview>(DEVICES_API_URL);
+}
+
+/**
+ * Registers a device, or updates it when `input.id` is set. Enabling it or changing its frequency
+ * schedules the next fetch one interval from now.
+ */
+export async function saveDevice(input: DeviceInput): Promise<Device> {
+  const body = await requestJson<{ device: Device }>(DEVICES_API_URL, { method: 'POST', body: JSON.stringify({ action: 'save', ...input }) });
+  notifyDevicesUpdated();
+  return body.device;
+}
+
+/**
+ * Removes a device from the registry. Its stored punches are kept. Fails while it is being fetched.
+ */
+export async function deleteDevice(id: string): Promise<void> {
+  await requestJson(DEVICES_API_URL, { method: 'POST', body: JSON.stringify({ action: 'delete', id }) });
+  notifyDevicesUpdated();
+}
+
+/**
+ * Fetches a device now and waits for it. Fails if a fetch of the device is already running.
+ * @returns {Promise<Device>} The device after the fetch; `lastStatus`/`lastMessage` describe the outcome.
+ */
+export async function runDeviceFetch(id: string, correlationId?: string): Promise<Device> {
+  try {
+    const body = await requestJson<{ device: Device }>(DEVICES_API_URL, { method: 'POST', body: JSON.stringify({ action: 'run', id, params: { correlationId } }) });
+    return body.device;
+  } finally {
+    notifyDevicesUpdated();
+    window.dispatchEvent(new CustomEvent('attendanceTransactionsUpdated'));
+  }
+}
+
+/**
+ * Clears a device's import watermark so its next fetch imports everything the source still holds.
+ */
+export async function resetDeviceWatermark(id: string): Promise<Device> {
+  const body = await requestJson<{ device: Device }>(DEVICES_API_URL, { method: 'POST', body: JSON.stringify({ action: 'reset_state', id }) });
+  notifyDevicesUpdated();
+  return body.device;
+}
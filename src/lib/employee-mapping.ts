@@ -0,0 +1,130 @@
+// Client-side access to the employee mapping subsystem.
+// Each attendance source identifies people by its own ID (SecureLink UserID, ZK user ID, BioTime emp_code).
+// Mappings link those device IDs to Odoo `hr.employee` records; they are stored server-side
+// (see src/lib/server/employee-mapping-store.ts) and resolved before every push.
+
+import { odooRequest } from '@/lib/odoo/api';
+import type { AttendanceTransaction } from '@/lib/attendance-manager';
+
+export type EmployeeMatchField = 'barcode' | 'pin' | 'identification_id';
+export type EmployeeIdNormalization = 'exact' | 'ignore_leading_zeros' | 'digits_only';
+export type EmployeeMappingMethod = 'auto' | 'manual';
+
+export const EMPLOYEE_MATCH_FIELDS: EmployeeMatchField[] = ['barcode', 'pin', 'identification_id'];
+export const EMPLOYEE_ID_NORMALIZATIONS: EmployeeIdNormalization[] = ['exact', 'ignore_leading_zeros', 'digits_only'];
+
+/** Source type of the rule applied to sources without a rule of their own. */
+export const DEFAULT_RULE_SOURCE = '*';
+
+export interface OdooEmployee {
+  id: number;
+  name: string;
+  barcode: string | null;
+  pin: string | null;
+  identification_id: string | null;
+  active: boolean;
+}
+
+export interface EmployeeMappingRule {
+  source_type: string;
+  match_field: EmployeeMatchField;
+  normalization: EmployeeIdNormalization;
+}
+
+export interface EmployeeMapping {
+  source_type: string;
+  device_employee_id: string;
+  odoo_employee_id: number | null;
+  odoo_employee_name: string | null;
+  method: EmployeeMappingMethod | null; // null when never matched
+  transaction_count: number;
+}
+
+export interface EmployeeMappingOverview {
+  mappings: EmployeeMapping[];
+  rules: EmployeeMappingRule[];
+  employees: OdooEmployee[];
+  lastSyncedAt: string | null;
+}
+
+export interface EmployeeResolution {
+  resolved: Record<string, number>; // transaction ID -> hr.employee ID
+  unmapped: string[]; // transaction IDs held back as 'unmapped'
+}
+
+const MAPPINGS_API_URL = '/api/employee-mappings';
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { cache: 'no-store', ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+  return body as T;
+}
+
+/**
+ * Loads mappings for every device employee ID seen in the attendance store, the matching rules and the cached Odoo employees.
+ */
+export async function getEmployeeMappingOverview(): Promise<EmployeeMappingOverview> {
+  return requestJson<EmployeeMappingOverview>(MAPPINGS_API_URL);
+}
+
+/**
+ * Sets (or, with `odooEmployeeId` null, removes) a manual mapping override.
+ * Removing an override lets the automatic rule match the ID again.
+ */
+export async function setManualEmployeeMapping(sourceType: string, deviceEmployeeId: string, odooEmployeeId: number | null): Promise<void> {
+  await requestJson(MAPPINGS_API_URL, {
+    method: 'PUT',
+    body: JSON.stringify({ source_type: sourceType, device_employee_id: deviceEmployeeId, odoo_employee_id: odooEmployeeId }),
+  });
+}
+
+/**
+ * Saves the automatic matching rule for a source type and re-runs automatic matching.
+ */
+export async function saveEmployeeMappingRule(rule: EmployeeMappingRule): Promise<{ matched: number; unmatched: number }> {
+  return requestJson(`${MAPPINGS_API_URL}/rules`, { method: 'PUT', body: JSON.stringify(rule) });
+}
+
+/**
+ * Pulls `hr.employee` records from Odoo with the stored session, caches them server-side and re-runs automatic matching.
+ * @returns Counts of synced employees and matched/unmatched device IDs.
+ */
+export async function syncOdooEmployees(): Promise<{ synced: number; matched: number; unmatched: number }> {
+  const response = await odooRequest<Array<{ id: number; name: string; barcode: string | false; pin: string | false; identification_id: string | false; active: boolean }>>(
+    'hr.employee',
+    'search_read',
+    [[]],
+    { fields: ['id', 'name', 'barcode', 'pin', 'identification_id', 'active'], context: { active_test: false } }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Odoo returned no employees.');
+  }
+
+  const employees: OdooEmployee[] = response.data.map(e => ({
+    id: e.id,
+    name: e.name,
+    barcode: e.barcode || null,
+    pin: e.pin || null,
+    identification_id: e.identification_id || null,
+    active: e.active,
+  }));
+  return requestJson(`${MAPPINGS_API_URL}/employees`, { method: 'POST', body: JSON.stringify({ employees }) });
+}
+
+/**
+ * Resolves the Odoo employee for each transaction. Transactions without a mapping are marked 'unmapped'
+ * server-side and held back until a mapping exists.
+ */
+export async function resolveEmployeeMappings(transactions: AttendanceTransaction[]): Promise<EmployeeResolution> {
+  const result = await requestJson<EmployeeResolution>(`${MAPPINGS_API_URL}/resolve`, {
+    method: 'POST',
+    body: JSON.stringify({
+      transactions: transactions.map(t => ({ id: t.id, source_type: t.source_type, employee_id: t.employee_id })),
+    }),
+  });
+  if (result.unmapped.length > 0) {
+    window.dispatchEvent(new CustomEvent('attendanceTransactionsUpdated'));
+  }
+  return result;
+}
@@ -0,0 +1,121 @@
+// Export and import of application logs as JSON Lines or CSV files, so a customer's logs can be sent
+// to support and inspected in another install. Imported logs are only held in the page; they are never
+// written to the server store.
+
+import { parseLogSearch, validateLogEntry, type LogEntry, type LogQuery } from '@/lib/app-logger';
+import { downloadFile, formatCsv, parseCsv } from '@/lib/csv';
+
+export type LogFileFormat = 'jsonl' | 'csv';
+
+const CSV_COLUMNS = ['id', 'timestamp', 'source', 'status', 'message', 'correlationId', 'context', 'stack'] as const;
+
+const MIME_TYPES: Record<LogFileFormat, string> = {
+  jsonl: 'application/x-ndjson',
+  csv: 'text/csv',
+};
+
+function csvRowToEntry(header: string[], fields: string[], index: number): LogEntry | string {
+  const raw: Record<string, string> = {};
+  header.forEach((column, i) => { raw[column] = fields[i] ?? ''; });
+  const entry: Record<string, unknown> = {
+    id: raw.id,
+    timestamp: raw.timestamp,
+    source: raw.source,
+    status: raw.status,
+    message: raw.message ?? '',
+  };
+  if (raw.correlationId) entry.correlationId = raw.correlationId;
+  if (raw.stack) entry.stack = raw.stack;
+  if (raw.context) {
+    try {
+      entry.context = JSON.parse(raw.context);
+    } catch {
+      return `Log entry ${index} has a context that is not valid JSON.`;
+    }
+  }
+  return entry as unknown as LogEntry;
+}
+
+/**
+ * Serializes log entries as JSON Lines (one entry per line) or as CSV with a header row.
+ * In CSV, `context` is written as a JSON string.
+ */
+export function formatLogFile(logs: LogEntry[], format: LogFileFormat): string {
+  if (format === 'jsonl') return logs.map(log => JSON.stringify(log)).join('\n') + (logs.length > 0 ? '\n' : '');
+
+  return formatCsv([
+    [...CSV_COLUMNS],
+    ...logs.map(log => CSV_COLUMNS.map(column => column === 'context' ? (log.context ? JSON.stringify(log.context) : '') : log[column])),
+  ]);
+}
+
+/**
+ * Parses an exported log file. The format follows the file extension; files with another extension
+ * are read as JSON Lines when they start with '{' and as CSV otherwise.
+ * @returns The entries, newest first, or why the file can't be read.
+ */
+export function parseLogFile(text: string, fileName: string): { logs?: LogEntry[]; error?: string } {
+  const extension = fileName.toLowerCase().split('.').pop();
+  const format: LogFileFormat = extension === 'csv' ? 'csv'
+    : extension === 'jsonl' || extension === 'ndjson' || extension === 'json' ? 'jsonl'
+    : text.trimStart().startsWith('{') ? 'jsonl' : 'csv';
+
+  const entries: unknown[] = [];
+  if (format === 'jsonl') {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    for (let i = 0; i < lines.length; i++) {
+      try {
+        entries.push(JSON.parse(lines[i]));
+      } catch {
+        return { error: `Line ${i + 1} is not valid JSON.` };
+      }
+    }
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    if (!header || !['id', 'timestamp', 'source', 'status', 'message'].every(column => header.includes(column))) {
+      return { error: 'The CSV file has no header row with the columns id, timestamp, source, status and message.' };
+    }
+    for (let i = 0; i < rows.length; i++) {
+      const entry = csvRowToEntry(header, rows[i], i);
+      if (typeof entry === 'string') return { error: entry };
+      entries.push(entry);
+    }
+  }
+
+  if (entries.length === 0) return { error: 'The file contains no log entries.' };
+  for (let i = 0; i < entries.length; i++) {
+    const validationError = validateLogEntry(entries[i], i);
+    if (validationError) return { error: validationError };
+  }
+  const logs = (entries as LogEntry[]).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  return { logs };
+}
+
+/**
+ * Applies the Logs page filters to entries held in the browser, such as an imported file.
+ * Paging is left to the caller.
+ */
+export function filterLogEntries(logs: LogEntry[], query: LogQuery): LogEntry[] {
+  const from = query.from ? new Date(query.from).getTime() : -Infinity;
+  const to = query.to ? new Date(query.to).getTime() : Infinity;
+  const terms = parseLogSearch(query.search ?? '').map(term => ({ ...term, text: term.text.toLowerCase() }));
+  return logs.filter(log => {
+    const time = new Date(log.timestamp).getTime();
+    if ((query.source && log.source !== query.source)
+      || (query.status && log.status !== query.status)
+      || (query.correlationId && log.correlationId !== query.correlationId)
+      || time < from || time > to) {
+      return false;
+    }
+    if (terms.length === 0) return true;
+    const searchable = `${log.message}\n${log.context ? JSON.stringify(log.context) : ''}`.toLowerCase();
+    return terms.every(term => searchable.includes(term.text) !== term.exclude);
+  });
+}
+
+/**
+ * Offers log entries to the user as a file download.
+ */
+export function downloadLogFile(logs: LogEntry[], format: LogFileFormat, fileName: string): void {
+  downloadFile(formatLogFile(logs, format), fileName, MIME_TYPES[format]);
+}
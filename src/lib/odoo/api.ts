@@ -1,100 +1,371 @@
-// Placeholder for Odoo API integration
+// Odoo JSON-RPC client.
+// In the browser every call is relayed through the /api/uhh-proxy route to avoid CORS issues;
+// when running on the server (API routes, background jobs) the client talks to Odoo directly.
+// Odoo session cookies live in a server-side connection profile (src/lib/server/odoo-profiles.ts):
+// the browser only sends the profile ID, and server code sends through the profile's cookie jar.
 
-// These would typically come from a configuration file or environment variables
-const ODOO_URL = process.env.NEXT_PUBLIC_ODOO_URL || 'your-odoo-instance.com';
-const ODOO_DB = process.env.NEXT_PUBLIC_ODOO_DB || 'your_database';
-// Authentication details (UID, password/API key) would be securely managed,
-// possibly via Electron's main process or a secure store.
+import { addLog } from '@/lib/app-logger';
+import { loginToOdoo, type OdooLoginResult, type SavedOdooLogin } from '@/lib/odoo/session';
 
-interface OdooResponse {
+export interface OdooErrorData {
+  name?: string; // Python exception class, e.g. 'odoo.exceptions.AccessError'
+  debug?: string; // Server-side traceback
+  message?: string;
+  arguments?: string[];
+  exception_type?: string;
+  context?: Record<string, unknown>;
+}
+
+export interface OdooRpcError {
+  code: number;
+  message: string;
+  data?: OdooErrorData;
+  http_status?: number;
+}
+
+export interface OdooSession {
+  url: string; // Base URL of the Odoo instance
+  db: string;
+  profileId: string; // Server-side connection profile holding the session cookies
+  uid?: number;
+}
+
+export interface OdooResponse<T = unknown> {
   success: boolean;
-  data?: any;
+  data?: T;
   error?: string;
+  errorData?: OdooErrorData;
   message?: string;
 }
 
+export interface UhhAuthResponseResult {
+  uid: number;
+  is_admin?: boolean;
+  name?: string;
+  username?: string;
+  partner_id?: number;
+  company_id?: number;
+  db?: string;
+  session_id?: string; // Some Odoo versions return it in the body; it is kept on the server
+  user_context?: Record<string, unknown>;
+  user_companies?: {
+    current_company?: [number, string];
+    allowed_companies?: Array<[number, string]>;
+  };
+}
+
+export interface OdooSessionInfo {
+  uid: number | false | null; // Not set once the session has expired or been logged out
+  name?: string;
+  username?: string;
+  db?: string;
+  server_version?: string;
+}
+
+// 'unreachable': Odoo could not be asked, so the session may still be valid.
+export type OdooSessionHealth = 'valid' | 'expired' | 'unreachable';
+
+export interface OdooSessionCheck {
+  health: OdooSessionHealth;
+  info?: OdooSessionInfo;
+  error?: string;
+}
+
+export interface TestConnectionResult {
+  success: boolean;
+  message: string;
+  data?: UhhAuthResponseResult;
+  profileId?: string; // Connection profile now holding the session
+  savedLogin?: SavedOdooLogin | null;
+}
+
+/** Raw outcome of a JSON-RPC round trip, before it is reduced to an OdooResponse. */
+interface JsonRpcOutcome<T> {
+  result?: T;
+  error?: OdooRpcError;
+}
+
+/** Response body: Odoo's JSON-RPC response, or a proxy error (a message with optional details). */
+interface JsonRpcBody<T> {
+  result?: T;
+  error?: OdooRpcError | string;
+  details?: string;
+}
+
+export const SESSION_EXPIRED_ERROR = 'odoo.http.SessionExpiredException';
+
+const PROFILE_ID_STORAGE_KEY = 'uhh_profile_id';
+export const LEGACY_SESSION_ID_STORAGE_KEY = 'uhh_session_id'; // Browser-held session ID from before connection profiles
+const USER_DETAILS_STORAGE_KEY = 'uhh_user_details';
+
+let rpcRequestId = 0;
+
+function joinOdooUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/$/, '')}${path}`;
+}
+
+/**
+ * Reduces an Odoo JSON-RPC error to a single human-readable message.
+ * Prefers `data.message`, then `data.arguments`, then the top-level message.
+ */
+export function decodeOdooError(error: OdooRpcError): string {
+  const data = error.data;
+  if (data?.message) return data.message;
+  if (Array.isArray(data?.arguments) && data.arguments.length > 0) return data.arguments.join('; ');
+  return error.message || 'Odoo error';
+}
+
+/**
+ * @returns {boolean} True if Odoo rejected the call because the session has expired or was logged out.
+ */
+export function isSessionExpiredError(response: OdooResponse): boolean {
+  return response.errorData?.name === SESSION_EXPIRED_ERROR;
+}
+
 /**
- * Makes a generic request to the Odoo server.
- * This is a high-level placeholder. Actual implementation would use Odoo's
- * XML-RPC or JSON-RPC API, typically involving authentication.
+ * Sends one JSON-RPC 2.0 request to Odoo, through the proxy when running in the browser. On the server it
+ * goes straight through the profile's cookie jar, with the proxy's timeout, so renewed cookies are kept.
+ * Transport and proxy failures are folded into `error` so callers only handle one shape.
  */
-export async function odooRequest(
+async function sendJsonRpc<T>(
+  targetUrl: string,
+  params: Record<string, unknown>,
+  session?: OdooSession | null
+): Promise<JsonRpcOutcome<T>> {
+  const payload = { jsonrpc: '2.0', method: 'call', params, id: ++rpcRequestId };
+
+  try {
+    let response: Response;
+    if (typeof window !== 'undefined') {
+      response = await fetch('/api/uhh-proxy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetUrl, payload, profileId: session?.profileId }),
+      });
+    } else {
+      // Loaded on demand: the browser bundle drops this branch, and with it the database code.
+      const { sendWithOdooProfile } = await import('@/lib/server/odoo-profiles');
+      const { getProxyTimeoutMs } = await import('@/lib/server/odoo-proxy-guard');
+      const sent = await sendWithOdooProfile(session?.profileId ?? null, targetUrl, payload, AbortSignal.timeout(getProxyTimeoutMs()));
+      if (!sent.response) return { error: { code: 0, message: sent.error ?? 'The request was refused.' } };
+      response = sent.response;
+    }
+
+    let body: JsonRpcBody<T> | null;
+    try {
+      body = await response.json();
+    } catch {
+      return {
+        error: { code: response.status, message: `Unreadable response (HTTP ${response.status} ${response.statusText}).`, http_status: response.status },
+      };
+    }
+
+    if (body?.error) {
+      // Odoo JSON-RPC errors are objects; proxy errors are strings with optional details.
+      if (typeof body.error === 'object') {
+        return { error: { ...body.error, http_status: response.status } };
+      }
+      const message = [body.error, body.details].filter(Boolean).join(': ');
+      return { error: { code: response.status, message, http_status: response.status } };
+    }
+    if (!response.ok) {
+      return { error: { code: response.status, message: `HTTP ${response.status} ${response.statusText}`, http_status: response.status } };
+    }
+
+    return { result: body?.result };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { error: { code: 0, message: `Network error: ${message}` } };
+  }
+}
+
+/**
+ * Reads the connection profile saved in localStorage by `testUhhConnection`.
+ * @returns {OdooSession | null} The stored session, or null when not logged in (or on the server).
+ */
+export function getStoredOdooSession(): OdooSession | null {
+  if (typeof window === 'undefined') return null;
+  const profileId = localStorage.getItem(PROFILE_ID_STORAGE_KEY);
+  const userDetailsRaw = localStorage.getItem(USER_DETAILS_STORAGE_KEY);
+  if (!profileId || !userDetailsRaw) return null;
+  try {
+    const userDetails = JSON.parse(userDetailsRaw);
+    if (!userDetails.url || !userDetails.db) return null;
+    return { url: userDetails.url, db: userDetails.db, profileId, uid: userDetails.uid };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @returns {string | null} The name (or login) of the Odoo user stored by `testUhhConnection`, or null when not logged in.
+ */
+export function getStoredOdooUserName(): string | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const userDetails = JSON.parse(localStorage.getItem(USER_DETAILS_STORAGE_KEY) || 'null');
+    return userDetails?.name || userDetails?.username || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Calls an arbitrary Odoo JSON-RPC route (e.g. a custom controller) with the session's cookies.
+ * @param path - Route path on the Odoo server, e.g. '/api/custom/batch_attendance_create'.
+ * @param params - JSON-RPC params object.
+ * @param session - Session to use; defaults to the stored session.
+ */
+export async function odooCall<T = unknown>(
+  path: string,
+  params: Record<string, unknown>,
+  session: OdooSession | null = getStoredOdooSession()
+): Promise<OdooResponse<T>> {
+  if (!session) {
+    return { success: false, error: 'No active Odoo session. Authenticate on the UHH Connectivity page first.' };
+  }
+
+  const outcome = await sendJsonRpc<T>(joinOdooUrl(session.url, path), params, session);
+  if (outcome.error) {
+    return { success: false, error: decodeOdooError(outcome.error), errorData: outcome.error.data };
+  }
+  return { success: true, data: outcome.result };
+}
+
+/**
+ * Calls a model method through Odoo's `execute_kw` (the `/web/dataset/call_kw` route).
+ * @param model - Odoo model name, e.g. 'hr.attendance'.
+ * @param method - Model method, e.g. 'create', 'search_read'.
+ * @param args - Positional arguments.
+ * @param kwargs - Keyword arguments.
+ * @param session - Session to use; defaults to the stored session.
+ */
+export async function odooRequest<T = unknown>(
   model: string,
   method: string,
-  args: any[] = [],
-  kwargs: Record<string, any> = {}
-): Promise<OdooResponse> {
-  console.log(`[Odoo API Request] Simulating call:
-  Model: ${model}
-  Method: ${method}
-  Args: ${JSON.stringify(args)}
-  Kwargs: ${JSON.stringify(kwargs)}
-  Target: https://${ODOO_URL} (DB: ${ODOO_DB})`);
-
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 300 + Math.random() * 500));
-
-  // In a real Electron app, this might use ipcRenderer to call a main process function
-  // which then performs the actual HTTP request using Node.js's http/https or a library like axios.
-  // This is to handle potential CORS issues and manage credentials securely.
-
-  // Placeholder success response
-  if (method === 'search_count' && model === 'hr.employee') {
-     return { success: true, data: Math.floor(Math.random() * 100) + 50 }; // Simulate employee count
+  args: unknown[] = [],
+  kwargs: Record<string, unknown> = {},
+  session: OdooSession | null = getStoredOdooSession()
+): Promise<OdooResponse<T>> {
+  const response = await odooCall<T>(`/web/dataset/call_kw/${model}/${method}`, { model, method, args, kwargs }, session);
+  if (!response.success) {
+    console.error(`[Odoo API] ${model}.${method} failed: ${response.error}${response.errorData?.name ? ` (${response.errorData.name})` : ''}`);
   }
-  if (method === 'check_access_rights') {
-    return { success: true, data: true }; // Simulate access check
+  return response;
+}
+
+/**
+ * Asks Odoo whether a session is still logged in (`/web/session/get_session_info`).
+ * Expired sessions either raise SessionExpiredException or come back without a `uid`.
+ * @param session - Session to check; defaults to the stored session.
+ */
+export async function checkOdooSession(session: OdooSession | null = getStoredOdooSession()): Promise<OdooSessionCheck> {
+  if (!session) return { health: 'expired', error: 'No active Odoo session.' };
+  const response = await odooCall<OdooSessionInfo>('/web/session/get_session_info', {}, session);
+  if (response.success) {
+    return response.data?.uid ? { health: 'valid', info: response.data } : { health: 'expired', info: response.data, error: 'Odoo no longer recognizes the session.' };
   }
+  if (isSessionExpiredError(response)) return { health: 'expired', error: response.error };
+  return { health: 'unreachable', error: response.error };
+}
 
+/**
+ * Logs in to Odoo through the server, which keeps the session in a connection profile, and stores
+ * the profile ID and user details in localStorage.
+ * @param uhhBaseUrl - The base URL of the Odoo instance.
+ * @param username - Odoo login username.
+ * @param password - Odoo login password.
+ * @param dbName - Odoo database name.
+ * @param rememberLogin - Save the credentials (encrypted) on the server for automatic re-login.
+ * @returns Promise<TestConnectionResult> - Result of the authentication attempt.
+ */
+export async function testUhhConnection(
+  uhhBaseUrl: string,
+  username: string,
+  password: string,
+  dbName: string,
+  rememberLogin: boolean = false
+): Promise<TestConnectionResult> {
+  const odooFullAuthUrl = joinOdooUrl(uhhBaseUrl, '/web/session/authenticate');
+
+  addLog("UHH Connectivity", `Attempting authentication to ${odooFullAuthUrl} for user ${username}, DB: ${dbName}.`, "Info");
 
-  // Simulate a common error case for demonstration
-  if (model === 'res.partner' && method === 'create' && args[0]?.name === 'Error Case') {
-    console.error('[Odoo API Error] Simulated error: Invalid partner data.');
-    return { success: false, error: 'Invalid partner data provided.' };
+  let login: OdooLoginResult;
+  try {
+    login = await loginToOdoo(uhhBaseUrl, dbName, username, password, rememberLogin);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    addLog("UHH Connectivity", `Odoo Authentication Error: ${msg}`, "Error");
+    return {
+      success: false,
+      message: `Authentication failed: ${msg}`,
+    };
   }
-  
-  return { success: true, message: `Successfully simulated ${method} on ${model}.` };
+
+  const result = login.user;
+  localStorage.setItem(PROFILE_ID_STORAGE_KEY, login.profile.id);
+  localStorage.removeItem(LEGACY_SESSION_ID_STORAGE_KEY);
+  const userDetailsToStore = {
+    uid: result.uid,
+    name: result.name,
+    username: result.username || username, // Fallback to login username
+    db: result.db || dbName,  // Fallback to provided dbName
+    url: uhhBaseUrl,
+    isAdmin: result.is_admin,
+    companyId: result.company_id || result.user_companies?.current_company?.[0],
+    partnerId: result.partner_id,
+    userContext: result.user_context,
+  };
+  localStorage.setItem(USER_DETAILS_STORAGE_KEY, JSON.stringify(userDetailsToStore));
+  addLog("UHH Connectivity", `Authentication successful. Session kept on the server in connection profile ${login.profile.id}. User: ${userDetailsToStore.name || userDetailsToStore.username}`, "Success");
+  return {
+    success: true,
+    message: "Authentication successful! Session established.",
+    data: result,
+    profileId: login.profile.id,
+    savedLogin: login.savedLogin,
+  };
 }
 
 /**
- * Example function to push attendance data to Odoo.
- * @param attendanceData An array of attendance records to be created.
- * Each record should match the expected format for Odoo's 'hr.attendance' model.
+ * Stores the connection profile that took over a session ID kept by earlier versions, keeping the stored user details.
  */
-export async function pushAttendance(attendanceData: any[]): Promise<OdooResponse> {
+export function storeOdooProfileId(profileId: string): void {
+  localStorage.setItem(PROFILE_ID_STORAGE_KEY, profileId);
+  localStorage.removeItem(LEGACY_SESSION_ID_STORAGE_KEY);
+}
+
+/**
+ * Pushes attendance records to Odoo by creating one `hr.attendance` record per entry.
+ * @param attendanceData An array of `hr.attendance` create values.
+ * @param session Session to use; defaults to the stored session.
+ */
+export async function pushAttendance(
+  attendanceData: Record<string, unknown>[],
+  session: OdooSession | null = getStoredOdooSession()
+): Promise<OdooResponse<OdooResponse<number>[]>> {
   if (!Array.isArray(attendanceData) || attendanceData.length === 0) {
     return { success: false, error: 'No attendance data provided.' };
   }
 
   console.log(`[Odoo API] Attempting to push ${attendanceData.length} attendance records.`);
-  
-  try {
-    // In a real scenario, you might batch requests or handle them individually.
-    // This example simulates creating each record one by one.
-    const results = [];
-    for (const record of attendanceData) {
-      // Assuming 'hr.attendance' model and 'create' method for new records.
-      const result = await odooRequest('hr.attendance', 'create', [record]);
-      if (!result.success) {
-        // If one record fails, you might decide to stop or collect all errors.
-        // For this example, we'll log and continue, then report overall partial success/failure.
-        console.error(`[Odoo API] Failed to create record: ${JSON.stringify(record)}, Error: ${result.error}`);
-      }
-      results.push(result);
-    }
-    
-    const successfulCreations = results.filter(r => r.success).length;
-    if (successfulCreations === attendanceData.length) {
-      return { success: true, message: `Successfully pushed ${successfulCreations} attendance records.`, data: results };
-    } else if (successfulCreations > 0) {
-      return { success: false, error: `Partially pushed records: ${successfulCreations}/${attendanceData.length} succeeded. Check logs.`, data: results };
-    } else {
-      return { success: false, error: 'Failed to push any attendance records.', data: results };
+
+  // Records are created one by one so a single invalid record doesn't reject the whole batch.
+  const results: OdooResponse<number>[] = [];
+  for (const record of attendanceData) {
+    const result = await odooRequest<number>('hr.attendance', 'create', [record], {}, session);
+    if (!result.success) {
+      console.error(`[Odoo API] Failed to create record: ${JSON.stringify(record)}, Error: ${result.error}`);
     }
+    results.push(result);
+  }
 
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error('[Odoo API] Critical error pushing attendance:', errorMessage);
-    return { success: false, error: `Critical error: ${errorMessage}` };
+  const successfulCreations = results.filter(r => r.success).length;
+  if (successfulCreations === attendanceData.length) {
+    return { success: true, message: `Successfully pushed ${successfulCreations} attendance records.`, data: results };
+  } else if (successfulCreations > 0) {
+    return { success: false, error: `Partially pushed records: ${successfulCreations}/${attendanceData.length} succeeded. Check logs.`, data: results };
+  } else {
+    return { success: false, error: 'Failed to push any attendance records.', data: results };
   }
 }
@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { odooRequest, type OdooSession } from '@/lib/odoo/api';
+import { DEFAULT_PUNCH_TYPE_POLICIES, pushHrAttendance } from '@/lib/odoo/attendance-push';
+import type { AttendanceTransaction, TransactionType } from '@/lib/attendance-manager';
+
+vi.mock('@/lib/odoo/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/odoo/api')>()),
+  odooRequest: vi.fn(),
+}));
+
+interface FakeAttendance {
+  id: number;
+  employee_id: number;
+  check_in: string;
+  check_out: string | false;
+}
+
+interface FakeOvertime {
+  id: number;
+  employee_id: number;
+  date: string;
+  duration: number;
+  adjustment: boolean;
+}
+
+type Condition = [keyof FakeAttendance, '=' | '<=', string | number | false];
+type OvertimeCondition = [keyof FakeOvertime, '=' | 'not in', string | number | boolean | number[]];
+
+const session: OdooSession = { url: 'https://odoo.test', db: 'test', profileId: 'profile-1' };
+
+let attendances: FakeAttendance[];
+let overtimes: FakeOvertime[];
+let creates: number;
+
+// Just enough of hr.attendance for the push: search_read on simple domains, create (with the
+// one-open-attendance constraint) and write.
+function fakeHrAttendance(model: string, method: string, args: unknown[] = [], kwargs: Record<string, unknown> = {}) {
+  if (model !== 'hr.attendance') return { success: false, error: `Unexpected model ${model}` };
+  if (method === 'search_read') {
+    const domain = args[0] as Condition[];
+    let found = attendances.filter(record => domain.every(([field, op, value]) => op === '=' ? record[field] === value : record[field] <= value!));
+    if (kwargs.order === 'check_in desc') found = [...found].sort((a, b) => b.check_in.localeCompare(a.check_in));
+    return { success: true, data: found.slice(0, (kwargs.limit as number) ?? found.length) };
+  }
+  if (method === 'create') {
+    const values = args[0] as { employee_id: number; check_in: string };
+    if (attendances.some(record => record.employee_id === values.employee_id && record.check_out === false)) {
+      return { success: false, error: 'Cannot create new attendance record, the employee hasn\'t checked out', errorData: { name: 'odoo.exceptions.ValidationError' } };
+    }
+    creates++;
+    const record = { id: attendances.length + 1, employee_id: values.employee_id, check_in: values.check_in, check_out: false as const };
+    attendances.push(record);
+    return { success: true, data: record.id };
+  }
+  if (method === 'write') {
+    const [[id], values] = args as [[number], { check_out: string }];
+    attendances.find(record => record.id === id)!.check_out = values.check_out;
+    return { success: true, data: true };
+  }
+  return { success: false, error: `Unexpected method ${method}` };
+}
+
+// search_read and create on hr.attendance.overtime.
+function fakeOvertime(method: string, args: unknown[] = []) {
+  if (method === 'search_read') {
+    const domain = args[0] as OvertimeCondition[];
+    const found = overtimes.filter(record => domain.every(([field, op, value]) => op === '=' ? record[field] === value : !(value as number[]).includes(record[field] as number)));
+    return { success: true, data: found.slice(0, 1) };
+  }
+  if (method === 'create') {
+    creates++;
+    const record = { id: overtimes.length + 1, ...(args[0] as Omit<FakeOvertime, 'id'>) };
+    overtimes.push(record);
+    return { success: true, data: record.id };
+  }
+  return { success: false, error: `Unexpected method ${method}` };
+}
+
+let nextId = 1;
+function punch(employeeId: string, type: TransactionType, time: string): AttendanceTransaction {
+  return {
+    id: `t${nextId++}`, employee_id: employeeId, transaction_type: type, transaction_time: time, source_type: 'zktime', device_id: 'CKJ1234',
+    punch_code: null, status: 'not_uploaded', dedup_key: `zktime|CKJ1234|${employeeId}|${time}`, push_attempts: 0, last_error: null,
+    next_attempt_at: null, odoo_attendance_id: null, odoo_overtime_id: null, pushed_type: null, pushed_time: null, voided_at: null,
+  };
+}
+
+beforeEach(() => {
+  attendances = [];
+  overtimes = [];
+  creates = 0;
+  vi.mocked(odooRequest).mockReset().mockImplementation(async (model, method, args, kwargs) => model === 'hr.attendance.overtime'
+    ? fakeOvertime(method, args)
+    : fakeHrAttendance(model, method, args, kwargs));
+});
+
+describe('pushHrAttendance', () => {
+  it('pairs each check-out with the check-in before it, whatever order the batch is in', async () => {
+    const morningIn = punch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    const morningOut = punch('1001', 'check-out', '2024-05-01T12:00:00.000Z');
+    const afternoonIn = punch('1001', 'check-in', '2024-05-01T13:00:00.000Z');
+    const afternoonOut = punch('1001', 'check-out', '2024-05-01T17:00:00.000Z');
+    const batch = [afternoonOut, morningIn, afternoonIn, morningOut];
+
+    const outcomes = await pushHrAttendance(batch, Object.fromEntries(batch.map(t => [t.id, 7])), session);
+
+    expect(outcomes.every(outcome => outcome.success)).toBe(true);
+    expect(attendances).toEqual([
+      { id: 1, employee_id: 7, check_in: '2024-05-01 08:00:00', check_out: '2024-05-01 12:00:00' },
+      { id: 2, employee_id: 7, check_in: '2024-05-01 13:00:00', check_out: '2024-05-01 17:00:00' },
+    ]);
+    expect(outcomes.find(o => o.transactionId === morningOut.id)?.odooAttendanceId).toBe(1);
+    expect(outcomes.find(o => o.transactionId === afternoonOut.id)?.odooAttendanceId).toBe(2);
+  });
+
+  it('groups device IDs that map to the same Odoo employee', async () => {
+    const checkIn = punch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    const checkOut = { ...punch('E-1001', 'check-out', '2024-05-01T16:00:00.000Z'), source_type: 'biotime' };
+
+    await pushHrAttendance([checkOut, checkIn], { [checkIn.id]: 7, [checkOut.id]: 7 }, session);
+
+    expect(attendances).toEqual([{ id: 1, employee_id: 7, check_in: '2024-05-01 08:00:00', check_out: '2024-05-01 16:00:00' }]);
+  });
+
+  it('finds the attendances of a batch that was pushed before instead of creating them again', async () => {
+    const batch = [punch('1001', 'check-in', '2024-05-01T08:00:00.000Z'), punch('1001', 'check-out', '2024-05-01T16:00:00.000Z')];
+    const employeeIds = Object.fromEntries(batch.map(t => [t.id, 7]));
+    await pushHrAttendance(batch, employeeIds, session);
+
+    const retried = await pushHrAttendance(batch, employeeIds, session);
+
+    expect(retried.map(outcome => [outcome.success, outcome.odooAttendanceId])).toEqual([[true, 1], [true, 1]]);
+    expect(creates).toBe(1);
+  });
+
+  it("holds back an employee's later punches after a failure, without holding back other employees", async () => {
+    const strayOut = punch('1001', 'check-out', '2024-05-01T07:00:00.000Z');
+    const laterIn = punch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    const otherIn = punch('1002', 'check-in', '2024-05-01T08:30:00.000Z');
+
+    const outcomes = await pushHrAttendance([laterIn, otherIn, strayOut], { [strayOut.id]: 7, [laterIn.id]: 7, [otherIn.id]: 8 }, session);
+
+    expect(outcomes.find(o => o.transactionId === strayOut.id)).toMatchObject({ success: false, error: expect.stringContaining('No open attendance') });
+    expect(outcomes.find(o => o.transactionId === laterIn.id)).toMatchObject({ success: false, blockedBy: strayOut.id });
+    expect(outcomes.find(o => o.transactionId === otherIn.id)).toMatchObject({ success: true });
+    expect(attendances.map(record => record.employee_id)).toEqual([8]);
+  });
+
+  it('fails punches of unmapped employees without calling Odoo', async () => {
+    const unmapped = punch('9999', 'check-in', '2024-05-01T08:00:00.000Z');
+
+    const outcomes = await pushHrAttendance([unmapped], {}, session);
+
+    expect(outcomes).toEqual([{ transactionId: unmapped.id, success: false, error: "Employee '9999' is not mapped to an Odoo employee." }]);
+    expect(odooRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('pushHrAttendance overtime', () => {
+  const policies = { ...DEFAULT_PUNCH_TYPE_POLICIES, 'overtime-in': 'overtime', 'overtime-out': 'overtime' } as const;
+  const earlierBlock = { id: 1, employee_id: 7, date: '2024-05-01', duration: 2, adjustment: true };
+
+  it('writes a second identical overtime block on the same day as its own record', async () => {
+    overtimes = [earlierBlock];
+    const overtimeOut = punch('1001', 'overtime-out', '2024-05-01T22:00:00.000Z');
+
+    const outcomes = await pushHrAttendance([overtimeOut], { [overtimeOut.id]: 7 }, session, {
+      policies, overtimeStarts: { [overtimeOut.id]: '2024-05-01T20:00:00.000Z' }, recordedOvertimeIds: [1],
+    });
+
+    expect(outcomes).toEqual([{ transactionId: overtimeOut.id, success: true, odooOvertimeId: 2 }]);
+    expect(creates).toBe(1);
+  });
+
+  it('finds the record an unanswered push created when retrying, passing over ones other transactions recorded', async () => {
+    overtimes = [earlierBlock, { ...earlierBlock, id: 2 }];
+    const overtimeOut = { ...punch('1001', 'overtime-out', '2024-05-01T22:00:00.000Z'), status: 'pending_retry' as const };
+
+    const outcomes = await pushHrAttendance([overtimeOut], { [overtimeOut.id]: 7 }, session, {
+      policies, overtimeStarts: { [overtimeOut.id]: '2024-05-01T20:00:00.000Z' }, recordedOvertimeIds: [1],
+    });
+
+    expect(outcomes).toEqual([{ transactionId: overtimeOut.id, success: true, odooOvertimeId: 2 }]);
+    expect(creates).toBe(0);
+  });
+});
@@ -0,0 +1,545 @@
+// Pushes attendance transactions into Odoo, either through the stock `hr.attendance` model or a
+// custom batch endpoint. Odoo keeps one `hr.attendance` record per shift: a check-in creates the record
+// and the matching check-out is written onto that open record, so transactions are replayed per
+// employee in time order.
+// Pushes are idempotent: the custom endpoint receives each transaction's `dedup_key` as
+// `idempotency_key`, and for hr.attendance the employee plus exact check-in/check-out time serves as
+// the key, so a batch retried after a timeout finds the attendances it already created.
+// Break, overtime and unknown punches are pushed as the push's punch type policies say: left out, sent as
+// a check-in or check-out, or (overtime, hr.attendance only) recorded as `hr.attendance.overtime`.
+
+import { isSessionExpiredError, odooCall, odooRequest, type OdooResponse, type OdooSession } from '@/lib/odoo/api';
+import { TRANSACTION_TYPE_DIRECTIONS, buildDedupKey, type AttendanceTransaction, type TransactionType } from '@/lib/attendance-manager';
+
+export type PushMode = 'custom_endpoint' | 'hr_attendance';
+
+// Punch types that are not plain check-ins or check-outs, and so need a push policy.
+export type PolicyPunchType = Exclude<TransactionType, 'check-in' | 'check-out'>;
+// 'overtime': an overtime-out is written as an `hr.attendance.overtime` adjustment lasting from the
+// overtime-in before it; the overtime-in itself writes nothing. Only for hr.attendance pushes.
+export type PunchTypePolicy = 'skip' | 'check-in' | 'check-out' | 'overtime';
+export type PunchTypePolicies = Record<PolicyPunchType, PunchTypePolicy>;
+
+export const POLICY_PUNCH_TYPES: PolicyPunchType[] = ['break-out', 'break-in', 'overtime-in', 'overtime-out', 'unknown'];
+export const PUNCH_TYPE_POLICIES: PunchTypePolicy[] = ['skip', 'check-in', 'check-out', 'overtime'];
+
+// Breaks and overtime are pushed in the direction they go, as they were before these types existed.
+export const DEFAULT_PUNCH_TYPE_POLICIES: PunchTypePolicies = {
+  'break-out': 'check-out',
+  'break-in': 'check-in',
+  'overtime-in': 'check-in',
+  'overtime-out': 'check-out',
+  unknown: 'skip',
+};
+
+export interface AttendancePushOutcome {
+  transactionId: string;
+  success: boolean;
+  odooAttendanceId?: number;
+  odooOvertimeId?: number; // hr.attendance.overtime record written for an overtime-out
+  error?: string;
+  transient?: boolean; // Odoo was unreachable or the session expired; the record itself was not at fault
+  sessionExpired?: boolean; // Odoo rejected the call because the session has expired
+  blockedBy?: string; // Not attempted because this earlier transaction for the same employee failed
+}
+
+export interface AttendanceCorrectionOutcome {
+  transactionId: string;
+  success: boolean;
+  requeue?: boolean; // The old punch was removed from Odoo; push the transaction again as a new punch
+  removedAttendanceId?: number; // hr.attendance record deleted by the correction
+  error?: string;
+  transient?: boolean;
+  sessionExpired?: boolean;
+}
+
+export interface HrAttendancePushOptions {
+  policies: PunchTypePolicies;
+  overtimeStarts: Record<string, string>; // Overtime-in time per overtime-out transaction ID (see findOvertimeStarts)
+  recordedOvertimeIds: number[]; // Overtime records other transactions already account for (see findRecordedOvertimeIds)
+}
+
+interface OdooAttendanceRecord {
+  id: number;
+  check_in: string;
+  check_out: string | false;
+}
+
+// Custom Odoo controller that accepts a batch of attendance punches.
+export const CUSTOM_BATCH_ENDPOINT_PATH = '/api/custom/batch_attendance_create';
+// Companion controller that updates or voids punches the batch endpoint stored earlier.
+export const CUSTOM_CORRECTION_ENDPOINT_PATH = '/api/custom/batch_attendance_correct';
+
+// What the custom controllers answer: `true`, or a summary of the punches they stored.
+type CustomEndpointResult = true | { success?: boolean; processed_count?: number };
+
+const CUSTOM_BATCH_MAX_ATTEMPTS = 2;
+const CUSTOM_BATCH_RETRY_DELAY_MS = 3000;
+
+// Raised by hr.attendance's _check_validity constraint when an employee still has an open attendance
+// (or the new check-in overlaps an existing one).
+const ALREADY_CHECKED_IN_PATTERN = /already checked in|hasn't checked out|has not checked out/i;
+
+/**
+ * Formats an ISO timestamp the way Odoo expects datetime fields: 'YYYY-MM-DD HH:MM:SS' in UTC.
+ */
+export function toOdooDatetime(isoTimestamp: string): string {
+  return new Date(isoTimestamp).toISOString().replace('T', ' ').substring(0, 19);
+}
+
+/**
+ * Decides how a punch of the given type is pushed. Check-ins and check-outs are always pushed as they are.
+ */
+export function resolvePunchAction(type: TransactionType, policies: PunchTypePolicies): PunchTypePolicy {
+  return type === 'check-in' || type === 'check-out' ? type : policies[type];
+}
+
+/**
+ * The hr.attendance field a punch was written to when pushed as an attendance. Under a policy that no
+ * longer pushes the type as one, the type's direction decides.
+ */
+function attendanceField(type: TransactionType, policies: PunchTypePolicies): 'check_in' | 'check_out' {
+  const action = resolvePunchAction(type, policies);
+  if (action === 'check-in' || action === 'check-out') return action === 'check-in' ? 'check_in' : 'check_out';
+  return TRANSACTION_TYPE_DIRECTIONS[type] === 'in' ? 'check_in' : 'check_out';
+}
+
+function customEndpointAction(type: TransactionType, policies: PunchTypePolicies): 'sign_in' | 'sign_out' {
+  return attendanceField(type, policies) === 'check_in' ? 'sign_in' : 'sign_out';
+}
+
+/**
+ * Odoo exceptions carry `errorData`; failures without it happened in transport (network, proxy, HTTP).
+ */
+function isTransientFailure(response: OdooResponse): boolean {
+  return !response.errorData || isSessionExpiredError(response);
+}
+
+function isAlreadyCheckedInError(response: OdooResponse): boolean {
+  return response.errorData?.name === 'odoo.exceptions.ValidationError' && ALREADY_CHECKED_IN_PATTERN.test(response.error || '');
+}
+
+async function findOpenAttendance(odooEmployeeId: number, before: string, session: OdooSession): Promise<OdooAttendanceRecord | null> {
+  const response = await odooRequest<OdooAttendanceRecord[]>(
+    'hr.attendance',
+    'search_read',
+    [[['employee_id', '=', odooEmployeeId], ['check_out', '=', false], ['check_in', '<=', before]]],
+    { fields: ['id', 'check_in', 'check_out'], order: 'check_in desc', limit: 1 },
+    session
+  );
+  return response.success && response.data && response.data.length > 0 ? response.data[0] : null;
+}
+
+async function findAttendanceBy(
+  odooEmployeeId: number,
+  field: 'check_in' | 'check_out',
+  odooDatetime: string,
+  session: OdooSession
+): Promise<OdooAttendanceRecord | null> {
+  const response = await odooRequest<OdooAttendanceRecord[]>(
+    'hr.attendance',
+    'search_read',
+    [[['employee_id', '=', odooEmployeeId], [field, '=', odooDatetime]]],
+    { fields: ['id', 'check_in', 'check_out'], limit: 1 },
+    session
+  );
+  return response.success && response.data && response.data.length > 0 ? response.data[0] : null;
+}
+
+async function pushCheckIn(transaction: AttendanceTransaction, odooEmployeeId: number, session: OdooSession): Promise<AttendancePushOutcome> {
+  const checkIn = toOdooDatetime(transaction.transaction_time);
+  // An earlier push may have created this attendance without us seeing the reply.
+  const pushedBefore = await findAttendanceBy(odooEmployeeId, 'check_in', checkIn, session);
+  if (pushedBefore) {
+    return { transactionId: transaction.id, success: true, odooAttendanceId: pushedBefore.id };
+  }
+
+  const created = await odooRequest<number>('hr.attendance', 'create', [{ employee_id: odooEmployeeId, check_in: checkIn }], {}, session);
+  if (created.success && typeof created.data === 'number') {
+    return { transactionId: transaction.id, success: true, odooAttendanceId: created.data };
+  }
+
+  if (isAlreadyCheckedInError(created)) {
+    // A record with this exact check-in means a concurrent push got through first.
+    const existing = await findAttendanceBy(odooEmployeeId, 'check_in', checkIn, session);
+    if (existing) {
+      return { transactionId: transaction.id, success: true, odooAttendanceId: existing.id };
+    }
+    const open = await findOpenAttendance(odooEmployeeId, checkIn, session);
+    const openSince = open ? ` since ${open.check_in} UTC (record ${open.id})` : '';
+    return {
+      transactionId: transaction.id,
+      success: false,
+      error: `Employee is already checked in${openSince}; a check-out is missing before ${checkIn} UTC. Odoo: ${created.error}`,
+    };
+  }
+
+  return {
+    transactionId: transaction.id,
+    success: false,
+    error: created.error || 'Odoo did not return the new attendance ID.',
+    transient: !created.success && isTransientFailure(created),
+    sessionExpired: isSessionExpiredError(created),
+  };
+}
+
+async function pushCheckOut(transaction: AttendanceTransaction, odooEmployeeId: number, session: OdooSession): Promise<AttendancePushOutcome> {
+  const checkOut = toOdooDatetime(transaction.transaction_time);
+  const open = await findOpenAttendance(odooEmployeeId, checkOut, session);
+
+  if (!open) {
+    const alreadyClosed = await findAttendanceBy(odooEmployeeId, 'check_out', checkOut, session);
+    if (alreadyClosed) {
+      return { transactionId: transaction.id, success: true, odooAttendanceId: alreadyClosed.id };
+    }
+    return { transactionId: transaction.id, success: false, error: `No open attendance to check out of before ${checkOut} UTC.` };
+  }
+
+  const written = await odooRequest<boolean>('hr.attendance', 'write', [[open.id], { check_out: checkOut }], {}, session);
+  if (written.success) {
+    return { transactionId: transaction.id, success: true, odooAttendanceId: open.id };
+  }
+  return { transactionId: transaction.id, success: false, error: written.error, transient: isTransientFailure(written), sessionExpired: isSessionExpiredError(written) };
+}
+
+/**
+ * Writes the overtime between an overtime-in and this overtime-out as an `hr.attendance.overtime`
+ * adjustment dated on the overtime-in's UTC day. Only a retried transaction looks for a record an earlier,
+ * unanswered push created: one with the same employee, date and duration that no other transaction has
+ * recorded. A transaction pushed for the first time always creates its own, even when the employee
+ * already has an identical block that day.
+ */
+async function pushOvertime(
+  transaction: AttendanceTransaction,
+  odooEmployeeId: number,
+  start: string | undefined,
+  recordedOvertimeIds: number[],
+  session: OdooSession
+): Promise<AttendancePushOutcome> {
+  if (!start) {
+    return { transactionId: transaction.id, success: false, error: 'No overtime-in right before this overtime-out to measure the overtime from.' };
+  }
+  const duration = Math.round((new Date(transaction.transaction_time).getTime() - new Date(start).getTime()) / 36000) / 100;
+  const values = { employee_id: odooEmployeeId, date: toOdooDatetime(start).substring(0, 10), duration, adjustment: true };
+
+  if (transaction.status === 'pending_retry') {
+    const found = await odooRequest<Array<{ id: number }>>(
+      'hr.attendance.overtime',
+      'search_read',
+      [[
+        ['employee_id', '=', odooEmployeeId], ['date', '=', values.date], ['duration', '=', duration], ['adjustment', '=', true],
+        ['id', 'not in', recordedOvertimeIds],
+      ]],
+      { fields: ['id'], limit: 1 },
+      session
+    );
+    if (found.success && found.data && found.data.length > 0) {
+      return { transactionId: transaction.id, success: true, odooOvertimeId: found.data[0].id };
+    }
+  }
+
+  const created = await odooRequest<number>('hr.attendance.overtime', 'create', [values], {}, session);
+  if (created.success && typeof created.data === 'number') {
+    return { transactionId: transaction.id, success: true, odooOvertimeId: created.data };
+  }
+  return {
+    transactionId: transaction.id,
+    success: false,
+    error: created.error || 'Odoo did not return the new overtime ID.',
+    transient: !created.success && isTransientFailure(created),
+    sessionExpired: isSessionExpiredError(created),
+  };
+}
+
+/**
+ * Pushes transactions to `hr.attendance`, pairing check-ins and check-outs per employee.
+ * Each employee's transactions are replayed oldest first; after the first failure the rest of that
+ * employee's transactions are held back so a later check-out can't close the wrong attendance; later
+ * batches leave them out until the failed one is dealt with (see listPushableTransactions).
+ * Types the policies skip must be left out of `transactions`.
+ * @param transactions - The transactions to push, in any order.
+ * @param employeeIds - Resolved `hr.employee` ID per transaction ID (see resolveEmployeeMappings).
+ * @param session - The Odoo session to push with.
+ * @param options - Punch type policies, and where the overtime of each overtime-out began.
+ * @returns {Promise<AttendancePushOutcome[]>} One outcome per transaction.
+ */
+export async function pushHrAttendance(
+  transactions: AttendanceTransaction[],
+  employeeIds: Record<string, number>,
+  session: OdooSession,
+  options: HrAttendancePushOptions = { policies: DEFAULT_PUNCH_TYPE_POLICIES, overtimeStarts: {}, recordedOvertimeIds: [] }
+): Promise<AttendancePushOutcome[]> {
+  // Several device IDs (one per source) can map to the same person, so group by Odoo employee.
+  const byEmployee = new Map<number, AttendanceTransaction[]>();
+  const outcomes: AttendancePushOutcome[] = [];
+  for (const transaction of transactions) {
+    const odooEmployeeId = employeeIds[transaction.id];
+    if (odooEmployeeId === undefined) {
+      outcomes.push({ transactionId: transaction.id, success: false, error: `Employee '${transaction.employee_id}' is not mapped to an Odoo employee.` });
+      continue;
+    }
+    const list = byEmployee.get(odooEmployeeId) ?? [];
+    list.push(transaction);
+    byEmployee.set(odooEmployeeId, list);
+  }
+
+  for (const [odooEmployeeId, employeeTransactions] of byEmployee) {
+    employeeTransactions.sort((a, b) => new Date(a.transaction_time).getTime() - new Date(b.transaction_time).getTime());
+
+    let blockedBy: string | null = null;
+    for (const transaction of employeeTransactions) {
+      if (blockedBy) {
+        outcomes.push({ transactionId: transaction.id, success: false, error: `Held back: earlier transaction ${blockedBy} for this employee failed.`, blockedBy });
+        continue;
+      }
+      const action = resolvePunchAction(transaction.transaction_type, options.policies);
+      let outcome: AttendancePushOutcome;
+      if (action === 'overtime') {
+        outcome = TRANSACTION_TYPE_DIRECTIONS[transaction.transaction_type] === 'in'
+          ? { transactionId: transaction.id, success: true }
+          : await pushOvertime(transaction, odooEmployeeId, options.overtimeStarts[transaction.id], options.recordedOvertimeIds, session);
+      } else if (action === 'skip') {
+        outcome = { transactionId: transaction.id, success: false, error: `The push policy skips '${transaction.transaction_type}' punches.` };
+      } else {
+        outcome = action === 'check-in'
+          ? await pushCheckIn(transaction, odooEmployeeId, session)
+          : await pushCheckOut(transaction, odooEmployeeId, session);
+      }
+      outcomes.push(outcome);
+      if (!outcome.success) blockedBy = transaction.id;
+    }
+  }
+
+  return outcomes;
+}
+
+interface CustomBatchResult {
+  success: boolean;
+  error?: string;
+  rejected?: boolean; // Odoo received the batch and refused it, as opposed to a transport or session failure
+  sessionExpired?: boolean;
+}
+
+async function sendCustomBatch(
+  transactions: AttendanceTransaction[],
+  employeeIds: Record<string, number>,
+  session: OdooSession,
+  policies: PunchTypePolicies
+): Promise<CustomBatchResult> {
+  const attendanceData = transactions.map(t => ({
+    employee_id: employeeIds[t.id],
+    employee_external_id: t.employee_id,
+    timestamp: t.transaction_time,
+    action: customEndpointAction(t.transaction_type, policies),
+    punch_type: t.transaction_type,
+    device_id: t.device_id,
+    idempotency_key: t.dedup_key,
+  }));
+
+  const response = await odooCall<CustomEndpointResult>(CUSTOM_BATCH_ENDPOINT_PATH, { attendance_data: attendanceData }, session);
+  const odooResult = response.data;
+  if (response.success && odooResult && (odooResult === true || odooResult.success || (typeof odooResult.processed_count === 'number' && odooResult.processed_count > 0))) {
+    return { success: true };
+  }
+  if (response.success) {
+    return { success: false, rejected: true, error: `Odoo reported an issue with the batch: ${JSON.stringify(odooResult).substring(0, 300)}` };
+  }
+  return {
+    success: false,
+    rejected: !isTransientFailure(response),
+    sessionExpired: isSessionExpiredError(response),
+    error: `${response.error}${response.errorData?.name ? ` [${response.errorData.name}]` : ''}`,
+  };
+}
+
+/**
+ * Pushes transactions to the custom batch endpoint in one call, retrying once after a short delay.
+ * The endpoint accepts or rejects the batch as a whole; when Odoo rejects a batch of several records,
+ * they are sent one by one so only the records Odoo refuses are reported as failed.
+ * Each entry carries the transaction's `idempotency_key`; the endpoint should skip keys it has already stored,
+ * and its `punch_type`, while `action` is 'sign_in' or 'sign_out' as the punch type policies say.
+ * @param transactions - The transactions to push; types the policies skip must be left out.
+ * @param employeeIds - Resolved `hr.employee` ID per transaction ID (see resolveEmployeeMappings).
+ * @param session - The Odoo session to push with.
+ * @param policies - How break, overtime and unknown punches are sent.
+ * @returns {Promise<AttendancePushOutcome[]>} One outcome per transaction.
+ */
+export async function pushCustomBatch(
+  transactions: AttendanceTransaction[],
+  employeeIds: Record<string, number>,
+  session: OdooSession,
+  policies: PunchTypePolicies = DEFAULT_PUNCH_TYPE_POLICIES
+): Promise<AttendancePushOutcome[]> {
+  let result: CustomBatchResult = { success: false };
+  for (let attempt = 1; attempt <= CUSTOM_BATCH_MAX_ATTEMPTS; attempt++) {
+    result = await sendCustomBatch(transactions, employeeIds, session, policies);
+    if (result.success) {
+      return transactions.map(t => ({ transactionId: t.id, success: true }));
+    }
+    console.error(`[Odoo Push] Custom batch attempt ${attempt}/${CUSTOM_BATCH_MAX_ATTEMPTS} failed: ${result.error}`);
+    if (attempt < CUSTOM_BATCH_MAX_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, CUSTOM_BATCH_RETRY_DELAY_MS));
+    }
+  }
+
+  if (result.rejected && transactions.length > 1) {
+    const outcomes: AttendancePushOutcome[] = [];
+    for (const transaction of transactions) {
+      const single = await sendCustomBatch([transaction], employeeIds, session, policies);
+      outcomes.push({
+        transactionId: transaction.id,
+        success: single.success,
+        error: single.error,
+        transient: !single.success && !single.rejected,
+        sessionExpired: single.sessionExpired,
+      });
+    }
+    return outcomes;
+  }
+  return transactions.map(t => ({ transactionId: t.id, success: false, error: result.error, transient: !result.rejected, sessionExpired: result.sessionExpired }));
+}
+
+function failedCorrection(transaction: AttendanceTransaction, response: OdooResponse, fallbackError: string): AttendanceCorrectionOutcome {
+  return {
+    transactionId: transaction.id,
+    success: false,
+    error: response.error || fallbackError,
+    transient: !response.success && isTransientFailure(response),
+    sessionExpired: isSessionExpiredError(response),
+  };
+}
+
+/**
+ * Undoes an overtime push: the overtime record of an overtime-out is deleted, while an overtime-in wrote
+ * nothing. Unless voided, the transaction is pushed again as a new punch. An overtime record already
+ * written from a corrected overtime-in keeps its duration until its overtime-out is corrected too.
+ */
+async function correctOvertime(transaction: AttendanceTransaction, session: OdooSession): Promise<AttendanceCorrectionOutcome> {
+  const requeue = transaction.voided_at === null;
+  if (transaction.odoo_overtime_id === null) return { transactionId: transaction.id, success: true, requeue };
+  const removed = await odooRequest<boolean>('hr.attendance.overtime', 'unlink', [[transaction.odoo_overtime_id]], {}, session);
+  return removed.success
+    ? { transactionId: transaction.id, success: true, requeue }
+    : failedCorrection(transaction, removed, 'Odoo did not delete the overtime record.');
+}
+
+async function correctHrAttendance(
+  transaction: AttendanceTransaction,
+  odooEmployeeId: number | undefined,
+  session: OdooSession,
+  policies: PunchTypePolicies
+): Promise<AttendanceCorrectionOutcome> {
+  // Overtime punches never write hr.attendance; an overtime-in pushed as a check-in has its attendance ID.
+  if (transaction.odoo_overtime_id !== null || (transaction.pushed_type === 'overtime-in' && transaction.odoo_attendance_id === null)) {
+    return correctOvertime(transaction, session);
+  }
+  const field = attendanceField(transaction.pushed_type!, policies);
+  const pushedTime = toOdooDatetime(transaction.pushed_time!);
+  // A changed type can't be written onto the record: remove the old punch and push the transaction again.
+  const undo = transaction.voided_at !== null || transaction.transaction_type !== transaction.pushed_type;
+
+  let attendanceId = transaction.odoo_attendance_id;
+  if (attendanceId === null) {
+    // Pushed before attendance IDs were recorded: find the record by employee and the time Odoo holds.
+    if (odooEmployeeId === undefined) {
+      return { transactionId: transaction.id, success: false, error: `Employee '${transaction.employee_id}' is not mapped to an Odoo employee, so its Odoo attendance can't be found.` };
+    }
+    const found = await odooRequest<OdooAttendanceRecord[]>(
+      'hr.attendance',
+      'search_read',
+      [[['employee_id', '=', odooEmployeeId], [field, '=', pushedTime]]],
+      { fields: ['id'], limit: 1 },
+      session
+    );
+    if (!found.success) return failedCorrection(transaction, found, 'Could not look up the Odoo attendance.');
+    attendanceId = found.data?.[0]?.id ?? null;
+  }
+
+  if (attendanceId === null) {
+    if (undo) return { transactionId: transaction.id, success: true, requeue: transaction.voided_at === null };
+    return { transactionId: transaction.id, success: false, error: `Odoo has no attendance with ${field} ${pushedTime} UTC for this employee.` };
+  }
+
+  if (!undo) {
+    const written = await odooRequest<boolean>('hr.attendance', 'write', [[attendanceId], { [field]: toOdooDatetime(transaction.transaction_time) }], {}, session);
+    return written.success ? { transactionId: transaction.id, success: true } : failedCorrection(transaction, written, 'Odoo did not accept the corrected time.');
+  }
+  if (field === 'check_in') {
+    const removed = await odooRequest<boolean>('hr.attendance', 'unlink', [[attendanceId]], {}, session);
+    return removed.success
+      ? { transactionId: transaction.id, success: true, requeue: transaction.voided_at === null, removedAttendanceId: attendanceId }
+      : failedCorrection(transaction, removed, 'Odoo did not delete the attendance.');
+  }
+  const reopened = await odooRequest<boolean>('hr.attendance', 'write', [[attendanceId], { check_out: false }], {}, session);
+  return reopened.success
+    ? { transactionId: transaction.id, success: true, requeue: transaction.voided_at === null }
+    : failedCorrection(transaction, reopened, 'Odoo did not clear the check-out.');
+}
+
+/**
+ * Brings `hr.attendance` in line with transactions changed or voided after they were pushed:
+ * - A new time is written onto the attendance record.
+ * - A voided check-in deletes its attendance record, including any check-out written onto it.
+ * - A voided check-out clears the check-out, reopening the attendance.
+ * - A changed type removes the old punch as above and requeues the transaction to be pushed as a new punch.
+ * - A punch pushed as overtime has its overtime record deleted, if it wrote one, and is requeued unless voided.
+ * @param transactions - 'correction_pending' transactions.
+ * @param employeeIds - Resolved `hr.employee` ID per transaction ID; only needed for transactions without `odoo_attendance_id`.
+ * @param session - The Odoo session to push with.
+ * @param policies - The punch type policies, which tell which hr.attendance field a break or overtime punch went to.
+ * @returns {Promise<AttendanceCorrectionOutcome[]>} One outcome per transaction.
+ */
+export async function pushHrAttendanceCorrections(
+  transactions: AttendanceTransaction[],
+  employeeIds: Record<string, number>,
+  session: OdooSession,
+  policies: PunchTypePolicies = DEFAULT_PUNCH_TYPE_POLICIES
+): Promise<AttendanceCorrectionOutcome[]> {
+  const outcomes: AttendanceCorrectionOutcome[] = [];
+  for (const transaction of transactions) {
+    outcomes.push(await correctHrAttendance(transaction, employeeIds[transaction.id], session, policies));
+  }
+  return outcomes;
+}
+
+/**
+ * Sends corrections to the custom correction endpoint, one call per transaction so Odoo can refuse
+ * each on its own. Each entry names the punch by the `idempotency_key` it was pushed with and carries
+ * `operation` 'update' (with the new timestamp, action, punch type and key) or 'void'.
+ * @param transactions - 'correction_pending' transactions.
+ * @param employeeIds - Resolved `hr.employee` ID per transaction ID.
+ * @param session - The Odoo session to push with.
+ * @param policies - How break, overtime and unknown punches are sent.
+ * @returns {Promise<AttendanceCorrectionOutcome[]>} One outcome per transaction.
+ */
+export async function pushCustomCorrections(
+  transactions: AttendanceTransaction[],
+  employeeIds: Record<string, number>,
+  session: OdooSession,
+  policies: PunchTypePolicies = DEFAULT_PUNCH_TYPE_POLICIES
+): Promise<AttendanceCorrectionOutcome[]> {
+  const outcomes: AttendanceCorrectionOutcome[] = [];
+  for (const transaction of transactions) {
+    const correction = {
+      operation: transaction.voided_at ? 'void' : 'update',
+      original_idempotency_key: buildDedupKey(transaction, transaction.pushed_time!),
+      employee_id: employeeIds[transaction.id],
+      employee_external_id: transaction.employee_id,
+      timestamp: transaction.transaction_time,
+      action: customEndpointAction(transaction.transaction_type, policies),
+      punch_type: transaction.transaction_type,
+      device_id: transaction.device_id,
+      idempotency_key: transaction.dedup_key,
+    };
+    const response = await odooCall<CustomEndpointResult>(CUSTOM_CORRECTION_ENDPOINT_PATH, { corrections: [correction] }, session);
+    const odooResult = response.data;
+    if (response.success && odooResult && (odooResult === true || odooResult.success)) {
+      outcomes.push({ transactionId: transaction.id, success: true });
+    } else if (response.success) {
+      outcomes.push({ transactionId: transaction.id, success: false, error: `Odoo reported an issue with the correction: ${JSON.stringify(odooResult).substring(0, 300)}` });
+    } else {
+      outcomes.push(failedCorrection(transaction, response, 'The correction could not be sent.'));
+    }
+  }
+  return outcomes;
+}
@@ -0,0 +1,87 @@
+// Client-side access to the server's Odoo connection profiles (see src/lib/server/odoo-profiles.ts).
+// A profile keeps the Odoo session cookies on the server, so the browser only ever holds its ID.
+// It can also keep the login, encrypted, so the server logs in again on its own when Odoo expires the session.
+
+import type { UhhAuthResponseResult } from '@/lib/odoo/api';
+
+export interface OdooConnectionProfile {
+  id: string;
+  url: string; // Base URL of the Odoo instance
+  db: string;
+  login: string;
+  uid: number | null;
+  updatedAt: string;
+}
+
+export interface SavedOdooLogin {
+  login: string;
+  updatedAt: string;
+}
+
+export interface OdooLoginResult {
+  profile: OdooConnectionProfile;
+  user: UhhAuthResponseResult;
+  savedLogin: SavedOdooLogin | null; // Set when the login was saved for automatic re-login
+}
+
+const ODOO_SESSION_API_URL = '/api/odoo-session';
+
+async function requestJson<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, { cache: 'no-store', ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+  return body as T;
+}
+
+/**
+ * Logs in to Odoo through the server, which keeps the session cookies in a connection profile.
+ * @param remember - Also save the credentials (encrypted) for automatic re-login; otherwise any saved ones are removed.
+ */
+export async function loginToOdoo(url: string, db: string, login: string, password: string, remember: boolean): Promise<OdooLoginResult> {
+  return requestJson<OdooLoginResult>(ODOO_SESSION_API_URL, {
+    method: 'POST',
+    body: JSON.stringify({ action: 'login', url, db, login, password, remember }),
+  });
+}
+
+/**
+ * Hands a session ID kept in the browser by earlier versions over to a server-side connection profile.
+ * @returns {Promise<OdooConnectionProfile>} The profile now holding the session.
+ */
+export async function adoptOdooSession(url: string, db: string, login: string, sessionId: string): Promise<OdooConnectionProfile> {
+  const body = await requestJson<{ profile: OdooConnectionProfile }>(ODOO_SESSION_API_URL, {
+    method: 'POST',
+    body: JSON.stringify({ action: 'adopt_session', url, db, login, sessionId }),
+  });
+  return body.profile;
+}
+
+/**
+ * @returns The login saved for automatic re-login with this profile, or null if none is saved.
+ */
+export async function getSavedOdooLogin(profileId: string): Promise<SavedOdooLogin | null> {
+  const params = new URLSearchParams({ profileId });
+  const body = await requestJson<{ savedLogin: SavedOdooLogin | null }>(`${ODOO_SESSION_API_URL}?${params.toString()}`);
+  return body.savedLogin;
+}
+
+/**
+ * Removes the saved credentials, turning automatic re-login off.
+ */
+export async function forgetOdooLogin(profileId: string): Promise<void> {
+  await requestJson(ODOO_SESSION_API_URL, { method: 'POST', body: JSON.stringify({ action: 'forget_credentials', profileId }) });
+}
+
+/**
+ * Has the server log in again with the saved credentials. The new session stays in the profile.
+ */
+export async function reloginWithSavedCredentials(profileId: string): Promise<void> {
+  await requestJson(ODOO_SESSION_API_URL, { method: 'POST', body: JSON.stringify({ action: 'relogin', profileId }) });
+}
+
+/**
+ * Deletes the profile on the server, together with its session cookies and saved credentials.
+ */
+export async function logoutOdooProfile(profileId: string): Promise<void> {
+  await requestJson(ODOO_SESSION_API_URL, { method: 'POST', body: JSON.stringify({ action: 'logout', profileId }) });
+}
@@ -0,0 +1,89 @@
+// Client-side access to the punch-code mappings.
+// Sources report what a punch was as a raw code: the keypad attendance state on ZKTeco clocks, BioTime and
+// ADMS, the RecordType letter in SecureLink. Each source module keeps a table of its standard codes; a
+// mapping saved for the source, or for one of its devices, takes precedence over it. Codes neither maps
+// are stored as 'unknown' so they can be mapped later (see src/lib/server/punch-code-store.ts).
+
+import { TRANSACTION_TYPES, type TransactionType } from '@/lib/attendance-manager';
+
+// 'ignore': the code is not an attendance punch (e.g. a door event) and is skipped on import.
+export type PunchCodeTarget = TransactionType | 'ignore';
+
+/** Device ID of the mapping applied to every device of a source without a mapping of its own. */
+export const ALL_DEVICES = '*';
+
+export const PUNCH_CODE_TARGETS: PunchCodeTarget[] = [...TRANSACTION_TYPES.filter(type => type !== 'unknown'), 'ignore'];
+
+export interface PunchCodeMapping {
+  source_type: string;
+  device_id: string; // ALL_DEVICES or a device serial / ID as stored on transactions
+  punch_code: string;
+  transaction_type: PunchCodeTarget;
+  updated_at: string;
+}
+
+export interface UnknownPunchCode {
+  device_id: string;
+  punch_code: string;
+  count: number; // Stored punches with this code and type 'unknown'
+}
+
+export interface PunchCodeOverview {
+  mappings: PunchCodeMapping[];
+  unknownCodes: UnknownPunchCode[];
+}
+
+// Maps a punch code reported by a device to the type the punch is stored as.
+export type PunchCodeResolver = (deviceId: string, code: string | number) => PunchCodeTarget;
+
+const PUNCH_CODES_API_URL = '/api/punch-codes';
+
+/**
+ * Brings codes to the form mappings are stored in: trimmed and upper case, so 'i' and 'I' match.
+ */
+export function normalizePunchCode(code: string | number): string {
+  return String(code).trim().toUpperCase();
+}
+
+/**
+ * Builds a resolver that looks a code up in the device's mappings, then the source-wide mappings,
+ * then the source's standard codes.
+ * @param defaults - The source's standard codes.
+ * @param mappings - Saved mappings of the source.
+ */
+export function createPunchCodeResolver(defaults: Record<string, TransactionType>, mappings: PunchCodeMapping[] = []): PunchCodeResolver {
+  const saved = new Map(mappings.map(m => [`${m.device_id}|${m.punch_code}`, m.transaction_type]));
+  return (deviceId, code) => {
+    const normalized = normalizePunchCode(code);
+    return saved.get(`${deviceId}|${normalized}`) ?? saved.get(`${ALL_DEVICES}|${normalized}`) ?? defaults[normalized] ?? 'unknown';
+  };
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { cache: 'no-store', ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+  return body as T;
+}
+
+/**
+ * Loads a source's saved mappings and the codes of its stored 'unknown' punches.
+ */
+export async function getPunchCodeOverview(sourceType: string): Promise<PunchCodeOverview> {
+  return requestJson<PunchCodeOverview>(`${PUNCH_CODES_API_URL}?source=${encodeURIComponent(sourceType)}`);
+}
+
+/**
+ * Saves (or, with `target` null, removes) a mapping. Stored 'unknown' punches with the code take the new
+ * type, and those the push skipped go back to the queue; punches already typed keep their type.
+ * Removing a mapping lets the source-wide mapping or the standard codes apply again.
+ * @returns The number of stored punches re-typed.
+ */
+export async function savePunchCodeMapping(sourceType: string, deviceId: string, punchCode: string, target: PunchCodeTarget | null): Promise<{ retyped: number }> {
+  const result = await requestJson<{ retyped: number }>(PUNCH_CODES_API_URL, {
+    method: 'PUT',
+    body: JSON.stringify({ source_type: sourceType, device_id: deviceId, punch_code: punchCode, transaction_type: target }),
+  });
+  if (result.retyped > 0) window.dispatchEvent(new CustomEvent('attendanceTransactionsUpdated'));
+  return result;
+}
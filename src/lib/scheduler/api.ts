@@ -0,0 +1,124 @@
+// Background job scheduler. Source fetches, the Odoo push and log retention run inside the server process
+// (src/lib/server/scheduler.ts, started from src/instrumentation.ts), so they keep running with no
+// browser tab open. Pages configure jobs and trigger manual runs through /api/scheduler.
+
+import type { LogRetentionDays } from '@/lib/app-logger';
+import type { PunchTypePolicies, PushMode } from '@/lib/odoo/attendance-push';
+
+export type SchedulerJobId = 'odoo_push' | 'securelink_fetch' | 'biotime_fetch' | 'zktime_fetch' | 'log_retention';
+export type SchedulerRunStatus = 'success' | 'error' | 'skipped';
+
+export interface SchedulerJob {
+  id: SchedulerJobId;
+  label: string;
+  enabled: boolean;
+  frequency: string; // e.g. '15m', '1h'
+  configured: boolean; // Connection settings have been saved (they are never sent back to the browser)
+  settings?: object | null; // Saved settings of jobs that hold no credentials (log retention); null until saved
+  state: SchedulerJobState;
+  running: boolean;
+  runningSince: string | null;
+  lastRunAt: string | null;
+  lastStatus: SchedulerRunStatus | null;
+  lastMessage: string | null;
+  lastSuccessAt: string | null;
+  nextRunAt: string | null;
+}
+
+export interface SchedulerJobState {
+  lastRecordTime?: string; // Fetch jobs: newest source record imported so far
+}
+
+// Settings of the 'odoo_push' job. The fetch jobs take their source's connection config
+// (SecureLinkConfig, BiotimeConfig, ZkDeviceConfig).
+export interface OdooPushJobConfig {
+  profileId: string; // Odoo connection profile whose session the push uses (see src/lib/server/odoo-profiles.ts)
+  pushMode: PushMode;
+  batchSize: number;
+  typePolicies: PunchTypePolicies; // How break, overtime and unknown punches are pushed
+}
+
+// Settings of the 'log_retention' job. Without saved settings it uses DEFAULT_LOG_RETENTION_DAYS.
+export interface LogRetentionJobConfig {
+  retentionDays: LogRetentionDays;
+}
+
+export interface SchedulerJobUpdate {
+  enabled?: boolean;
+  frequency?: string;
+  config?: object | null; // The job's settings; null clears them
+  initialState?: SchedulerJobState; // Applied only when the job has no state yet
+}
+
+export const SCHEDULER_JOB_IDS: SchedulerJobId[] = ['odoo_push', 'securelink_fetch', 'biotime_fetch', 'zktime_fetch', 'log_retention'];
+
+export const SCHEDULER_JOB_LABELS: Record<SchedulerJobId, string> = {
+  odoo_push: 'Odoo push',
+  securelink_fetch: 'SecureLink fetch',
+  biotime_fetch: 'ZKBiotime fetch',
+  zktime_fetch: 'ZKTime fetch',
+  log_retention: 'Log retention',
+};
+
+const SCHEDULER_API_URL = '/api/scheduler';
+
+/**
+ * Converts a frequency such as '30m' or '2h' to milliseconds, or null if it is malformed.
+ */
+export function frequencyToMs(frequency: string): number | null {
+  const match = /^(\d+)([mh])$/.exec(frequency);
+  if (!match || Number(match[1]) <= 0) return null;
+  return Number(match[1]) * (match[2] === 'h' ? 3600000 : 60000);
+}
+
+function notifySchedulerUpdated(): void {
+  window.dispatchEvent(new CustomEvent('schedulerJobsUpdated'));
+}
+
+async function requestJson<T>(init?: RequestInit): Promise<T> {
+  const response = await fetch(SCHEDULER_API_URL, { cache: 'no-store', ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+  return body as T;
+}
+
+/**
+ * Lists every job with its schedule, last run and next run.
+ */
+export async function getSchedulerJobs(): Promise<SchedulerJob[]> {
+  const body = await requestJson<{ jobs: SchedulerJob[] }>();
+  return body.jobs;
+}
+
+/**
+ * Updates a job's schedule and/or connection settings. Omitted fields are left unchanged.
+ */
+export async function configureSchedulerJob(jobId: SchedulerJobId, update: SchedulerJobUpdate): Promise<SchedulerJob> {
+  const body = await requestJson<{ job: SchedulerJob }>({ method: 'POST', body: JSON.stringify({ action: 'configure', jobId, ...update }) });
+  notifySchedulerUpdated();
+  return body.job;
+}
+
+/**
+ * Runs a job now and waits for it to finish. Fails if the job is already running.
+ * @param params - Job-specific options for this run only (e.g. `{ upTo }` for the SecureLink fetch).
+ * @returns {Promise<SchedulerJob>} The job after the run; `lastStatus`/`lastMessage` describe the outcome.
+ */
+export async function runSchedulerJob(jobId: SchedulerJobId, params: Record<string, unknown> = {}): Promise<SchedulerJob> {
+  try {
+    const body = await requestJson<{ job: SchedulerJob }>({ method: 'POST', body: JSON.stringify({ action: 'run', jobId, params }) });
+    return body.job;
+  } finally {
+    notifySchedulerUpdated();
+    window.dispatchEvent(new CustomEvent('attendanceTransactionsUpdated'));
+  }
+}
+
+/**
+ * Clears a job's state, e.g. the import watermark of a fetch job, so the next run starts over.
+ */
+export async function resetSchedulerJobState(jobId: SchedulerJobId): Promise<SchedulerJob> {
+  const body = await requestJson<{ job: SchedulerJob }>({ method: 'POST', body: JSON.stringify({ action: 'reset_state', jobId }) });
+  notifySchedulerUpdated();
+  return body.job;
+}
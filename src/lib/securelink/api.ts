@@ -0,0 +1,106 @@
+// SecureLink AAS integration. AAS keeps punches in a password-protected Access (.mdb) database;
+// the file is read server-side (src/lib/server/securelink-reader.ts, used by /api/securelink and the
+// 'securelink_fetch' scheduler job), so the path refers to the machine running this app.
+// This module is the client-side entry point.
+
+import { createPunchCodeResolver, normalizePunchCode, type PunchCodeResolver } from '@/lib/punch-codes';
+import type { NewAttendanceTransaction, TransactionType } from '@/lib/attendance-manager';
+
+export interface SecureLinkConfig {
+  filePath: string;
+  password: string;
+}
+
+export interface SecureLinkRecord {
+  userId: string;
+  employeeId: string; // Employee string ID from the Employee table, or the UserID when there is none
+  recordDate: string; // ISO 8601
+  recordType: string; // 'I' or 'O'
+  deviceId: string;
+}
+
+export interface SecureLinkDatabaseSummary {
+  recordCount: number;
+  employeeCount: number;
+  latestRecordDate: string | null;
+}
+
+export interface SecureLinkFetchResult {
+  records: SecureLinkRecord[]; // Records after the watermark, up to the fetch-up-to time
+  alreadyImported: number; // Records at or before the watermark
+}
+
+interface SecureLinkResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export const SECURELINK_SOURCE_TYPE = 'securelink';
+
+const SECURELINK_API_URL = '/api/securelink';
+
+// AAS RecordTypes; other letters are stored as 'unknown' unless a punch-code mapping covers them.
+export const SECURELINK_RECORD_TYPES: Record<string, TransactionType> = {
+  I: 'check-in',
+  O: 'check-out',
+};
+
+async function callSecureLink<T>(body: Record<string, unknown>): Promise<SecureLinkResponse<T>> {
+  try {
+    const response = await fetch(SECURELINK_API_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) return { success: false, error: result.error || `HTTP ${response.status}` };
+    return { success: true, data: result as T };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[SecureLink] Request to SecureLink API route failed:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Opens the AAS database with the password and summarizes its contents.
+ */
+export async function testSecureLinkConnection(config: SecureLinkConfig): Promise<SecureLinkResponse<SecureLinkDatabaseSummary>> {
+  return callSecureLink({ action: 'test', config });
+}
+
+/**
+ * Converts AAS records into attendance transactions. Rows whose RecordType is mapped to 'ignore' are skipped.
+ * @param resolvePunchCode - Maps RecordTypes to types; 'I' and 'O' by default.
+ * @returns The transactions to store, the number skipped and the newest record date seen.
+ */
+export function toSecureLinkTransactions(
+  records: SecureLinkRecord[],
+  resolvePunchCode: PunchCodeResolver = createPunchCodeResolver(SECURELINK_RECORD_TYPES)
+): { transactions: NewAttendanceTransaction[]; skipped: number; latestTimestamp?: string } {
+  const transactions: NewAttendanceTransaction[] = [];
+  let skipped = 0;
+  let latest: string | undefined;
+
+  for (const record of records) {
+    // Advance past skipped rows too, so they aren't re-read on every fetch.
+    if (!latest || record.recordDate > latest) latest = record.recordDate;
+    const type = resolvePunchCode(record.deviceId, record.recordType);
+    if (type === 'ignore') {
+      skipped++;
+      continue;
+    }
+    transactions.push({
+      employee_id: record.employeeId,
+      transaction_type: type,
+      transaction_time: record.recordDate,
+      source_type: SECURELINK_SOURCE_TYPE,
+      device_id: record.deviceId,
+      punch_code: normalizePunchCode(record.recordType),
+      status: 'not_uploaded',
+    });
+  }
+
+  return { transactions, skipped, latestTimestamp: latest };
+}
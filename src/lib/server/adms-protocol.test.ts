@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseAttlog } from '@/lib/server/adms-protocol';
+
+// Devices send wall-clock time without a zone, which the parser reads in the server's time zone.
+const localIso = (wallClock: string) => new Date(wallClock.replace(' ', 'T')).toISOString();
+
+describe('parseAttlog', () => {
+  it('parses one punch per tab-separated line', () => {
+    const body = '1001\t2024-05-01 08:30:00\t0\t1\t0\t0\n1002\t2024-05-01 17:05:12\t1\t15\t0\t0\n';
+    expect(parseAttlog(body)).toEqual({
+      punches: [
+        { pin: '1001', time: localIso('2024-05-01 08:30:00'), status: 0, verify: 1 },
+        { pin: '1002', time: localIso('2024-05-01 17:05:12'), status: 1, verify: 15 },
+      ],
+      invalid: 0,
+    });
+  });
+
+  it('accepts CRLF line endings and skips blank lines', () => {
+    const { punches, invalid } = parseAttlog('1001\t2024-05-01 08:30:00\t0\t1\r\n\r\n1002\t2024-05-01 09:00:00\t1\t1\r\n');
+    expect(punches.map(punch => punch.pin)).toEqual(['1001', '1002']);
+    expect(invalid).toBe(0);
+  });
+
+  it('counts lines without a readable time as invalid', () => {
+    const { punches, invalid } = parseAttlog('1002\tnot a time\t0\t1\n1003\n1004\t2024-05-01 08:31:00\t0\t1');
+    expect(punches.map(punch => punch.pin)).toEqual(['1004']);
+    expect(invalid).toBe(2);
+  });
+
+  it('defaults a missing or non-numeric status and verify mode to 0', () => {
+    const { punches } = parseAttlog('1001\t2024-05-01 08:30:00\n1002\t2024-05-01 08:31:00\tx\ty');
+    expect(punches.map(({ status, verify }) => ({ status, verify }))).toEqual([{ status: 0, verify: 0 }, { status: 0, verify: 0 }]);
+  });
+});
@@ -0,0 +1,144 @@
+// Text formats of the ZKTeco ADMS push protocol. Devices upload tab-separated records
+// and poll for commands over plain HTTP; this module parses uploads and formats replies.
+
+import { NextResponse } from 'next/server';
+import type { AdmsDeviceInfo } from '@/lib/zkteco/adms/api';
+
+export interface AdmsPunch {
+  pin: string;
+  time: string; // ISO 8601
+  status: number; // Attendance state, same codes as the ZK protocol
+  verify: number;
+}
+
+export interface AdmsUserRecord {
+  pin: string;
+  name: string;
+  privilege: number;
+  card: string;
+}
+
+export interface AdmsCommandResult {
+  id: number;
+  returnCode: number;
+}
+
+/**
+ * Parses a device 'YYYY-MM-DD HH:MM:SS' timestamp. Devices send local wall-clock time without a zone,
+ * so it is read in the server's local time zone.
+ */
+function parseDeviceTime(value: string): Date | null {
+  const date = new Date(value.trim().replace(' ', 'T'));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function splitLines(body: string): string[] {
+  return body.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+}
+
+/**
+ * Parses `Key=Value` pairs separated by tabs (USER records) or `&` (command replies).
+ */
+function parsePairs(text: string, separator: RegExp): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  for (const part of text.split(separator)) {
+    const index = part.indexOf('=');
+    if (index > 0) pairs[part.substring(0, index).trim()] = part.substring(index + 1).trim();
+  }
+  return pairs;
+}
+
+/**
+ * Parses an ATTLOG upload: one punch per line, `PIN\tTIME\tSTATUS\tVERIFY\tWORKCODE...`.
+ * @returns Parsed punches and the number of malformed lines.
+ */
+export function parseAttlog(body: string): { punches: AdmsPunch[]; invalid: number } {
+  const punches: AdmsPunch[] = [];
+  let invalid = 0;
+  for (const line of splitLines(body)) {
+    const [pin, time, status, verify] = line.split('\t');
+    const date = time ? parseDeviceTime(time) : null;
+    if (!pin || !date) {
+      invalid++;
+      continue;
+    }
+    punches.push({ pin: pin.trim(), time: date.toISOString(), status: Number(status) || 0, verify: Number(verify) || 0 });
+  }
+  return { punches, invalid };
+}
+
+/**
+ * Parses an OPERLOG upload. It mixes `OPLOG` operation records, `USER` records and `FP` templates;
+ * only users are kept, the rest is counted so it can be acknowledged.
+ */
+export function parseOperlog(body: string): { users: AdmsUserRecord[]; lineCount: number } {
+  const users: AdmsUserRecord[] = [];
+  const lines = splitLines(body);
+  for (const line of lines) {
+    if (!line.startsWith('USER ')) continue;
+    const fields = parsePairs(line.substring(5), /\t/);
+    if (!fields.PIN) continue;
+    users.push({ pin: fields.PIN, name: fields.Name || '', privilege: Number(fields.Pri) || 0, card: fields.Card || '' });
+  }
+  return { users, lineCount: lines.length };
+}
+
+/**
+ * Parses the `INFO` query parameter sent with getrequest:
+ * `firmware,users,fingerprints,attendance records,ip,...`.
+ */
+export function parseDeviceInfo(info: string): AdmsDeviceInfo {
+  const [firmwareVersion, users, fingerprints, records, ip] = info.split(',');
+  const toNumber = (value?: string) => (value && !isNaN(Number(value)) ? Number(value) : undefined);
+  return {
+    firmwareVersion: firmwareVersion || undefined,
+    userCount: toNumber(users),
+    fingerprintCount: toNumber(fingerprints),
+    attendanceCount: toNumber(records),
+    deviceIp: ip || undefined,
+  };
+}
+
+/**
+ * Parses devicecmd replies: one `ID=..&Return=..&CMD=..` line per executed command.
+ */
+export function parseCommandResults(body: string): AdmsCommandResult[] {
+  return splitLines(body)
+    .map(line => parsePairs(line, /&/))
+    .filter(fields => fields.ID && !isNaN(Number(fields.ID)))
+    .map(fields => ({ id: Number(fields.ID), returnCode: Number(fields.Return ?? 0) }));
+}
+
+/**
+ * Builds the handshake reply telling the device where to resume uploads and how often to poll.
+ */
+export function buildHandshake(serialNumber: string, attlogStamp: string | null, operlogStamp: string | null): string {
+  return [
+    `GET OPTION FROM: ${serialNumber}`,
+    `ATTLOGStamp=${attlogStamp || 'None'}`,
+    `OPERLOGStamp=${operlogStamp || 'None'}`,
+    'ATTPHOTOStamp=None',
+    'ErrorDelay=60',
+    'Delay=30',
+    'TransTimes=00:00;12:00',
+    'TransInterval=1',
+    'TransFlag=TransData AttLog OpLog EnrollUser ChgUser',
+    `TimeZone=${-new Date().getTimezoneOffset() / 60}`,
+    'Realtime=1',
+    'Encrypt=None',
+  ].join('\n');
+}
+
+/**
+ * Devices expect plain-text replies, never JSON.
+ */
+export function textReply(text: string, status = 200): NextResponse {
+  return new NextResponse(text, { status, headers: { 'Content-Type': 'text/plain' } });
+}
+
+/**
+ * The address the device connected from, taking a reverse proxy into account.
+ */
+export function deviceIp(headers: Headers): string | null {
+  return headers.get('x-forwarded-for')?.split(',')[0].trim() || headers.get('x-real-ip');
+}
@@ -0,0 +1,168 @@
+// Server-side store for ADMS push devices, their uploaded users and queued commands.
+
+import { getDb } from '@/lib/server/db';
+import { addAttendanceTransactions } from '@/lib/server/attendance-store';
+import { getPunchCodeResolver } from '@/lib/server/punch-code-store';
+import type { AdmsCommandResult, AdmsPunch, AdmsUserRecord } from '@/lib/server/adms-protocol';
+import { ADMS_SOURCE_TYPE, type AdmsCommand, type AdmsDevice, type AdmsDeviceInfo } from '@/lib/zkteco/adms/api';
+import { ZK_PUNCH_CODES } from '@/lib/zkteco/time/api';
+import type { NewAttendanceTransaction } from '@/lib/attendance-manager';
+
+const RECENT_COMMANDS_LIMIT = 100;
+
+interface DeviceRow {
+  serial_number: string;
+  approved: number;
+  push_version: string | null;
+  device_info: string | null;
+  last_ip: string | null;
+  attlog_stamp: string | null;
+  operlog_stamp: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+export interface DeviceContact {
+  serialNumber: string;
+  ip: string | null;
+  pushVersion?: string | null;
+  info?: AdmsDeviceInfo;
+}
+
+/**
+ * Records that a device made contact, registering it (unapproved) the first time it is seen.
+ * @returns The device row after the update.
+ */
+export function touchDevice(contact: DeviceContact): DeviceRow {
+  const db = getDb();
+  const now = new Date().toISOString();
+  db.prepare(`
+    INSERT INTO adms_devices (serial_number, push_version, device_info, last_ip, first_seen_at, last_seen_at)
+    VALUES (@serial_number, @push_version, @device_info, @last_ip, @now, @now)
+    ON CONFLICT (serial_number) DO UPDATE SET
+      push_version = COALESCE(excluded.push_version, push_version),
+      device_info = COALESCE(excluded.device_info, device_info),
+      last_ip = COALESCE(excluded.last_ip, last_ip),
+      last_seen_at = excluded.last_seen_at
+  `).run({
+    serial_number: contact.serialNumber,
+    push_version: contact.pushVersion ?? null,
+    device_info: contact.info ? JSON.stringify(contact.info) : null,
+    last_ip: contact.ip,
+    now,
+  });
+  return db.prepare('SELECT * FROM adms_devices WHERE serial_number = ?').get(contact.serialNumber) as DeviceRow;
+}
+
+export function listAdmsDevices(): AdmsDevice[] {
+  const rows = getDb().prepare(`
+    SELECT d.*, (SELECT COUNT(*) FROM adms_users u WHERE u.serial_number = d.serial_number) AS user_count
+    FROM adms_devices d ORDER BY d.last_seen_at DESC
+  `).all() as Array<DeviceRow & { user_count: number }>;
+  return rows.map(row => ({
+    serial_number: row.serial_number,
+    approved: row.approved === 1,
+    push_version: row.push_version,
+    device_info: row.device_info ? JSON.parse(row.device_info) : {},
+    last_ip: row.last_ip,
+    attlog_stamp: row.attlog_stamp,
+    first_seen_at: row.first_seen_at,
+    last_seen_at: row.last_seen_at,
+    user_count: row.user_count,
+  }));
+}
+
+/**
+ * @returns {boolean} False if the device has never contacted the server.
+ */
+export function setDeviceApproval(serialNumber: string, approved: boolean): boolean {
+  return getDb().prepare('UPDATE adms_devices SET approved = ? WHERE serial_number = ?').run(approved ? 1 : 0, serialNumber).changes > 0;
+}
+
+/**
+ * Stores uploaded punches as attendance transactions and advances the device's ATTLOG stamp.
+ * @returns Counts of stored punches, punches already stored, and punches skipped for a state mapped to 'ignore'.
+ */
+export function ingestPunches(serialNumber: string, punches: AdmsPunch[], stamp: string | null): { inserted: number; duplicates: number; skipped: number } {
+  const resolvePunchCode = getPunchCodeResolver(ADMS_SOURCE_TYPE, ZK_PUNCH_CODES);
+  const transactions: NewAttendanceTransaction[] = [];
+  let skipped = 0;
+  for (const punch of punches) {
+    const type = resolvePunchCode(serialNumber, punch.status);
+    if (type === 'ignore') {
+      skipped++;
+      continue;
+    }
+    transactions.push({
+      employee_id: punch.pin,
+      transaction_type: type,
+      transaction_time: punch.time,
+      source_type: ADMS_SOURCE_TYPE,
+      device_id: serialNumber,
+      punch_code: String(punch.status),
+      status: 'not_uploaded',
+    });
+  }
+
+  const db = getDb();
+  return db.transaction(() => {
+    const { inserted, duplicates } = addAttendanceTransactions(transactions);
+    if (stamp) db.prepare('UPDATE adms_devices SET attlog_stamp = ? WHERE serial_number = ?').run(stamp, serialNumber);
+    return { inserted, duplicates, skipped };
+  })();
+}
+
+/**
+ * Upserts users uploaded through OPERLOG and advances the device's OPERLOG stamp.
+ */
+export function saveDeviceUsers(serialNumber: string, users: AdmsUserRecord[], stamp: string | null): void {
+  const db = getDb();
+  const upsert = db.prepare(`
+    INSERT INTO adms_users (serial_number, pin, name, privilege, card, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (serial_number, pin) DO UPDATE SET name = excluded.name, privilege = excluded.privilege, card = excluded.card, updated_at = excluded.updated_at
+  `);
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    for (const user of users) upsert.run(serialNumber, user.pin, user.name, user.privilege, user.card, now);
+    if (stamp) db.prepare('UPDATE adms_devices SET operlog_stamp = ? WHERE serial_number = ?').run(stamp, serialNumber);
+  })();
+}
+
+export function queueCommand(serialNumber: string, command: string): AdmsCommand {
+  const db = getDb();
+  const result = db.prepare("INSERT INTO adms_commands (serial_number, command, status, created_at) VALUES (?, ?, 'pending', ?)")
+    .run(serialNumber, command, new Date().toISOString());
+  return db.prepare('SELECT * FROM adms_commands WHERE id = ?').get(result.lastInsertRowid) as AdmsCommand;
+}
+
+export function listRecentCommands(): AdmsCommand[] {
+  return getDb().prepare('SELECT * FROM adms_commands ORDER BY id DESC LIMIT ?').all(RECENT_COMMANDS_LIMIT) as AdmsCommand[];
+}
+
+/**
+ * Hands the device its pending commands and marks them as sent.
+ */
+export function takePendingCommands(serialNumber: string): AdmsCommand[] {
+  const db = getDb();
+  return db.transaction(() => {
+    const commands = db.prepare("SELECT * FROM adms_commands WHERE serial_number = ? AND status = 'pending' ORDER BY id").all(serialNumber) as AdmsCommand[];
+    const markSent = db.prepare("UPDATE adms_commands SET status = 'sent', sent_at = ? WHERE id = ?");
+    const now = new Date().toISOString();
+    for (const command of commands) markSent.run(now, command.id);
+    return commands;
+  })();
+}
+
+/**
+ * Records the device's replies to executed commands. Return code 0 means success.
+ * @returns {number} The number of commands updated.
+ */
+export function completeCommands(serialNumber: string, results: AdmsCommandResult[]): number {
+  const db = getDb();
+  const update = db.prepare('UPDATE adms_commands SET status = ?, return_code = ?, completed_at = ? WHERE id = ? AND serial_number = ?');
+  const now = new Date().toISOString();
+  return db.transaction(() => results.reduce(
+    (count, result) => count + update.run(result.returnCode === 0 ? 'done' : 'failed', result.returnCode, now, result.id, serialNumber).changes,
+    0
+  ))();
+}
@@ -0,0 +1,183 @@
+// Server-side store for the exception rule settings and the exceptions they raise.
+// Exceptions are re-evaluated whenever the transactions they concern are checked again: ones that no
+// longer apply are cleared, while ones a supervisor dismissed stay dismissed.
+
+import { getDb } from '@/lib/server/db';
+import { listAttendanceTransactions } from '@/lib/server/attendance-store';
+import {
+  DEFAULT_ANOMALY_SETTINGS,
+  detectAnomalies,
+  type AnomalyRule,
+  type AnomalyScanResult,
+  type AnomalySettings,
+  type AttendanceAnomaly,
+} from '@/lib/attendance-anomalies';
+import type { AttendanceChangeAuthor, AttendanceTransaction } from '@/lib/attendance-manager';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPEN_ANOMALY_EXISTS = `EXISTS (
+  SELECT 1 FROM attendance_anomalies a WHERE a.transaction_id = attendance_transactions.id AND a.resolved_at IS NULL
+)`;
+
+export function getAnomalySettings(): AnomalySettings {
+  const row = getDb().prepare('SELECT settings FROM anomaly_settings WHERE id = 1').get() as { settings: string } | undefined;
+  return row ? { ...DEFAULT_ANOMALY_SETTINGS, ...JSON.parse(row.settings) } : { ...DEFAULT_ANOMALY_SETTINGS };
+}
+
+/**
+ * Holds queued transactions that have an open exception, if holding is on, and releases held ones
+ * that have none left (or all of them, if holding is off).
+ */
+function applyHolds(holdFlagged: boolean): { held: number; released: number } {
+  const db = getDb();
+  const held = holdFlagged
+    ? db.prepare(`UPDATE attendance_transactions SET status = 'held' WHERE status IN ('not_uploaded', 'pending_retry') AND ${OPEN_ANOMALY_EXISTS}`).run().changes
+    : 0;
+  const released = db.prepare(`
+    UPDATE attendance_transactions SET status = 'not_uploaded', next_attempt_at = NULL
+    WHERE status = 'held' AND (@holdFlagged = 0 OR NOT ${OPEN_ANOMALY_EXISTS})
+  `).run({ holdFlagged: holdFlagged ? 1 : 0 }).changes;
+  return { held, released };
+}
+
+/**
+ * Saves the rule settings and applies the hold setting to the transactions already flagged.
+ */
+export function saveAnomalySettings(settings: AnomalySettings): { held: number; released: number } {
+  const db = getDb();
+  return db.transaction(() => {
+    db.prepare(`
+      INSERT INTO anomaly_settings (id, settings, updated_at) VALUES (1, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET settings = excluded.settings, updated_at = excluded.updated_at
+    `).run(JSON.stringify(settings), new Date().toISOString());
+    return applyHolds(settings.holdFlagged);
+  })();
+}
+
+/**
+ * Runs the rules for the given transactions, with each employee's punches around them as context, and
+ * records the outcome: new exceptions are opened, cleared ones that apply again are reopened and open
+ * ones that no longer apply are cleared.
+ */
+function checkTransactions(targets: AttendanceTransaction[], settings: AnomalySettings, now: Date): AnomalyScanResult {
+  if (targets.length === 0) return { scanned: 0, flagged: 0, held: 0, released: 0 };
+  const db = getDb();
+  const times = targets.map(t => new Date(t.transaction_time).getTime());
+  // The rules only look back, so the context ends at the latest target.
+  const context = listAttendanceTransactions({
+    employeeIds: Array.from(new Set(targets.map(t => t.employee_id))),
+    from: new Date(Math.min(...times) - settings.historyDays * DAY_MS).toISOString(),
+    to: new Date(Math.max(...times)).toISOString(),
+    order: 'asc',
+  });
+  const targetIds = new Set(targets.map(t => t.id));
+  const detected = detectAnomalies(context, settings).filter(a => targetIds.has(a.transaction_id));
+
+  const nowIso = now.toISOString();
+  const upsert = db.prepare(`
+    INSERT INTO attendance_anomalies (transaction_id, rule, employee_id, message, related_transaction_id, detected_at)
+    VALUES (@transaction_id, @rule, @employee_id, @message, @related_transaction_id, @detected_at)
+    ON CONFLICT (transaction_id, rule) DO UPDATE SET
+      message = excluded.message,
+      related_transaction_id = excluded.related_transaction_id,
+      detected_at = CASE WHEN resolution = 'cleared' THEN excluded.detected_at ELSE detected_at END,
+      resolved_at = CASE WHEN resolution = 'cleared' THEN NULL ELSE resolved_at END,
+      resolution = CASE WHEN resolution = 'cleared' THEN NULL ELSE resolution END
+  `);
+  const clear = db.prepare(`
+    UPDATE attendance_anomalies SET resolved_at = ?, resolution = 'cleared'
+    WHERE transaction_id = ? AND resolved_at IS NULL AND rule NOT IN (SELECT value FROM json_each(?))
+  `);
+  const countOpen = db.prepare(`
+    SELECT COUNT(DISTINCT transaction_id) AS count FROM attendance_anomalies
+    WHERE resolved_at IS NULL AND transaction_id IN (SELECT value FROM json_each(?))
+  `);
+
+  return db.transaction((): AnomalyScanResult => {
+    const rulesByTransaction = new Map<string, AnomalyRule[]>();
+    for (const anomaly of detected) {
+      upsert.run({ ...anomaly, detected_at: nowIso });
+      rulesByTransaction.set(anomaly.transaction_id, [...rulesByTransaction.get(anomaly.transaction_id) ?? [], anomaly.rule]);
+    }
+    for (const id of targetIds) clear.run(nowIso, id, JSON.stringify(rulesByTransaction.get(id) ?? []));
+
+    const { count } = countOpen.get(JSON.stringify(Array.from(targetIds))) as { count: number };
+    return { scanned: targets.length, flagged: count, ...applyHolds(settings.holdFlagged) };
+  })();
+}
+
+/**
+ * Checks every transaction of the last `historyDays` days.
+ */
+export function scanRecentTransactions(now: Date = new Date()): AnomalyScanResult {
+  const settings = getAnomalySettings();
+  const targets = listAttendanceTransactions({ from: new Date(now.getTime() - settings.historyDays * DAY_MS).toISOString(), order: 'asc' });
+  return checkTransactions(targets, settings, now);
+}
+
+/**
+ * Checks the transactions about to be pushed.
+ * @returns The IDs of those held back by an open exception; empty when holding is off.
+ */
+export function screenTransactionsForPush(transactions: AttendanceTransaction[], now: Date = new Date()): string[] {
+  const settings = getAnomalySettings();
+  checkTransactions(transactions, settings, now);
+  if (!settings.holdFlagged || transactions.length === 0) return [];
+  const rows = getDb().prepare(`
+    SELECT id FROM attendance_transactions WHERE status = 'held' AND id IN (SELECT value FROM json_each(?))
+  `).all(JSON.stringify(transactions.map(t => t.id))) as Array<{ id: string }>;
+  return rows.map(row => row.id);
+}
+
+/**
+ * Re-checks an employee's recent transactions and those with an open exception, e.g. after a correction.
+ */
+export function rescanEmployee(employeeId: string, now: Date = new Date()): AnomalyScanResult {
+  const settings = getAnomalySettings();
+  const recent = listAttendanceTransactions({ employeeIds: [employeeId], from: new Date(now.getTime() - settings.historyDays * DAY_MS).toISOString() });
+  const recentIds = new Set(recent.map(t => t.id));
+  const openIds = new Set((getDb().prepare(`
+    SELECT transaction_id FROM attendance_anomalies WHERE employee_id = ? AND resolved_at IS NULL
+  `).all(employeeId) as Array<{ transaction_id: string }>).map(row => row.transaction_id));
+  const flagged = listAttendanceTransactions({ employeeIds: [employeeId] }).filter(t => openIds.has(t.id) && !recentIds.has(t.id));
+  return checkTransactions([...recent, ...flagged], settings, now);
+}
+
+/**
+ * Lists exceptions with their transactions, open ones first and newest first within each group.
+ * @param includeResolved - Also list dismissed and cleared exceptions.
+ */
+export function listAnomalies(includeResolved: boolean = false): AttendanceAnomaly[] {
+  const rows = getDb().prepare(`
+    SELECT a.transaction_id, a.rule, a.employee_id, a.message, a.related_transaction_id, a.detected_at,
+           a.resolved_at, a.resolution, a.resolved_by, a.resolution_note, json_object(
+             'id', t.id, 'employee_id', t.employee_id, 'transaction_type', t.transaction_type, 'transaction_time', t.transaction_time,
+             'source_type', t.source_type, 'device_id', t.device_id, 'punch_code', t.punch_code, 'status', t.status, 'dedup_key', t.dedup_key,
+             'push_attempts', t.push_attempts, 'last_error', t.last_error, 'next_attempt_at', t.next_attempt_at,
+             'odoo_attendance_id', t.odoo_attendance_id, 'odoo_overtime_id', t.odoo_overtime_id, 'pushed_type', t.pushed_type, 'pushed_time', t.pushed_time, 'voided_at', t.voided_at
+           ) AS transaction_json
+    FROM attendance_anomalies a
+    JOIN attendance_transactions t ON t.id = a.transaction_id
+    ${includeResolved ? '' : 'WHERE a.resolved_at IS NULL'}
+    ORDER BY a.resolved_at IS NOT NULL, t.transaction_time DESC, a.rule
+  `).all() as Array<Omit<AttendanceAnomaly, 'transaction'> & { transaction_json: string }>;
+  return rows.map(({ transaction_json, ...anomaly }) => ({ ...anomaly, transaction: JSON.parse(transaction_json) }));
+}
+
+/**
+ * Accepts an exception as it is and releases the transaction if nothing else holds it.
+ */
+export function dismissAnomaly(transactionId: string, rule: AnomalyRule, author: AttendanceChangeAuthor): { error?: string; notFound?: boolean } {
+  const db = getDb();
+  return db.transaction(() => {
+    const anomaly = db.prepare('SELECT resolved_at FROM attendance_anomalies WHERE transaction_id = ? AND rule = ?').get(transactionId, rule) as { resolved_at: string | null } | undefined;
+    if (!anomaly) return { notFound: true, error: `No '${rule}' exception exists for transaction ${transactionId}.` };
+    if (anomaly.resolved_at) return { error: 'The exception is already resolved.' };
+    db.prepare(`
+      UPDATE attendance_anomalies SET resolved_at = ?, resolution = 'dismissed', resolved_by = ?, resolution_note = ? WHERE transaction_id = ? AND rule = ?
+    `).run(new Date().toISOString(), author.actor, author.reason, transactionId, rule);
+    applyHolds(getAnomalySettings().holdFlagged);
+    return {};
+  })();
+}
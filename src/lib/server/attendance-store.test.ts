@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  PUSH_MAX_ATTEMPTS,
+  addAttendanceTransactions,
+  clearAttendanceTransactions,
+  listAttendanceTransactions,
+  listPushableTransactions,
+  queryAttendanceTransactions,
+  recordPushOutcomes,
+  updateAttendanceTransactionStatus,
+} from '@/lib/server/attendance-store';
+import { getDb } from '@/lib/server/db';
+import { setManualMapping } from '@/lib/server/employee-mapping-store';
+import type { AttendanceTransaction, TransactionType } from '@/lib/attendance-manager';
+
+const MINUTE_MS = 60 * 1000;
+const NOW = new Date('2024-05-01T12:00:00.000Z');
+
+function addPunch(employeeId: string, type: TransactionType, time: string, sourceType: string = 'zktime'): AttendanceTransaction {
+  addAttendanceTransactions([{ employee_id: employeeId, transaction_type: type, transaction_time: time, source_type: sourceType, device_id: 'CKJ1234', status: 'not_uploaded' }]);
+  return listAttendanceTransactions({ employeeIds: [employeeId], from: time, to: time }).find(t => t.source_type === sourceType)!;
+}
+
+function reload(transaction: AttendanceTransaction): AttendanceTransaction {
+  return listAttendanceTransactions({ employeeIds: [transaction.employee_id] }).find(t => t.id === transaction.id)!;
+}
+
+beforeEach(() => {
+  clearAttendanceTransactions();
+  getDb().prepare('DELETE FROM employee_mappings').run();
+});
+
+describe('recordPushOutcomes backoff', () => {
+  it('retries a failed push after 5 minutes, doubling the wait with each further failure', () => {
+    const punch = addPunch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    const delays: number[] = [];
+    let now = NOW;
+    for (let attempt = 1; attempt < PUSH_MAX_ATTEMPTS; attempt++) {
+      recordPushOutcomes([{ transactionId: punch.id, success: false, error: 'Rejected' }], now);
+      const stored = reload(punch);
+      expect(stored.status).toBe('pending_retry');
+      expect(stored.push_attempts).toBe(attempt);
+      delays.push((new Date(stored.next_attempt_at!).getTime() - now.getTime()) / MINUTE_MS);
+      now = new Date(stored.next_attempt_at!);
+    }
+    expect(delays).toEqual([5, 10, 20, 40, 80]);
+  });
+
+  it('marks a transaction failed once it runs out of attempts', () => {
+    const punch = addPunch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    for (let attempt = 1; attempt <= PUSH_MAX_ATTEMPTS; attempt++) {
+      recordPushOutcomes([{ transactionId: punch.id, success: false, error: 'Rejected' }], NOW);
+    }
+    const stored = reload(punch);
+    expect(stored.status).toBe('failed');
+    expect(stored.push_attempts).toBe(PUSH_MAX_ATTEMPTS);
+    expect(stored.next_attempt_at).toBeNull();
+  });
+
+  it('retries transient failures on the next run without using up an attempt', () => {
+    const punch = addPunch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    recordPushOutcomes([{ transactionId: punch.id, success: false, error: 'Odoo unreachable', transient: true }], NOW);
+    const stored = reload(punch);
+    expect(stored.status).toBe('pending_retry');
+    expect(stored.push_attempts).toBe(0);
+    expect(stored.next_attempt_at).toBe(NOW.toISOString());
+  });
+
+  it('reschedules held-back transactions with the transaction that blocked them', () => {
+    const checkIn = addPunch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    const checkOut = addPunch('1001', 'check-out', '2024-05-01T16:00:00.000Z');
+    recordPushOutcomes([
+      { transactionId: checkOut.id, success: false, error: 'Held back', blockedBy: checkIn.id },
+      { transactionId: checkIn.id, success: false, error: 'Rejected' },
+    ], NOW);
+    const blocker = reload(checkIn);
+    const heldBack = reload(checkOut);
+    expect(heldBack.status).toBe('pending_retry');
+    expect(heldBack.push_attempts).toBe(0);
+    expect(heldBack.next_attempt_at).toBe(blocker.next_attempt_at);
+  });
+});
+
+describe('listPushableTransactions', () => {
+  it('leaves out retries until their backoff has passed', () => {
+    const punch = addPunch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    recordPushOutcomes([{ transactionId: punch.id, success: false, error: 'Rejected' }], NOW);
+    expect(listPushableTransactions(10, 'asc', new Date(NOW.getTime() + 4 * MINUTE_MS))).toEqual([]);
+    expect(listPushableTransactions(10, 'asc', new Date(NOW.getTime() + 5 * MINUTE_MS)).map(t => t.id)).toEqual([punch.id]);
+  });
+
+  it("holds back an employee's newer punches while an earlier one waits out its backoff in another batch", () => {
+    const checkIn = addPunch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    recordPushOutcomes([{ transactionId: checkIn.id, success: false, error: 'Rejected' }], NOW);
+    const checkOut = addPunch('1001', 'check-out', '2024-05-01T16:00:00.000Z');
+    const otherIn = addPunch('1002', 'check-in', '2024-05-01T16:30:00.000Z');
+
+    expect(listPushableTransactions(10, 'asc', NOW).map(t => t.id)).toEqual([otherIn.id]);
+    expect(listPushableTransactions(10, 'desc', NOW).map(t => t.id)).toEqual([otherIn.id]);
+    // Once due, the check-in goes first; its check-out follows in the push after it got through.
+    const due = new Date(NOW.getTime() + 5 * MINUTE_MS);
+    expect(listPushableTransactions(10, 'asc', due).map(t => t.id)).toEqual([checkIn.id, otherIn.id]);
+    recordPushOutcomes([{ transactionId: checkIn.id, success: true, odooAttendanceId: 1 }], due);
+    expect(listPushableTransactions(10, 'asc', due).map(t => t.id)).toEqual([checkOut.id, otherIn.id]);
+  });
+
+  it("doesn't let punches waiting behind a held one fill every batch", () => {
+    const heldIn = addPunch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    updateAttendanceTransactionStatus([heldIn.id], 'held');
+    for (const hour of ['09', '10', '11']) addPunch('1001', 'check-out', `2024-05-01T${hour}:00:00.000Z`);
+    const newer = addPunch('1002', 'check-in', '2024-05-01T12:00:00.000Z');
+
+    expect(listPushableTransactions(2, 'asc', NOW).map(t => t.id)).toEqual([newer.id]);
+  });
+
+  it("holds back an employee's newer punches behind a failed one until it is dealt with", () => {
+    const checkIn = addPunch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    for (let attempt = 1; attempt <= PUSH_MAX_ATTEMPTS; attempt++) {
+      recordPushOutcomes([{ transactionId: checkIn.id, success: false, error: 'Rejected' }], NOW);
+    }
+    const checkOut = addPunch('1001', 'check-out', '2024-05-01T16:00:00.000Z');
+
+    expect(listPushableTransactions(10, 'asc', NOW)).toEqual([]);
+    updateAttendanceTransactionStatus([checkIn.id], 'skipped');
+    expect(listPushableTransactions(10, 'asc', NOW).map(t => t.id)).toEqual([checkOut.id]);
+  });
+
+  it('holds back punches by the Odoo employee they map to, not by the device ID alone', () => {
+    setManualMapping('zktime', '1001', 7);
+    setManualMapping('biotime', 'E-55', 7);
+    const heldIn = addPunch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    updateAttendanceTransactionStatus([heldIn.id], 'held');
+    const otherSourceOut = addPunch('E-55', 'check-out', '2024-05-01T16:00:00.000Z', 'biotime');
+    const sameIdOtherSource = addPunch('1001', 'check-in', '2024-05-01T17:00:00.000Z', 'securelink');
+
+    expect(listPushableTransactions(10, 'asc', NOW).map(t => t.id)).toEqual([sameIdOtherSource.id]);
+    updateAttendanceTransactionStatus([heldIn.id], 'skipped');
+    expect(listPushableTransactions(10, 'asc', NOW).map(t => t.id)).toEqual([otherSourceOut.id, sameIdOtherSource.id]);
+  });
+});
+
+describe('queryAttendanceTransactions', () => {
+  it('returns one page of the matching transactions with their total', () => {
+    for (let hour = 8; hour < 13; hour++) addPunch('1001', 'check-in', `2024-05-01T${String(hour).padStart(2, '0')}:00:00.000Z`);
+    addPunch('2002', 'check-in', '2024-05-01T09:30:00.000Z');
+
+    const page = queryAttendanceTransactions({ employeeIds: ['1001'], limit: 2, offset: 2 });
+    expect(page.total).toBe(5);
+    expect(page.transactions.map(t => t.transaction_time)).toEqual(['2024-05-01T10:00:00.000Z', '2024-05-01T09:00:00.000Z']);
+  });
+
+  it('matches part of the employee ID, taking % and _ literally', () => {
+    addPunch('EMP_10', 'check-in', '2024-05-01T08:00:00.000Z');
+    addPunch('EMPX10', 'check-in', '2024-05-01T08:00:00.000Z');
+
+    expect(queryAttendanceTransactions({ employeeSearch: 'emp' }).total).toBe(2);
+    expect(queryAttendanceTransactions({ employeeSearch: 'p_1' }).transactions.map(t => t.employee_id)).toEqual(['EMP_10']);
+    expect(queryAttendanceTransactions({ employeeSearch: '%' }).total).toBe(0);
+  });
+});
+
+describe('updateAttendanceTransactionStatus', () => {
+  it('only changes transactions in one of the given statuses', () => {
+    const uploaded = addPunch('1001', 'check-in', '2024-05-01T08:00:00.000Z');
+    const failed = addPunch('1001', 'check-out', '2024-05-01T17:00:00.000Z');
+    updateAttendanceTransactionStatus([uploaded.id], 'uploaded');
+    updateAttendanceTransactionStatus([failed.id], 'failed');
+
+    expect(updateAttendanceTransactionStatus([uploaded.id, failed.id], 'not_uploaded', ['pending_retry', 'failed', 'skipped'])).toBe(1);
+    expect(reload(uploaded).status).toBe('uploaded');
+    expect(reload(failed).status).toBe('not_uploaded');
+  });
+});
+
+describe('addAttendanceTransactions', () => {
+  it('records transactions stored as uploaded as pushed with their own type and time', () => {
+    addAttendanceTransactions([{ employee_id: '1001', transaction_type: 'check-in', transaction_time: '2024-05-01T08:00:00.000Z', source_type: 'zktime', device_id: 'CKJ1234', status: 'uploaded' }]);
+    const [stored] = listAttendanceTransactions({ employeeIds: ['1001'] });
+    expect(stored.pushed_type).toBe('check-in');
+    expect(stored.pushed_time).toBe('2024-05-01T08:00:00.000Z');
+    expect(addPunch('1001', 'check-out', '2024-05-01T17:00:00.000Z').pushed_type).toBeNull();
+  });
+});
@@ -0,0 +1,606 @@
+// Server-side attendance transaction store backed by SQLite.
+// The client-side attendance manager talks to this store through the /api/attendance-transactions routes.
+
+import { getDb } from '@/lib/server/db';
+import { MANUAL_SOURCE_TYPE, UPLOAD_STATUSES, buildDedupKey } from '@/lib/attendance-manager';
+import type {
+  AttendanceAuditAction,
+  AttendanceAuditEntry,
+  AttendanceChangeAuthor,
+  AttendanceCorrection,
+  AttendanceInsertResult,
+  AttendanceTransaction,
+  AttendanceTransactionPage,
+  ManualAttendanceTransaction,
+  NewAttendanceTransaction,
+  TransactionType,
+  UploadStatus,
+} from '@/lib/attendance-manager';
+import type { AttendanceCorrectionOutcome, AttendancePushOutcome } from '@/lib/odoo/attendance-push';
+import type { PunchHourCount } from '@/lib/dashboard';
+
+export interface AttendanceTransactionQuery {
+  status?: UploadStatus;
+  transactionType?: TransactionType;
+  employeeIds?: string[];
+  employeeSearch?: string; // Part of the employee ID, case-insensitive
+  from?: string; // ISO time, inclusive
+  to?: string; // ISO time, inclusive
+  limit?: number;
+  offset?: number;
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * Result of a manual change: the transaction as stored afterwards, or why the change was refused.
+ */
+export interface AttendanceChangeResult {
+  transaction?: AttendanceTransaction;
+  error?: string;
+  notFound?: boolean;
+}
+
+export interface CorrectionOutcomeSummary {
+  applied: number;
+  requeued: number; // Removed from Odoo and queued to be pushed again as a new punch
+  retrying: number;
+}
+
+export interface PushOutcomeSummary {
+  uploaded: number;
+  retrying: number; // Set to 'pending_retry'
+  failed: number; // Dead-lettered as 'failed' after the last allowed attempt
+}
+
+const SELECT_COLUMNS = 'id, employee_id, transaction_type, transaction_time, source_type, device_id, punch_code, status, dedup_key, push_attempts, last_error, next_attempt_at, odoo_attendance_id, odoo_overtime_id, pushed_type, pushed_time, voided_at';
+
+const INSERT_SQL = `
+  INSERT INTO attendance_transactions (id, employee_id, transaction_type, transaction_time, source_type, device_id, punch_code, status, dedup_key, created_at, pushed_type, pushed_time)
+  VALUES (@id, @employee_id, @transaction_type, @transaction_time, @source_type, @device_id, @punch_code, @status, @dedup_key, @created_at,
+    CASE WHEN @status = 'uploaded' THEN @transaction_type END, CASE WHEN @status = 'uploaded' THEN @transaction_time END)
+  ON CONFLICT (dedup_key) DO NOTHING
+`;
+
+// Statuses in which Odoo holds the transaction as of pushed_type and pushed_time.
+const IN_ODOO_STATUSES: UploadStatus[] = ['uploaded', 'correction_pending'];
+
+// A transaction is dead-lettered after this many failed pushes. Retries wait 5, 10, 20, 40 minutes...
+export const PUSH_MAX_ATTEMPTS = 6;
+const PUSH_RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+const PUSH_RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Overtime-outs this close to a retried one may have written an overtime record with the same date.
+const OVERTIME_LOOKUP_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+
+function generateTransactionId(): string {
+  return Date.now().toString() + Math.random().toString(36).substring(2, 9);
+}
+
+function buildTransactionFilter(query: AttendanceTransactionQuery): { where: string; params: Record<string, unknown> } {
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = {};
+
+  if (query.status) {
+    conditions.push('status = @status');
+    params.status = query.status;
+  }
+  if (query.transactionType) {
+    conditions.push('transaction_type = @transactionType');
+    params.transactionType = query.transactionType;
+  }
+  if (query.employeeIds) {
+    conditions.push('employee_id IN (SELECT value FROM json_each(@employeeIds))');
+    params.employeeIds = JSON.stringify(query.employeeIds);
+  }
+  if (query.employeeSearch) {
+    conditions.push("employee_id LIKE @employeeSearch ESCAPE '\\'");
+    params.employeeSearch = `%${query.employeeSearch.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+  }
+  if (query.from) {
+    conditions.push('transaction_time >= @from');
+    params.from = query.from;
+  }
+  if (query.to) {
+    conditions.push('transaction_time <= @to');
+    params.to = query.to;
+  }
+
+  return { where: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+/**
+ * Lists attendance transactions ordered by transaction time.
+ * @param {AttendanceTransactionQuery} query - Optional status, type, employee and time filters, paging and sort order (newest first by default).
+ * @returns {AttendanceTransaction[]} The matching transactions.
+ */
+export function listAttendanceTransactions(query: AttendanceTransactionQuery = {}): AttendanceTransaction[] {
+  const { where, params } = buildTransactionFilter(query);
+  let sql = `SELECT ${SELECT_COLUMNS} FROM attendance_transactions${where} ORDER BY transaction_time ${query.order === 'asc' ? 'ASC' : 'DESC'}`;
+  if (query.limit && query.limit > 0) {
+    sql += ' LIMIT @limit OFFSET @offset';
+    params.limit = query.limit;
+    params.offset = query.offset && query.offset > 0 ? query.offset : 0;
+  }
+
+  return getDb().prepare(sql).all(params) as AttendanceTransaction[];
+}
+
+/**
+ * Lists one page of attendance transactions, with the number of matching ones across all pages.
+ * @param {AttendanceTransactionQuery} query - As for listAttendanceTransactions; `limit` and `offset` select the page.
+ */
+export function queryAttendanceTransactions(query: AttendanceTransactionQuery): AttendanceTransactionPage {
+  const { where, params } = buildTransactionFilter(query);
+  const { total } = getDb().prepare(`SELECT COUNT(*) AS total FROM attendance_transactions${where}`).get(params) as { total: number };
+  return { transactions: listAttendanceTransactions(query), total };
+}
+
+/**
+ * Counts the stored transactions in each status.
+ */
+export function countTransactionsByStatus(): Record<UploadStatus, number> {
+  const counts = Object.fromEntries(UPLOAD_STATUSES.map(status => [status, 0])) as Record<UploadStatus, number>;
+  const rows = getDb().prepare('SELECT status, COUNT(*) AS count FROM attendance_transactions GROUP BY status').all() as Array<{ status: UploadStatus; count: number }>;
+  for (const row of rows) counts[row.status] = row.count;
+  return counts;
+}
+
+/**
+ * Counts the punches between `from` (inclusive) and `to` (exclusive) per type and per hour since `from`,
+ * so the caller's day boundaries and time zone decide what an hour is. Voided punches are left out.
+ */
+export function countPunchesPerHour(from: string, to: string): PunchHourCount[] {
+  return getDb().prepare(`
+    SELECT (CAST(strftime('%s', transaction_time) AS INTEGER) - CAST(strftime('%s', @from) AS INTEGER)) / 3600 AS hour, transaction_type, COUNT(*) AS count
+    FROM attendance_transactions
+    WHERE transaction_time >= @from AND transaction_time < @to AND status != 'voided'
+    GROUP BY hour, transaction_type ORDER BY hour
+  `).all({ from, to }) as PunchHourCount[];
+}
+
+/**
+ * Inserts attendance transactions in a single database transaction, skipping any whose natural key
+ * (see buildDedupKey) is already stored, so re-reading the same source window is harmless.
+ * `transaction_time` defaults to now for entries that omit it. Entries stored as 'uploaded' are already in Odoo,
+ * so their type and time are recorded as pushed, as the push itself would.
+ * @param {NewAttendanceTransaction[]} transactions - The transactions to insert.
+ * @returns {AttendanceInsertResult} The number of rows inserted and of duplicates skipped.
+ */
+export function addAttendanceTransactions(transactions: NewAttendanceTransaction[]): AttendanceInsertResult {
+  if (transactions.length === 0) return { inserted: 0, duplicates: 0 };
+
+  const db = getDb();
+  const insert = db.prepare(INSERT_SQL);
+
+  const createdAt = new Date().toISOString();
+  const insertAll = db.transaction((items: NewAttendanceTransaction[]) => {
+    let inserted = 0;
+    for (const item of items) {
+      const transactionTime = (item.transaction_time ? new Date(item.transaction_time) : new Date()).toISOString();
+      inserted += insert.run({
+        id: generateTransactionId(),
+        employee_id: item.employee_id,
+        transaction_type: item.transaction_type,
+        transaction_time: transactionTime,
+        source_type: item.source_type,
+        device_id: item.device_id,
+        punch_code: item.punch_code ?? null,
+        status: item.status,
+        dedup_key: buildDedupKey(item, transactionTime),
+        created_at: createdAt,
+      }).changes;
+    }
+    return { inserted, duplicates: items.length - inserted };
+  });
+
+  return insertAll(transactions);
+}
+
+/**
+ * Lists the transactions due for a push: 'not_uploaded' ones and 'pending_retry' ones whose backoff has passed.
+ * A transaction is left out while the same employee has an earlier one that is retrying, failed or held,
+ * even if that one isn't due in this batch: Odoo pairs punches in time order, so a later check-out could
+ * otherwise close the wrong attendance. The earlier one has to be uploaded (or skipped, voided, requeued)
+ * before the rest of the employee's punches follow. The employee is the mapped Odoo employee, so punches
+ * from different sources for the same person wait for each other; unmapped IDs only match within their source.
+ * @param {number} limit - Maximum number of transactions.
+ * @param {'asc' | 'desc'} order - Sort order by transaction time.
+ * @returns {AttendanceTransaction[]} The transactions to push.
+ */
+export function listPushableTransactions(limit: number, order: 'asc' | 'desc', now: Date = new Date()): AttendanceTransaction[] {
+  return getDb().prepare(`
+    SELECT ${SELECT_COLUMNS} FROM attendance_transactions t
+    WHERE (t.status = 'not_uploaded' OR (t.status = 'pending_retry' AND t.next_attempt_at <= ?))
+      AND NOT EXISTS (
+        SELECT 1 FROM attendance_transactions earlier
+        WHERE earlier.transaction_time < t.transaction_time
+          AND earlier.status IN ('pending_retry', 'failed', 'held')
+          AND (
+            (earlier.source_type = t.source_type AND earlier.employee_id = t.employee_id)
+            OR EXISTS (
+              SELECT 1 FROM employee_mappings mine
+              JOIN employee_mappings theirs ON theirs.odoo_employee_id = mine.odoo_employee_id
+              WHERE mine.source_type = t.source_type AND mine.device_employee_id = t.employee_id
+                AND theirs.source_type = earlier.source_type AND theirs.device_employee_id = earlier.employee_id
+            )
+          )
+      )
+    ORDER BY t.transaction_time ${order === 'asc' ? 'ASC' : 'DESC'} LIMIT ?
+  `).all(now.toISOString(), limit) as AttendanceTransaction[];
+}
+
+/**
+ * Takes transactions out of the push queue as 'skipped', e.g. punch types the push policy leaves out.
+ * @param reason - Kept as the transaction's last error so the Attendance page shows why.
+ * @returns {number} The number of transactions skipped.
+ */
+export function skipTransactions(transactionIds: string[], reason: string): number {
+  const db = getDb();
+  const skip = db.prepare(`
+    UPDATE attendance_transactions SET status = 'skipped', last_error = ?, next_attempt_at = NULL
+    WHERE id = ? AND status IN ('not_uploaded', 'pending_retry')
+  `);
+  return db.transaction(() => transactionIds.reduce((skipped, id) => skipped + skip.run(reason, id).changes, 0))();
+}
+
+/**
+ * Finds where each overtime-out's overtime began: the employee's overtime-in right before it.
+ * @returns The overtime-in time per overtime-out transaction ID; overtime-outs not preceded by an overtime-in are left out.
+ */
+export function findOvertimeStarts(transactions: AttendanceTransaction[]): Record<string, string> {
+  const previous = getDb().prepare(`
+    SELECT transaction_type, transaction_time FROM attendance_transactions
+    WHERE employee_id = ? AND transaction_time < ? AND status != 'voided'
+    ORDER BY transaction_time DESC LIMIT 1
+  `);
+  const starts: Record<string, string> = {};
+  for (const transaction of transactions) {
+    if (transaction.transaction_type !== 'overtime-out') continue;
+    const row = previous.get(transaction.employee_id, transaction.transaction_time) as Pick<AttendanceTransaction, 'transaction_type' | 'transaction_time'> | undefined;
+    if (row?.transaction_type === 'overtime-in') starts[transaction.id] = row.transaction_time;
+  }
+  return starts;
+}
+
+/**
+ * Lists the overtime records already stored for transactions within two days of the retried overtime-outs
+ * in `transactions`, so a retry doesn't take another block's identical overtime for the one it created.
+ * @returns {number[]} The `hr.attendance.overtime` IDs.
+ */
+export function findRecordedOvertimeIds(transactions: AttendanceTransaction[]): number[] {
+  const recorded = getDb().prepare(`
+    SELECT odoo_overtime_id FROM attendance_transactions
+    WHERE odoo_overtime_id IS NOT NULL AND transaction_time BETWEEN ? AND ?
+  `).pluck();
+  const ids = new Set<number>();
+  for (const transaction of transactions) {
+    if (transaction.transaction_type !== 'overtime-out' || transaction.status !== 'pending_retry') continue;
+    const time = new Date(transaction.transaction_time).getTime();
+    const window = [new Date(time - OVERTIME_LOOKUP_WINDOW_MS).toISOString(), new Date(time + OVERTIME_LOOKUP_WINDOW_MS).toISOString()];
+    for (const id of recorded.all(...window) as number[]) ids.add(id);
+  }
+  return [...ids];
+}
+
+/**
+ * Marks transactions as 'uploading' while a push is in flight.
+ */
+export function markTransactionsUploading(transactionIds: string[]): void {
+  updateAttendanceTransactionStatus(transactionIds, 'uploading');
+}
+
+/**
+ * Returns transactions left 'uploading' by an interrupted push to the retry queue. Only one push runs
+ * at a time (see scheduler-store.ts), so any 'uploading' row found before a push starts is stale.
+ * @returns {number} The number of transactions requeued.
+ */
+export function recoverInterruptedUploads(now: Date = new Date()): number {
+  return getDb().prepare(`
+    UPDATE attendance_transactions SET status = 'pending_retry', next_attempt_at = ?, last_error = COALESCE(last_error, 'Push was interrupted.')
+    WHERE status = 'uploading'
+  `).run(now.toISOString()).changes;
+}
+
+function retryDelayMs(attempts: number): number {
+  return Math.min(PUSH_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), PUSH_RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Records the result of a push per transaction.
+ * - Success: 'uploaded'.
+ * - Failure: one more attempt, then 'pending_retry' with exponential backoff, or 'failed' once
+ *   PUSH_MAX_ATTEMPTS is reached.
+ * - Transient failure (Odoo unreachable, session expired): 'pending_retry' for the next run without
+ *   using up an attempt, since the record itself was not at fault.
+ * - Held back behind a failed transaction: 'pending_retry' alongside that transaction, without using up an attempt.
+ * @returns {PushOutcomeSummary} How many transactions ended up in each state.
+ */
+export function recordPushOutcomes(outcomes: AttendancePushOutcome[], now: Date = new Date()): PushOutcomeSummary {
+  const db = getDb();
+  const summary: PushOutcomeSummary = { uploaded: 0, retrying: 0, failed: 0 };
+  const nowIso = now.toISOString();
+  const selectAttempts = db.prepare('SELECT push_attempts FROM attendance_transactions WHERE id = ?');
+  const markUploaded = db.prepare(`
+    UPDATE attendance_transactions SET status = 'uploaded', last_error = NULL, next_attempt_at = NULL,
+      odoo_attendance_id = COALESCE(?, odoo_attendance_id), odoo_overtime_id = COALESCE(?, odoo_overtime_id),
+      pushed_type = transaction_type, pushed_time = transaction_time
+    WHERE id = ?
+  `);
+  const markFailure = db.prepare('UPDATE attendance_transactions SET status = ?, push_attempts = ?, last_error = ?, next_attempt_at = ? WHERE id = ?');
+  const markRetry = db.prepare("UPDATE attendance_transactions SET status = 'pending_retry', last_error = ?, next_attempt_at = ? WHERE id = ?");
+  const markHeldBack = db.prepare(`
+    UPDATE attendance_transactions SET status = 'pending_retry', last_error = @error,
+      next_attempt_at = COALESCE((SELECT next_attempt_at FROM attendance_transactions WHERE id = @blockedBy), @now)
+    WHERE id = @id
+  `);
+
+  db.transaction(() => {
+    for (const outcome of outcomes) {
+      if (outcome.success) {
+        summary.uploaded += markUploaded.run(outcome.odooAttendanceId ?? null, outcome.odooOvertimeId ?? null, outcome.transactionId).changes;
+      } else if (outcome.transient) {
+        summary.retrying += markRetry.run(outcome.error ?? null, nowIso, outcome.transactionId).changes;
+      } else if (!outcome.blockedBy) {
+        const row = selectAttempts.get(outcome.transactionId) as { push_attempts: number } | undefined;
+        if (!row) continue;
+        const attempts = row.push_attempts + 1;
+        if (attempts >= PUSH_MAX_ATTEMPTS) {
+          markFailure.run('failed', attempts, outcome.error ?? null, null, outcome.transactionId);
+          summary.failed++;
+        } else {
+          markFailure.run('pending_retry', attempts, outcome.error ?? null, new Date(now.getTime() + retryDelayMs(attempts)).toISOString(), outcome.transactionId);
+          summary.retrying++;
+        }
+      }
+    }
+    // Held-back transactions follow their blocker, so run after the blockers have been rescheduled.
+    for (const outcome of outcomes) {
+      if (outcome.success || outcome.transient || !outcome.blockedBy) continue;
+      summary.retrying += markHeldBack.run({ id: outcome.transactionId, blockedBy: outcome.blockedBy, error: outcome.error ?? null, now: nowIso }).changes;
+    }
+  })();
+
+  return summary;
+}
+
+/**
+ * Updates the upload status of the given transactions. Setting 'not_uploaded' requeues them for the
+ * push and resets their failed attempts. Voided transactions and pending corrections are left alone;
+ * they only change through the correction workflow and the push.
+ * @param {string[]} transactionIds - IDs of the transactions to update.
+ * @param {UploadStatus} newStatus - The status to set.
+ * @param {UploadStatus[]} fromStatuses - Only update transactions currently in one of these statuses, if given.
+ * @returns {number} The number of rows updated.
+ */
+export function updateAttendanceTransactionStatus(transactionIds: string[], newStatus: UploadStatus, fromStatuses?: UploadStatus[]): number {
+  if (transactionIds.length === 0) return 0;
+
+  const db = getDb();
+  const fromCondition = fromStatuses ? ' AND status IN (SELECT value FROM json_each(@fromStatuses))' : '';
+  const update = newStatus === 'not_uploaded'
+    ? db.prepare(`UPDATE attendance_transactions SET status = @status, push_attempts = 0, last_error = NULL, next_attempt_at = NULL WHERE id = @id AND status NOT IN ('voided', 'correction_pending')${fromCondition}`)
+    : db.prepare(`UPDATE attendance_transactions SET status = @status WHERE id = @id AND status NOT IN ('voided', 'correction_pending')${fromCondition}`);
+  const updateAll = db.transaction((ids: string[]) => {
+    let updated = 0;
+    for (const id of ids) {
+      updated += update.run({ status: newStatus, id, ...(fromStatuses ? { fromStatuses: JSON.stringify(fromStatuses) } : {}) }).changes;
+    }
+    return updated;
+  });
+
+  return updateAll(transactionIds);
+}
+
+/**
+ * Deletes every attendance transaction along with the audit history and exceptions.
+ * @returns {number} The number of transactions deleted.
+ */
+export function clearAttendanceTransactions(): number {
+  const db = getDb();
+  return db.transaction(() => {
+    db.prepare('DELETE FROM attendance_audit').run();
+    db.prepare('DELETE FROM attendance_anomalies').run();
+    return db.prepare('DELETE FROM attendance_transactions').run().changes;
+  })();
+}
+
+function getTransaction(id: string): AttendanceTransaction | undefined {
+  return getDb().prepare(`SELECT ${SELECT_COLUMNS} FROM attendance_transactions WHERE id = ?`).get(id) as AttendanceTransaction | undefined;
+}
+
+function writeAudit(action: AttendanceAuditAction, author: AttendanceChangeAuthor, before: AttendanceTransaction | null, after: AttendanceTransaction): void {
+  getDb().prepare(`
+    INSERT INTO attendance_audit (transaction_id, action, actor, reason, before, after, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(after.id, action, author.actor, author.reason, before ? JSON.stringify(before) : null, JSON.stringify(after), new Date().toISOString());
+}
+
+/**
+ * Checks that a transaction can be changed by hand.
+ * @returns Why it can't, or null.
+ */
+function checkEditable(transaction: AttendanceTransaction): string | null {
+  if (transaction.status === 'voided' || transaction.voided_at) return 'The transaction is voided and can no longer be changed.';
+  if (transaction.status === 'uploading') return 'The transaction is being pushed to Odoo right now; try again once the push has finished.';
+  return null;
+}
+
+/**
+ * Stores a punch entered by hand and records it in the audit history. It is queued for the push.
+ */
+export function createManualTransaction(input: ManualAttendanceTransaction, author: AttendanceChangeAuthor): AttendanceChangeResult {
+  const db = getDb();
+  return db.transaction((): AttendanceChangeResult => {
+    const transactionTime = new Date(input.transaction_time).toISOString();
+    const id = generateTransactionId();
+    const item = { ...input, source_type: MANUAL_SOURCE_TYPE };
+    const inserted = db.prepare(INSERT_SQL).run({
+      id,
+      employee_id: item.employee_id,
+      transaction_type: item.transaction_type,
+      transaction_time: transactionTime,
+      source_type: item.source_type,
+      device_id: item.device_id,
+      punch_code: null,
+      status: 'not_uploaded',
+      dedup_key: buildDedupKey(item, transactionTime),
+      created_at: new Date().toISOString(),
+    }).changes;
+    if (inserted === 0) return { error: 'A manual punch for this employee and device at this time is already stored.' };
+
+    const created = getTransaction(id)!;
+    writeAudit('create', author, null, created);
+    return { transaction: created };
+  })();
+}
+
+/**
+ * Changes the type or time of a transaction and records the previous values in the audit history.
+ * - Not yet in Odoo: updated in place; a 'pending_retry' or 'failed' transaction is requeued for the push.
+ * - Already in Odoo: set to 'correction_pending' so the push corrects the Odoo record, or back to
+ *   'uploaded' when the change restores what Odoo holds.
+ */
+export function correctTransaction(id: string, changes: AttendanceCorrection, author: AttendanceChangeAuthor): AttendanceChangeResult {
+  const db = getDb();
+  return db.transaction((): AttendanceChangeResult => {
+    const before = getTransaction(id);
+    if (!before) return { notFound: true, error: `Transaction ${id} does not exist.` };
+    const notEditable = checkEditable(before);
+    if (notEditable) return { error: notEditable };
+
+    const transactionType = changes.transaction_type ?? before.transaction_type;
+    const transactionTime = changes.transaction_time ? new Date(changes.transaction_time).toISOString() : before.transaction_time;
+    if (transactionType === before.transaction_type && transactionTime === before.transaction_time) {
+      return { error: 'The correction does not change anything.' };
+    }
+    const dedupKey = buildDedupKey(before, transactionTime);
+    if (dedupKey !== before.dedup_key && db.prepare('SELECT 1 FROM attendance_transactions WHERE dedup_key = ?').get(dedupKey)) {
+      return { error: 'Another transaction of this employee from the same device already has that time.' };
+    }
+
+    let status = before.status;
+    let resetAttempts = false;
+    if (IN_ODOO_STATUSES.includes(before.status)) {
+      status = transactionType === before.pushed_type && transactionTime === before.pushed_time ? 'uploaded' : 'correction_pending';
+      resetAttempts = true;
+    } else if (before.status === 'pending_retry' || before.status === 'failed') {
+      status = 'not_uploaded';
+      resetAttempts = true;
+    }
+
+    db.prepare(`
+      UPDATE attendance_transactions SET transaction_type = @transactionType, transaction_time = @transactionTime, dedup_key = @dedupKey, status = @status,
+        push_attempts = CASE WHEN @resetAttempts THEN 0 ELSE push_attempts END,
+        last_error = CASE WHEN @resetAttempts THEN NULL ELSE last_error END,
+        next_attempt_at = CASE WHEN @resetAttempts THEN NULL ELSE next_attempt_at END
+      WHERE id = @id
+    `).run({ id, transactionType, transactionTime, dedupKey, status, resetAttempts: resetAttempts ? 1 : 0 });
+
+    const after = getTransaction(id)!;
+    writeAudit('update', author, before, after);
+    return { transaction: after };
+  })();
+}
+
+/**
+ * Voids a transaction and records it in the audit history. A transaction that already reached Odoo
+ * becomes 'correction_pending' until the push has removed it there, then 'voided'.
+ */
+export function voidTransaction(id: string, author: AttendanceChangeAuthor): AttendanceChangeResult {
+  const db = getDb();
+  return db.transaction((): AttendanceChangeResult => {
+    const before = getTransaction(id);
+    if (!before) return { notFound: true, error: `Transaction ${id} does not exist.` };
+    const notEditable = checkEditable(before);
+    if (notEditable) return { error: notEditable };
+
+    const status: UploadStatus = IN_ODOO_STATUSES.includes(before.status) ? 'correction_pending' : 'voided';
+    db.prepare('UPDATE attendance_transactions SET status = ?, voided_at = ?, push_attempts = 0, last_error = NULL, next_attempt_at = NULL WHERE id = ?')
+      .run(status, new Date().toISOString(), id);
+
+    const after = getTransaction(id)!;
+    writeAudit('void', author, before, after);
+    return { transaction: after };
+  })();
+}
+
+/**
+ * @returns The transaction and its audit history, oldest change first, or null if it doesn't exist.
+ */
+export function getTransactionHistory(id: string): { transaction: AttendanceTransaction; audit: AttendanceAuditEntry[] } | null {
+  const transaction = getTransaction(id);
+  if (!transaction) return null;
+  const rows = getDb().prepare(`
+    SELECT id, transaction_id, action, actor, reason, before, after, created_at FROM attendance_audit WHERE transaction_id = ? ORDER BY id
+  `).all(id) as Array<Omit<AttendanceAuditEntry, 'before' | 'after'> & { before: string | null; after: string }>;
+  const audit = rows.map(row => ({ ...row, before: row.before ? JSON.parse(row.before) : null, after: JSON.parse(row.after) }));
+  return { transaction, audit };
+}
+
+/**
+ * Lists 'correction_pending' transactions whose correction is due, oldest first.
+ */
+export function listDueCorrections(limit: number, now: Date = new Date()): AttendanceTransaction[] {
+  return getDb().prepare(`
+    SELECT ${SELECT_COLUMNS} FROM attendance_transactions
+    WHERE status = 'correction_pending' AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+    ORDER BY transaction_time ASC LIMIT ?
+  `).all(now.toISOString(), limit) as AttendanceTransaction[];
+}
+
+/**
+ * Records the result of correcting Odoo per transaction.
+ * - Applied: 'voided' for a voided transaction, otherwise 'uploaded' with Odoo now holding the current values.
+ * - Requeued: the old punch was removed from Odoo, so the transaction is pushed again as a new punch.
+ * - Removing a check-in's attendance also removes the check-out written onto it, so other transactions
+ *   pointing at that record are requeued too.
+ * - Failure: stays 'correction_pending' and is retried with the push's backoff. Corrections are never
+ *   dead-lettered; the error stays on the row until Odoo accepts the correction.
+ * @returns {CorrectionOutcomeSummary} How many corrections ended up in each state.
+ */
+export function recordCorrectionOutcomes(outcomes: AttendanceCorrectionOutcome[], now: Date = new Date()): CorrectionOutcomeSummary {
+  const db = getDb();
+  const summary: CorrectionOutcomeSummary = { applied: 0, requeued: 0, retrying: 0 };
+  const nowIso = now.toISOString();
+  const markApplied = db.prepare(`
+    UPDATE attendance_transactions SET status = CASE WHEN voided_at IS NULL THEN 'uploaded' ELSE 'voided' END,
+      pushed_type = CASE WHEN voided_at IS NULL THEN transaction_type END,
+      pushed_time = CASE WHEN voided_at IS NULL THEN transaction_time END,
+      odoo_attendance_id = CASE WHEN voided_at IS NULL THEN odoo_attendance_id END,
+      odoo_overtime_id = CASE WHEN voided_at IS NULL THEN odoo_overtime_id END,
+      push_attempts = 0, last_error = NULL, next_attempt_at = NULL
+    WHERE id = ?
+  `);
+  const markRequeued = db.prepare(`
+    UPDATE attendance_transactions SET status = 'not_uploaded', pushed_type = NULL, pushed_time = NULL, odoo_attendance_id = NULL, odoo_overtime_id = NULL,
+      push_attempts = 0, last_error = NULL, next_attempt_at = NULL
+    WHERE id = ?
+  `);
+  // A voided transaction on the removed record needs no further correction.
+  const requeueRemovedAttendance = db.prepare(`
+    UPDATE attendance_transactions SET status = CASE WHEN voided_at IS NULL THEN 'not_uploaded' ELSE 'voided' END,
+      pushed_type = NULL, pushed_time = NULL, odoo_attendance_id = NULL, odoo_overtime_id = NULL, push_attempts = 0, last_error = NULL, next_attempt_at = NULL
+    WHERE odoo_attendance_id = ? AND id != ? AND status IN ('uploaded', 'correction_pending')
+  `);
+  const selectAttempts = db.prepare('SELECT push_attempts FROM attendance_transactions WHERE id = ?');
+  const markFailure = db.prepare('UPDATE attendance_transactions SET push_attempts = ?, last_error = ?, next_attempt_at = ? WHERE id = ?');
+  const markRetry = db.prepare('UPDATE attendance_transactions SET last_error = ?, next_attempt_at = ? WHERE id = ?');
+
+  db.transaction(() => {
+    for (const outcome of outcomes) {
+      if (outcome.success) {
+        if (outcome.removedAttendanceId) summary.requeued += requeueRemovedAttendance.run(outcome.removedAttendanceId, outcome.transactionId).changes;
+        if (outcome.requeue) summary.requeued += markRequeued.run(outcome.transactionId).changes;
+        else summary.applied += markApplied.run(outcome.transactionId).changes;
+      } else if (outcome.transient) {
+        summary.retrying += markRetry.run(outcome.error ?? null, nowIso, outcome.transactionId).changes;
+      } else {
+        const row = selectAttempts.get(outcome.transactionId) as { push_attempts: number } | undefined;
+        if (!row) continue;
+        const attempts = row.push_attempts + 1;
+        summary.retrying += markFailure.run(attempts, outcome.error ?? null, new Date(now.getTime() + retryDelayMs(attempts)).toISOString(), outcome.transactionId).changes;
+      }
+    }
+  })();
+
+  return summary;
+}
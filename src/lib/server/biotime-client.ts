@@ -0,0 +1,143 @@
+// Server-side client for the ZKTeco BioTime REST API.
+// BioTime is usually reachable only on the LAN and does not send CORS headers, so all calls
+// run on the server (behind /api/zkteco-biotime).
+
+import type { BiotimeConfig, BiotimeTransaction } from '@/lib/zkteco/biotime/api';
+
+const PAGE_SIZE = 500;
+const REQUEST_TIMEOUT_MS = 30000;
+
+interface BiotimeAuth {
+  header: string;
+}
+
+interface BiotimePage {
+  count: number;
+  next: string | null;
+  data: Array<{
+    id: number;
+    emp_code: string;
+    punch_time: string;
+    punch_state: string;
+    verify_type?: number;
+    terminal_sn?: string;
+    terminal_alias?: string;
+  }>;
+}
+
+// Error details as BioTime's Django REST framework reports them.
+interface BiotimeErrorBody {
+  detail?: string;
+  non_field_errors?: string[];
+  msg?: string;
+}
+
+/**
+ * Validates BioTime connection settings from a request body.
+ * @returns The settings, or an error message.
+ */
+export function parseBiotimeConfig(value: unknown): BiotimeConfig | string {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  if (typeof raw.baseUrl !== 'string' || !/^https?:\/\//i.test(raw.baseUrl.trim())) {
+    return 'A BioTime server URL starting with http:// or https:// is required.';
+  }
+  if (typeof raw.username !== 'string' || !raw.username || typeof raw.password !== 'string' || !raw.password) {
+    return 'Username and password are required.';
+  }
+  if (raw.authMode !== 'jwt' && raw.authMode !== 'token') return `Invalid authentication type '${raw.authMode}'.`;
+  return { baseUrl: raw.baseUrl.trim(), username: raw.username, password: raw.password, authMode: raw.authMode };
+}
+
+function apiUrl(config: BiotimeConfig, path: string): string {
+  return `${config.baseUrl.replace(/\/+$/, '')}${path}`;
+}
+
+async function biotimeFetch<T>(url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS), cache: 'no-store' });
+  const text = await response.text();
+  let body: (T & BiotimeErrorBody) | null = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    throw new Error(`BioTime returned a non-JSON response (HTTP ${response.status}). Check the server URL.`);
+  }
+  if (!response.ok) {
+    const detail = body?.detail || body?.non_field_errors?.join(' ') || body?.msg || `HTTP ${response.status}`;
+    throw new Error(`BioTime request failed: ${detail}`);
+  }
+  return body as T;
+}
+
+/**
+ * Formats a Date as BioTime's 'YYYY-MM-DD HH:MM:SS' in server local time, matching how BioTime stores punch times.
+ */
+function toBiotimeDatetime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Obtains an API token. BioTime 8+ issues JWTs from /jwt-api-token-auth/; older releases only have
+ * DRF tokens from /api-token-auth/. The two use different Authorization schemes.
+ */
+export async function loginBiotime(config: BiotimeConfig): Promise<BiotimeAuth> {
+  const path = config.authMode === 'jwt' ? '/jwt-api-token-auth/' : '/api-token-auth/';
+  const body = await biotimeFetch<{ token?: string } | null>(apiUrl(config, path), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: config.username, password: config.password }),
+  });
+  if (!body?.token) {
+    throw new Error('BioTime did not return a token. Check the username, password and authentication type.');
+  }
+  return { header: `${config.authMode === 'jwt' ? 'JWT' : 'Token'} ${body.token}` };
+}
+
+/**
+ * Reads every transaction page between `startTime` and `endTime` (both optional, inclusive), oldest first.
+ * @param terminalSn - Only read the punches of this terminal.
+ */
+export async function fetchBiotimeTransactions(
+  config: BiotimeConfig,
+  auth: BiotimeAuth,
+  startTime?: Date,
+  endTime?: Date,
+  terminalSn?: string
+): Promise<BiotimeTransaction[]> {
+  const transactions: BiotimeTransaction[] = [];
+  for (let page = 1; ; page++) {
+    const params = new URLSearchParams({ page: String(page), page_size: String(PAGE_SIZE), ordering: 'punch_time' });
+    if (startTime) params.set('start_time', toBiotimeDatetime(startTime));
+    if (endTime) params.set('end_time', toBiotimeDatetime(endTime));
+    if (terminalSn) params.set('terminal_sn', terminalSn);
+
+    const body = await biotimeFetch<BiotimePage>(apiUrl(config, `/iclock/api/transactions/?${params.toString()}`), {
+      headers: { Authorization: auth.header, 'Content-Type': 'application/json' },
+    });
+    for (const row of body.data ?? []) {
+      transactions.push({
+        id: row.id,
+        emp_code: String(row.emp_code),
+        // punch_time is BioTime server local time without a zone.
+        punch_time: new Date(row.punch_time.replace(' ', 'T')).toISOString(),
+        punch_state: Number(row.punch_state),
+        terminal_sn: row.terminal_sn || '',
+        terminal_alias: row.terminal_alias || '',
+      });
+    }
+    if (!body.next || !body.data?.length) break;
+  }
+  return transactions;
+}
+
+/**
+ * Logs in and reads one record to confirm the account can access transactions.
+ * @returns The total number of transactions BioTime reports.
+ */
+export async function testBiotime(config: BiotimeConfig): Promise<{ transactionCount: number }> {
+  const auth = await loginBiotime(config);
+  const body = await biotimeFetch<BiotimePage>(apiUrl(config, '/iclock/api/transactions/?page_size=1'), {
+    headers: { Authorization: auth.header, 'Content-Type': 'application/json' },
+  });
+  return { transactionCount: body.count ?? 0 };
+}
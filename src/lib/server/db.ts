@@ -0,0 +1,320 @@
+// Server-side SQLite database shared by the application's API routes.
+// better-sqlite3 is synchronous and native, so this module must only ever be imported
+// from server code (route handlers, server utilities) and never from a "use client" module.
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+const DB_PATH = process.env.APP_DB_PATH || path.join(process.cwd(), 'data', 'uhh-bap.db');
+
+// Directory for the database and other server-side files (e.g. the secret key, see odoo-credentials.ts).
+export const DATA_DIR = path.dirname(DB_PATH);
+
+/**
+ * Ordered schema migrations. The index of each entry (plus one) is the schema version it
+ * produces, tracked through SQLite's `user_version` pragma. Never edit an entry that has
+ * already shipped; append a new one instead.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE attendance_transactions (
+    id TEXT PRIMARY KEY,
+    employee_id TEXT NOT NULL,
+    transaction_type TEXT NOT NULL,
+    transaction_time TEXT NOT NULL,
+    source_type TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'not_uploaded',
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_attendance_transactions_time ON attendance_transactions (transaction_time);
+  CREATE INDEX idx_attendance_transactions_status_time ON attendance_transactions (status, transaction_time);
+  CREATE INDEX idx_attendance_transactions_employee_time ON attendance_transactions (employee_id, transaction_time);
+  `,
+  `
+  CREATE TABLE odoo_employees (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    barcode TEXT,
+    pin TEXT,
+    identification_id TEXT,
+    active INTEGER NOT NULL DEFAULT 1,
+    synced_at TEXT NOT NULL
+  );
+  CREATE TABLE employee_mapping_rules (
+    source_type TEXT PRIMARY KEY,
+    match_field TEXT NOT NULL,
+    normalization TEXT NOT NULL
+  );
+  CREATE TABLE employee_mappings (
+    source_type TEXT NOT NULL,
+    device_employee_id TEXT NOT NULL,
+    odoo_employee_id INTEGER,
+    method TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (source_type, device_employee_id)
+  );
+  CREATE INDEX idx_attendance_transactions_source_employee ON attendance_transactions (source_type, employee_id);
+  `,
+  `
+  CREATE TABLE adms_devices (
+    serial_number TEXT PRIMARY KEY,
+    approved INTEGER NOT NULL DEFAULT 0,
+    push_version TEXT,
+    device_info TEXT,
+    last_ip TEXT,
+    attlog_stamp TEXT,
+    operlog_stamp TEXT,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL
+  );
+  CREATE TABLE adms_users (
+    serial_number TEXT NOT NULL,
+    pin TEXT NOT NULL,
+    name TEXT,
+    privilege INTEGER,
+    card TEXT,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (serial_number, pin)
+  );
+  CREATE TABLE adms_commands (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    serial_number TEXT NOT NULL,
+    command TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    return_code INTEGER,
+    created_at TEXT NOT NULL,
+    sent_at TEXT,
+    completed_at TEXT
+  );
+  CREATE INDEX idx_adms_commands_device_status ON adms_commands (serial_number, status);
+  `,
+  `
+  CREATE TABLE scheduler_jobs (
+    id TEXT PRIMARY KEY,
+    enabled INTEGER NOT NULL DEFAULT 0,
+    frequency TEXT NOT NULL,
+    config TEXT,
+    state TEXT,
+    running_since TEXT,
+    last_run_at TEXT,
+    last_status TEXT,
+    last_message TEXT,
+    next_run_at TEXT,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE attendance_transactions ADD COLUMN dedup_key TEXT;
+  UPDATE attendance_transactions SET dedup_key = source_type || '|' || device_id || '|' || employee_id || '|' || transaction_time;
+  DELETE FROM attendance_transactions WHERE rowid IN (
+    SELECT rowid FROM (
+      SELECT rowid, ROW_NUMBER() OVER (PARTITION BY dedup_key ORDER BY status = 'uploaded' DESC, created_at, rowid) AS n
+      FROM attendance_transactions
+    ) WHERE n > 1
+  );
+  CREATE UNIQUE INDEX idx_attendance_transactions_dedup_key ON attendance_transactions (dedup_key);
+  `,
+  `
+  ALTER TABLE attendance_transactions ADD COLUMN push_attempts INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE attendance_transactions ADD COLUMN last_error TEXT;
+  ALTER TABLE attendance_transactions ADD COLUMN next_attempt_at TEXT;
+  CREATE INDEX idx_attendance_transactions_status_next_attempt ON attendance_transactions (status, next_attempt_at);
+  `,
+  `
+  CREATE TABLE odoo_credentials (
+    url TEXT NOT NULL,
+    db TEXT NOT NULL,
+    login TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (url, db)
+  );
+  `,
+  `
+  CREATE TABLE odoo_profiles (
+    id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    db TEXT NOT NULL,
+    login TEXT NOT NULL,
+    uid INTEGER,
+    cookies TEXT NOT NULL DEFAULT '{}',
+    secret TEXT,
+    secret_updated_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    UNIQUE (url, db, login)
+  );
+  INSERT INTO odoo_profiles (id, url, db, login, secret, secret_updated_at, created_at, updated_at)
+    SELECT lower(hex(randomblob(16))), url, db, login, secret, updated_at, updated_at, updated_at FROM odoo_credentials;
+  DROP TABLE odoo_credentials;
+  `,
+  `
+  CREATE TABLE app_logs (
+    id TEXT PRIMARY KEY,
+    timestamp TEXT NOT NULL,
+    source TEXT NOT NULL,
+    message TEXT NOT NULL,
+    status TEXT NOT NULL,
+    context TEXT,
+    correlation_id TEXT,
+    stack TEXT
+  );
+  CREATE INDEX idx_app_logs_timestamp ON app_logs (timestamp);
+  CREATE INDEX idx_app_logs_correlation_id ON app_logs (correlation_id);
+  `,
+  // Full-text index over log messages and context. The trigram tokenizer matches any substring of 3+ characters.
+  // It reads its content from app_logs by rowid, kept in sync by the triggers below.
+  `
+  CREATE VIRTUAL TABLE app_logs_fts USING fts5(message, context, content='app_logs', content_rowid='rowid', tokenize='trigram');
+  INSERT INTO app_logs_fts (app_logs_fts) VALUES ('rebuild');
+  CREATE TRIGGER app_logs_fts_insert AFTER INSERT ON app_logs BEGIN
+    INSERT INTO app_logs_fts (rowid, message, context) VALUES (new.rowid, new.message, new.context);
+  END;
+  CREATE TRIGGER app_logs_fts_delete AFTER DELETE ON app_logs BEGIN
+    INSERT INTO app_logs_fts (app_logs_fts, rowid, message, context) VALUES ('delete', old.rowid, old.message, old.context);
+  END;
+  CREATE TRIGGER app_logs_fts_update AFTER UPDATE ON app_logs BEGIN
+    INSERT INTO app_logs_fts (app_logs_fts, rowid, message, context) VALUES ('delete', old.rowid, old.message, old.context);
+    INSERT INTO app_logs_fts (rowid, message, context) VALUES (new.rowid, new.message, new.context);
+  END;
+  `,
+  // Manual corrections: what the push last wrote to Odoo, and an audit history of every manual change.
+  `
+  ALTER TABLE attendance_transactions ADD COLUMN odoo_attendance_id INTEGER;
+  ALTER TABLE attendance_transactions ADD COLUMN pushed_type TEXT;
+  ALTER TABLE attendance_transactions ADD COLUMN pushed_time TEXT;
+  ALTER TABLE attendance_transactions ADD COLUMN voided_at TEXT;
+  UPDATE attendance_transactions SET pushed_type = transaction_type, pushed_time = transaction_time WHERE status = 'uploaded';
+  CREATE INDEX idx_attendance_transactions_odoo_attendance ON attendance_transactions (odoo_attendance_id);
+  CREATE TABLE attendance_audit (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    transaction_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    before TEXT,
+    after TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_attendance_audit_transaction ON attendance_audit (transaction_id, id);
+  `,
+  // Exception rules: their settings (a single row) and the exceptions found, one per transaction and rule.
+  `
+  CREATE TABLE anomaly_settings (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    settings TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE attendance_anomalies (
+    transaction_id TEXT NOT NULL,
+    rule TEXT NOT NULL,
+    employee_id TEXT NOT NULL,
+    message TEXT NOT NULL,
+    related_transaction_id TEXT,
+    detected_at TEXT NOT NULL,
+    resolved_at TEXT,
+    resolution TEXT,
+    resolved_by TEXT,
+    resolution_note TEXT,
+    PRIMARY KEY (transaction_id, rule)
+  );
+  CREATE INDEX idx_attendance_anomalies_open ON attendance_anomalies (resolved_at, detected_at);
+  `,
+  // Punch codes: the raw code of each punch, saved mappings from codes to transaction types (device_id '*'
+  // applies to every device of the source) and the overtime record the push writes for overtime punches.
+  `
+  ALTER TABLE attendance_transactions ADD COLUMN punch_code TEXT;
+  ALTER TABLE attendance_transactions ADD COLUMN odoo_overtime_id INTEGER;
+  CREATE INDEX idx_attendance_transactions_unknown ON attendance_transactions (source_type, punch_code) WHERE transaction_type = 'unknown';
+  CREATE TABLE punch_code_mappings (
+    source_type TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    punch_code TEXT NOT NULL,
+    transaction_type TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (source_type, device_id, punch_code)
+  );
+  `,
+  // Device registry: one row per terminal with its connection settings, fetch schedule, import watermark
+  // and health. Punches link to their entry through (source_type, device_id).
+  `
+  CREATE TABLE devices (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    location TEXT,
+    source_type TEXT NOT NULL,
+    device_id TEXT,
+    config TEXT,
+    enabled INTEGER NOT NULL DEFAULT 0,
+    frequency TEXT NOT NULL,
+    last_record_time TEXT,
+    running_since TEXT,
+    next_run_at TEXT,
+    last_run_at TEXT,
+    last_status TEXT,
+    last_message TEXT,
+    last_contact_at TEXT,
+    last_error TEXT,
+    last_error_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX idx_devices_source_device ON devices (source_type, device_id);
+  CREATE INDEX idx_attendance_transactions_source_device ON attendance_transactions (source_type, device_id);
+  `,
+  `
+  ALTER TABLE scheduler_jobs ADD COLUMN last_success_at TEXT;
+  UPDATE scheduler_jobs SET last_success_at = last_run_at WHERE last_status = 'success';
+  `,
+  // Transactions stored as 'uploaded' (e.g. the sample data) had no pushed type and time; record them as pushed.
+  `
+  UPDATE attendance_transactions SET pushed_type = transaction_type, pushed_time = transaction_time WHERE status = 'uploaded' AND pushed_type IS NULL;
+  `,
+  // Every log query lists the distinct sources for the filter; an index saves reading the whole table.
+  `
+  CREATE INDEX idx_app_logs_source ON app_logs (source);
+  `,
+  // Odoo servers of the profiles that existed before the proxy allowlist, which stay allowed so upgraded
+  // installs can still log in (see listOdooProfileUrls).
+  `
+  CREATE TABLE odoo_preexisting_urls (
+    url TEXT PRIMARY KEY,
+    recorded_at TEXT NOT NULL
+  );
+  INSERT INTO odoo_preexisting_urls (url, recorded_at)
+    SELECT DISTINCT url, strftime('%Y-%m-%dT%H:%M:%fZ', 'now') FROM odoo_profiles;
+  `,
+];
+
+// Keep a single connection across Next.js hot reloads and route bundles.
+const globalForDb = globalThis as unknown as { __uhhBapDb?: Database.Database };
+
+function runMigrations(db: Database.Database): void {
+  const currentVersion = db.pragma('user_version', { simple: true }) as number;
+  for (let version = currentVersion; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+    console.log(`Database: Applied migration ${version + 1}/${MIGRATIONS.length}.`);
+  }
+}
+
+/**
+ * Returns the shared database connection, opening it and applying pending migrations on first use.
+ * @returns {Database.Database} The open better-sqlite3 connection.
+ */
+export function getDb(): Database.Database {
+  if (globalForDb.__uhhBapDb) return globalForDb.__uhhBapDb;
+
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  const db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  runMigrations(db);
+
+  globalForDb.__uhhBapDb = db;
+  return db;
+}
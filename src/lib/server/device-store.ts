@@ -0,0 +1,295 @@
+// Server-side store for the device registry. Fetches are claimed the way scheduler jobs are
+// (see scheduler-store.ts): `running_since` keeps two fetches of the same device from overlapping.
+// ADMS devices upload by themselves, so their last contact and approval come from adms_devices.
+
+import crypto from 'crypto';
+import { getDb } from '@/lib/server/db';
+import { setDeviceApproval } from '@/lib/server/adms-store';
+import { SECRET_SETTING_FIELDS, type Device, type UnregisteredDevice } from '@/lib/devices';
+import { frequencyToMs, type SchedulerJobState, type SchedulerRunStatus } from '@/lib/scheduler/api';
+import { ADMS_SOURCE_TYPE } from '@/lib/zkteco/adms/api';
+import { MANUAL_SOURCE_TYPE } from '@/lib/attendance-manager';
+import { CSV_IMPORT_SOURCE_TYPE } from '@/lib/attendance-import';
+
+// A fetch still marked as running after this long belongs to a process that died mid-run.
+const STALE_RUN_MS = 30 * 60 * 1000;
+const FALLBACK_INTERVAL_MS = 30 * 60 * 1000;
+
+interface DeviceRow {
+  id: string;
+  name: string;
+  location: string | null;
+  source_type: string;
+  device_id: string | null;
+  config: string | null;
+  enabled: number;
+  frequency: string;
+  last_record_time: string | null;
+  running_since: string | null;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_status: SchedulerRunStatus | null;
+  last_message: string | null;
+  last_contact_at: string | null;
+  last_error: string | null;
+  last_error_at: string | null;
+  record_count: number;
+}
+
+export interface SavedDevice {
+  id?: string;
+  name: string;
+  location: string | null;
+  sourceType: string;
+  deviceId: string | null;
+  enabled: boolean;
+  frequency: string;
+  config?: object | null; // Parsed connection settings; undefined keeps the saved ones
+}
+
+export interface ClaimedDevice {
+  id: string;
+  name: string;
+  sourceType: string;
+  deviceId: string | null;
+  config: Record<string, unknown> | null;
+  state: SchedulerJobState;
+  startedAt: string;
+}
+
+// Health is read alongside the row: ADMS contact and approval, and the number of stored punches.
+const DEVICE_SELECT = `
+  SELECT d.*,
+    CASE WHEN a.serial_number IS NOT NULL THEN a.last_seen_at ELSE d.last_contact_at END AS last_contact_at,
+    COALESCE(a.approved, d.enabled) AS enabled,
+    (SELECT COUNT(*) FROM attendance_transactions t
+     WHERE t.source_type = d.source_type AND t.device_id = d.device_id AND t.voided_at IS NULL) AS record_count
+  FROM devices d
+  LEFT JOIN adms_devices a ON d.source_type = '${ADMS_SOURCE_TYPE}' AND a.serial_number = d.device_id
+`;
+
+function nextRunAt(frequency: string): string {
+  return new Date(Date.now() + (frequencyToMs(frequency) ?? FALLBACK_INTERVAL_MS)).toISOString();
+}
+
+function isStale(runningSince: string | null): boolean {
+  return runningSince !== null && Date.now() - new Date(runningSince).getTime() > STALE_RUN_MS;
+}
+
+function parseConfig(value: string | null): Record<string, unknown> | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function toDevice(row: DeviceRow): Device {
+  const running = row.running_since !== null && !isStale(row.running_since);
+  const config = parseConfig(row.config);
+  const settings = config
+    ? Object.fromEntries(Object.entries(config).filter(([field]) => !SECRET_SETTING_FIELDS.includes(field)))
+    : null;
+  return {
+    id: row.id,
+    name: row.name,
+    location: row.location,
+    sourceType: row.source_type,
+    deviceId: row.device_id,
+    settings,
+    enabled: row.enabled === 1,
+    frequency: row.frequency,
+    lastRecordTime: row.last_record_time,
+    running,
+    lastRunAt: row.last_run_at,
+    lastStatus: row.last_status,
+    lastMessage: row.last_message,
+    nextRunAt: row.next_run_at,
+    lastContactAt: row.last_contact_at,
+    lastError: row.last_error,
+    lastErrorAt: row.last_error_at,
+    recordCount: row.record_count,
+  };
+}
+
+function getDeviceRow(id: string): DeviceRow | undefined {
+  return getDb().prepare(`${DEVICE_SELECT} WHERE d.id = ?`).get(id) as DeviceRow | undefined;
+}
+
+export function getDevice(id: string): Device | null {
+  const row = getDeviceRow(id);
+  return row ? toDevice(row) : null;
+}
+
+export function listDevices(): Device[] {
+  const rows = getDb().prepare(`${DEVICE_SELECT} ORDER BY d.location IS NULL, d.location, d.name`).all() as DeviceRow[];
+  return rows.map(toDevice);
+}
+
+/**
+ * Returns a device's saved connection settings, secrets included. For the API route only.
+ */
+export function getDeviceConfig(id: string): Record<string, unknown> | null {
+  const row = getDb().prepare('SELECT config FROM devices WHERE id = ?').get(id) as { config: string | null } | undefined;
+  return row ? parseConfig(row.config) : null;
+}
+
+/**
+ * Lists device IDs on stored punches of the device sources that no registry entry covers, busiest first.
+ */
+export function listUnregisteredDevices(): UnregisteredDevice[] {
+  return getDb().prepare(`
+    SELECT t.source_type, t.device_id, COUNT(*) AS count, MAX(t.transaction_time) AS last_time
+    FROM attendance_transactions t
+    WHERE t.source_type NOT IN ('${MANUAL_SOURCE_TYPE}', '${CSV_IMPORT_SOURCE_TYPE}')
+      AND NOT EXISTS (SELECT 1 FROM devices d WHERE d.source_type = t.source_type AND d.device_id = t.device_id)
+    GROUP BY t.source_type, t.device_id ORDER BY count DESC, t.source_type, t.device_id
+  `).all() as UnregisteredDevice[];
+}
+
+/**
+ * Registers or updates a device. Enabling it or changing its frequency reschedules its next fetch one
+ * interval from now. For ADMS devices the enabled switch is the device's approval on the ADMS page.
+ */
+export function saveDevice(input: SavedDevice): { device?: Device; error?: string; notFound?: boolean } {
+  const db = getDb();
+  const current = input.id ? db.prepare('SELECT * FROM devices WHERE id = ?').get(input.id) as DeviceRow | undefined : undefined;
+  if (input.id && !current) return { notFound: true, error: 'Device not found.' };
+  if (current && current.source_type !== input.sourceType) return { error: 'The source type of a registered device cannot be changed.' };
+
+  if (input.deviceId) {
+    const clash = db.prepare('SELECT name FROM devices WHERE source_type = ? AND device_id = ? AND id != ?')
+      .get(input.sourceType, input.deviceId, input.id ?? '') as { name: string } | undefined;
+    if (clash) return { error: `Device ID '${input.deviceId}' is already registered as '${clash.name}'.` };
+  }
+
+  const id = current?.id ?? crypto.randomUUID();
+  const now = new Date().toISOString();
+  const reschedule = input.enabled && (!current || current.enabled !== 1 || input.frequency !== current.frequency || !current.next_run_at);
+  db.prepare(`
+    INSERT INTO devices (id, name, location, source_type, device_id, config, enabled, frequency, next_run_at, created_at, updated_at)
+    VALUES (@id, @name, @location, @source_type, @device_id, @config, @enabled, @frequency, @next_run_at, @now, @now)
+    ON CONFLICT (id) DO UPDATE SET
+      name = excluded.name,
+      location = excluded.location,
+      device_id = excluded.device_id,
+      config = excluded.config,
+      enabled = excluded.enabled,
+      frequency = excluded.frequency,
+      next_run_at = excluded.next_run_at,
+      updated_at = excluded.updated_at
+  `).run({
+    id,
+    name: input.name,
+    location: input.location,
+    source_type: input.sourceType,
+    device_id: input.deviceId,
+    config: input.config === undefined ? current?.config ?? null : input.config === null ? null : JSON.stringify(input.config),
+    enabled: input.enabled ? 1 : 0,
+    frequency: input.frequency,
+    next_run_at: !input.enabled ? null : reschedule ? nextRunAt(input.frequency) : current!.next_run_at,
+    now,
+  });
+  if (input.sourceType === ADMS_SOURCE_TYPE && input.deviceId) setDeviceApproval(input.deviceId, input.enabled);
+  return { device: getDevice(id)! };
+}
+
+/**
+ * Removes a device from the registry; its stored punches are kept. Refused while it is being fetched.
+ */
+export function deleteDevice(id: string): { error?: string; notFound?: boolean } {
+  const device = getDevice(id);
+  if (!device) return { notFound: true, error: 'Device not found.' };
+  if (device.running) return { error: `'${device.name}' is being fetched; try again when the fetch finishes.` };
+  getDb().prepare('DELETE FROM devices WHERE id = ?').run(id);
+  return {};
+}
+
+/**
+ * Lists enabled devices with connection settings whose next fetch is due (or was never scheduled).
+ */
+export function listDueDeviceIds(now: Date): string[] {
+  const rows = getDb().prepare(`
+    SELECT id FROM devices WHERE enabled = 1 AND config IS NOT NULL AND (next_run_at IS NULL OR next_run_at <= ?)
+  `).all(now.toISOString()) as Array<{ id: string }>;
+  return rows.map(row => row.id);
+}
+
+/**
+ * Clears a device's import watermark. Refused while it is being fetched.
+ * @returns {boolean} False if the device is being fetched.
+ */
+export function clearDeviceWatermark(id: string): boolean {
+  const device = getDevice(id);
+  if (!device || device.running) return false;
+  getDb().prepare('UPDATE devices SET last_record_time = NULL, updated_at = ? WHERE id = ?').run(new Date().toISOString(), id);
+  return true;
+}
+
+/**
+ * Marks a device as being fetched unless another fetch holds it, and schedules its next fetch if it is enabled.
+ * @returns The device's settings and watermark, or null if it is unknown or already being fetched.
+ */
+export function claimDevice(id: string): ClaimedDevice | null {
+  const current = getDb().prepare('SELECT * FROM devices WHERE id = ?').get(id) as DeviceRow | undefined;
+  if (!current) return null;
+  const startedAt = new Date().toISOString();
+  const claimed = getDb().prepare(`
+    UPDATE devices SET running_since = @started_at, next_run_at = @next_run_at
+    WHERE id = @id AND (running_since IS NULL OR running_since < @stale_before)
+  `).run({
+    id,
+    started_at: startedAt,
+    next_run_at: current.enabled === 1 ? nextRunAt(current.frequency) : null,
+    stale_before: new Date(Date.now() - STALE_RUN_MS).toISOString(),
+  }).changes === 1;
+
+  if (!claimed) return null;
+  return {
+    id,
+    name: current.name,
+    sourceType: current.source_type,
+    deviceId: current.device_id,
+    config: parseConfig(current.config),
+    state: current.last_record_time ? { lastRecordTime: current.last_record_time } : {},
+    startedAt,
+  };
+}
+
+/**
+ * Releases a claimed device and records the fetch outcome: a success counts as contact, an error is
+ * kept as the device's last error. Does nothing if the claim went stale and another fetch took over.
+ * @param outcome - `state` advances the watermark; `deviceId` is the ID the device reported, saved on
+ *   entries registered without one.
+ */
+export function finishDeviceFetch(
+  claim: ClaimedDevice,
+  outcome: { status: SchedulerRunStatus; message: string; state?: SchedulerJobState; deviceId?: string }
+): Device | null {
+  getDb().prepare(`
+    UPDATE devices SET
+      running_since = NULL,
+      last_run_at = @started_at,
+      last_status = @status,
+      last_message = @message,
+      last_record_time = COALESCE(@last_record_time, last_record_time),
+      device_id = COALESCE(device_id, CASE WHEN NOT EXISTS (
+        SELECT 1 FROM devices other WHERE other.source_type = devices.source_type AND other.device_id = @device_id
+      ) THEN @device_id END),
+      last_contact_at = CASE WHEN @status = 'success' THEN @finished_at ELSE last_contact_at END,
+      last_error = CASE WHEN @status = 'error' THEN @message ELSE last_error END,
+      last_error_at = CASE WHEN @status = 'error' THEN @finished_at ELSE last_error_at END,
+      updated_at = @finished_at
+    WHERE id = @id AND running_since = @started_at
+  `).run({
+    id: claim.id,
+    started_at: claim.startedAt,
+    status: outcome.status,
+    message: outcome.message,
+    last_record_time: outcome.state?.lastRecordTime ?? null,
+    device_id: outcome.deviceId ?? null,
+    finished_at: new Date().toISOString(),
+  });
+  return getDevice(claim.id);
+}
@@ -0,0 +1,220 @@
+// Server-side store for Odoo employees, matching rules and device-ID mappings.
+
+import { getDb } from '@/lib/server/db';
+import {
+  DEFAULT_RULE_SOURCE,
+  type EmployeeIdNormalization,
+  type EmployeeMapping,
+  type EmployeeMappingRule,
+  type OdooEmployee,
+} from '@/lib/employee-mapping';
+
+const DEFAULT_RULE: EmployeeMappingRule = { source_type: DEFAULT_RULE_SOURCE, match_field: 'barcode', normalization: 'exact' };
+
+// SQLite stores the active flag as 0 or 1.
+interface OdooEmployeeRow extends Omit<OdooEmployee, 'active'> {
+  active: number;
+}
+
+interface TransactionKey {
+  source_type: string;
+  employee_id: string;
+}
+
+/**
+ * Normalizes an ID so device and Odoo values compare equal under the given rule.
+ */
+export function normalizeEmployeeId(value: string, normalization: EmployeeIdNormalization): string {
+  let normalized = value.trim();
+  if (normalization === 'digits_only') normalized = normalized.replace(/\D/g, '');
+  if (normalization === 'ignore_leading_zeros' || normalization === 'digits_only') {
+    normalized = normalized.replace(/^0+(?=.)/, '');
+  }
+  return normalized;
+}
+
+export function listOdooEmployees(): OdooEmployee[] {
+  const rows = getDb().prepare('SELECT id, name, barcode, pin, identification_id, active FROM odoo_employees ORDER BY name').all() as OdooEmployeeRow[];
+  return rows.map(row => ({ ...row, active: row.active === 1 }));
+}
+
+export function getLastEmployeeSyncTime(): string | null {
+  const row = getDb().prepare('SELECT MAX(synced_at) AS synced_at FROM odoo_employees').get() as { synced_at: string | null };
+  return row.synced_at;
+}
+
+/**
+ * Replaces the cached Odoo employees with a fresh copy.
+ * @returns {number} The number of employees cached.
+ */
+export function replaceOdooEmployees(employees: OdooEmployee[]): number {
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT INTO odoo_employees (id, name, barcode, pin, identification_id, active, synced_at)
+    VALUES (@id, @name, @barcode, @pin, @identification_id, @active, @synced_at)
+  `);
+  const syncedAt = new Date().toISOString();
+  db.transaction(() => {
+    db.prepare('DELETE FROM odoo_employees').run();
+    for (const employee of employees) {
+      insert.run({ ...employee, active: employee.active ? 1 : 0, synced_at: syncedAt });
+    }
+  })();
+  return employees.length;
+}
+
+export function listMappingRules(): EmployeeMappingRule[] {
+  const rules = getDb().prepare('SELECT source_type, match_field, normalization FROM employee_mapping_rules ORDER BY source_type').all() as EmployeeMappingRule[];
+  return rules.some(r => r.source_type === DEFAULT_RULE_SOURCE) ? rules : [DEFAULT_RULE, ...rules];
+}
+
+export function saveMappingRule(rule: EmployeeMappingRule): void {
+  getDb().prepare(`
+    INSERT INTO employee_mapping_rules (source_type, match_field, normalization) VALUES (@source_type, @match_field, @normalization)
+    ON CONFLICT (source_type) DO UPDATE SET match_field = excluded.match_field, normalization = excluded.normalization
+  `).run(rule);
+}
+
+/**
+ * Lists every device employee ID seen in the attendance store together with its current mapping.
+ */
+export function listEmployeeMappings(): EmployeeMapping[] {
+  return getDb().prepare(`
+    SELECT t.source_type, t.employee_id AS device_employee_id, m.odoo_employee_id, e.name AS odoo_employee_name,
+           m.method, COUNT(*) AS transaction_count
+    FROM attendance_transactions t
+    LEFT JOIN employee_mappings m ON m.source_type = t.source_type AND m.device_employee_id = t.employee_id
+    LEFT JOIN odoo_employees e ON e.id = m.odoo_employee_id
+    GROUP BY t.source_type, t.employee_id
+    ORDER BY t.source_type, t.employee_id
+  `).all() as EmployeeMapping[];
+}
+
+/**
+ * Moves transactions held back as 'unmapped' back into the push queue once their employee is mapped.
+ */
+function releaseMappedTransactions(): number {
+  return getDb().prepare(`
+    UPDATE attendance_transactions SET status = 'not_uploaded'
+    WHERE status = 'unmapped' AND EXISTS (
+      SELECT 1 FROM employee_mappings m
+      WHERE m.source_type = attendance_transactions.source_type
+        AND m.device_employee_id = attendance_transactions.employee_id
+        AND m.odoo_employee_id IS NOT NULL
+    )
+  `).run().changes;
+}
+
+/**
+ * Applies the matching rules to device IDs that have no manual override.
+ * @param keys - Limit matching to these IDs; defaults to every ID seen in the attendance store.
+ * @returns Counts of matched and unmatched device IDs.
+ */
+export function runAutoMatch(keys?: TransactionKey[]): { matched: number; unmatched: number } {
+  const db = getDb();
+  const targets = keys ?? (db.prepare('SELECT DISTINCT source_type, employee_id FROM attendance_transactions').all() as TransactionKey[]);
+
+  const rules = listMappingRules();
+  const defaultRule = rules.find(r => r.source_type === DEFAULT_RULE_SOURCE) ?? DEFAULT_RULE;
+  const employees = listOdooEmployees();
+
+  // Index employees per (field, normalization) pair on demand; values shared by several employees are ambiguous.
+  const indexes = new Map<string, Map<string, number | null>>();
+  const indexFor = (rule: EmployeeMappingRule) => {
+    const indexKey = `${rule.match_field}:${rule.normalization}`;
+    let index = indexes.get(indexKey);
+    if (!index) {
+      index = new Map();
+      for (const employee of employees) {
+        const raw = employee[rule.match_field];
+        if (!raw) continue;
+        const value = normalizeEmployeeId(raw, rule.normalization);
+        index.set(value, index.has(value) ? null : employee.id);
+      }
+      indexes.set(indexKey, index);
+    }
+    return index;
+  };
+
+  const getManual = db.prepare("SELECT 1 FROM employee_mappings WHERE source_type = ? AND device_employee_id = ? AND method = 'manual'");
+  const upsertAuto = db.prepare(`
+    INSERT INTO employee_mappings (source_type, device_employee_id, odoo_employee_id, method, updated_at)
+    VALUES (?, ?, ?, 'auto', ?)
+    ON CONFLICT (source_type, device_employee_id) DO UPDATE SET odoo_employee_id = excluded.odoo_employee_id, method = 'auto', updated_at = excluded.updated_at
+  `);
+  const deleteAuto = db.prepare("DELETE FROM employee_mappings WHERE source_type = ? AND device_employee_id = ? AND method = 'auto'");
+
+  let matched = 0;
+  let unmatched = 0;
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    for (const key of targets) {
+      if (getManual.get(key.source_type, key.employee_id)) {
+        matched++;
+        continue;
+      }
+      const rule = rules.find(r => r.source_type === key.source_type) ?? defaultRule;
+      const odooEmployeeId = indexFor(rule).get(normalizeEmployeeId(key.employee_id, rule.normalization));
+      if (odooEmployeeId) {
+        upsertAuto.run(key.source_type, key.employee_id, odooEmployeeId, now);
+        matched++;
+      } else {
+        deleteAuto.run(key.source_type, key.employee_id);
+        unmatched++;
+      }
+    }
+    releaseMappedTransactions();
+  })();
+
+  return { matched, unmatched };
+}
+
+/**
+ * Sets a manual mapping override, or removes it (falling back to the automatic rule) when `odooEmployeeId` is null.
+ */
+export function setManualMapping(sourceType: string, deviceEmployeeId: string, odooEmployeeId: number | null): void {
+  const db = getDb();
+  if (odooEmployeeId === null) {
+    db.prepare("DELETE FROM employee_mappings WHERE source_type = ? AND device_employee_id = ? AND method = 'manual'").run(sourceType, deviceEmployeeId);
+    runAutoMatch([{ source_type: sourceType, employee_id: deviceEmployeeId }]);
+    return;
+  }
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO employee_mappings (source_type, device_employee_id, odoo_employee_id, method, updated_at)
+      VALUES (?, ?, ?, 'manual', ?)
+      ON CONFLICT (source_type, device_employee_id) DO UPDATE SET odoo_employee_id = excluded.odoo_employee_id, method = 'manual', updated_at = excluded.updated_at
+    `).run(sourceType, deviceEmployeeId, odooEmployeeId, new Date().toISOString());
+    releaseMappedTransactions();
+  })();
+}
+
+/**
+ * Resolves the Odoo employee for each transaction, auto-matching IDs that have never been matched.
+ * Transactions whose employee stays unmapped are marked 'unmapped' so they are held back from the push,
+ * unless `holdBackUnmapped` is false.
+ * @returns A map of transaction ID to hr.employee ID, and the IDs of the unmapped transactions.
+ */
+export function resolveTransactionEmployees(transactions: Array<TransactionKey & { id: string }>, holdBackUnmapped: boolean = true): { resolved: Record<string, number>; unmapped: string[] } {
+  const db = getDb();
+  const lookup = db.prepare('SELECT odoo_employee_id FROM employee_mappings WHERE source_type = ? AND device_employee_id = ?');
+  const findMapping = (key: TransactionKey) =>
+    (lookup.get(key.source_type, key.employee_id) as { odoo_employee_id: number | null } | undefined)?.odoo_employee_id ?? null;
+
+  const neverMatched = transactions.filter(t => lookup.get(t.source_type, t.employee_id) === undefined);
+  if (neverMatched.length > 0) runAutoMatch(neverMatched);
+
+  const resolved: Record<string, number> = {};
+  const unmapped: string[] = [];
+  for (const transaction of transactions) {
+    const odooEmployeeId = findMapping(transaction);
+    if (odooEmployeeId) resolved[transaction.id] = odooEmployeeId;
+    else unmapped.push(transaction.id);
+  }
+
+  if (holdBackUnmapped && unmapped.length > 0) {
+    const markUnmapped = db.prepare("UPDATE attendance_transactions SET status = 'unmapped' WHERE id = ?");
+    db.transaction(() => unmapped.forEach(id => markUnmapped.run(id)))();
+  }
+  return { resolved, unmapped };
+}
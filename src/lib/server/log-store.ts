@@ -0,0 +1,175 @@
+// Server-side application log backed by SQLite. Pages write to it through the /api/logs routes
+// (see src/lib/app-logger.ts); server code such as the scheduler writes directly with `writeServerLog`.
+
+import { getDb } from '@/lib/server/db';
+import {
+  LOG_ENTRY_STATUSES,
+  createLogEntry,
+  parseLogSearch,
+  type LogEntry,
+  type LogEntryStatus,
+  type LogOptions,
+  type LogPage,
+  type LogQuery,
+  type LogRetentionDays,
+} from '@/lib/app-logger';
+
+interface LogRow {
+  id: string;
+  timestamp: string;
+  source: string;
+  message: string;
+  status: LogEntryStatus;
+  context: string | null;
+  correlation_id: string | null;
+  stack: string | null;
+}
+
+// The trigram index can't match shorter terms; those fall back to a LIKE scan.
+const MIN_INDEXED_TERM_LENGTH = 3;
+
+const CONSOLE_BY_STATUS: Record<LogEntryStatus, (...args: unknown[]) => void> = {
+  Success: console.log,
+  Info: console.log,
+  Debug: console.debug,
+  Error: console.error,
+};
+
+function rowToEntry(row: LogRow): LogEntry {
+  const entry: LogEntry = { id: row.id, timestamp: row.timestamp, source: row.source, message: row.message, status: row.status };
+  if (row.context) {
+    try {
+      entry.context = JSON.parse(row.context);
+    } catch {
+      entry.context = { unparsed: row.context };
+    }
+  }
+  if (row.correlation_id) entry.correlationId = row.correlation_id;
+  if (row.stack) entry.stack = row.stack;
+  return entry;
+}
+
+/**
+ * Builds the SQL condition for one search term, matching it anywhere in the message or context.
+ */
+function searchTermCondition(text: string, exclude: boolean, param: string, params: Record<string, unknown>): string {
+  let condition: string;
+  if (text.length >= MIN_INDEXED_TERM_LENGTH) {
+    // Quoted as an FTS5 string so operators and punctuation in the term are taken literally.
+    params[param] = `"${text.replace(/"/g, '""')}"`;
+    condition = `rowid IN (SELECT rowid FROM app_logs_fts WHERE app_logs_fts MATCH @${param})`;
+  } else {
+    params[param] = `%${text.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+    condition = `(message LIKE @${param} ESCAPE '\\' OR context LIKE @${param} ESCAPE '\\')`;
+  }
+  return exclude ? `NOT ${condition}` : condition;
+}
+
+/**
+ * Stores log entries. Entries whose ID is already stored are skipped, so a resent batch is harmless.
+ * @returns {number} The number of entries stored.
+ */
+export function insertLogs(entries: LogEntry[]): number {
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT INTO app_logs (id, timestamp, source, message, status, context, correlation_id, stack)
+    VALUES (@id, @timestamp, @source, @message, @status, @context, @correlationId, @stack)
+    ON CONFLICT (id) DO NOTHING
+  `);
+  return db.transaction((batch: LogEntry[]) => batch.reduce((stored, entry) => stored + insert.run({
+    id: entry.id,
+    timestamp: entry.timestamp,
+    source: entry.source,
+    message: entry.message,
+    status: entry.status,
+    context: entry.context ? JSON.stringify(entry.context) : null,
+    correlationId: entry.correlationId ?? null,
+    stack: entry.stack ?? null,
+  }).changes, 0))(entries);
+}
+
+/**
+ * Writes an entry to the application log from server code and mirrors it to the console.
+ * A failure to store the entry is reported on the console only, so logging never breaks the caller.
+ */
+export function writeServerLog(source: string, message: string, status: LogEntryStatus, options?: LogOptions): LogEntry {
+  const entry = createLogEntry(source, message, status, options);
+  CONSOLE_BY_STATUS[status](`${source}: ${message}`);
+  try {
+    insertLogs([entry]);
+  } catch (error) {
+    console.error('Log Store: Error writing log entry:', error);
+  }
+  return entry;
+}
+
+/**
+ * Lists log entries, newest first.
+ * @param {LogQuery} query - Optional source, status, correlation ID, text search and date range filters, with paging.
+ */
+export function queryLogs(query: LogQuery = {}): LogPage {
+  const db = getDb();
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = {};
+  if (query.source) {
+    conditions.push('source = @source');
+    params.source = query.source;
+  }
+  if (query.status) {
+    conditions.push('status = @status');
+    params.status = query.status;
+  }
+  if (query.correlationId) {
+    conditions.push('correlation_id = @correlationId');
+    params.correlationId = query.correlationId;
+  }
+  parseLogSearch(query.search ?? '').forEach((term, index) => {
+    conditions.push(searchTermCondition(term.text, term.exclude, `term${index}`, params));
+  });
+  if (query.from) {
+    conditions.push('timestamp >= @from');
+    params.from = query.from;
+  }
+  if (query.to) {
+    conditions.push('timestamp <= @to');
+    params.to = query.to;
+  }
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+  let sql = `SELECT id, timestamp, source, message, status, context, correlation_id, stack FROM app_logs${where} ORDER BY timestamp DESC, rowid DESC`;
+  if (query.limit && query.limit > 0) {
+    sql += ' LIMIT @limit OFFSET @offset';
+    params.limit = query.limit;
+    params.offset = query.offset && query.offset > 0 ? query.offset : 0;
+  }
+
+  const logs = (db.prepare(sql).all(params) as LogRow[]).map(rowToEntry);
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM app_logs${where}`).get(params) as { total: number };
+  const sources = (db.prepare('SELECT DISTINCT source FROM app_logs ORDER BY source').all() as { source: string }[]).map(row => row.source);
+  return { logs, total, sources };
+}
+
+/**
+ * Deletes entries older than the retention window of their status. Statuses with a null window are kept.
+ * @returns The number of entries deleted per status.
+ */
+export function purgeExpiredLogs(retentionDays: LogRetentionDays, now: Date = new Date()): Record<LogEntryStatus, number> {
+  const db = getDb();
+  const remove = db.prepare('DELETE FROM app_logs WHERE status = ? AND timestamp < ?');
+  return db.transaction(() => {
+    const deleted = {} as Record<LogEntryStatus, number>;
+    for (const status of LOG_ENTRY_STATUSES) {
+      const days = retentionDays[status];
+      deleted[status] = days === null ? 0 : remove.run(status, new Date(now.getTime() - days * 86400000).toISOString()).changes;
+    }
+    return deleted;
+  })();
+}
+
+/**
+ * Deletes every log entry.
+ * @returns {number} The number of entries deleted.
+ */
+export function clearAppLogs(): number {
+  return getDb().prepare('DELETE FROM app_logs').run().changes;
+}
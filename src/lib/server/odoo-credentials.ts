@@ -0,0 +1,135 @@
+// Odoo logins kept on the server, on their connection profile (see odoo-profiles.ts), so the background push
+// can log in again when Odoo expires its session. Passwords are encrypted at rest with AES-256-GCM and never sent back to the browser. The key comes from
+// the APP_SECRET_KEY environment variable or, failing that, a random key generated once in DATA_DIR.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR, getDb } from '@/lib/server/db';
+import { writeServerLog } from '@/lib/server/log-store';
+import { getProfileSession, loginOdooProfile } from '@/lib/server/odoo-profiles';
+import { checkOdooSession, type OdooResponse, type OdooSession } from '@/lib/odoo/api';
+import type { SavedOdooLogin } from '@/lib/odoo/session';
+
+export interface EnsuredOdooSession {
+  session: OdooSession; // The session to use; unchanged unless it was renewed
+  renewed: boolean;
+  error?: string; // Why an expired session could not be renewed
+}
+
+const SECRET_KEY_PATH = path.join(DATA_DIR, 'secret.key');
+
+let cachedKey: Buffer | null = null;
+
+function getEncryptionKey(): Buffer {
+  if (cachedKey) return cachedKey;
+  if (process.env.APP_SECRET_KEY) {
+    cachedKey = crypto.createHash('sha256').update(process.env.APP_SECRET_KEY).digest();
+    return cachedKey;
+  }
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  try {
+    fs.writeFileSync(SECRET_KEY_PATH, crypto.randomBytes(32).toString('hex'), { mode: 0o600, flag: 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+  }
+  cachedKey = Buffer.from(fs.readFileSync(SECRET_KEY_PATH, 'utf8').trim(), 'hex');
+  return cachedKey;
+}
+
+function encrypt(plainText: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+function decrypt(secret: string): string {
+  const [iv, tag, encrypted] = secret.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Saves (or replaces) the password used to log the profile in again.
+ * @returns The saved login, or null if the profile does not exist.
+ */
+export function saveOdooCredentials(profileId: string, password: string): SavedOdooLogin | null {
+  const updatedAt = new Date().toISOString();
+  const row = getDb().prepare('UPDATE odoo_profiles SET secret = ?, secret_updated_at = ? WHERE id = ? RETURNING login, db, url')
+    .get(encrypt(password), updatedAt, profileId) as { login: string; db: string; url: string } | undefined;
+  if (!row) return null;
+  console.log(`Odoo Session: Saved credentials of '${row.login}' for automatic re-login to ${row.db} at ${row.url}.`);
+  return { login: row.login, updatedAt };
+}
+
+/**
+ * @returns {boolean} False if no credentials were saved for the profile.
+ */
+export function deleteOdooCredentials(profileId: string): boolean {
+  const row = getDb().prepare('UPDATE odoo_profiles SET secret = NULL, secret_updated_at = NULL WHERE id = ? AND secret IS NOT NULL RETURNING login, db')
+    .get(profileId) as { login: string; db: string } | undefined;
+  if (row) console.log(`Odoo Session: Removed saved credentials of '${row.login}' for ${row.db}.`);
+  return Boolean(row);
+}
+
+/**
+ * @returns The saved login for the profile (without the password), or null if none is saved.
+ */
+export function getSavedOdooLogin(profileId: string): SavedOdooLogin | null {
+  const row = getDb().prepare('SELECT login, secret_updated_at FROM odoo_profiles WHERE id = ? AND secret IS NOT NULL').get(profileId) as
+    { login: string; secret_updated_at: string } | undefined;
+  return row ? { login: row.login, updatedAt: row.secret_updated_at } : null;
+}
+
+/**
+ * Logs the profile in again with its saved credentials; the new session replaces the old one in its cookie jar.
+ * Every attempt is written to the application log.
+ * @param reason - Why the re-login happened, for the log.
+ * @param correlationId - The run the re-login belongs to, if any.
+ * @returns The new session, or why it could not be created.
+ */
+export async function reloginOdoo(profileId: string, reason: string, correlationId?: string): Promise<OdooResponse<OdooSession>> {
+  const row = getDb().prepare('SELECT url, db, login, secret FROM odoo_profiles WHERE id = ?').get(profileId) as
+    { url: string; db: string; login: string; secret: string | null } | undefined;
+  if (!row) {
+    return { success: false, error: 'Unknown connection profile; log in again on the UHH Connectivity page.' };
+  }
+  if (!row.secret) {
+    return { success: false, error: `No saved credentials for ${row.db} at ${row.url}; log in again on the UHH Connectivity page.` };
+  }
+
+  let password: string;
+  try {
+    password = decrypt(row.secret);
+  } catch (error) {
+    writeServerLog('Odoo Session', `Saved credentials for ${row.db} at ${row.url} cannot be decrypted; was the secret key changed?`, 'Error', { correlationId, error });
+    return { success: false, error: 'Saved credentials cannot be decrypted; save them again on the UHH Connectivity page.' };
+  }
+
+  const context = { profileId, url: row.url, db: row.db, login: row.login, reason };
+  writeServerLog('Odoo Session', `Re-authenticating '${row.login}' to ${row.db} at ${row.url} (${reason}).`, 'Info', { correlationId, context });
+  const result = await loginOdooProfile(row.url, row.db, row.login, password);
+  const session = result.success ? getProfileSession(profileId) : null;
+  if (!session) {
+    writeServerLog('Odoo Session', `Re-authentication of '${row.login}' to ${row.db} failed: ${result.error}`, 'Error', { correlationId, context });
+    return { success: false, error: result.error };
+  }
+  writeServerLog('Odoo Session', `Re-authenticated '${row.login}' to ${row.db}; connection profile ${profileId} holds the new session.`, 'Success', { correlationId, context });
+  return { success: true, data: session };
+}
+
+/**
+ * Checks a session and, if Odoo has expired it, renews it through a re-login with the saved credentials.
+ * If Odoo can't be reached the session is returned unchanged, since it may still be valid.
+ * @param correlationId - The run the check belongs to, if any; passed on to the re-login's log entries.
+ */
+export async function ensureOdooSession(session: OdooSession, reason: string = 'session expired', correlationId?: string): Promise<EnsuredOdooSession> {
+  const check = await checkOdooSession(session);
+  if (check.health !== 'expired') return { session, renewed: false };
+
+  const relogin = await reloginOdoo(session.profileId, reason, correlationId);
+  if (!relogin.success || !relogin.data) return { session, renewed: false, error: relogin.error };
+  return { session: relogin.data, renewed: true };
+}
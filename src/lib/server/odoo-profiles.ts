@@ -0,0 +1,246 @@
+// Odoo connection profiles: one per Odoo URL, database and login. Each profile keeps a cookie jar with the
+// Odoo session, so session cookies stay on the server. The browser references a profile by ID when calling
+// Odoo through /api/uhh-proxy, and background jobs use the same jar.
+
+import crypto from 'crypto';
+import { getDb } from '@/lib/server/db';
+import { decodeOdooError, type OdooResponse, type OdooRpcError, type OdooSession, type UhhAuthResponseResult } from '@/lib/odoo/api';
+import type { OdooConnectionProfile } from '@/lib/odoo/session';
+
+interface StoredCookie {
+  value: string;
+  expiresAt?: string; // Absent for cookies that last until Odoo replaces them
+}
+
+type CookieJar = Record<string, StoredCookie>;
+
+interface OdooProfileRow {
+  id: string;
+  url: string;
+  db: string;
+  login: string;
+  uid: number | null;
+  cookies: string;
+  updated_at: string;
+}
+
+export interface OdooProfileLogin {
+  profile: OdooConnectionProfile;
+  user: UhhAuthResponseResult;
+}
+
+const SESSION_COOKIE = 'session_id';
+
+function normalizeUrl(url: string): string {
+  return url.replace(/\/$/, '');
+}
+
+function rowToProfile(row: OdooProfileRow): OdooConnectionProfile {
+  return { id: row.id, url: row.url, db: row.db, login: row.login, uid: row.uid, updatedAt: row.updated_at };
+}
+
+function parseJar(raw: string): CookieJar {
+  try {
+    const jar = JSON.parse(raw);
+    return jar && typeof jar === 'object' ? jar : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Applies Set-Cookie headers to a jar. Cookies that Odoo expires (Max-Age=0 or a past Expires) are removed.
+ * The profile is tied to one Odoo origin, so Domain and Path are not tracked.
+ */
+function applySetCookies(jar: CookieJar, setCookies: string[], now: Date = new Date()): CookieJar {
+  const next = { ...jar };
+  for (const header of setCookies) {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) continue;
+    const name = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+
+    // Max-Age takes precedence over Expires, whatever their order.
+    let expiresAt: Date | undefined;
+    let hasMaxAge = false;
+    for (const attribute of attributes) {
+      const [key, ...rest] = attribute.split('=');
+      const attributeName = key.trim().toLowerCase();
+      const attributeValue = rest.join('=').trim();
+      if (attributeName === 'max-age') {
+        hasMaxAge = true;
+        expiresAt = new Date(now.getTime() + Number(attributeValue) * 1000);
+      } else if (attributeName === 'expires' && !hasMaxAge) {
+        expiresAt = new Date(attributeValue);
+      }
+    }
+    if (expiresAt && isNaN(expiresAt.getTime())) expiresAt = undefined;
+
+    if (expiresAt && expiresAt <= now) {
+      delete next[name];
+    } else {
+      next[name] = { value, expiresAt: expiresAt?.toISOString() };
+    }
+  }
+  return next;
+}
+
+function toCookieHeader(jar: CookieJar, now: Date = new Date()): string {
+  return Object.entries(jar)
+    .filter(([, cookie]) => !cookie.expiresAt || new Date(cookie.expiresAt) > now)
+    .map(([name, cookie]) => `${name}=${cookie.value}`)
+    .join('; ');
+}
+
+function getProfileRow(profileId: string): OdooProfileRow | null {
+  return (getDb().prepare('SELECT id, url, db, login, uid, cookies, updated_at FROM odoo_profiles WHERE id = ?').get(profileId) as OdooProfileRow | undefined) ?? null;
+}
+
+function saveJar(profileId: string, jar: CookieJar): void {
+  getDb().prepare('UPDATE odoo_profiles SET cookies = ?, updated_at = ? WHERE id = ?').run(JSON.stringify(jar), new Date().toISOString(), profileId);
+}
+
+/**
+ * Creates the profile for a URL, database and login, or replaces the session of the existing one
+ * (keeping its ID and any saved credentials).
+ */
+function upsertProfile(url: string, db: string, login: string, uid: number | null, jar: CookieJar): OdooConnectionProfile {
+  const now = new Date().toISOString();
+  return rowToProfile(getDb().prepare(`
+    INSERT INTO odoo_profiles (id, url, db, login, uid, cookies, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (url, db, login) DO UPDATE SET uid = COALESCE(excluded.uid, odoo_profiles.uid), cookies = excluded.cookies, updated_at = excluded.updated_at
+    RETURNING id, url, db, login, uid, cookies, updated_at
+  `).get(crypto.randomUUID(), normalizeUrl(url), db, login, uid, JSON.stringify(jar), now, now) as OdooProfileRow);
+}
+
+/**
+ * Posts a JSON-RPC payload to Odoo with the jar's cookies.
+ * @returns The response (body unread) and the jar updated with Odoo's Set-Cookie headers.
+ */
+async function postToOdoo(targetUrl: string, payload: unknown, jar: CookieJar, signal?: AbortSignal): Promise<{ response: Response; jar: CookieJar }> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const cookieHeader = toCookieHeader(jar);
+  if (cookieHeader) headers['Cookie'] = cookieHeader;
+  const response = await fetch(targetUrl, { method: 'POST', headers, body: JSON.stringify(payload), signal });
+  const setCookies = response.headers.getSetCookie();
+  return { response, jar: setCookies.length > 0 ? applySetCookies(jar, setCookies) : jar };
+}
+
+/**
+ * @returns The profile, or null if it does not exist (e.g. after a logout).
+ */
+export function getOdooProfile(profileId: string): OdooConnectionProfile | null {
+  const row = getProfileRow(profileId);
+  return row ? rowToProfile(row) : null;
+}
+
+/**
+ * @returns {string[]} The distinct Odoo base URLs of profiles whose login succeeded (those with a user ID),
+ * and of the profiles that existed before the proxy allowlist.
+ */
+export function listOdooProfileUrls(): string[] {
+  return (getDb().prepare(`
+    SELECT url FROM odoo_profiles WHERE uid IS NOT NULL
+    UNION SELECT url FROM odoo_preexisting_urls
+  `).all() as { url: string }[]).map(row => row.url);
+}
+
+/**
+ * Builds the session server code passes to the Odoo client, which sends through this profile's cookie jar.
+ * @returns The session, or null if the profile does not exist.
+ */
+export function getProfileSession(profileId: string): OdooSession | null {
+  const row = getProfileRow(profileId);
+  if (!row) return null;
+  return { url: row.url, db: row.db, profileId: row.id, uid: row.uid ?? undefined };
+}
+
+/**
+ * Relays one request to Odoo with the profile's cookies and stores the cookies Odoo sets in return.
+ * Requests for another origin than the profile's Odoo URL are refused, so the cookies can't be sent elsewhere.
+ * @param profileId - Profile to use, or null for a request without cookies.
+ * @returns The Odoo response, or an error message when the request was refused.
+ */
+export async function sendWithOdooProfile(
+  profileId: string | null,
+  targetUrl: string,
+  payload: unknown,
+  signal?: AbortSignal
+): Promise<{ response?: Response; error?: string }> {
+  if (!profileId) {
+    return { response: (await postToOdoo(targetUrl, payload, {}, signal)).response };
+  }
+
+  const row = getProfileRow(profileId);
+  if (!row) return { error: 'Unknown connection profile; log in again on the UHH Connectivity page.' };
+  if (new URL(targetUrl).origin !== new URL(row.url).origin) {
+    return { error: `The connection profile belongs to ${row.url}; it cannot be used for ${new URL(targetUrl).origin}.` };
+  }
+
+  const jar = parseJar(row.cookies);
+  const sent = await postToOdoo(targetUrl, payload, jar, signal);
+  if (sent.jar !== jar) saveJar(profileId, sent.jar);
+  return { response: sent.response };
+}
+
+/**
+ * Logs in through `/web/session/authenticate` and keeps the new session in the login's profile.
+ * The session ID is taken from the Set-Cookie header, falling back to the response body.
+ * @returns The profile and Odoo's user details, or why the login failed.
+ */
+export async function loginOdooProfile(url: string, db: string, login: string, password: string): Promise<OdooResponse<OdooProfileLogin>> {
+  const payload = { jsonrpc: '2.0', method: 'call', params: { db, login, password }, id: Date.now() };
+  let sent: { response: Response; jar: CookieJar };
+  let body: { result?: UhhAuthResponseResult; error?: OdooRpcError | string } | null;
+  try {
+    sent = await postToOdoo(`${normalizeUrl(url)}/web/session/authenticate`, payload, {});
+    body = await sent.response.json();
+  } catch (error) {
+    return { success: false, error: `Could not reach Odoo: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  if (body?.error) {
+    const message = typeof body.error === 'object' ? decodeOdooError(body.error) : String(body.error);
+    return { success: false, error: message || 'Invalid credentials, database name, or server configuration issue.', errorData: typeof body.error === 'object' ? body.error.data : undefined };
+  }
+  const user = body?.result;
+  if (!sent.response.ok || !user?.uid) {
+    return { success: false, error: `Odoo did not accept the login (HTTP ${sent.response.status}).` };
+  }
+
+  let jar = sent.jar;
+  if (!jar[SESSION_COOKIE] && user.session_id) jar = { ...jar, [SESSION_COOKIE]: { value: user.session_id } };
+  if (!jar[SESSION_COOKIE]) {
+    return { success: false, error: 'Odoo accepted the login but returned no session ID. Check the Odoo logs or session configuration.' };
+  }
+
+  const profile = upsertProfile(url, user.db || db, login, user.uid, jar);
+  const userDetails = { ...user };
+  delete userDetails.session_id; // Session IDs never leave the server
+  return { success: true, data: { profile, user: userDetails } };
+}
+
+/**
+ * Keeps a session ID that the browser held before profiles existed, so existing logins carry over.
+ */
+export function adoptOdooSession(url: string, db: string, login: string, sessionId: string): OdooConnectionProfile {
+  return upsertProfile(url, db, login, null, { [SESSION_COOKIE]: { value: sessionId } });
+}
+
+/**
+ * Logs the profile's session out of Odoo (best effort) and deletes the profile with its saved credentials.
+ * @returns {Promise<boolean>} False if the profile did not exist.
+ */
+export async function deleteOdooProfile(profileId: string): Promise<boolean> {
+  const row = getProfileRow(profileId);
+  if (!row) return false;
+  try {
+    await postToOdoo(`${row.url}/web/session/destroy`, { jsonrpc: '2.0', method: 'call', params: {}, id: Date.now() }, parseJar(row.cookies));
+  } catch (error) {
+    console.warn(`Odoo Session: Could not end the Odoo session of '${row.login}' on ${row.db}:`, error);
+  }
+  getDb().prepare('DELETE FROM odoo_profiles WHERE id = ?').run(profileId);
+  console.log(`Odoo Session: Deleted connection profile of '${row.login}' for ${row.db} at ${row.url}.`);
+  return true;
+}
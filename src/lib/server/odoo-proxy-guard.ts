@@ -0,0 +1,164 @@
+// Guards for the /api/uhh-proxy relay, which would otherwise forward to any URL. Only configured Odoo servers
+// and the RPC paths the app uses are relayed, every request is time-limited, and each Odoo server gets a cap
+// on concurrent requests and on requests per minute. Settings come from the environment:
+// - ODOO_PROXY_ALLOWED_URLS: comma-separated Odoo base URLs the app may log in to. Connection profiles only add
+//   their URL once a login to it succeeded (or if they existed before this allowlist), so a new server has to
+//   be listed here before the first login.
+// - ODOO_PROXY_ALLOWED_PATHS: comma-separated extra RPC paths; a trailing '*' allows every path below it
+// - ODOO_PROXY_TIMEOUT_MS: per-request timeout (default 30000)
+// - ODOO_PROXY_MAX_CONCURRENT: concurrent requests per Odoo server (default 4)
+// - ODOO_PROXY_MAX_REQUESTS_PER_MINUTE: requests per Odoo server per minute (default 120)
+
+import { listOdooProfileUrls } from '@/lib/server/odoo-profiles';
+import { CUSTOM_BATCH_ENDPOINT_PATH, CUSTOM_CORRECTION_ENDPOINT_PATH } from '@/lib/odoo/attendance-push';
+
+export type ProxyRejectionReason = 'url_not_allowed' | 'path_not_allowed' | 'too_many_concurrent' | 'rate_limited' | 'timeout';
+
+export interface ProxyRejection {
+  reason: ProxyRejectionReason;
+  message: string;
+  status: number; // HTTP status the proxy answers with
+  retryAfterSeconds?: number;
+}
+
+interface TargetTraffic {
+  active: number;
+  recent: number[]; // Start times (ms) of requests within the rate window
+}
+
+const DEFAULT_ALLOWED_PATHS = [
+  '/web/session/get_session_info',
+  '/web/session/destroy',
+  '/web/dataset/call_kw/*',
+  CUSTOM_BATCH_ENDPOINT_PATH,
+  CUSTOM_CORRECTION_ENDPOINT_PATH,
+];
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_CONCURRENT = 4;
+const DEFAULT_MAX_REQUESTS_PER_MINUTE = 120;
+const RATE_WINDOW_MS = 60000;
+
+// Keep the per-target counters across Next.js hot reloads.
+const globalForProxy = globalThis as unknown as { __uhhBapProxyTraffic?: Map<string, TargetTraffic> };
+
+function readList(name: string): string[] {
+  return (process.env[name] || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+function getTraffic(target: string): TargetTraffic {
+  const traffic = (globalForProxy.__uhhBapProxyTraffic ??= new Map());
+  let entry = traffic.get(target);
+  if (!entry) {
+    entry = { active: 0, recent: [] };
+    traffic.set(target, entry);
+  }
+  return entry;
+}
+
+function isPathAllowed(path: string): boolean {
+  return [...DEFAULT_ALLOWED_PATHS, ...readList('ODOO_PROXY_ALLOWED_PATHS')].some(pattern =>
+    pattern.endsWith('*') ? path.startsWith(pattern.slice(0, -1)) : path === pattern
+  );
+}
+
+/**
+ * @returns {number} How long the proxy waits for Odoo before giving up, in milliseconds.
+ */
+export function getProxyTimeoutMs(): number {
+  return readPositiveInt('ODOO_PROXY_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+}
+
+/**
+ * The Odoo base URLs the app may talk to: those configured by the administrator, those of profiles that
+ * logged in successfully and those of profiles from before the allowlist. Profiles adopted from a browser
+ * session since then don't count.
+ */
+function listAllowedBaseUrls(): URL[] {
+  const urls: URL[] = [];
+  for (const allowed of [...readList('ODOO_PROXY_ALLOWED_URLS'), ...listOdooProfileUrls()]) {
+    try {
+      urls.push(new URL(allowed));
+    } catch {
+      // Ignore malformed entries in ODOO_PROXY_ALLOWED_URLS
+    }
+  }
+  return urls;
+}
+
+function notAllowedRejection(target: URL): ProxyRejection {
+  return {
+    reason: 'url_not_allowed',
+    message: `${target.origin} is not a configured Odoo server; an administrator has to add it to ODOO_PROXY_ALLOWED_URLS.`,
+    status: 403,
+  };
+}
+
+/**
+ * Checks an Odoo base URL before logging in to it or adopting a session for it, so that no request is sent
+ * and no profile saved for a server that isn't allowed.
+ * @returns Why the server is refused, or null if it is allowed.
+ */
+export function checkOdooServerUrl(url: string): ProxyRejection | null {
+  const target = new URL(url);
+  const targetPath = target.pathname.replace(/\/$/, '');
+  const allowed = listAllowedBaseUrls().some(base => base.origin === target.origin && base.pathname.replace(/\/$/, '') === targetPath);
+  return allowed ? null : notAllowedRejection(target);
+}
+
+/**
+ * Checks a target URL against the allowed Odoo base URLs and RPC paths.
+ * @returns The matching Odoo base URL, which is also the key for rate limiting, or why the target is refused.
+ */
+export function checkProxyTarget(targetUrl: string): { baseUrl?: string; rejection?: ProxyRejection } {
+  const target = new URL(targetUrl);
+  for (const base of listAllowedBaseUrls()) {
+    const basePath = base.pathname.replace(/\/$/, '');
+    if (base.origin !== target.origin || !target.pathname.startsWith(`${basePath}/`)) continue;
+
+    const rpcPath = target.pathname.slice(basePath.length);
+    if (!isPathAllowed(rpcPath)) {
+      return { rejection: { reason: 'path_not_allowed', message: `The RPC path '${rpcPath}' is not on the proxy's allowlist.`, status: 403 } };
+    }
+    return { baseUrl: `${base.origin}${basePath}` };
+  }
+  return { rejection: notAllowedRejection(target) };
+}
+
+/**
+ * Reserves a request slot for an Odoo server, within its concurrency and per-minute limits.
+ * @returns A `release` callback to call once the request is done, or why no slot is available.
+ */
+export function acquireProxySlot(baseUrl: string, now: number = Date.now()): { release?: () => void; rejection?: ProxyRejection } {
+  const traffic = getTraffic(baseUrl);
+  traffic.recent = traffic.recent.filter(startedAt => startedAt > now - RATE_WINDOW_MS);
+
+  const maxConcurrent = readPositiveInt('ODOO_PROXY_MAX_CONCURRENT', DEFAULT_MAX_CONCURRENT);
+  if (traffic.active >= maxConcurrent) {
+    return {
+      rejection: { reason: 'too_many_concurrent', message: `The limit of ${maxConcurrent} concurrent requests to ${baseUrl} is reached; try again shortly.`, status: 429, retryAfterSeconds: 1 },
+    };
+  }
+  const maxPerMinute = readPositiveInt('ODOO_PROXY_MAX_REQUESTS_PER_MINUTE', DEFAULT_MAX_REQUESTS_PER_MINUTE);
+  if (traffic.recent.length >= maxPerMinute) {
+    const retryAfterSeconds = Math.max(1, Math.ceil((traffic.recent[0] + RATE_WINDOW_MS - now) / 1000));
+    return {
+      rejection: { reason: 'rate_limited', message: `More than ${maxPerMinute} requests per minute to ${baseUrl}; try again in ${retryAfterSeconds}s.`, status: 429, retryAfterSeconds },
+    };
+  }
+
+  traffic.active++;
+  traffic.recent.push(now);
+  let released = false;
+  return {
+    release: () => {
+      if (released) return;
+      released = true;
+      traffic.active--;
+    },
+  };
+}
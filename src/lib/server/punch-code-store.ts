@@ -0,0 +1,73 @@
+// Server-side store for the punch-code mappings of each source.
+
+import { getDb } from '@/lib/server/db';
+import {
+  ALL_DEVICES,
+  createPunchCodeResolver,
+  type PunchCodeMapping,
+  type PunchCodeResolver,
+  type PunchCodeTarget,
+  type UnknownPunchCode,
+} from '@/lib/punch-codes';
+import type { TransactionType } from '@/lib/attendance-manager';
+
+export function listPunchCodeMappings(sourceType: string): PunchCodeMapping[] {
+  return getDb().prepare(`
+    SELECT source_type, device_id, punch_code, transaction_type, updated_at FROM punch_code_mappings
+    WHERE source_type = ? ORDER BY device_id = '${ALL_DEVICES}' DESC, device_id, punch_code
+  `).all(sourceType) as PunchCodeMapping[];
+}
+
+/**
+ * Lists the codes of a source's stored 'unknown' punches, most frequent first.
+ */
+export function listUnknownPunchCodes(sourceType: string): UnknownPunchCode[] {
+  return getDb().prepare(`
+    SELECT device_id, punch_code, COUNT(*) AS count FROM attendance_transactions
+    WHERE transaction_type = 'unknown' AND source_type = ? AND punch_code IS NOT NULL
+    GROUP BY device_id, punch_code ORDER BY count DESC, device_id, punch_code
+  `).all(sourceType) as UnknownPunchCode[];
+}
+
+/**
+ * Builds the resolver a fetch or ingest uses for the source's punches.
+ * @param defaults - The source's standard codes.
+ */
+export function getPunchCodeResolver(sourceType: string, defaults: Record<string, TransactionType>): PunchCodeResolver {
+  return createPunchCodeResolver(defaults, listPunchCodeMappings(sourceType));
+}
+
+/**
+ * Saves a mapping, or removes it when `target` is null. Stored 'unknown' punches the mapping now covers
+ * take its type unless a device mapping of their own says otherwise; those the push skipped are requeued.
+ * Punches that reached Odoo or were voided are left alone.
+ * @returns The number of stored punches re-typed.
+ */
+export function savePunchCodeMapping(sourceType: string, deviceId: string, punchCode: string, target: PunchCodeTarget | null): { retyped: number } {
+  const db = getDb();
+  return db.transaction(() => {
+    if (target === null) {
+      db.prepare('DELETE FROM punch_code_mappings WHERE source_type = ? AND device_id = ? AND punch_code = ?').run(sourceType, deviceId, punchCode);
+      return { retyped: 0 };
+    }
+    db.prepare(`
+      INSERT INTO punch_code_mappings (source_type, device_id, punch_code, transaction_type, updated_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (source_type, device_id, punch_code) DO UPDATE SET transaction_type = excluded.transaction_type, updated_at = excluded.updated_at
+    `).run(sourceType, deviceId, punchCode, target, new Date().toISOString());
+    if (target === 'ignore') return { retyped: 0 };
+
+    const retyped = db.prepare(`
+      UPDATE attendance_transactions
+      SET transaction_type = @target,
+          status = CASE WHEN status = 'skipped' THEN 'not_uploaded' ELSE status END,
+          last_error = CASE WHEN status = 'skipped' THEN NULL ELSE last_error END
+      WHERE transaction_type = 'unknown' AND source_type = @sourceType AND punch_code = @punchCode
+        AND status IN ('not_uploaded', 'pending_retry', 'failed', 'skipped', 'unmapped', 'held')
+        AND (device_id = @deviceId OR (@deviceId = '${ALL_DEVICES}' AND NOT EXISTS (
+          SELECT 1 FROM punch_code_mappings m
+          WHERE m.source_type = @sourceType AND m.device_id = attendance_transactions.device_id AND m.punch_code = @punchCode
+        )))
+    `).run({ target, sourceType, deviceId, punchCode }).changes;
+    return { retyped };
+  })();
+}
@@ -0,0 +1,366 @@
+// Work done by each background job. Runners talk to the sources and to Odoo directly and write
+// to the SQLite stores, since no browser is involved when the scheduler fires.
+
+import {
+  PUSH_MAX_ATTEMPTS,
+  addAttendanceTransactions,
+  findOvertimeStarts,
+  findRecordedOvertimeIds,
+  listDueCorrections,
+  listPushableTransactions,
+  markTransactionsUploading,
+  recordCorrectionOutcomes,
+  recordPushOutcomes,
+  recoverInterruptedUploads,
+  skipTransactions,
+} from '@/lib/server/attendance-store';
+import { resolveTransactionEmployees } from '@/lib/server/employee-mapping-store';
+import { screenTransactionsForPush } from '@/lib/server/anomaly-store';
+import { getPunchCodeResolver } from '@/lib/server/punch-code-store';
+import { purgeExpiredLogs, writeServerLog } from '@/lib/server/log-store';
+import { ensureOdooSession, reloginOdoo } from '@/lib/server/odoo-credentials';
+import { getProfileSession } from '@/lib/server/odoo-profiles';
+import { fetchBiotimeTransactions, loginBiotime, parseBiotimeConfig } from '@/lib/server/biotime-client';
+import { parseSecureLinkConfig, readSecureLinkRecords } from '@/lib/server/securelink-reader';
+import { downloadZkDeviceData, parseZkDeviceConfig } from '@/lib/server/zk-protocol';
+import {
+  DEFAULT_PUNCH_TYPE_POLICIES,
+  POLICY_PUNCH_TYPES,
+  PUNCH_TYPE_POLICIES,
+  pushCustomBatch,
+  pushCustomCorrections,
+  pushHrAttendance,
+  pushHrAttendanceCorrections,
+  resolvePunchAction,
+  type AttendancePushOutcome,
+  type PunchTypePolicies,
+  type PunchTypePolicy,
+} from '@/lib/odoo/attendance-push';
+import type { OdooSession } from '@/lib/odoo/api';
+import type { AttendanceTransaction } from '@/lib/attendance-manager';
+import { DEFAULT_LOG_RETENTION_DAYS, LOG_ENTRY_STATUSES } from '@/lib/app-logger';
+import { SECURELINK_RECORD_TYPES, SECURELINK_SOURCE_TYPE, toSecureLinkTransactions, type SecureLinkConfig } from '@/lib/securelink/api';
+import { BIOTIME_LATE_SYNC_WINDOW_MS, BIOTIME_SOURCE_TYPE, toBiotimeTransactions, type BiotimeConfig } from '@/lib/zkteco/biotime/api';
+import { ZK_PUNCH_CODES, ZK_SOURCE_TYPE, toZkTimeTransactions, type ZkDeviceConfig } from '@/lib/zkteco/time/api';
+import type { LogRetentionJobConfig, OdooPushJobConfig, SchedulerJobId, SchedulerJobState, SchedulerRunStatus } from '@/lib/scheduler/api';
+
+const MAX_PUSH_BATCH_SIZE = 1000;
+const MAX_LOG_RETENTION_DAYS = 3650;
+
+export interface JobRunResult {
+  status: SchedulerRunStatus;
+  message: string;
+  state?: SchedulerJobState; // Replaces the job's state when given
+}
+
+export interface JobRunContext {
+  correlationId: string; // Shared by every log entry of the run
+}
+
+export interface DeviceFetchResult extends JobRunResult {
+  deviceId?: string; // The ID the device reported, saved on entries registered without one
+}
+
+// `run` and `fetch` are methods so that definitions for specific settings fit the registries below, which
+// hold definitions for every kind of settings; each definition only runs with what its own parseConfig returned.
+interface JobDefinition<C extends object> {
+  notConfiguredMessage: string;
+  defaultConfig?: object; // Settings used until some are saved; without them the job is skipped
+  /** Validates saved settings. @returns The settings, or an error message. */
+  parseConfig: (raw: unknown) => C | string;
+  run(config: C, state: SchedulerJobState, params: Record<string, unknown>, run: JobRunContext): Promise<JobRunResult>;
+}
+
+interface DeviceFetchDefinition<C extends object> {
+  /** Validates connection settings. @returns The settings, or an error message. */
+  parseConfig: (raw: unknown) => C | string;
+  fetch(config: C, deviceId: string | null, state: SchedulerJobState, params: Record<string, unknown>): Promise<DeviceFetchResult>;
+}
+
+function asFields(value: unknown): Record<string, unknown> {
+  return (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+}
+
+function parseOdooPushConfig(value: unknown): OdooPushJobConfig | string {
+  const raw = asFields(value);
+  if (raw.session && raw.profileId === undefined) {
+    return 'These settings hold an Odoo session from before connection profiles; open the UHH Connectivity page to update them.';
+  }
+  if (typeof raw.profileId !== 'string' || !raw.profileId) return 'An Odoo connection profile is required.';
+  if (raw.pushMode !== 'hr_attendance' && raw.pushMode !== 'custom_endpoint') return `Invalid push mode '${raw.pushMode}'.`;
+  const batchSize = Number(raw.batchSize);
+  if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_PUSH_BATCH_SIZE) return `Batch size must be between 1 and ${MAX_PUSH_BATCH_SIZE}.`;
+  // Settings saved before punch type policies existed push breaks and overtime as before.
+  const typePolicies: PunchTypePolicies = { ...DEFAULT_PUNCH_TYPE_POLICIES };
+  for (const type of POLICY_PUNCH_TYPES) {
+    const policy = asFields(raw.typePolicies)[type] as PunchTypePolicy | undefined;
+    if (policy === undefined) continue;
+    if (!PUNCH_TYPE_POLICIES.includes(policy)) return `Invalid push policy '${policy}' for ${type} punches.`;
+    if (policy === 'overtime' && raw.pushMode !== 'hr_attendance') return 'Overtime records can only be written by the hr.attendance push mode.';
+    typePolicies[type] = policy;
+  }
+  return {
+    profileId: raw.profileId,
+    pushMode: raw.pushMode,
+    batchSize,
+    typePolicies,
+  };
+}
+
+function parseLogRetentionConfig(value: unknown): LogRetentionJobConfig | string {
+  const retentionDays = { ...DEFAULT_LOG_RETENTION_DAYS };
+  for (const status of LOG_ENTRY_STATUSES) {
+    const days = asFields(asFields(value).retentionDays)[status];
+    if (days === undefined) continue;
+    if (days !== null && (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_LOG_RETENTION_DAYS)) {
+      return `Retention for ${status} logs must be between 1 and ${MAX_LOG_RETENTION_DAYS} days, or null to keep them.`;
+    }
+    retentionDays[status] = days;
+  }
+  return { retentionDays };
+}
+
+/**
+ * Corrects Odoo for transactions changed or voided after they were pushed.
+ * @returns A note for the run message, and the number of corrections that failed.
+ */
+async function pushDueCorrections(config: OdooPushJobConfig, corrections: AttendanceTransaction[], session: OdooSession, correlationId: string): Promise<{ note: string; failed: number }> {
+  const { resolved } = resolveTransactionEmployees(corrections, false);
+  const outcomes = config.pushMode === 'hr_attendance'
+    ? await pushHrAttendanceCorrections(corrections, resolved, session, config.typePolicies)
+    : await pushCustomCorrections(corrections, resolved, session, config.typePolicies);
+  const { applied, requeued, retrying } = recordCorrectionOutcomes(outcomes);
+  const errors = outcomes.filter(o => !o.success);
+  errors.forEach(o => writeServerLog('Scheduler', `Correction of transaction ${o.transactionId} was not applied in Odoo: ${o.error}`, 'Error', {
+    correlationId,
+    context: { transactionId: o.transactionId, pushMode: config.pushMode, profileId: config.profileId, error: o.error },
+  }));
+  const requeuedNote = requeued > 0 ? `, ${requeued} requeued to be pushed as new punches` : '';
+  const firstError = errors.length > 0 ? ` First correction error: ${errors[0].error}` : '';
+  return { note: ` Corrections: ${applied} applied${requeuedNote}, ${retrying} will be retried.${firstError}`, failed: errors.length };
+}
+
+/**
+ * Applies due corrections, then pushes the next batch of 'not_uploaded' transactions plus 'pending_retry'
+ * ones that are due. Punch types the push policies skip are marked 'skipped'. Transactions of unmapped
+ * employees are marked 'unmapped' and held back, as are those with an open exception when the exception
+ * rules say so; the outcome of every pushed transaction is recorded on its row (see recordPushOutcomes).
+ */
+async function runOdooPush(config: OdooPushJobConfig, state: SchedulerJobState, params: Record<string, unknown>, { correlationId }: JobRunContext): Promise<JobRunResult> {
+  const interrupted = recoverInterruptedUploads();
+  if (interrupted > 0) {
+    writeServerLog('Scheduler', `Requeued ${interrupted} transactions left 'uploading' by an interrupted push.`, 'Info', { correlationId, context: { interrupted } });
+  }
+
+  // hr.attendance pairing needs punches oldest first so check-outs follow their check-ins.
+  const listed = listPushableTransactions(config.batchSize, config.pushMode === 'hr_attendance' ? 'asc' : 'desc');
+  const corrections = listDueCorrections(config.batchSize);
+  if (listed.length === 0 && corrections.length === 0) return { status: 'success', message: 'No records due for a push.' };
+
+  const policySkipped = listed.filter(t => resolvePunchAction(t.transaction_type, config.typePolicies) === 'skip');
+  for (const type of POLICY_PUNCH_TYPES) {
+    const ids = policySkipped.filter(t => t.transaction_type === type).map(t => t.id);
+    if (ids.length > 0) skipTransactions(ids, `Not pushed: the push policy skips ${type} punches.`);
+  }
+  const batch = listed.filter(t => !policySkipped.includes(t));
+  const skippedNote = policySkipped.length > 0 ? ` ${policySkipped.length} skipped by the punch type policies.` : '';
+
+  const { resolved, unmapped } = resolveTransactionEmployees(batch);
+  const mappedIds = new Set(batch.filter(t => resolved[t.id] !== undefined).map(t => t.id));
+  const held = new Set(screenTransactionsForPush(batch.filter(t => mappedIds.has(t.id))));
+  // Odoo pairs each check-out with the employee's open check-in, so punches after one held just now wait for it.
+  // From the next run on, listPushableTransactions leaves them out until the held punch is released.
+  const heldFrom = new Map<string, string>();
+  for (const transaction of batch) {
+    const earliest = heldFrom.get(transaction.employee_id);
+    if (held.has(transaction.id) && (!earliest || transaction.transaction_time < earliest)) heldFrom.set(transaction.employee_id, transaction.transaction_time);
+  }
+  const mappedBatch = batch.filter(t => mappedIds.has(t.id) && !held.has(t.id)
+    && !(heldFrom.has(t.employee_id) && t.transaction_time > heldFrom.get(t.employee_id)!));
+  const waiting = mappedIds.size - held.size - mappedBatch.length;
+  const heldBack = skippedNote + (unmapped.length > 0 ? ` ${unmapped.length} held back as 'unmapped'; map them on the Employee Mapping page.` : '')
+    + (held.size > 0 ? ` ${held.size} held back by exceptions; resolve them on the Exceptions page.` : '')
+    + (waiting > 0 ? ` ${waiting} wait for an earlier held punch of the same employee.` : '');
+  if (mappedBatch.length === 0 && corrections.length === 0) {
+    if (batch.length === 0) return { status: 'success', message: `Nothing to push.${heldBack}` };
+    return { status: 'error', message: `Nothing pushed: every record in the batch is held back.${heldBack}` };
+  }
+
+  const profileSession = getProfileSession(config.profileId);
+  if (!profileSession) {
+    return { status: 'error', message: 'The Odoo connection profile no longer exists; log in again on the UHH Connectivity page.' };
+  }
+
+  // Log in again first if Odoo has expired the session, so the batch isn't spent on a dead session.
+  const ensured = await ensureOdooSession(profileSession, 'session expired before push', correlationId);
+  if (ensured.error) {
+    return { status: 'error', message: `Odoo session has expired and could not be renewed: ${ensured.error}` };
+  }
+  let session = ensured.session;
+  let renewedNote = ensured.renewed ? ' Session renewed by re-login.' : '';
+
+  const target = config.pushMode === 'hr_attendance' ? 'hr.attendance' : 'Custom endpoint';
+  const corrected = corrections.length > 0 ? await pushDueCorrections(config, corrections, session, correlationId) : { note: '', failed: 0 };
+  if (mappedBatch.length === 0) {
+    return {
+      status: corrected.failed === 0 ? 'success' : 'error',
+      message: `${target} push: nothing new to upload.${corrected.note}${renewedNote}${heldBack}`,
+    };
+  }
+
+  const overtimeStarts = findOvertimeStarts(mappedBatch);
+  const recordedOvertimeIds = findRecordedOvertimeIds(mappedBatch);
+  const push = (transactions: AttendanceTransaction[]) => config.pushMode === 'hr_attendance'
+    ? pushHrAttendance(transactions, resolved, session, { policies: config.typePolicies, overtimeStarts, recordedOvertimeIds })
+    : pushCustomBatch(transactions, resolved, session, config.typePolicies);
+
+  markTransactionsUploading(mappedBatch.map(t => t.id));
+  let outcomes: AttendancePushOutcome[];
+  try {
+    outcomes = await push(mappedBatch);
+    if (outcomes.some(o => o.sessionExpired)) {
+      // Expired mid-push: log in again and push what didn't get through; pushes are idempotent.
+      const relogin = await reloginOdoo(session.profileId, 'session expired during push', correlationId);
+      if (relogin.success && relogin.data) {
+        session = relogin.data;
+        renewedNote = ' Session renewed by re-login.';
+        const uploadedIds = new Set(outcomes.filter(o => o.success).map(o => o.transactionId));
+        outcomes = [...outcomes.filter(o => o.success), ...await push(mappedBatch.filter(t => !uploadedIds.has(t.id)))];
+      }
+    }
+  } catch (error) {
+    recoverInterruptedUploads();
+    throw error;
+  }
+  const { uploaded, retrying, failed } = recordPushOutcomes(outcomes);
+  const errors = outcomes.filter(o => !o.success);
+  errors.forEach(o => writeServerLog('Scheduler', `Transaction ${o.transactionId} was not pushed: ${o.error}`, 'Error', {
+    correlationId,
+    context: { transactionId: o.transactionId, pushMode: config.pushMode, profileId: config.profileId, error: o.error },
+  }));
+
+  const deadLettered = failed > 0 ? ` ${failed} failed for good after ${PUSH_MAX_ATTEMPTS} attempts; requeue them from the Attendance page.` : '';
+  const firstError = errors.length > 0 ? ` First error: ${errors[0].error}` : '';
+  return {
+    status: errors.length === 0 && corrected.failed === 0 ? 'success' : 'error',
+    message: `${target} push: ${uploaded} uploaded, ${retrying} will be retried.${corrected.note}${renewedNote}${deadLettered}${heldBack}${firstError}`,
+  };
+}
+
+/**
+ * Imports AAS records newer than the watermark, up to `params.upTo` (default: now).
+ * @param deviceId - Only import the records of this AAS device.
+ */
+async function fetchSecureLink(config: SecureLinkConfig, state: SchedulerJobState, params: Record<string, unknown>, deviceId?: string): Promise<JobRunResult> {
+  const upTo = typeof params.upTo === 'string' ? new Date(params.upTo) : new Date();
+  if (isNaN(upTo.getTime())) return { status: 'error', message: `Invalid upTo '${params.upTo}'.` };
+
+  const { records, alreadyImported } = await readSecureLinkRecords(config, state.lastRecordTime ? new Date(state.lastRecordTime) : undefined, upTo);
+  const deviceRecords = deviceId ? records.filter(record => record.deviceId === deviceId) : records;
+  const { transactions, skipped, latestTimestamp } = toSecureLinkTransactions(deviceRecords, getPunchCodeResolver(SECURELINK_SOURCE_TYPE, SECURELINK_RECORD_TYPES));
+  const { inserted, duplicates } = addAttendanceTransactions(transactions);
+  const otherDevices = records.length - deviceRecords.length;
+  return {
+    status: 'success',
+    message: `${inserted} new records imported, ${duplicates} duplicates, ${skipped} skipped (RecordType ignored), ${alreadyImported} already imported earlier.`
+      + (otherDevices > 0 ? ` ${otherDevices} records of other devices left for their own entries.` : ''),
+    state: latestTimestamp ? { lastRecordTime: latestTimestamp } : undefined,
+  };
+}
+
+/**
+ * @param terminalSn - Only import the punches of this terminal.
+ */
+async function fetchBiotime(config: BiotimeConfig, state: SchedulerJobState, terminalSn?: string): Promise<JobRunResult> {
+  const since = state.lastRecordTime;
+  const resumeFrom = since ? new Date(new Date(since).getTime() - BIOTIME_LATE_SYNC_WINDOW_MS).toISOString() : undefined;
+  const auth = await loginBiotime(config);
+  const fetched = await fetchBiotimeTransactions(config, auth, resumeFrom ? new Date(resumeFrom) : undefined, undefined, terminalSn);
+  const { transactions, skipped, latestTimestamp } = toBiotimeTransactions(fetched, resumeFrom, getPunchCodeResolver(BIOTIME_SOURCE_TYPE, ZK_PUNCH_CODES));
+  const { inserted, duplicates } = addAttendanceTransactions(transactions);
+  return {
+    status: 'success',
+    message: `Fetched ${fetched.length} BioTime transactions. Imported ${inserted}, ${duplicates} duplicates, skipped ${skipped} (already imported or not an attendance punch).`,
+    state: latestTimestamp && (!since || latestTimestamp > since) ? { lastRecordTime: latestTimestamp } : undefined,
+  };
+}
+
+/**
+ * @param expectedSerial - The serial the device is registered with; another device at the address is refused.
+ * @returns The run result, with the serial the device reported.
+ */
+async function fetchZkTime(config: ZkDeviceConfig, state: SchedulerJobState, expectedSerial?: string | null): Promise<DeviceFetchResult> {
+  const { deviceInfo, users, records } = await downloadZkDeviceData(config);
+  const deviceSerial = deviceInfo.serialNumber || `${config.ip}:${config.port}`;
+  if (expectedSerial && deviceSerial !== expectedSerial) {
+    return { status: 'error', message: `The device at ${config.ip}:${config.port} reports serial ${deviceSerial}, not ${expectedSerial}; check its registered address.` };
+  }
+  const { transactions, skipped, latestTimestamp } = toZkTimeTransactions(records, deviceSerial, state.lastRecordTime, getPunchCodeResolver(ZK_SOURCE_TYPE, ZK_PUNCH_CODES));
+  const { inserted, duplicates } = addAttendanceTransactions(transactions);
+  return {
+    status: 'success',
+    message: `Device ${deviceSerial}: ${users.length} users, ${records.length} log records. Imported ${inserted}, ${duplicates} duplicates, skipped ${skipped} (already imported or not an attendance punch).`,
+    state: latestTimestamp ? { lastRecordTime: latestTimestamp } : undefined,
+    deviceId: deviceSerial,
+  };
+}
+
+/**
+ * Deletes log entries older than their status's retention window and logs how many were removed.
+ */
+async function runLogRetention(config: LogRetentionJobConfig, state: SchedulerJobState, params: Record<string, unknown>, { correlationId }: JobRunContext): Promise<JobRunResult> {
+  const deleted = purgeExpiredLogs(config.retentionDays);
+  const total = LOG_ENTRY_STATUSES.reduce((sum, status) => sum + deleted[status], 0);
+  const breakdown = LOG_ENTRY_STATUSES
+    .filter(status => config.retentionDays[status] !== null)
+    .map(status => `${status}: ${deleted[status]} older than ${config.retentionDays[status]}d`)
+    .join(', ');
+  const message = `Removed ${total} expired log entries${breakdown ? ` (${breakdown})` : ''}.`;
+  if (total > 0) writeServerLog('Log Retention', message, 'Info', { correlationId, context: { deleted, retentionDays: config.retentionDays } });
+  return { status: 'success', message };
+}
+
+export const SCHEDULER_JOBS: { [K in SchedulerJobId]: JobDefinition<object> } = {
+  odoo_push: {
+    notConfiguredMessage: 'No active Odoo session. Log in on the UHH Connectivity page.',
+    parseConfig: parseOdooPushConfig,
+    run: runOdooPush,
+  },
+  securelink_fetch: {
+    notConfiguredMessage: 'SecureLink is not configured. Test the connection on the SecureLink page.',
+    parseConfig: parseSecureLinkConfig,
+    run: (config: SecureLinkConfig, state, params) => fetchSecureLink(config, state, params),
+  },
+  biotime_fetch: {
+    notConfiguredMessage: 'ZKBiotime is not configured. Test the connection on the ZKBiotime page.',
+    parseConfig: parseBiotimeConfig,
+    run: (config: BiotimeConfig, state) => fetchBiotime(config, state),
+  },
+  zktime_fetch: {
+    notConfiguredMessage: 'ZKTime is not configured. Test the connection on the ZKTime page.',
+    parseConfig: parseZkDeviceConfig,
+    run: (config: ZkDeviceConfig, state) => fetchZkTime(config, state),
+  },
+  log_retention: {
+    notConfiguredMessage: 'Log retention is not configured. Set retention periods on the Logs page.',
+    defaultConfig: { retentionDays: DEFAULT_LOG_RETENTION_DAYS },
+    parseConfig: parseLogRetentionConfig,
+    run: runLogRetention,
+  },
+};
+
+// Fetches of registered devices, by source type. ADMS devices upload by themselves and have none.
+export const DEVICE_FETCHERS: Record<string, DeviceFetchDefinition<object>> = {
+  [ZK_SOURCE_TYPE]: {
+    parseConfig: parseZkDeviceConfig,
+    fetch: (config: ZkDeviceConfig, deviceId, state) => fetchZkTime(config, state, deviceId),
+  },
+  [BIOTIME_SOURCE_TYPE]: {
+    parseConfig: parseBiotimeConfig,
+    fetch: (config: BiotimeConfig, deviceId, state) => fetchBiotime(config, state, deviceId ?? undefined),
+  },
+  [SECURELINK_SOURCE_TYPE]: {
+    parseConfig: parseSecureLinkConfig,
+    fetch: (config: SecureLinkConfig, deviceId, state, params) => fetchSecureLink(config, state, params, deviceId ?? undefined),
+  },
+};
@@ -0,0 +1,221 @@
+// Server-side store for background job schedules, settings and run history.
+// A job is claimed by setting `running_since`, which keeps two runs of the same job from
+// overlapping even across route bundles or processes sharing the database.
+
+import { getDb } from '@/lib/server/db';
+import {
+  SCHEDULER_JOB_IDS,
+  SCHEDULER_JOB_LABELS,
+  frequencyToMs,
+  type SchedulerJob,
+  type SchedulerJobId,
+  type SchedulerJobState,
+  type SchedulerRunStatus,
+} from '@/lib/scheduler/api';
+
+// A run still marked as running after this long belongs to a process that died mid-run.
+const STALE_RUN_MS = 30 * 60 * 1000;
+const FALLBACK_INTERVAL_MS = 30 * 60 * 1000;
+
+const DEFAULT_FREQUENCIES: Record<SchedulerJobId, string> = {
+  odoo_push: '15m',
+  securelink_fetch: '30m',
+  biotime_fetch: '30m',
+  zktime_fetch: '30m',
+  log_retention: '1h',
+};
+
+// Jobs that work without any settings start enabled; the others are enabled from their page.
+const ENABLED_BY_DEFAULT: SchedulerJobId[] = ['log_retention'];
+
+// Jobs whose settings hold no credentials, so their page can read them back.
+const BROWSER_VISIBLE_SETTINGS: SchedulerJobId[] = ['log_retention'];
+
+interface JobRow {
+  id: SchedulerJobId;
+  enabled: number;
+  frequency: string;
+  config: string | null;
+  state: string | null;
+  running_since: string | null;
+  last_run_at: string | null;
+  last_status: SchedulerRunStatus | null;
+  last_message: string | null;
+  last_success_at: string | null;
+  next_run_at: string | null;
+}
+
+export interface ClaimedJob {
+  id: SchedulerJobId;
+  config: Record<string, unknown> | null;
+  state: SchedulerJobState;
+  startedAt: string;
+}
+
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function nextRunAt(frequency: string): string {
+  return new Date(Date.now() + (frequencyToMs(frequency) ?? FALLBACK_INTERVAL_MS)).toISOString();
+}
+
+function isStale(runningSince: string | null): boolean {
+  return runningSince !== null && Date.now() - new Date(runningSince).getTime() > STALE_RUN_MS;
+}
+
+function toJob(row: JobRow): SchedulerJob {
+  const running = row.running_since !== null && !isStale(row.running_since);
+  return {
+    id: row.id,
+    label: SCHEDULER_JOB_LABELS[row.id],
+    enabled: row.enabled === 1,
+    frequency: row.frequency,
+    configured: row.config !== null,
+    settings: BROWSER_VISIBLE_SETTINGS.includes(row.id) ? parseJson<object | null>(row.config, null) : undefined,
+    state: parseJson<SchedulerJobState>(row.state, {}),
+    running,
+    runningSince: running ? row.running_since : null,
+    lastRunAt: row.last_run_at,
+    lastStatus: row.last_status,
+    lastMessage: row.last_message,
+    lastSuccessAt: row.last_success_at,
+    nextRunAt: row.next_run_at,
+  };
+}
+
+function ensureJobs(): void {
+  const insert = getDb().prepare('INSERT OR IGNORE INTO scheduler_jobs (id, enabled, frequency, updated_at) VALUES (?, ?, ?, ?)');
+  const now = new Date().toISOString();
+  for (const id of SCHEDULER_JOB_IDS) insert.run(id, ENABLED_BY_DEFAULT.includes(id) ? 1 : 0, DEFAULT_FREQUENCIES[id], now);
+}
+
+function getJobRow(jobId: SchedulerJobId): JobRow {
+  ensureJobs();
+  return getDb().prepare('SELECT * FROM scheduler_jobs WHERE id = ?').get(jobId) as JobRow;
+}
+
+export function getSchedulerJob(jobId: SchedulerJobId): SchedulerJob {
+  return toJob(getJobRow(jobId));
+}
+
+export function listSchedulerJobs(): SchedulerJob[] {
+  ensureJobs();
+  const rows = getDb().prepare('SELECT * FROM scheduler_jobs').all() as JobRow[];
+  return SCHEDULER_JOB_IDS.map(id => toJob(rows.find(row => row.id === id)!));
+}
+
+/**
+ * Lists enabled jobs whose next run is due (or was never scheduled).
+ */
+export function listDueJobIds(now: Date): SchedulerJobId[] {
+  ensureJobs();
+  const rows = getDb().prepare(`
+    SELECT id FROM scheduler_jobs WHERE enabled = 1 AND (next_run_at IS NULL OR next_run_at <= ?)
+  `).all(now.toISOString()) as Array<{ id: SchedulerJobId }>;
+  return rows.map(row => row.id);
+}
+
+/**
+ * Updates a job's schedule and settings. Enabling a job or changing its frequency reschedules it
+ * one interval from now.
+ */
+export function updateSchedulerJob(
+  jobId: SchedulerJobId,
+  update: { enabled?: boolean; frequency?: string; config?: object | null; initialState?: SchedulerJobState }
+): SchedulerJob {
+  const current = getJobRow(jobId);
+  const enabled = update.enabled ?? current.enabled === 1;
+  const frequency = update.frequency ?? current.frequency;
+  const reschedule = enabled && (current.enabled !== 1 || frequency !== current.frequency || !current.next_run_at);
+  const hasState = current.state !== null && Object.keys(parseJson(current.state, {})).length > 0;
+
+  getDb().prepare(`
+    UPDATE scheduler_jobs SET
+      enabled = @enabled,
+      frequency = @frequency,
+      config = @config,
+      state = @state,
+      next_run_at = @next_run_at,
+      updated_at = @updated_at
+    WHERE id = @id
+  `).run({
+    id: jobId,
+    enabled: enabled ? 1 : 0,
+    frequency,
+    config: update.config === undefined ? current.config : update.config === null ? null : JSON.stringify(update.config),
+    state: !hasState && update.initialState ? JSON.stringify(update.initialState) : current.state,
+    next_run_at: !enabled ? null : reschedule ? nextRunAt(frequency) : current.next_run_at,
+    updated_at: new Date().toISOString(),
+  });
+  return getSchedulerJob(jobId);
+}
+
+/**
+ * Clears a job's state (e.g. its import watermark). Refused while the job is running.
+ * @returns {boolean} False if the job is running.
+ */
+export function clearSchedulerJobState(jobId: SchedulerJobId): boolean {
+  const job = getSchedulerJob(jobId);
+  if (job.running) return false;
+  getDb().prepare('UPDATE scheduler_jobs SET state = NULL, updated_at = ? WHERE id = ?').run(new Date().toISOString(), jobId);
+  return true;
+}
+
+/**
+ * Marks a job as running unless another run holds it, and schedules its next run if it is enabled.
+ * @returns The job's settings and state, or null if it is already running.
+ */
+export function claimSchedulerJob(jobId: SchedulerJobId): ClaimedJob | null {
+  const db = getDb();
+  const current = getJobRow(jobId);
+  const startedAt = new Date().toISOString();
+  const claimed = db.prepare(`
+    UPDATE scheduler_jobs SET running_since = @started_at, next_run_at = @next_run_at
+    WHERE id = @id AND (running_since IS NULL OR running_since < @stale_before)
+  `).run({
+    id: jobId,
+    started_at: startedAt,
+    next_run_at: current.enabled === 1 ? nextRunAt(current.frequency) : null,
+    stale_before: new Date(Date.now() - STALE_RUN_MS).toISOString(),
+  }).changes === 1;
+
+  if (!claimed) return null;
+  return { id: jobId, config: parseJson(current.config, null), state: parseJson(current.state, {}), startedAt };
+}
+
+/**
+ * Releases a claimed job and records the outcome of the run. Does nothing if the claim went stale
+ * and another run has taken the job over.
+ * @param outcome - The run result; `state`, when given, replaces the job's state.
+ */
+export function finishSchedulerJob(
+  claim: ClaimedJob,
+  outcome: { status: SchedulerRunStatus; message: string; state?: SchedulerJobState }
+): SchedulerJob {
+  getDb().prepare(`
+    UPDATE scheduler_jobs SET
+      running_since = NULL,
+      last_run_at = @last_run_at,
+      last_status = @last_status,
+      last_message = @last_message,
+      last_success_at = CASE WHEN @last_status = 'success' THEN @last_run_at ELSE last_success_at END,
+      state = COALESCE(@state, state),
+      updated_at = @updated_at
+    WHERE id = @id AND running_since = @started_at
+  `).run({
+    id: claim.id,
+    started_at: claim.startedAt,
+    last_run_at: claim.startedAt,
+    last_status: outcome.status,
+    last_message: outcome.message,
+    state: outcome.state ? JSON.stringify(outcome.state) : null,
+    updated_at: new Date().toISOString(),
+  });
+  return getSchedulerJob(claim.id);
+}
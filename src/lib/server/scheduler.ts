@@ -0,0 +1,129 @@
+// In-process background scheduler. Started once per server process from src/instrumentation.ts;
+// every tick it runs the enabled jobs and fetches the enabled registered devices that are due. Claims
+// live in the database (see scheduler-store.ts and device-store.ts), so a job or device fetch never
+// overlaps itself, including with a manual run.
+
+import { writeServerLog } from '@/lib/server/log-store';
+import { claimSchedulerJob, finishSchedulerJob, listDueJobIds } from '@/lib/server/scheduler-store';
+import { claimDevice, finishDeviceFetch, listDueDeviceIds } from '@/lib/server/device-store';
+import { DEVICE_FETCHERS, SCHEDULER_JOBS, type DeviceFetchResult, type JobRunResult } from '@/lib/server/scheduler-jobs';
+import { newCorrelationId, type LogEntryStatus } from '@/lib/app-logger';
+import type { SchedulerJob, SchedulerJobId, SchedulerRunStatus } from '@/lib/scheduler/api';
+import type { Device } from '@/lib/devices';
+
+const TICK_INTERVAL_MS = 30000;
+
+const LOG_STATUS_BY_OUTCOME: Record<SchedulerRunStatus, LogEntryStatus> = {
+  success: 'Success',
+  error: 'Error',
+  skipped: 'Info',
+};
+
+// Keep a single timer across Next.js hot reloads.
+const globalForScheduler = globalThis as unknown as { __uhhBapScheduler?: ReturnType<typeof setInterval> };
+
+/**
+ * Runs a job unless it is already running and records the outcome.
+ * @param params - Job-specific options for this run only. A string `correlationId` ties the run's log entries
+ *   to those of the page that started it; otherwise the run gets a new one.
+ * @param trigger - What started the run, for the server log.
+ * @returns {Promise<SchedulerJob | null>} The job after the run, or null if another run holds it.
+ */
+export async function executeSchedulerJob(
+  jobId: SchedulerJobId,
+  params: Record<string, unknown> = {},
+  trigger: 'scheduled' | 'manual' = 'scheduled'
+): Promise<SchedulerJob | null> {
+  const claim = claimSchedulerJob(jobId);
+  if (!claim) return null;
+
+  const job = SCHEDULER_JOBS[jobId];
+  const correlationId = typeof params.correlationId === 'string' && params.correlationId ? params.correlationId : newCorrelationId();
+  const startedAt = Date.now();
+  let outcome: JobRunResult;
+  let failure: unknown;
+  try {
+    const rawConfig = claim.config ?? job.defaultConfig ?? null;
+    const config = rawConfig ? job.parseConfig(rawConfig) : null;
+    if (config === null) {
+      outcome = { status: 'skipped', message: job.notConfiguredMessage };
+    } else if (typeof config === 'string') {
+      outcome = { status: 'error', message: `Saved settings are invalid: ${config}` };
+    } else {
+      outcome = await job.run(config, claim.state, params, { correlationId });
+    }
+  } catch (error) {
+    failure = error;
+    outcome = { status: 'error', message: error instanceof Error ? error.message : String(error) };
+  }
+
+  writeServerLog('Scheduler', `${trigger} run of '${jobId}' finished (${outcome.status}): ${outcome.message}`, LOG_STATUS_BY_OUTCOME[outcome.status], {
+    correlationId,
+    context: { jobId, trigger, status: outcome.status, durationMs: Date.now() - startedAt },
+    error: failure,
+  });
+  return finishSchedulerJob(claim, outcome);
+}
+
+/**
+ * Fetches a registered device unless a fetch of it is already running, and records the outcome on the device.
+ * @param params - Fetch options for this run only; a string `correlationId` as for executeSchedulerJob.
+ * @returns {Promise<Device | null>} The device after the fetch, or null if it is unknown or another fetch holds it.
+ */
+export async function executeDeviceFetch(
+  id: string,
+  params: Record<string, unknown> = {},
+  trigger: 'scheduled' | 'manual' = 'scheduled'
+): Promise<Device | null> {
+  const claim = claimDevice(id);
+  if (!claim) return null;
+
+  const fetcher = DEVICE_FETCHERS[claim.sourceType];
+  const correlationId = typeof params.correlationId === 'string' && params.correlationId ? params.correlationId : newCorrelationId();
+  const startedAt = Date.now();
+  let outcome: DeviceFetchResult;
+  let failure: unknown;
+  try {
+    const config = fetcher && claim.config ? fetcher.parseConfig(claim.config) : null;
+    if (config === null) {
+      outcome = { status: 'skipped', message: 'The device has no connection settings to fetch with.' };
+    } else if (typeof config === 'string') {
+      outcome = { status: 'error', message: `Saved settings are invalid: ${config}` };
+    } else {
+      outcome = await fetcher.fetch(config, claim.deviceId, claim.state, params);
+    }
+  } catch (error) {
+    failure = error;
+    outcome = { status: 'error', message: error instanceof Error ? error.message : String(error) };
+  }
+
+  writeServerLog('Scheduler', `${trigger} fetch of device '${claim.name}' finished (${outcome.status}): ${outcome.message}`, LOG_STATUS_BY_OUTCOME[outcome.status], {
+    correlationId,
+    context: { deviceId: claim.id, sourceType: claim.sourceType, deviceSerial: claim.deviceId, trigger, status: outcome.status, durationMs: Date.now() - startedAt },
+    error: failure,
+  });
+  return finishDeviceFetch(claim, outcome);
+}
+
+function tick(): void {
+  try {
+    const now = new Date();
+    for (const jobId of listDueJobIds(now)) {
+      void executeSchedulerJob(jobId, {}, 'scheduled');
+    }
+    for (const deviceId of listDueDeviceIds(now)) {
+      void executeDeviceFetch(deviceId, {}, 'scheduled');
+    }
+  } catch (error) {
+    console.error('Scheduler: Error checking for due jobs:', error);
+  }
+}
+
+/**
+ * Starts the scheduler timer. Safe to call more than once.
+ */
+export function startScheduler(): void {
+  if (globalForScheduler.__uhhBapScheduler) return;
+  globalForScheduler.__uhhBapScheduler = setInterval(tick, TICK_INTERVAL_MS);
+  console.log(`Scheduler: Started, checking for due jobs every ${TICK_INTERVAL_MS / 1000}s.`);
+}
@@ -0,0 +1,137 @@
+// Server-side reader for the SecureLink AAS Access database.
+// AAS writes punches to `tmpTRecords` (UserID, RecordDate, RecordType, optionally DeviceID) and
+// people to `Employee`. The file is re-read on every call, so AAS can keep writing to it.
+
+import fs from 'fs/promises';
+import path from 'path';
+import MDBReader from 'mdb-reader';
+import type { SecureLinkConfig, SecureLinkDatabaseSummary, SecureLinkFetchResult, SecureLinkRecord } from '@/lib/securelink/api';
+
+const RECORDS_TABLE = 'tmpTRecords';
+const EMPLOYEE_TABLE = 'Employee';
+// AAS versions name the employee string ID column differently.
+const EMPLOYEE_ID_COLUMNS = ['EmployeeID', 'EmpID', 'EmployeeCode', 'EmpNo'];
+
+/**
+ * Validates database settings from a request body.
+ * @returns The settings, or an error message.
+ */
+export function parseSecureLinkConfig(value: unknown): SecureLinkConfig | string {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  if (typeof raw.filePath !== 'string' || !raw.filePath.trim()) return 'A database file path is required.';
+  if (typeof raw.password !== 'string') return 'A database password is required.';
+  return { filePath: raw.filePath.trim(), password: raw.password };
+}
+
+/**
+ * Access stores wall-clock local time, which mdb-reader returns as if it were UTC.
+ * Rebuild the Date in the server's local time zone.
+ */
+function fromAccessDate(value: Date): Date {
+  return new Date(
+    value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate(),
+    value.getUTCHours(), value.getUTCMinutes(), value.getUTCSeconds()
+  );
+}
+
+async function openDatabase(config: SecureLinkConfig): Promise<MDBReader> {
+  if (!/\.(mdb|accdb)$/i.test(config.filePath)) {
+    throw new Error('The database path must point to an .mdb or .accdb file.');
+  }
+  let buffer: Buffer;
+  try {
+    buffer = await fs.readFile(config.filePath);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    throw new Error(code === 'ENOENT' ? `File not found: ${config.filePath}` : `Cannot read ${config.filePath} (${code || error}).`);
+  }
+
+  let reader: MDBReader;
+  try {
+    reader = new MDBReader(buffer, { password: config.password });
+  } catch (error) {
+    throw new Error(`Unable to open database. Check the password. (${error instanceof Error ? error.message : String(error)})`);
+  }
+  // Jet 3/4 database passwords are only stored in the header, so the reader can open the file without it.
+  const storedPassword = reader.getPassword();
+  if (storedPassword && storedPassword !== config.password) {
+    throw new Error('Invalid database password.');
+  }
+  if (!reader.getTableNames().includes(RECORDS_TABLE)) {
+    throw new Error(`Table '${RECORDS_TABLE}' not found. Is this an AAS database?`);
+  }
+  return reader;
+}
+
+/**
+ * Builds a UserID -> employee string ID lookup from the Employee table, if it has a usable column.
+ */
+function readEmployeeIds(reader: MDBReader): Map<string, string> {
+  const lookup = new Map<string, string>();
+  if (!reader.getTableNames().includes(EMPLOYEE_TABLE)) return lookup;
+  const table = reader.getTable(EMPLOYEE_TABLE);
+  const columns = table.getColumnNames();
+  const idColumn = EMPLOYEE_ID_COLUMNS.find(name => columns.includes(name));
+  if (!idColumn || !columns.includes('UserID')) return lookup;
+
+  for (const row of table.getData({ columns: ['UserID', idColumn] })) {
+    const employeeId = row[idColumn];
+    if (row.UserID !== null && employeeId !== null && String(employeeId).trim()) {
+      lookup.set(String(row.UserID), String(employeeId).trim());
+    }
+  }
+  return lookup;
+}
+
+/**
+ * Opens the database and summarizes it without reading every column.
+ */
+export async function summarizeSecureLinkDatabase(config: SecureLinkConfig): Promise<SecureLinkDatabaseSummary> {
+  const reader = await openDatabase(config);
+  const records = reader.getTable(RECORDS_TABLE);
+  let latest: Date | null = null;
+  for (const row of records.getData({ columns: ['RecordDate'] })) {
+    if (row.RecordDate instanceof Date && (!latest || row.RecordDate > latest)) latest = row.RecordDate;
+  }
+  return {
+    recordCount: records.rowCount,
+    employeeCount: reader.getTableNames().includes(EMPLOYEE_TABLE) ? reader.getTable(EMPLOYEE_TABLE).rowCount : 0,
+    latestRecordDate: latest ? fromAccessDate(latest).toISOString() : null,
+  };
+}
+
+/**
+ * Reads punches with `after < RecordDate <= upTo`, oldest first.
+ * @param after - Watermark: the newest record date already imported (exclusive).
+ * @param upTo - Upper bound (inclusive); defaults to no bound.
+ */
+export async function readSecureLinkRecords(config: SecureLinkConfig, after?: Date, upTo?: Date): Promise<SecureLinkFetchResult> {
+  const reader = await openDatabase(config);
+  const table = reader.getTable(RECORDS_TABLE);
+  const hasDeviceColumn = table.getColumnNames().includes('DeviceID');
+  const employeeIds = readEmployeeIds(reader);
+  const fallbackDeviceId = path.basename(config.filePath);
+
+  const records: SecureLinkRecord[] = [];
+  let alreadyImported = 0;
+  for (const row of table.getData()) {
+    if (!(row.RecordDate instanceof Date) || row.UserID === null) continue;
+    const recordDate = fromAccessDate(row.RecordDate);
+    if (upTo && recordDate > upTo) continue;
+    if (after && recordDate <= after) {
+      alreadyImported++;
+      continue;
+    }
+    const userId = String(row.UserID);
+    records.push({
+      userId,
+      employeeId: employeeIds.get(userId) ?? userId,
+      recordDate: recordDate.toISOString(),
+      recordType: String(row.RecordType ?? ''),
+      deviceId: hasDeviceColumn && row.DeviceID !== null ? String(row.DeviceID) : fallbackDeviceId,
+    });
+  }
+
+  records.sort((a, b) => a.recordDate.localeCompare(b.recordDate));
+  return { records, alreadyImported };
+}
@@ -0,0 +1,520 @@
+// Node implementation of the ZKTeco standalone device protocol ("ZK protocol", port 4370).
+// The same binary packets travel over UDP (one packet per datagram) or TCP (each packet wrapped
+// in an 8-byte frame header). Only the commands needed to download users and attendance logs
+// are implemented. Uses Node sockets, so this module must only be imported from server code.
+
+import dgram from 'dgram';
+import net from 'net';
+import type { ZkAttendanceRecord, ZkDeviceConfig, ZkDeviceData, ZkDeviceInfo, ZkUser } from '@/lib/zkteco/time/api';
+
+const CMD_CONNECT = 1000;
+const CMD_EXIT = 1001;
+const CMD_ENABLEDEVICE = 1002;
+const CMD_DISABLEDEVICE = 1003;
+const CMD_AUTH = 1102;
+const CMD_GET_VERSION = 1100;
+const CMD_OPTIONS_RRQ = 11;
+const CMD_GET_FREE_SIZES = 50;
+const CMD_ATTLOG_RRQ = 13;
+const CMD_USERTEMP_RRQ = 9;
+const CMD_PREPARE_DATA = 1500;
+const CMD_DATA = 1501;
+const CMD_FREE_DATA = 1502;
+const CMD_PREPARE_BUFFER = 1503;
+const CMD_READ_BUFFER = 1504;
+const CMD_ACK_OK = 2000;
+const CMD_ACK_DATA = 2002;
+const CMD_ACK_UNAUTH = 2005;
+
+const FCT_USER = 5;
+
+const TCP_MAGIC_1 = 0x5050;
+const TCP_MAGIC_2 = 0x7d82;
+const USHRT_MAX = 0xffff;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+interface ZkPacket {
+  command: number;
+  sessionId: number;
+  replyId: number;
+  data: Buffer;
+}
+
+/**
+ * Computes the 16-bit one's-complement checksum over a packet whose checksum field is zero.
+ */
+function createChecksum(packet: Buffer): number {
+  let checksum = 0;
+  let i = 0;
+  for (; i + 1 < packet.length; i += 2) {
+    checksum += packet.readUInt16LE(i);
+    if (checksum > USHRT_MAX) checksum -= USHRT_MAX;
+  }
+  if (i < packet.length) checksum += packet[packet.length - 1];
+  while (checksum > USHRT_MAX) checksum -= USHRT_MAX;
+  checksum = ~checksum;
+  while (checksum < 0) checksum += USHRT_MAX;
+  return checksum & USHRT_MAX;
+}
+
+/**
+ * Derives the CMD_AUTH payload from the device comm key and the session ID handed out on connect.
+ */
+function makeCommKey(commKey: number, sessionId: number, ticks = 50): Buffer {
+  let k = 0;
+  for (let i = 0; i < 32; i++) {
+    k = (commKey & (1 << i)) ? ((k << 1) | 1) >>> 0 : (k << 1) >>> 0;
+  }
+  k = (k + sessionId) >>> 0;
+
+  const scrambled = Buffer.alloc(4);
+  scrambled.writeUInt32LE(k);
+  const salt = [0x5a, 0x4b, 0x53, 0x4f]; // 'ZKSO'
+  for (let i = 0; i < 4; i++) scrambled[i] ^= salt[i];
+
+  // Swap the two 16-bit halves, then mix in the tick byte.
+  const swapped = Buffer.concat([scrambled.subarray(2, 4), scrambled.subarray(0, 2)]);
+  const b = ticks & 0xff;
+  return Buffer.from([swapped[0] ^ b, swapped[1] ^ b, b, swapped[3] ^ b]);
+}
+
+/**
+ * Decodes the packed device timestamp. Devices keep local wall-clock time without a zone,
+ * so the result is interpreted in the server's local time zone.
+ */
+function decodeTime(encoded: number): Date {
+  let t = encoded;
+  const second = t % 60; t = Math.floor(t / 60);
+  const minute = t % 60; t = Math.floor(t / 60);
+  const hour = t % 24; t = Math.floor(t / 24);
+  const day = (t % 31) + 1; t = Math.floor(t / 31);
+  const month = t % 12; t = Math.floor(t / 12);
+  return new Date(t + 2000, month, day, hour, minute, second);
+}
+
+function readCString(buffer: Buffer, start: number, length: number): string {
+  const raw = buffer.subarray(start, start + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString('utf8').trim();
+}
+
+/**
+ * A single protocol session with a device. Call connect() first and always disconnect() afterwards;
+ * the device only serves a limited number of sessions at a time.
+ */
+export class ZkDeviceClient {
+  private readonly config: ZkDeviceConfig;
+  private readonly timeoutMs: number;
+  private tcpSocket: net.Socket | null = null;
+  private udpSocket: dgram.Socket | null = null;
+  private sessionId = 0;
+  private replyId = USHRT_MAX - 1;
+  private tcpBuffer = Buffer.alloc(0);
+  private queue: ZkPacket[] = [];
+  private waiter: ((packet: ZkPacket | Error) => void) | null = null;
+  private socketError: Error | null = null;
+  private recordCount = 0;
+  private userCount = 0;
+
+  constructor(config: ZkDeviceConfig, timeoutMs = DEFAULT_TIMEOUT_MS) {
+    this.config = config;
+    this.timeoutMs = timeoutMs;
+  }
+
+  private deliver(packet: ZkPacket | Error): void {
+    if (packet instanceof Error) this.socketError = packet;
+    if (this.waiter) {
+      const waiter = this.waiter;
+      this.waiter = null;
+      waiter(packet);
+    } else if (!(packet instanceof Error)) {
+      this.queue.push(packet);
+    }
+  }
+
+  private static parsePacket(raw: Buffer): ZkPacket | null {
+    if (raw.length < 8) return null;
+    return {
+      command: raw.readUInt16LE(0),
+      sessionId: raw.readUInt16LE(4),
+      replyId: raw.readUInt16LE(6),
+      data: raw.subarray(8),
+    };
+  }
+
+  private onTcpData(chunk: Buffer): void {
+    this.tcpBuffer = Buffer.concat([this.tcpBuffer, chunk]);
+    while (this.tcpBuffer.length >= 8) {
+      if (this.tcpBuffer.readUInt16LE(0) !== TCP_MAGIC_1 || this.tcpBuffer.readUInt16LE(2) !== TCP_MAGIC_2) {
+        this.deliver(new Error('Received a malformed TCP frame from the device.'));
+        this.tcpBuffer = Buffer.alloc(0);
+        return;
+      }
+      const length = this.tcpBuffer.readUInt32LE(4);
+      if (this.tcpBuffer.length < 8 + length) return;
+      const packet = ZkDeviceClient.parsePacket(this.tcpBuffer.subarray(8, 8 + length));
+      this.tcpBuffer = this.tcpBuffer.subarray(8 + length);
+      if (packet) this.deliver(packet);
+    }
+  }
+
+  private receivePacket(): Promise<ZkPacket> {
+    const queued = this.queue.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.socketError) return Promise.reject(this.socketError);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiter = null;
+        reject(new Error(`Timed out after ${this.timeoutMs} ms waiting for the device to respond.`));
+      }, this.timeoutMs);
+      this.waiter = (packet) => {
+        clearTimeout(timer);
+        if (packet instanceof Error) reject(packet);
+        else resolve(packet);
+      };
+    });
+  }
+
+  private sendPacket(command: number, data: Buffer = Buffer.alloc(0)): void {
+    this.replyId = (this.replyId + 1) % USHRT_MAX;
+    const packet = Buffer.alloc(8 + data.length);
+    packet.writeUInt16LE(command, 0);
+    packet.writeUInt16LE(0, 2);
+    packet.writeUInt16LE(this.sessionId, 4);
+    packet.writeUInt16LE(this.replyId, 6);
+    data.copy(packet, 8);
+    packet.writeUInt16LE(createChecksum(packet), 2);
+
+    if (this.tcpSocket) {
+      const frame = Buffer.alloc(8);
+      frame.writeUInt16LE(TCP_MAGIC_1, 0);
+      frame.writeUInt16LE(TCP_MAGIC_2, 2);
+      frame.writeUInt32LE(packet.length, 4);
+      this.tcpSocket.write(Buffer.concat([frame, packet]));
+    } else if (this.udpSocket) {
+      this.udpSocket.send(packet, this.config.port, this.config.ip);
+    } else {
+      throw new Error('Not connected to the device.');
+    }
+  }
+
+  private async sendCommand(command: number, data?: Buffer): Promise<ZkPacket> {
+    this.sendPacket(command, data);
+    return this.receivePacket();
+  }
+
+  private static isOk(packet: ZkPacket): boolean {
+    return packet.command === CMD_ACK_OK || packet.command === CMD_PREPARE_DATA || packet.command === CMD_DATA || packet.command === CMD_ACK_DATA;
+  }
+
+  private openSocket(): Promise<void> {
+    if (this.config.protocol === 'udp') {
+      const socket = dgram.createSocket('udp4');
+      socket.on('message', (message) => {
+        const packet = ZkDeviceClient.parsePacket(message);
+        if (packet) this.deliver(packet);
+      });
+      socket.on('error', (error) => this.deliver(error));
+      this.udpSocket = socket;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.config.ip, port: this.config.port });
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Timed out connecting to ${this.config.ip}:${this.config.port}.`));
+      }, this.timeoutMs);
+      socket.once('connect', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      socket.once('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      socket.on('data', (chunk) => this.onTcpData(chunk));
+      socket.on('error', (error) => this.deliver(error));
+      socket.on('close', () => this.deliver(new Error('The device closed the connection.')));
+      this.tcpSocket = socket;
+    });
+  }
+
+  private closeSocket(): void {
+    this.tcpSocket?.destroy();
+    this.udpSocket?.close();
+    this.tcpSocket = null;
+    this.udpSocket = null;
+  }
+
+  /**
+   * Opens the session, authenticating with the comm key when the device asks for it.
+   */
+  async connect(): Promise<void> {
+    await this.openSocket();
+    try {
+      this.sessionId = 0;
+      this.replyId = USHRT_MAX - 1;
+      const response = await this.sendCommand(CMD_CONNECT);
+      this.sessionId = response.sessionId;
+
+      if (response.command === CMD_ACK_UNAUTH) {
+        const auth = await this.sendCommand(CMD_AUTH, makeCommKey(this.config.commKey, this.sessionId));
+        if (auth.command !== CMD_ACK_OK) {
+          throw new Error('Device rejected the communication key.');
+        }
+      } else if (response.command !== CMD_ACK_OK) {
+        throw new Error(`Device refused the connection (reply code ${response.command}).`);
+      }
+    } catch (error) {
+      this.closeSocket();
+      throw error;
+    }
+  }
+
+  /**
+   * Ends the session and closes the socket. Safe to call after a failed command.
+   */
+  async disconnect(): Promise<void> {
+    if (!this.tcpSocket && !this.udpSocket) return;
+    try {
+      if (!this.socketError) await this.sendCommand(CMD_EXIT);
+    } catch {
+      // The socket is closed below either way.
+    } finally {
+      this.closeSocket();
+    }
+  }
+
+  private async readOption(name: string): Promise<string> {
+    const response = await this.sendCommand(CMD_OPTIONS_RRQ, Buffer.from(`${name}\0`, 'ascii'));
+    if (!ZkDeviceClient.isOk(response)) return '';
+    const value = readCString(response.data, 0, response.data.length);
+    return value.includes('=') ? value.substring(value.indexOf('=') + 1) : '';
+  }
+
+  private async readSizes(): Promise<{ users: number; fingers: number; records: number; usersCapacity: number; recordsCapacity: number }> {
+    const response = await this.sendCommand(CMD_GET_FREE_SIZES);
+    if (!ZkDeviceClient.isOk(response) || response.data.length < 80) {
+      throw new Error('Device did not report its record counts.');
+    }
+    const field = (index: number) => response.data.readInt32LE(index * 4);
+    this.userCount = field(4);
+    this.recordCount = field(8);
+    return { users: field(4), fingers: field(6), records: field(8), usersCapacity: field(15), recordsCapacity: field(16) };
+  }
+
+  /**
+   * Reads the serial number, model, firmware and record counts.
+   */
+  async getDeviceInfo(): Promise<ZkDeviceInfo> {
+    const serialNumber = await this.readOption('~SerialNumber');
+    const deviceName = await this.readOption('~DeviceName');
+    const platform = await this.readOption('~Platform');
+    const version = await this.sendCommand(CMD_GET_VERSION);
+    const sizes = await this.readSizes();
+    return {
+      serialNumber,
+      deviceName,
+      platform,
+      firmwareVersion: ZkDeviceClient.isOk(version) ? readCString(version.data, 0, version.data.length) : '',
+      userCount: sizes.users,
+      fingerprintCount: sizes.fingers,
+      recordCount: sizes.records,
+      userCapacity: sizes.usersCapacity,
+      recordCapacity: sizes.recordsCapacity,
+    };
+  }
+
+  private async readChunk(start: number, size: number): Promise<Buffer> {
+    const request = Buffer.alloc(8);
+    request.writeInt32LE(start, 0);
+    request.writeInt32LE(size, 4);
+    const response = await this.sendCommand(CMD_READ_BUFFER, request);
+
+    if (response.command === CMD_DATA) return response.data;
+    if (response.command !== CMD_PREPARE_DATA) {
+      throw new Error(`Device failed to send data chunk at offset ${start} (reply code ${response.command}).`);
+    }
+
+    // The chunk follows as one or more CMD_DATA packets, terminated by CMD_ACK_OK.
+    const parts: Buffer[] = [];
+    for (;;) {
+      const packet = await this.receivePacket();
+      if (packet.command === CMD_DATA) parts.push(packet.data);
+      else if (packet.command === CMD_ACK_OK) break;
+      else throw new Error(`Unexpected reply code ${packet.command} while reading data.`);
+    }
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * Reads a whole data table (users, attendance log) through the device's buffered transfer.
+   */
+  private async readWithBuffer(command: number, fct = 0, ext = 0): Promise<Buffer> {
+    const maxChunk = this.config.protocol === 'tcp' ? 0xffc0 : 16 * 1024;
+    const request = Buffer.alloc(11);
+    request.writeInt8(1, 0);
+    request.writeInt16LE(command, 1);
+    request.writeInt32LE(fct, 3);
+    request.writeInt32LE(ext, 7);
+
+    const response = await this.sendCommand(CMD_PREPARE_BUFFER, request);
+    if (response.command === CMD_DATA) return response.data;
+    if (response.command !== CMD_ACK_OK || response.data.length < 5) {
+      throw new Error(`Device refused buffered read of command ${command} (reply code ${response.command}).`);
+    }
+
+    const size = response.data.readUInt32LE(1);
+    const chunks: Buffer[] = [];
+    for (let start = 0; start < size; start += maxChunk) {
+      chunks.push(await this.readChunk(start, Math.min(maxChunk, size - start)));
+    }
+    await this.sendCommand(CMD_FREE_DATA);
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Reads the enrolled users. Older firmware uses 28-byte user entries, newer firmware 72-byte entries.
+   */
+  async getUsers(): Promise<ZkUser[]> {
+    await this.readSizes();
+    if (this.userCount === 0) return [];
+
+    const raw = await this.readWithBuffer(CMD_USERTEMP_RRQ, FCT_USER);
+    if (raw.length < 4) return [];
+    const totalSize = raw.readUInt32LE(0);
+    const entrySize = totalSize / this.userCount;
+    const data = raw.subarray(4);
+
+    const users: ZkUser[] = [];
+    if (entrySize === 28) {
+      for (let offset = 0; offset + 28 <= data.length; offset += 28) {
+        users.push({
+          uid: data.readUInt16LE(offset),
+          privilege: data[offset + 2],
+          name: readCString(data, offset + 8, 8),
+          cardNumber: data.readUInt32LE(offset + 16),
+          userId: String(data.readUInt32LE(offset + 24)),
+        });
+      }
+    } else {
+      for (let offset = 0; offset + 72 <= data.length; offset += 72) {
+        users.push({
+          uid: data.readUInt16LE(offset),
+          privilege: data[offset + 2],
+          name: readCString(data, offset + 11, 24),
+          cardNumber: data.readUInt32LE(offset + 35),
+          userId: readCString(data, offset + 48, 24),
+        });
+      }
+    }
+    return users;
+  }
+
+  /**
+   * Reads the full attendance log. 8-byte records only carry the internal user slot, so `users`
+   * is used to translate it back to the enrolled user ID.
+   */
+  async getAttendance(users: ZkUser[] = []): Promise<ZkAttendanceRecord[]> {
+    await this.readSizes();
+    if (this.recordCount === 0) return [];
+
+    const raw = await this.readWithBuffer(CMD_ATTLOG_RRQ);
+    if (raw.length < 4) return [];
+    const totalSize = raw.readUInt32LE(0);
+    const recordSize = totalSize / this.recordCount;
+    const data = raw.subarray(4);
+    const userIdBySlot = new Map(users.map(u => [u.uid, u.userId]));
+
+    const records: ZkAttendanceRecord[] = [];
+    if (recordSize === 8) {
+      for (let offset = 0; offset + 8 <= data.length; offset += 8) {
+        const uid = data.readUInt16LE(offset);
+        records.push({
+          userId: userIdBySlot.get(uid) ?? String(uid),
+          timestamp: decodeTime(data.readUInt32LE(offset + 3)).toISOString(),
+          verifyMode: data[offset + 2],
+          punch: data[offset + 7],
+        });
+      }
+    } else if (recordSize === 16) {
+      for (let offset = 0; offset + 16 <= data.length; offset += 16) {
+        records.push({
+          userId: String(data.readUInt32LE(offset)),
+          timestamp: decodeTime(data.readUInt32LE(offset + 4)).toISOString(),
+          verifyMode: data[offset + 8],
+          punch: data[offset + 9],
+        });
+      }
+    } else {
+      for (let offset = 0; offset + 40 <= data.length; offset += 40) {
+        records.push({
+          userId: readCString(data, offset + 2, 24),
+          verifyMode: data[offset + 26],
+          timestamp: decodeTime(data.readUInt32LE(offset + 27)).toISOString(),
+          punch: data[offset + 31],
+        });
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Locks the keypad while data is downloaded so no punch lands mid-transfer.
+   */
+  async disableDevice(): Promise<void> {
+    await this.sendCommand(CMD_DISABLEDEVICE);
+  }
+
+  async enableDevice(): Promise<void> {
+    await this.sendCommand(CMD_ENABLEDEVICE);
+  }
+}
+
+/**
+ * Validates device connection settings from a request body.
+ * @returns The settings, or an error message.
+ */
+export function parseZkDeviceConfig(value: unknown): ZkDeviceConfig | string {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  if (typeof raw.ip !== 'string' || !raw.ip.trim()) return 'A device IP address is required.';
+  const port = Number(raw.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) return `Invalid port '${raw.port}'.`;
+  if (raw.protocol !== 'tcp' && raw.protocol !== 'udp') return `Invalid protocol '${raw.protocol}'.`;
+  const commKey = Number(raw.commKey ?? 0);
+  if (!Number.isInteger(commKey) || commKey < 0) return 'The communication key must be a non-negative number.';
+  return { ip: raw.ip.trim(), port, protocol: raw.protocol, commKey };
+}
+
+/**
+ * Connects to a device, runs `work` and always disconnects afterwards.
+ */
+export async function withZkDevice<T>(config: ZkDeviceConfig, work: (client: ZkDeviceClient) => Promise<T>): Promise<T> {
+  const client = new ZkDeviceClient(config);
+  await client.connect();
+  try {
+    return await work(client);
+  } finally {
+    await client.disconnect();
+  }
+}
+
+/**
+ * Downloads device info, enrolled users and the full attendance log. The device is disabled while
+ * it is read so no punch is written mid-download.
+ */
+export async function downloadZkDeviceData(config: ZkDeviceConfig): Promise<ZkDeviceData> {
+  return withZkDevice(config, async client => {
+    const deviceInfo = await client.getDeviceInfo();
+    await client.disableDevice();
+    try {
+      const users = await client.getUsers();
+      const records = await client.getAttendance(users);
+      return { deviceInfo, users, records };
+    } finally {
+      await client.enableDevice();
+    }
+  });
+}
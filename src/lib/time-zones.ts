@@ -0,0 +1,70 @@
+// Conversions between instants and wall-clock time in an IANA time zone, built on Intl so no time zone
+// database has to be shipped.
+
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * @returns The IANA time zones the browser knows, for time zone pickers: the local zone and UTC first.
+ */
+export function listTimeZones(): string[] {
+  const local = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return Array.from(new Set([local, 'UTC', ...zones]));
+}
+
+function zonedFields(instant: Date, timeZone: string): ZonedDateTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(instant)) parts[part.type] = part.value;
+  return {
+    year: Number(parts.year), month: Number(parts.month), day: Number(parts.day),
+    hour: Number(parts.hour), minute: Number(parts.minute), second: Number(parts.second),
+  };
+}
+
+/**
+ * Splits an instant into its calendar date (yyyy-MM-dd) and wall-clock time (HH:mm:ss) in a time zone.
+ */
+export function toZonedParts(isoTime: string, timeZone: string): { date: string; time: string } {
+  const f = zonedFields(new Date(isoTime), timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return { date: `${f.year}-${pad(f.month)}-${pad(f.day)}`, time: `${pad(f.hour)}:${pad(f.minute)}:${pad(f.second)}` };
+}
+
+/**
+ * Finds the instant at which clocks in a time zone show the given wall-clock time. Times skipped by a
+ * daylight saving change are read with the offset from before the change; times that occur twice
+ * resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(wallClock: ZonedDateTime, timeZone: string): Date {
+  const asUtc = Date.UTC(wallClock.year, wallClock.month - 1, wallClock.day, wallClock.hour, wallClock.minute, wallClock.second);
+  const offsetAt = (instant: number) => {
+    const f = zonedFields(new Date(instant), timeZone);
+    return Date.UTC(f.year, f.month - 1, f.day, f.hour, f.minute, f.second) - instant;
+  };
+  // Try the offsets in force a day before and a day after; a candidate holds if the zone really uses
+  // that offset at the resulting instant. Neither holds inside a DST gap.
+  const offsetBefore = offsetAt(asUtc - 86400000);
+  const candidates = [offsetBefore, offsetAt(asUtc + 86400000)]
+    .map(offset => asUtc - offset)
+    .filter(instant => offsetAt(instant) === asUtc - instant);
+  return new Date(candidates.length > 0 ? Math.min(...candidates) : asUtc - offsetBefore);
+}
@@ -0,0 +1,78 @@
+// ZKTeco ADMS ("push") integration. Terminals in ADMS mode call the /iclock/* routes on this server
+// themselves, so branches can upload over NAT without being reachable from here.
+// Device state and the command queue live server-side (src/lib/server/adms-store.ts);
+// this module is the client-side entry point for the ADMS page.
+
+export type AdmsCommandStatus = 'pending' | 'sent' | 'done' | 'failed';
+
+export interface AdmsDeviceInfo {
+  firmwareVersion?: string;
+  userCount?: number;
+  fingerprintCount?: number;
+  attendanceCount?: number;
+  deviceIp?: string;
+}
+
+export interface AdmsDevice {
+  serial_number: string;
+  approved: boolean;
+  push_version: string | null;
+  device_info: AdmsDeviceInfo;
+  last_ip: string | null;
+  attlog_stamp: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  user_count: number; // Users uploaded through OPERLOG
+}
+
+export interface AdmsCommand {
+  id: number;
+  serial_number: string;
+  command: string;
+  status: AdmsCommandStatus;
+  return_code: number | null;
+  created_at: string;
+  sent_at: string | null;
+  completed_at: string | null;
+}
+
+export interface AdmsOverview {
+  devices: AdmsDevice[];
+  commands: AdmsCommand[];
+}
+
+export const ADMS_SOURCE_TYPE = 'zkteco_adms';
+
+const ADMS_API_URL = '/api/adms';
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { cache: 'no-store', ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `HTTP ${response.status}`);
+  return body as T;
+}
+
+/**
+ * Lists every device that has contacted the ADMS endpoints and the most recent queued commands.
+ */
+export async function getAdmsOverview(): Promise<AdmsOverview> {
+  return requestJson<AdmsOverview>(ADMS_API_URL);
+}
+
+/**
+ * Approves or blocks a device. Uploads from unapproved devices are refused, so the device keeps them and retries.
+ */
+export async function setAdmsDeviceApproval(serialNumber: string, approved: boolean): Promise<void> {
+  await requestJson(ADMS_API_URL, { method: 'PUT', body: JSON.stringify({ serial_number: serialNumber, approved }) });
+}
+
+/**
+ * Queues a command (e.g. `INFO`, `REBOOT`, `DATA QUERY ATTLOG ...`) for the device's next poll.
+ */
+export async function queueAdmsCommand(serialNumber: string, command: string): Promise<AdmsCommand> {
+  const body = await requestJson<{ command: AdmsCommand }>(`${ADMS_API_URL}/commands`, {
+    method: 'POST',
+    body: JSON.stringify({ serial_number: serialNumber, command }),
+  });
+  return body.command;
+}
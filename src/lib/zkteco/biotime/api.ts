@@ -1,71 +1,110 @@
-// Placeholder for ZKTeco Biotime integration
+// ZKTeco BioTime integration through BioTime's REST API.
+// BioTime servers don't send CORS headers, so login and paging run server-side
+// (src/lib/server/biotime-client.ts behind /api/zkteco-biotime, and the 'biotime_fetch' scheduler job);
+// this module is the client-side entry point.
 
-// Configuration would typically come from environment variables or a settings UI
-// In an Electron app, these might be stored in a local config file or managed via the UI.
-const BIOTIME_IP = process.env.NEXT_PUBLIC_ZK_BIOTIME_IP || '192.168.1.201'; // Example IP
-const BIOTIME_PORT = process.env.NEXT_PUBLIC_ZK_BIOTIME_PORT || '80'; // Biotime often uses web APIs (HTTP/HTTPS)
+import type { NewAttendanceTransaction } from '@/lib/attendance-manager';
+import { createPunchCodeResolver, type PunchCodeResolver } from '@/lib/punch-codes';
+import { ZK_PUNCH_CODES } from '@/lib/zkteco/time/api';
 
-interface ZKTecoResponse {
+export type BiotimeAuthMode = 'jwt' | 'token';
+
+export interface BiotimeConfig {
+  baseUrl: string; // e.g. http://biotime.local:8081
+  username: string;
+  password: string;
+  authMode: BiotimeAuthMode;
+}
+
+export interface BiotimeTransaction {
+  id: number;
+  emp_code: string;
+  punch_time: string; // ISO 8601
+  punch_state: number; // Same attendance states as the devices: 0 check-in, 1 check-out, ...
+  terminal_sn: string;
+  terminal_alias: string;
+}
+
+interface ZKTecoResponse<T> {
   success: boolean;
-  data?: any[];
+  data?: T;
   error?: string;
   message?: string;
 }
 
-/**
- * Fetches attendance data from ZKTeco Biotime.
- * This is a highly abstract placeholder. Actual implementation depends on Biotime's API
- * (if available and documented), direct database access (if feasible and permitted),
- * or a specific SDK if one exists for web environments.
- *
- * @param startDate Optional start date to filter attendance records.
- * @param endDate Optional end date to filter attendance records.
- */
-export async function fetchBiotimeData(startDate?: Date, endDate?: Date): Promise<ZKTecoResponse> {
-  const targetUrl = `http://${BIOTIME_IP}:${BIOTIME_PORT}/api/attendance`; // Example API endpoint
-  console.log(`[ZKTeco Biotime] Simulating fetch from: ${targetUrl}`);
-  if (startDate) console.log(`  Start Date: ${startDate.toISOString()}`);
-  if (endDate) console.log(`  End Date: ${endDate.toISOString()}`);
+export const BIOTIME_SOURCE_TYPE = 'zkteco_biotime';
 
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 300 + Math.random() * 400));
+// Terminals that were offline hand BioTime their punches when they reconnect, dated when they were made,
+// so each fetch re-reads this far before the newest imported punch; dedup_key drops what is already stored.
+export const BIOTIME_LATE_SYNC_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
 
-  try {
-    // In a real Electron app, this might use ipcRenderer to call a main process function
-    // which then performs the actual HTTP request using Node.js.
+const BIOTIME_API_URL = '/api/zkteco-biotime';
 
-    // Simulate a successful API call with placeholder data
-    const placeholderData = [
-      { employeeId: 'EMP001', checkTime: new Date(Date.now() - Math.random()*100000000).toISOString(), deviceId: 'BiotimeDevice_Lobby', type: 'check-in' },
-      { employeeId: 'EMP002', checkTime: new Date(Date.now() - Math.random()*100000000).toISOString(), deviceId: 'BiotimeDevice_Floor2', type: 'check-out' },
-      { employeeId: 'EMP001', checkTime: new Date(Date.now() - Math.random()*1000000).toISOString(), deviceId: 'BiotimeDevice_Lobby', type: 'check-out' },
-    ];
-    
-    // Simulate an error case for demonstration
-    if (BIOTIME_IP === '0.0.0.0') {
-        console.error('[ZKTeco Biotime] Simulated connection error: Invalid IP address.');
-        return { success: false, error: 'Connection error: Invalid IP address configured.', data: [] };
+async function callBiotime<T>(body: Record<string, unknown>): Promise<ZKTecoResponse<T>> {
+  try {
+    const response = await fetch(BIOTIME_API_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return { success: false, error: result.error || `HTTP ${response.status}` };
     }
-
-    return { success: true, data: processBiotimeData(placeholderData), message: `Fetched ${placeholderData.length} records.` };
-
+    return { success: true, data: result as T };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error('[ZKTeco Biotime] Simulated critical error during fetch:', errorMessage);
-    return { success: false, error: `Critical error: ${errorMessage}`, data: [] };
+    console.error('[ZKTeco Biotime] Request to BioTime API route failed:', errorMessage);
+    return { success: false, error: errorMessage };
   }
 }
 
 /**
- * Processes raw data from Biotime into a standardized format if necessary.
- * @param rawData The raw data array from the ZKTeco Biotime device/API.
+ * Logs in to BioTime and checks that transactions are readable.
+ */
+export async function testBiotimeConnection(config: BiotimeConfig): Promise<ZKTecoResponse<{ transactionCount: number }>> {
+  return callBiotime({ action: 'test', config });
+}
+
+/**
+ * Converts BioTime transactions into attendance transactions.
+ * Records at or before `after` (where the fetch resumed) and punch states mapped to 'ignore' are skipped.
+ * @param resolvePunchCode - Maps punch states to types; the standard ZKTeco states by default.
+ * @returns The transactions to store, the number skipped and the newest punch time seen.
  */
-function processBiotimeData(rawData: any[]): any[] {
-  // Example processing: ensure all timestamps are ISO strings, map field names, etc.
-  console.log('[ZKTeco Biotime] Processing raw data...');
-  return rawData.map(record => ({
-    ...record,
-    checkTime: new Date(record.checkTime).toISOString(), // Ensure ISO format
-    source: 'ZKTeco Biotime', // Add source information
-  }));
+export function toBiotimeTransactions(
+  transactions: BiotimeTransaction[],
+  after?: string,
+  resolvePunchCode: PunchCodeResolver = createPunchCodeResolver(ZK_PUNCH_CODES)
+): { transactions: NewAttendanceTransaction[]; skipped: number; latestTimestamp?: string } {
+  const afterTime = after ? new Date(after).getTime() : -Infinity;
+  const toStore: NewAttendanceTransaction[] = [];
+  let skipped = 0;
+  let latest = afterTime;
+
+  for (const transaction of transactions) {
+    const time = new Date(transaction.punch_time).getTime();
+    const deviceId = transaction.terminal_sn || transaction.terminal_alias || 'biotime';
+    const type = resolvePunchCode(deviceId, transaction.punch_state);
+    if (time <= afterTime || type === 'ignore') {
+      skipped++;
+      continue;
+    }
+    latest = Math.max(latest, time);
+    toStore.push({
+      employee_id: transaction.emp_code,
+      transaction_type: type,
+      transaction_time: transaction.punch_time,
+      source_type: BIOTIME_SOURCE_TYPE,
+      device_id: deviceId,
+      punch_code: String(transaction.punch_state),
+      status: 'not_uploaded',
+    });
+  }
+
+  return {
+    transactions: toStore,
+    skipped,
+    latestTimestamp: Number.isFinite(latest) ? new Date(latest).toISOString() : undefined,
+  };
 }
@@ -1,84 +1,137 @@
-// Placeholder for ZKTeco Time (standalone devices, often using SDK) integration
+// ZKTeco Time integration (standalone devices speaking the ZK binary protocol on port 4370).
+// The protocol needs raw TCP/UDP sockets, so the device session runs server-side
+// (src/lib/server/zk-protocol.ts behind /api/zkteco-time, and the 'zktime_fetch' scheduler job);
+// this module is the client-side entry point.
 
-// Configuration for standalone ZKTeco devices
-const ZKTIME_DEVICE_IP = process.env.NEXT_PUBLIC_ZK_TIME_IP || '192.168.1.202'; // Example IP
-const ZKTIME_DEVICE_PORT = parseInt(process.env.NEXT_PUBLIC_ZK_TIME_PORT || '4370', 10); // Default SDK port
+import { createPunchCodeResolver, type PunchCodeResolver } from '@/lib/punch-codes';
+import type { NewAttendanceTransaction, TransactionType } from '@/lib/attendance-manager';
 
-interface ZKTecoResponse {
+export type ZkTransport = 'tcp' | 'udp';
+
+export interface ZkDeviceConfig {
+  ip: string;
+  port: number;
+  protocol: ZkTransport;
+  commKey: number; // 0 when the device has no communication key set
+}
+
+export interface ZkDeviceInfo {
+  serialNumber: string;
+  deviceName: string;
+  platform: string;
+  firmwareVersion: string;
+  userCount: number;
+  fingerprintCount: number;
+  recordCount: number;
+  userCapacity: number;
+  recordCapacity: number;
+}
+
+export interface ZkUser {
+  uid: number; // Internal device slot
+  userId: string; // Enrolled user ID shown on the device
+  name: string;
+  privilege: number;
+  cardNumber: number;
+}
+
+export interface ZkAttendanceRecord {
+  userId: string;
+  timestamp: string; // ISO 8601
+  verifyMode: number; // Fingerprint, password, card, ...
+  punch: number; // Attendance state chosen on the keypad
+}
+
+export interface ZkDeviceData {
+  deviceInfo: ZkDeviceInfo;
+  users: ZkUser[];
+  records: ZkAttendanceRecord[];
+}
+
+interface ZKTecoResponse<T> {
   success: boolean;
-  data?: any[];
+  data?: T;
   error?: string;
   message?: string;
 }
 
-/**
- * Fetches attendance data from a ZKTeco Time device.
- * This is a placeholder. Standalone ZKTeco devices typically require an SDK (e.g., zklib, pyzk)
- * to communicate. In an Electron app, this SDK communication would happen in the main process (Node.js).
- * The renderer process (Next.js UI) would then request data via IPC.
- *
- * @param startDate Optional start date to filter attendance records.
- * @param endDate Optional end date to filter attendance records.
- */
-export async function fetchZkTimeDeviceData(startDate?: Date, endDate?: Date): Promise<ZKTecoResponse> {
-  console.log(`[ZKTeco Time] Simulating fetch from device: ${ZKTIME_DEVICE_IP}:${ZKTIME_DEVICE_PORT}`);
-  if (startDate) console.log(`  Start Date: ${startDate.toISOString()}`);
-  if (endDate) console.log(`  End Date: ${endDate.toISOString()}`);
-  
-  // Simulate network delay / SDK communication time
-  await new Promise(resolve => setTimeout(resolve, 400 + Math.random() * 600));
+export const ZK_SOURCE_TYPE = 'zkteco_time';
+export const DEFAULT_ZK_PORT = 4370;
 
-  try {
-    // In a real Electron app, this would be an IPC call to the main process:
-    // e.g., const result = await window.electronAPI.fetchFromZkDevice({ ip, port, startDate, endDate });
+const ZK_API_URL = '/api/zkteco-time';
 
-    // Simulate a successful data fetch
-    const placeholderData = [
-      { userId: '1001', timestamp: new Date(Date.now() - Math.random()*200000000).toISOString(), status: 0, punch: 0 }, // status/punch are typical SDK fields
-      { userId: '1002', timestamp: new Date(Date.now() - Math.random()*200000000).toISOString(), status: 1, punch: 1 },
-      { userId: '1001', timestamp: new Date(Date.now() - Math.random()*2000000).toISOString(), status: 0, punch: 1 },
-    ];
+// Standard attendance states of ZKTeco clocks, also used by BioTime and ADMS. Devices with custom
+// states get punch-code mappings instead (see src/lib/punch-codes.ts).
+export const ZK_PUNCH_CODES: Record<string, TransactionType> = {
+  '0': 'check-in',
+  '1': 'check-out',
+  '2': 'break-out',
+  '3': 'break-in',
+  '4': 'overtime-in',
+  '5': 'overtime-out',
+};
 
-    // Simulate a connection error
-    if (ZKTIME_DEVICE_IP.startsWith('error')) {
-      console.error('[ZKTeco Time] Simulated connection refused by device.');
-      return { success: false, error: 'Connection refused by device. Check IP and network.', data: [] };
+/**
+ * Connects to the device and reads its serial number, model and record counts.
+ */
+export async function testZkTimeConnection(config: ZkDeviceConfig): Promise<ZKTecoResponse<ZkDeviceInfo>> {
+  try {
+    const response = await fetch(ZK_API_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'info', config }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return { success: false, error: body.error || `HTTP ${response.status}` };
     }
-    
-    return { success: true, data: processZkTimeData(placeholderData), message: `Fetched ${placeholderData.length} records.` };
-
+    return { success: true, data: body as ZkDeviceInfo };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.error('[ZKTeco Time] Simulated critical error during SDK communication:', errorMessage);
-    return { success: false, error: `Critical SDK error: ${errorMessage}`, data: [] };
+    console.error('[ZKTeco Time] Request to device API failed:', errorMessage);
+    return { success: false, error: errorMessage };
   }
 }
 
 /**
- * Processes raw data from a ZKTeco Time device SDK into a standardized format.
- * @param rawData The raw data array from the ZKTeco SDK.
+ * Converts device records into attendance transactions.
+ * Records at or before `after` (the newest record already imported) and punch states mapped to 'ignore' are skipped.
+ * @param resolvePunchCode - Maps punch states to types; the standard states by default.
+ * @returns The transactions to store, the number skipped and the newest record time seen.
  */
-function processZkTimeData(rawData: any[]): any[] {
-  console.log('[ZKTeco Time] Processing raw SDK data...');
-  return rawData.map(record => ({
-    employeeId: String(record.userId), // Standardize field name
-    checkTime: new Date(record.timestamp).toISOString(),
-    // Map SDK status/punch codes to meaningful types like 'check-in', 'check-out'
-    type: mapPunchType(record.punch, record.status), 
-    deviceId: ZKTIME_DEVICE_IP, // Add device identifier
-    source: 'ZKTeco Time Device',
-  }));
-}
+export function toZkTimeTransactions(
+  records: ZkAttendanceRecord[],
+  deviceSerial: string,
+  after?: string,
+  resolvePunchCode: PunchCodeResolver = createPunchCodeResolver(ZK_PUNCH_CODES)
+): { transactions: NewAttendanceTransaction[]; skipped: number; latestTimestamp?: string } {
+  const afterTime = after ? new Date(after).getTime() : -Infinity;
+  const transactions: NewAttendanceTransaction[] = [];
+  let skipped = 0;
+  let latest = afterTime;
 
-/**
- * Helper to map ZKTeco punch/status codes to human-readable types.
- * This is an example; actual codes vary by device/firmware.
- */
-function mapPunchType(punch: number, status: number): string {
-  // Example mapping (highly dependent on device firmware)
-  if (punch === 0) return 'check-in';
-  if (punch === 1) return 'check-out';
-  if (punch === 4) return 'overtime-in';
-  if (punch === 5) return 'overtime-out';
-  return `unknown (p:${punch}, s:${status})`;
+  for (const record of records) {
+    const time = new Date(record.timestamp).getTime();
+    const type = resolvePunchCode(deviceSerial, record.punch);
+    if (time <= afterTime || type === 'ignore') {
+      skipped++;
+      continue;
+    }
+    latest = Math.max(latest, time);
+    transactions.push({
+      employee_id: record.userId,
+      transaction_type: type,
+      transaction_time: record.timestamp,
+      source_type: ZK_SOURCE_TYPE,
+      device_id: deviceSerial,
+      punch_code: String(record.punch),
+      status: 'not_uploaded',
+    });
+  }
+
+  return {
+    transactions,
+    skipped,
+    latestTimestamp: Number.isFinite(latest) ? new Date(latest).toISOString() : undefined,
+  };
 }
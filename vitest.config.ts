@@ -0,0 +1,13 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Each test file gets its own in-memory database (see src/lib/server/db.ts).
+    env: { APP_DB_PATH: ':memory:' },
+  },
+});